@@ -445,6 +445,20 @@ export async function POST(req: Request) {
           message: "Archive-node action queued. The user can apply or reject it in the chat.",
         }),
       }),
+      tagGraphNodes: tool({
+        description:
+          "Add or remove user tags on one or more nodes, e.g. to group sources by theme or mark them for follow-up. Reuse the hole's existing tag names where they fit. The action will be queued for the user to apply.",
+        inputSchema: z.object({
+          nodeIds: z.array(z.string()).min(1).describe("IDs of the nodes to tag"),
+          addTags: z.array(z.string()).optional().describe("Tags to add"),
+          removeTags: z.array(z.string()).optional().describe("Tags to remove"),
+        }),
+        execute: async () => ({
+          queued: true,
+          action: "tagGraphNodes",
+          message: "Tag-nodes action queued. The user can apply or reject it in the chat.",
+        }),
+      }),
       relayoutGraph: tool({
         description:
           "Trigger a graph layout recomputation so nodes are repositioned. The action will be queued for the user to apply.",
@@ -7,6 +7,7 @@ import {
 } from "@/lib/api/semantic-scholar";
 import { getWork } from "@/lib/api/openalex";
 import { findOpenAccess } from "@/lib/api/unpaywall";
+import { getWorkWithReferences, mergeCrossref } from "@/lib/api/crossref";
 import { canonicalIdToS2Query, mergePapers, resolvePaper } from "@/lib/api/paper-resolver";
 
 interface EnrichResult {
@@ -33,13 +34,24 @@ export async function POST(req: NextRequest) {
     const s2Query = canonicalIdToS2Query(paperId);
 
     // Fetch primary paper data and citations/references in parallel
-    const [s2Paper, citations, references] = await Promise.all([
-      getPaper(s2Query),
+    const [s2Paper, citations, s2References] = await Promise.all([
+      getPaper(s2Query).catch(() => null),
       getPaperCitations(s2Query, { limit: 50 }).catch(() => []),
       getPaperReferences(s2Query, { limit: 50 }).catch(() => []),
     ]);
 
-    let paper = resolvePaper(s2Paper);
+    // DOI-only papers S2 doesn't know can still be enriched from Crossref
+    const doi = s2Paper
+      ? s2Paper.externalIds.doi
+      : paperId.startsWith("doi:") ? paperId.slice(4) : undefined;
+    const crossref = doi ? await getWorkWithReferences(doi).catch(() => null) : null;
+    const basePaper = s2Paper ?? crossref?.paper;
+    if (!basePaper) throw new Error(`Paper not found: ${paperId}`);
+
+    let paper = resolvePaper(basePaper);
+    // Fall back to the deposited reference list when S2 has none
+    const references =
+      s2References.length === 0 && crossref ? crossref.references.slice(0, 50) : s2References;
 
     // Enrich with OpenAlex and Unpaywall in parallel (async-parallel)
     const openAlexPromise =
@@ -59,6 +71,8 @@ export async function POST(req: NextRequest) {
     ]);
 
     if (oaPaper) paper = mergePapers(paper, oaPaper);
+    // Last, so Crossref's bibliographic fields take precedence
+    if (crossref) paper = mergeCrossref(paper, crossref.paper);
     if (oaResult?.isOpenAccess && oaResult.bestUrl) {
       paper = { ...paper, openAccessPdf: oaResult.bestUrl };
     }
@@ -12,6 +12,12 @@ import {
   getPaperReferences,
 } from "@/lib/api/semantic-scholar";
 import { findSimilar, searchPapers as exaSearchPapers } from "@/lib/api/exa";
+import {
+  getPaper as pubmedGetPaper,
+  getCitations as pubmedGetCitations,
+  getReferences as pubmedGetReferences,
+  isValidPmid,
+} from "@/lib/api/pubmed";
 import {
   canonicalIdToS2Query,
   resolvePaper,
@@ -73,6 +79,7 @@ export async function POST(req: NextRequest) {
     let sourcePaper: PaperMetadata | null = null;
     let candidates: PaperMetadata[] = [];
     let usedSemanticScholar = false;
+    let usedPubMed = false;
 
     // Prefer S2-backed expansion when the node has a canonical paper identifier.
     const canonicalId = inferCanonicalId(nodeId, sourceExternalIds);
@@ -145,8 +152,37 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // Fallback for URL/article nodes without S2 IDs.
-    if (!usedSemanticScholar) {
+    // PubMed records S2 doesn't know: follow Europe PMC's reference and citation lists
+    const pmid = canonicalId?.startsWith("pmid:")
+      ? canonicalId.slice(5)
+      : sourceExternalIds?.pubmedId;
+    if (!usedSemanticScholar && pmid && isValidPmid(pmid) && mode !== "contrasting") {
+      try {
+        const [paper, linked] = await Promise.all([
+          pubmedGetPaper(pmid),
+          mode === "foundational"
+            ? pubmedGetReferences(pmid, { pageSize: budget * 2 })
+            : pubmedGetCitations(pmid, { pageSize: budget * 2 }),
+        ]);
+        sourcePaper = paper;
+        candidates =
+          mode === "foundational"
+            ? linked.sort((a, b) => b.citationCount - a.citationCount).slice(0, budget)
+            : linked
+                .filter((p) => p.year)
+                .sort((a, b) => (b.year || 0) - (a.year || 0))
+                .slice(0, budget);
+        usedPubMed = candidates.length > 0;
+      } catch (err) {
+        console.warn(
+          "[research-rodeo] [expand] PubMed expansion failed; falling back to Exa:",
+          err instanceof Error ? err.message : err
+        );
+      }
+    }
+
+    // Fallback for URL/article nodes without S2 or PubMed IDs.
+    if (!usedSemanticScholar && !usedPubMed) {
       const sourceTitleOrUrl = sourceTitle?.trim() || sourceUrl?.trim();
       if (!sourceTitleOrUrl) {
         return NextResponse.json<ApiResponse<never>>(
@@ -226,7 +262,7 @@ export async function POST(req: NextRequest) {
         target: paper.id,
         type: edgeType,
         trust:
-          usedSemanticScholar && mode !== "contrasting"
+          (usedSemanticScholar || usedPubMed) && mode !== "contrasting"
             ? ("source-backed" as const)
             : ("inferred" as const),
         weight: 0.5,
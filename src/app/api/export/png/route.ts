@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import sharp from "sharp";
+
+const MAX_SVG_BYTES = 20 * 1024 * 1024;
+const MAX_SCALE = 4;
+// Keep rasterized output within a sane pixel budget (~64 MP)
+const MAX_PIXELS = 64_000_000;
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Rasterize a canvas SVG (built client-side by renderGraphSVG) to PNG at the
+ * requested scale.
+ */
+export async function POST(req: Request) {
+  try {
+    const { svg, scale: rawScale }: { svg?: string; scale?: number } = await req.json();
+
+    if (!svg || typeof svg !== "string" || !svg.trimStart().startsWith("<svg")) {
+      return NextResponse.json(
+        { error: "An SVG document is required", status: "error" },
+        { status: 400 }
+      );
+    }
+    if (svg.length > MAX_SVG_BYTES) {
+      return NextResponse.json(
+        { error: "SVG is too large to rasterize", status: "error" },
+        { status: 413 }
+      );
+    }
+
+    let scale = Math.min(Math.max(Number(rawScale) || 1, 1), MAX_SCALE);
+    const meta = await sharp(Buffer.from(svg)).metadata();
+    const pixels = (meta.width ?? 0) * (meta.height ?? 0);
+    if (pixels > 0 && pixels * scale * scale > MAX_PIXELS) {
+      scale = Math.max(1, Math.sqrt(MAX_PIXELS / pixels));
+    }
+
+    console.log(
+      "[research-rodeo] [export/png] size:", `${meta.width}x${meta.height}`,
+      "scale:", scale.toFixed(2)
+    );
+
+    const result = await sharp(Buffer.from(svg), { density: 72 * scale, limitInputPixels: false })
+      .png({ compressionLevel: 9, adaptiveFiltering: true })
+      .toBuffer();
+
+    return new NextResponse(new Uint8Array(result), {
+      headers: {
+        "Content-Type": "image/png",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[research-rodeo] [export/png] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "PNG export failed", status: "error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,21 @@
 import { NextResponse } from "next/server";
-import { generateBibTeX, generateRIS, generateMarkdownReview } from "@/lib/utils/export";
-import type { PaperMetadata, Cluster } from "@/types";
+import {
+  generateBibTeX,
+  generateRIS,
+  generateCSLJSON,
+  generateMarkdownReview,
+  formatBibliography,
+  generateGraphML,
+  generateGEXF,
+  generateLatexReview,
+  makeCiteKeys,
+  sanitizeLatexCitations,
+  wrapLatexDocument,
+  CITATION_STYLES,
+} from "@/lib/utils/export";
+import type { Annotation, PaperMetadata, PaperNode, GraphEdge, Cluster, CitationStyle } from "@/types";
+
+const GRAPH_FORMATS = ["graphml", "gexf"];
 
 export async function POST(req: Request) {
   try {
@@ -8,18 +23,48 @@ export async function POST(req: Request) {
     const {
       format,
       papers,
+      nodes,
+      edges,
       clusters,
       includeReview,
       style,
+      title,
+      annotations,
     }: {
       format: string;
       papers: PaperMetadata[];
+      nodes?: PaperNode[];
+      edges?: GraphEdge[];
       clusters?: Cluster[];
       includeReview?: boolean;
       style?: string;
+      title?: string;
+      annotations?: Annotation[];
     } = body;
 
-    console.log("[research-rodeo] [export] format:", format, "papers:", papers?.length ?? 0);
+    console.log(
+      "[research-rodeo] [export] format:", format,
+      "papers:", papers?.length ?? 0,
+      "nodes:", nodes?.length ?? 0
+    );
+
+    if (GRAPH_FORMATS.includes(format)) {
+      if (!nodes || !Array.isArray(nodes)) {
+        return NextResponse.json(
+          { error: "Nodes array is required for graph formats", status: "error" },
+          { status: 400 }
+        );
+      }
+      const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+      const content =
+        format === "graphml"
+          ? generateGraphML(nodeMap, edges ?? [], clusters ?? [])
+          : generateGEXF(nodeMap, edges ?? [], clusters ?? []);
+      return NextResponse.json({
+        data: { content, count: nodeMap.size, format },
+        status: "success",
+      });
+    }
 
     if (!papers || !Array.isArray(papers)) {
       return NextResponse.json(
@@ -39,6 +84,22 @@ export async function POST(req: Request) {
         content = generateRIS(papers);
         break;
 
+      case "csl-json":
+        content = generateCSLJSON(papers);
+        break;
+
+      case "citation": {
+        const citationStyle = (style ?? "apa") as CitationStyle;
+        if (!Object.hasOwn(CITATION_STYLES, citationStyle)) {
+          return NextResponse.json(
+            { error: `Unsupported citation style: ${style}`, status: "error" },
+            { status: 400 }
+          );
+        }
+        content = formatBibliography(papers, citationStyle);
+        break;
+      }
+
       case "json":
         content = JSON.stringify(papers, null, 2);
         break;
@@ -46,12 +107,22 @@ export async function POST(req: Request) {
       case "markdown":
         if (includeReview) {
           // Use Anthropic to generate a proper literature review
-          content = await generateAILitReview(papers, clusters, style);
+          content = await generateAILitReview(papers, clusters, style, annotations);
         } else {
-          content = generateMarkdownReview(papers, clusters);
+          content = generateMarkdownReview(papers, clusters, annotations);
         }
         break;
 
+      case "latex": {
+        const latex = includeReview
+          ? await generateAILatexReview(papers, clusters, style, title)
+          : generateLatexReview(papers, clusters, title);
+        return NextResponse.json({
+          data: { content: latex.tex, bib: latex.bib, count: papers.length, format },
+          status: "success",
+        });
+      }
+
       default:
         return NextResponse.json(
           { error: `Unsupported format: ${format}`, status: "error" },
@@ -75,12 +146,13 @@ export async function POST(req: Request) {
 async function generateAILitReview(
   papers: PaperMetadata[],
   clusters?: Cluster[],
-  style?: string
+  style?: string,
+  annotations?: Annotation[]
 ): Promise<string> {
   const apiKey = process.env.ANTHROPIC_API_KEY;
   if (!apiKey) {
     // Fall back to template-based review
-    return generateMarkdownReview(papers, clusters);
+    return generateMarkdownReview(papers, clusters, annotations);
   }
 
   const paperSummaries = papers
@@ -98,6 +170,13 @@ async function generateAILitReview(
     ? clusters.map((c) => `- ${c.label}: ${c.nodeIds.length} papers`).join("\n")
     : "No clusters defined";
 
+  const titleById = new Map(papers.map((p) => [p.id, p.title]));
+  const highlights = (annotations ?? [])
+    .filter((a) => titleById.has(a.paperId))
+    .slice(0, 40)
+    .map((a) => `- ${a.type ? `[${a.type}] ` : ""}"${a.text.slice(0, 300)}" — ${titleById.get(a.paperId)}${a.note ? ` (note: ${a.note})` : ""}`)
+    .join("\n");
+
   const organizationStyle = style ?? "thematic";
 
   let response: Response;
@@ -122,7 +201,7 @@ ${clusterInfo}
 
 Papers:
 ${paperSummaries}
-
+${highlights ? `\nPassages the researcher highlighted (quote them where they support a point):\n${highlights}\n` : ""}
 Write the review in markdown format with clear sections.`,
           },
         ],
@@ -133,16 +212,128 @@ Write the review in markdown format with clear sections.`,
     if (err instanceof DOMException && err.name === "AbortError") {
       console.error("Request to Anthropic timed out after 15s");
     }
-    return generateMarkdownReview(papers, clusters);
+    return generateMarkdownReview(papers, clusters, annotations);
   }
 
   if (!response.ok) {
-    return generateMarkdownReview(papers, clusters);
+    return generateMarkdownReview(papers, clusters, annotations);
   }
 
   const data = await response.json();
   const reviewText =
-    data.content?.[0]?.text ?? generateMarkdownReview(papers, clusters);
+    data.content?.[0]?.text ?? generateMarkdownReview(papers, clusters, annotations);
 
   return reviewText;
 }
+
+/**
+ * Draft a LaTeX review with the model, restricted to the exported papers:
+ * the prompt only offers their cite keys, and any other key the model emits
+ * is stripped before the body is wrapped into a document.
+ */
+async function generateAILatexReview(
+  papers: PaperMetadata[],
+  clusters?: Cluster[],
+  style?: string,
+  title?: string
+): Promise<{ tex: string; bib: string }> {
+  const fallback = () => generateLatexReview(papers, clusters, title);
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) return fallback();
+
+  const keys = makeCiteKeys(papers);
+  const allowed = new Set(keys.values());
+  const paperSummaries = papers
+    .slice(0, 50) // Limit for prompt size
+    .map((p) => {
+      const authors = p.authors
+        .slice(0, 3)
+        .map((a) => a.name)
+        .join(", ");
+      return `- key=${keys.get(p.id)} | "${p.title}" (${authors}, ${p.year ?? "n.d."}): ${p.abstract?.slice(0, 200) ?? "No abstract"}`;
+    })
+    .join("\n");
+
+  const paperMap = new Map(papers.map((p) => [p.id, p]));
+  const clusterInfo = clusters?.length
+    ? clusters
+        .map((c) => {
+          const members = c.nodeIds
+            .map((id) => paperMap.get(id))
+            .filter((p): p is PaperMetadata => p !== undefined)
+            .map((p) => keys.get(p.id))
+            .join(", ");
+          return `- ${c.label}: ${members || "no exported papers"}`;
+        })
+        .join("\n")
+    : "No clusters defined";
+
+  const organizationStyle = style ?? "thematic";
+
+  let response: Response;
+  try {
+    response = await fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model: "claude-haiku-4-5",
+        max_tokens: 4096,
+        messages: [
+          {
+            role: "user",
+            content: `Write the body of a LaTeX literature review based on these papers. Organize ${organizationStyle}ly, with one \\section{} per cluster.
+
+Rules:
+- Cite papers only with \\citet{key} or \\citep{key}, using ONLY the keys listed below. Never invent keys or cite other work.
+- Output LaTeX only: no preamble, no \\begin{document}, no bibliography commands, no markdown fences.
+- Escape LaTeX special characters (&, %, $, #, _) in prose.
+
+Clusters (with member keys):
+${clusterInfo}
+
+Papers:
+${paperSummaries}`,
+          },
+        ],
+      }),
+      signal: AbortSignal.timeout(15_000),
+    });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "AbortError") {
+      console.error("Request to Anthropic timed out after 15s");
+    }
+    return fallback();
+  }
+
+  if (!response.ok) return fallback();
+
+  const data = await response.json();
+  const raw: string | undefined = data.content?.[0]?.text;
+  if (!raw?.trim()) return fallback();
+
+  // Keep only the body if the model wrapped it anyway
+  let body = raw.replace(/^```(?:latex|tex)?\s*|```\s*$/g, "");
+  const begin = body.indexOf("\\begin{document}");
+  if (begin !== -1) body = body.slice(begin + "\\begin{document}".length);
+  body = body
+    .replace(/\\end\{document\}[\s\S]*$/, "")
+    .replace(/\\(bibliographystyle|bibliography|maketitle)(\{[^}]*\})?/g, "");
+
+  const { tex, dropped } = sanitizeLatexCitations(body, allowed);
+  if (dropped.length > 0) {
+    console.warn("[research-rodeo] [export] dropped unknown cite keys:", dropped.join(", "));
+  }
+  if (!/\\cite[a-zA-Z]*\*?(?:\[[^\]]*\]){0,2}\{/.test(tex)) {
+    // Nothing citable survived; the template review is more useful
+    return fallback();
+  }
+
+  return {
+    tex: wrapLatexDocument(tex, title),
+    bib: generateBibTeX(papers),
+  };
+}
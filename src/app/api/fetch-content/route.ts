@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { fetchUrlContent } from "@/lib/server/scrape";
 import { isPrivateUrl } from "@/lib/server/url-validation";
+import { readUpload, uploadIdFromUrl } from "@/lib/server/pdf-upload";
 
 const MAX_CHARS = 15_000;
 
@@ -110,6 +111,19 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: "Invalid URL" }, { status: 400 });
   }
 
+  // Uploaded PDFs are served by this app, so answer from the stored text
+  // instead of fetching our own (often localhost) URL
+  const uploadId = uploadIdFromUrl(targetUrl);
+  if (uploadId) {
+    const text = (await readUpload(uploadId, "txt"))?.toString("utf8");
+    if (!text) {
+      return NextResponse.json({ error: "Uploaded file not found" }, { status: 404 });
+    }
+    const truncated = text.length > MAX_CHARS;
+    const content = truncated ? text.slice(0, MAX_CHARS) + "\n\n[…content truncated…]" : text;
+    return NextResponse.json({ url: targetUrl, content, truncated });
+  }
+
   if (isPrivateUrl(targetUrl)) {
     return NextResponse.json({ error: "Forbidden: private/internal URLs are not allowed" }, { status: 403 });
   }
@@ -0,0 +1,181 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiResponse, NodeState, PaperMetadata } from "@/types";
+import { generateBibTeX } from "@/lib/utils/export";
+import { parseNodeNotesAndTags } from "@/lib/db/graph-actions";
+import { querySpacetime, sqlString, type SqlRow } from "@/lib/server/spacetimedb-sql";
+
+export const dynamic = "force-dynamic";
+
+const NODE_STATES: NodeState[] = ["discovered", "enriched", "materialized", "archived"];
+
+/**
+ * Per-hole read tokens, configured as BIBLIOGRAPHY_FEED_TOKENS="holeId=token,...".
+ * Holes without an entry are readable by anyone who knows the id.
+ */
+function feedTokenFor(rabbitHoleId: string): string | undefined {
+  const raw = process.env.BIBLIOGRAPHY_FEED_TOKENS;
+  if (!raw) return undefined;
+  for (const pair of raw.split(",")) {
+    const eq = pair.indexOf("=");
+    if (eq === -1) continue;
+    if (pair.slice(0, eq).trim() === rabbitHoleId) return pair.slice(eq + 1).trim() || undefined;
+  }
+  return undefined;
+}
+
+function tokenMatches(expected: string, given: string | null): boolean {
+  if (!given) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Comma-separated query param, lowercased; empty when absent. */
+function listParam(req: NextRequest, name: string): string[] {
+  return req.nextUrl.searchParams
+    .getAll(name)
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function toNumber(value: unknown): number {
+  const n = typeof value === "bigint" ? Number(value) : Number(value ?? 0);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json<ApiResponse<never>>({ error, status: "error" }, { status });
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const rabbitHoleId = decodeURIComponent(id);
+
+    const expectedToken = feedTokenFor(rabbitHoleId);
+    if (expectedToken) {
+      const bearer = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? null;
+      const given = req.nextUrl.searchParams.get("token") ?? bearer;
+      if (!tokenMatches(expectedToken, given)) {
+        return errorResponse("Invalid or missing read token", 401);
+      }
+    }
+
+    const states = listParam(req, "state");
+    const clusterFilter = listParam(req, "cluster");
+    const tagFilter = listParam(req, "tag");
+    const unknownState = states.find((s) => s !== "all" && !NODE_STATES.includes(s as NodeState));
+    if (unknownState) {
+      return errorResponse(`Unknown node state: ${unknownState}`, 400);
+    }
+    const allowedStates = states.length === 0 ? ["materialized"] : states;
+
+    console.log(
+      "[research-rodeo] [bibliography-feed] hole:", rabbitHoleId,
+      "states:", allowedStates.join(","),
+      "clusters:", clusterFilter.join(",") || "-",
+      "tags:", tagFilter.join(",") || "-"
+    );
+
+    const holeRows = await querySpacetime(
+      `SELECT * FROM rabbit_hole WHERE id = ${sqlString(rabbitHoleId)}`
+    );
+    const hole = holeRows[0];
+    if (!hole) {
+      return errorResponse(`Rabbit hole not found: ${rabbitHoleId}`, 404);
+    }
+
+    const [nodeRows, clusterRows] = await Promise.all([
+      querySpacetime(`SELECT * FROM node WHERE rabbit_hole_id = ${sqlString(rabbitHoleId)}`),
+      clusterFilter.length > 0
+        ? querySpacetime(`SELECT * FROM cluster WHERE rabbit_hole_id = ${sqlString(rabbitHoleId)}`)
+        : Promise.resolve([] as SqlRow[]),
+    ]);
+
+    // Clusters can be named by id or by label
+    const clusterMembers = new Set<string>();
+    const clusterIds = new Set<string>();
+    for (const row of clusterRows) {
+      const clusterId = String(row.id);
+      const label = String(row.label ?? "").toLowerCase();
+      if (!clusterFilter.includes(clusterId.toLowerCase()) && !clusterFilter.includes(label)) continue;
+      clusterIds.add(clusterId);
+      try {
+        for (const nodeId of JSON.parse(String(row.node_ids_json ?? "[]")) as string[]) {
+          clusterMembers.add(nodeId);
+        }
+      } catch {}
+    }
+
+    let lastModified = toNumber(hole.updated_at);
+    const papers: PaperMetadata[] = [];
+    for (const row of nodeRows) {
+      const nodeId = String(row.id);
+      const state = String(row.state);
+      if (!allowedStates.includes("all") && !allowedStates.includes(state)) continue;
+
+      if (clusterFilter.length > 0) {
+        const clusterId = row.cluster_id != null ? String(row.cluster_id) : undefined;
+        if (!clusterMembers.has(nodeId) && !(clusterId && clusterIds.has(clusterId))) continue;
+      }
+
+      let data: PaperMetadata & { _userNotes?: unknown };
+      try {
+        data = JSON.parse(String(row.data_json));
+      } catch {
+        continue;
+      }
+
+      if (tagFilter.length > 0) {
+        const notes = parseNodeNotesAndTags(
+          row.tags_json != null ? String(row.tags_json) : undefined,
+          (row.user_notes as string | undefined) ??
+            (typeof data._userNotes === "string" ? data._userNotes : undefined)
+        );
+        if (!notes.tags.some((t) => tagFilter.includes(t.toLowerCase()))) continue;
+      }
+
+      const paper: PaperMetadata & { _userNotes?: unknown } = { ...data, id: data.id ?? nodeId };
+      delete paper._userNotes;
+      papers.push(paper);
+      lastModified = Math.max(lastModified, toNumber(row.added_at), toNumber(row.expanded_at));
+    }
+
+    // Keep key order stable between requests so the ETag only moves on real changes
+    papers.sort((a, b) => a.id.localeCompare(b.id));
+    const bib = generateBibTeX(papers);
+    const etag = `"${createHash("sha1").update(bib).digest("base64url")}"`;
+    const lastModifiedDate = new Date(lastModified > 0 ? lastModified : Date.now());
+    lastModifiedDate.setMilliseconds(0);
+
+    const headers = new Headers({
+      "Content-Type": "application/x-bibtex; charset=utf-8",
+      "Cache-Control": "private, no-cache",
+      ETag: etag,
+      "Last-Modified": lastModifiedDate.toUTCString(),
+    });
+
+    const ifNoneMatch = req.headers.get("if-none-match");
+    const ifModifiedSince = req.headers.get("if-modified-since");
+    const notModified = ifNoneMatch
+      ? ifNoneMatch.split(",").some((t) => t.trim().replace(/^W\//, "") === etag || t.trim() === "*")
+      : ifModifiedSince
+        ? Date.parse(ifModifiedSince) >= lastModifiedDate.getTime()
+        : false;
+    if (notModified) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    console.log("[research-rodeo] [bibliography-feed] entries:", papers.length);
+
+    return new Response(bib, { status: 200, headers });
+  } catch (error) {
+    console.error("[research-rodeo] [bibliography-feed] error:", error);
+    return errorResponse(error instanceof Error ? error.message : "Internal server error", 500);
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import type {
+  ApiResponse,
+  ImportFormat,
+  ImportResult,
+  PaperMetadata,
+  UnresolvedImportEntry,
+} from "@/types";
+import { batchGetPapers } from "@/lib/api/semantic-scholar";
+import {
+  canonicalIdToS2Query,
+  createCanonicalId,
+  isDuplicate,
+  mergePapers,
+  resolvePaper,
+} from "@/lib/api/paper-resolver";
+import { parseImportFile } from "@/lib/utils/import";
+
+const MAX_ENTRIES = 500;
+const S2_BATCH_SIZE = 100;
+const IMPORT_FORMATS: ImportFormat[] = ["bibtex", "ris", "csl-json"];
+
+/**
+ * Collapse records that describe the same paper within one file, using the
+ * same isDuplicate/mergePapers rules applied to search and expansion results.
+ */
+function dedupeWithinFile(papers: PaperMetadata[]): PaperMetadata[] {
+  const unique: PaperMetadata[] = [];
+  for (const paper of papers) {
+    const idx = unique.findIndex((u) => isDuplicate(u, paper));
+    if (idx === -1) unique.push(paper);
+    else unique[idx] = mergePapers(unique[idx], paper);
+  }
+  return unique;
+}
+
+/**
+ * Look up every entry that carries a DOI or arXiv id in Semantic Scholar.
+ * Returns one slot per input paper; null when S2 had no match.
+ */
+async function resolveWithSemanticScholar(
+  papers: PaperMetadata[]
+): Promise<Array<PaperMetadata | null>> {
+  const resolved: Array<PaperMetadata | null> = papers.map(() => null);
+  const lookups = papers
+    .map((paper, index) => ({ paper, index }))
+    .filter(({ paper }) => paper.externalIds.doi || paper.externalIds.arxivId);
+
+  for (let i = 0; i < lookups.length; i += S2_BATCH_SIZE) {
+    const batch = lookups.slice(i, i + S2_BATCH_SIZE);
+    try {
+      const found = await batchGetPapers(
+        batch.map(({ paper }) => canonicalIdToS2Query(createCanonicalId(paper)))
+      );
+      // S2 drops unknown ids from the response, so match results back by identifier
+      for (const { paper, index } of batch) {
+        const match = found.find((candidate) => isDuplicate(candidate, paper));
+        if (match) resolved[index] = match;
+      }
+    } catch (err) {
+      console.warn(
+        "[research-rodeo] [import] S2 batch lookup failed:",
+        err instanceof Error ? err.message : err
+      );
+    }
+  }
+
+  return resolved;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as { format?: ImportFormat; content?: string };
+    const format = body.format ?? "bibtex";
+
+    if (!body.content || typeof body.content !== "string") {
+      return NextResponse.json<ApiResponse<never>>(
+        { error: "Missing or invalid 'content' field", status: "error" },
+        { status: 400 }
+      );
+    }
+    if (!IMPORT_FORMATS.includes(format)) {
+      return NextResponse.json<ApiResponse<never>>(
+        { error: `Unsupported import format: ${format}`, status: "error" },
+        { status: 400 }
+      );
+    }
+
+    let parsed: PaperMetadata[];
+    try {
+      parsed = dedupeWithinFile(parseImportFile(format, body.content));
+    } catch (err) {
+      return NextResponse.json<ApiResponse<never>>(
+        {
+          error: `Could not parse ${format} file: ${err instanceof Error ? err.message : "unknown error"}`,
+          status: "error",
+        },
+        { status: 400 }
+      );
+    }
+    console.log("[research-rodeo] [import] format:", format, "entries:", parsed.length);
+
+    if (parsed.length === 0) {
+      return NextResponse.json<ApiResponse<never>>(
+        { error: "No entries found in file", status: "error" },
+        { status: 400 }
+      );
+    }
+    if (parsed.length > MAX_ENTRIES) {
+      return NextResponse.json<ApiResponse<never>>(
+        { error: `Too many entries (${parsed.length}); the limit is ${MAX_ENTRIES}`, status: "error" },
+        { status: 400 }
+      );
+    }
+
+    const s2Matches = await resolveWithSemanticScholar(parsed);
+
+    const papers: PaperMetadata[] = [];
+    const unresolved: UnresolvedImportEntry[] = [];
+    parsed.forEach((fromFile, index) => {
+      const match = s2Matches[index];
+      if (match) {
+        // Prefer S2 metadata but keep the cite key and any ids only the file had
+        const merged = mergePapers(resolvePaper(match), fromFile);
+        papers.push({ ...merged, id: createCanonicalId(merged) });
+        return;
+      }
+
+      unresolved.push({
+        citeKey: fromFile.citeKey,
+        title: fromFile.title,
+        reason:
+          fromFile.externalIds.doi || fromFile.externalIds.arxivId
+            ? "Identifier not found in Semantic Scholar"
+            : "No DOI or arXiv id to resolve",
+      });
+      papers.push(resolvePaper(fromFile));
+    });
+
+    const result: ImportResult = {
+      format,
+      papers,
+      unresolved,
+      total: parsed.length,
+    };
+    console.log(
+      "[research-rodeo] [import] result: papers=",
+      papers.length,
+      "unresolved=",
+      unresolved.length
+    );
+
+    return NextResponse.json<ApiResponse<ImportResult>>({
+      data: result,
+      status: "success",
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<never>>(
+      {
+        error: error instanceof Error ? error.message : "Internal server error",
+        status: "error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import type { PaperMetadata, ApiResponse } from "@/types";
 import { getPaper as s2GetPaper } from "@/lib/api/semantic-scholar";
 import { getWork as oaGetWork } from "@/lib/api/openalex";
+import { getPaper as pubmedGetPaper, isValidPmid } from "@/lib/api/pubmed";
+import { getWork as crossrefGetWork, mergeCrossref } from "@/lib/api/crossref";
 import { canonicalIdToS2Query, mergePapers, resolvePaper } from "@/lib/api/paper-resolver";
 
 export async function GET(
@@ -21,6 +23,12 @@ export async function GET(
 
     // Determine lookup strategy from ID prefix
     const decodedId = decodeURIComponent(id);
+    if (decodedId.startsWith("pmid:") && !isValidPmid(decodedId.slice(5))) {
+      return NextResponse.json<ApiResponse<never>>(
+        { error: `Invalid PMID: ${decodedId.slice(5)}`, status: "error" },
+        { status: 400 }
+      );
+    }
     let paper: PaperMetadata | null = null;
 
     // Try Semantic Scholar first (works with S2 IDs, DOIs, arXiv IDs, etc.)
@@ -44,11 +52,34 @@ export async function GET(
       // OpenAlex enrichment is best-effort
     }
 
-    // Merge results from both sources
-    if (paper && oaPaper) {
-      paper = mergePapers(paper, oaPaper);
-    } else if (!paper && oaPaper) {
-      paper = oaPaper;
+    // PubMed (via Europe PMC) adds MeSH headings, and covers PMIDs the others miss
+    let pubmedPaper: PaperMetadata | null = null;
+    const pmid = decodedId.startsWith("pmid:")
+      ? decodedId.slice(5)
+      : paper?.externalIds.pubmedId ?? oaPaper?.externalIds.pubmedId;
+    if (pmid) {
+      try {
+        pubmedPaper = await pubmedGetPaper(pmid);
+      } catch {
+        // PubMed enrichment is best-effort
+      }
+    }
+
+    // Merge results from all sources
+    for (const extra of [oaPaper, pubmedPaper]) {
+      if (!extra) continue;
+      paper = paper ? mergePapers(paper, extra) : extra;
+    }
+
+    // Crossref is authoritative for a DOI's bibliographic fields
+    const doi = decodedId.startsWith("doi:") ? decodedId.slice(4) : paper?.externalIds.doi;
+    if (doi) {
+      try {
+        const crossrefPaper = await crossrefGetWork(doi);
+        paper = paper ? mergeCrossref(paper, crossrefPaper) : crossrefPaper;
+      } catch {
+        // Crossref lookup is best-effort
+      }
     }
 
     if (!paper) {
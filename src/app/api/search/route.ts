@@ -1,15 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import type { SearchQuery, SearchResult, ApiResponse } from "@/types";
+import { DEFAULT_SEARCH_PROVIDERS, SEARCH_PROVIDER_LABELS } from "@/types";
+import type { SearchQuery, SearchResult, SearchMode, SearchProvider, AppliedFilters, ApiResponse } from "@/types";
 import { searchPapers as exaSearch, deepSearch } from "@/lib/api/exa";
 import { searchPapers as s2Search } from "@/lib/api/semantic-scholar";
+import { federatedSearch } from "@/lib/api/federated-search";
 import { resolvePaper } from "@/lib/api/paper-resolver";
+import {
+  activeFilterKeys,
+  appliedFilters,
+  matchesFilters,
+  publishedDateRange,
+  unreportedFilters,
+} from "@/lib/api/search-filters";
 import { deriveArxivLinks, isArxivUrl } from "@/lib/utils/arxiv-urls";
 
-type SearchMode = "auto" | "instant" | "deep";
-
 interface SearchRequestBody extends SearchQuery {
   searchMode?: SearchMode;
   domains?: string[];
+  /** Federated mode: providers to query (defaults to all) */
+  providers?: SearchProvider[];
+}
+
+function isSearchProvider(value: unknown): value is SearchProvider {
+  return typeof value === "string" && Object.hasOwn(SEARCH_PROVIDER_LABELS, value);
 }
 
 export async function POST(req: NextRequest) {
@@ -36,17 +49,35 @@ export async function POST(req: NextRequest) {
     );
 
     let result: SearchResult;
+    // Providers whose results made it into `result`
+    let queried: SearchProvider[] = ["exa"];
     try {
-      if (searchMode === "deep") {
+      if (searchMode === "federated") {
+        const providers = Array.isArray(body.providers)
+          ? body.providers.filter(isSearchProvider)
+          : undefined;
+        const federated = await federatedSearch(query, {
+          providers,
+          filters,
+          exa: { includeDomains: domains },
+        });
+        const failed = Object.keys(federated.failed);
+        if (failed.length > 0) {
+          console.log("[research-rodeo] [search] providers failed:", federated.failed);
+        }
+        result = {
+          papers: federated.papers,
+          query,
+          source: "federated",
+          providers: federated.providers,
+          failedProviders: failed.length > 0 ? federated.failed : undefined,
+        };
+        queried = (providers ?? DEFAULT_SEARCH_PROVIDERS).filter((p) => !Object.hasOwn(federated.failed, p));
+      } else if (searchMode === "deep") {
         const papers = await deepSearch(query, {
           numResults: 20,
           includeDomains: domains,
-          startPublishedDate: filters?.yearMin
-            ? `${filters.yearMin}-01-01`
-            : undefined,
-          endPublishedDate: filters?.yearMax
-            ? `${filters.yearMax}-12-31`
-            : undefined,
+          ...publishedDateRange(filters),
         });
 
         const resolved = papers.map((p) => {
@@ -59,27 +90,33 @@ export async function POST(req: NextRequest) {
         const exaOptions: Record<string, unknown> = {
           numResults: 10,
           searchType: searchMode === "instant" ? "instant" : "auto",
+          ...publishedDateRange(filters),
         };
 
         if (domains && domains.length > 0) {
           exaOptions.includeDomains = domains;
         }
-        if (filters?.yearMin) {
-          exaOptions.startPublishedDate = `${filters.yearMin}-01-01`;
-        }
-        if (filters?.yearMax) {
-          exaOptions.endPublishedDate = `${filters.yearMax}-12-31`;
-        }
 
         const papers = await exaSearch(query, exaOptions);
         const resolved = papers.map(resolvePaper);
         result = { papers: resolved, query, source: "exa" };
       }
     } catch (exaError) {
+      // Federated search already tried every selected provider
+      if (searchMode === "federated") {
+        return NextResponse.json<ApiResponse<never>>(
+          {
+            error: exaError instanceof Error ? exaError.message : "Search failed",
+            status: "error",
+          },
+          { status: 502 }
+        );
+      }
       try {
-        const { papers } = await s2Search(query, { limit: 10 });
+        const { papers } = await s2Search(query, { limit: 10, filters });
         const resolved = papers.map(resolvePaper);
         result = { papers: resolved, query, source: "semantic-scholar" };
+        queried = ["semantic-scholar"];
       } catch (s2Error) {
         return NextResponse.json<ApiResponse<never>>(
           {
@@ -102,30 +139,14 @@ export async function POST(req: NextRequest) {
       return paper;
     });
 
-    // Apply post-search filters
-    if (filters) {
-      result.papers = result.papers.filter((paper) => {
-        if (filters.yearMin && paper.year && paper.year < filters.yearMin)
-          return false;
-        if (filters.yearMax && paper.year && paper.year > filters.yearMax)
-          return false;
-        if (filters.minCitations && paper.citationCount < filters.minCitations)
-          return false;
-        if (filters.openAccessOnly && !paper.openAccessPdf) return false;
-        if (
-          filters.fieldsOfStudy &&
-          filters.fieldsOfStudy.length > 0 &&
-          paper.fieldsOfStudy
-        ) {
-          const hasOverlap = paper.fieldsOfStudy.some((f) =>
-            filters.fieldsOfStudy!.some(
-              (sf) => sf.toLowerCase() === f.toLowerCase()
-            )
-          );
-          if (!hasOverlap) return false;
-        }
-        return true;
-      });
+    // Enforce every filter on every result; providers only apply some natively
+    if (activeFilterKeys(filters).length > 0) {
+      result.papers = result.papers.filter((paper) =>
+        matchesFilters(paper, filters, unreportedFilters(result.providers?.[paper.id] ?? queried))
+      );
+      result.appliedFilters = Object.fromEntries(
+        queried.map((p) => [p, appliedFilters(p, filters)])
+      ) as Partial<Record<SearchProvider, AppliedFilters>>;
     }
 
     console.log(
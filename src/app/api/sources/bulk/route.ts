@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiResponse, BulkIdentifierRow, PaperMetadata } from "@/types";
+import { batchGetPapersAligned } from "@/lib/api/semantic-scholar";
+import { getWork } from "@/lib/api/openalex";
+import { mergePapers, resolvePaper } from "@/lib/api/paper-resolver";
+import {
+  identifierToOpenAlexId,
+  identifierToS2Query,
+  parseIdentifierList,
+} from "@/lib/utils/identifiers";
+
+const MAX_IDENTIFIERS = 200;
+const S2_BATCH_SIZE = 100;
+const OPENALEX_CONCURRENCY = 5;
+
+/** Carry the pasted identifier onto the resolved record when the source omitted it. */
+function withInputId(paper: PaperMetadata, row: BulkIdentifierRow): PaperMetadata {
+  const externalIds = { ...paper.externalIds };
+  if (row.kind === "doi") externalIds.doi ??= row.value;
+  if (row.kind === "arxiv") externalIds.arxivId ??= row.value;
+  if (row.kind === "pmid") externalIds.pubmedId ??= row.value;
+  return resolvePaper({ ...paper, externalIds, id: "" });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = (await req.json()) as { text?: string };
+    if (!body.text || typeof body.text !== "string") {
+      return NextResponse.json<ApiResponse<never>>(
+        { error: "Missing or invalid 'text' field", status: "error" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseIdentifierList(body.text);
+    if (parsed.length === 0) {
+      return NextResponse.json<ApiResponse<never>>(
+        { error: "No identifiers found", status: "error" },
+        { status: 400 }
+      );
+    }
+    if (parsed.length > MAX_IDENTIFIERS) {
+      return NextResponse.json<ApiResponse<never>>(
+        { error: `Too many identifiers (${parsed.length}); the limit is ${MAX_IDENTIFIERS}`, status: "error" },
+        { status: 400 }
+      );
+    }
+
+    const rows: BulkIdentifierRow[] = parsed.map((id) => ({
+      ...id,
+      status: id.kind ? "not-found" : "invalid",
+    }));
+    console.log(
+      "[research-rodeo] [sources/bulk] identifiers:", rows.length,
+      "invalid:", rows.filter((r) => r.status === "invalid").length
+    );
+
+    // Semantic Scholar first, in batches; the aligned response maps back by position
+    const s2Rows = rows.filter((r) => identifierToS2Query(r));
+    for (let i = 0; i < s2Rows.length; i += S2_BATCH_SIZE) {
+      const batch = s2Rows.slice(i, i + S2_BATCH_SIZE);
+      try {
+        const found = await batchGetPapersAligned(batch.map((r) => identifierToS2Query(r)!));
+        batch.forEach((row, j) => {
+          const paper = found[j];
+          if (!paper) return;
+          row.paper = withInputId(paper, row);
+          row.status = "resolved";
+          row.source = "semantic-scholar";
+        });
+      } catch (err) {
+        console.warn(
+          "[research-rodeo] [sources/bulk] S2 batch lookup failed:",
+          err instanceof Error ? err.message : err
+        );
+      }
+    }
+
+    // OpenAlex fallback for DOIs, arXiv ids and PMIDs that S2 missed
+    const fallback = rows.filter((r) => r.status === "not-found" && identifierToOpenAlexId(r));
+    for (let i = 0; i < fallback.length; i += OPENALEX_CONCURRENCY) {
+      await Promise.all(
+        fallback.slice(i, i + OPENALEX_CONCURRENCY).map(async (row) => {
+          try {
+            const work = await getWork(identifierToOpenAlexId(row)!);
+            row.paper = withInputId(work, row);
+            row.status = "resolved";
+            row.source = "openalex";
+          } catch {
+            // Left as not-found
+          }
+        })
+      );
+    }
+
+    // Two identifiers for the same paper (e.g. DOI and arXiv id) share one record
+    const byId = new Map<string, PaperMetadata>();
+    for (const row of rows) {
+      if (!row.paper) continue;
+      const prior = byId.get(row.paper.id);
+      if (prior) row.paper = mergePapers(prior, row.paper);
+      byId.set(row.paper.id, row.paper);
+    }
+
+    console.log(
+      "[research-rodeo] [sources/bulk] resolved:",
+      rows.filter((r) => r.status === "resolved").length,
+      "of", rows.length
+    );
+
+    return NextResponse.json<ApiResponse<BulkIdentifierRow[]>>({
+      data: rows,
+      status: "success",
+    });
+  } catch (error) {
+    return NextResponse.json<ApiResponse<never>>(
+      {
+        error: error instanceof Error ? error.message : "Internal server error",
+        status: "error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiResponse, PaperMetadata, PdfUploadResult } from "@/types";
+import { getPaper as s2GetPaper, searchPapers } from "@/lib/api/semantic-scholar";
+import { getWork as oaGetWork } from "@/lib/api/openalex";
+import {
+  canonicalIdToS2Query,
+  createCanonicalId,
+  mergePapers,
+  resolvePaper,
+} from "@/lib/api/paper-resolver";
+import {
+  MAX_PDF_BYTES,
+  MAX_PDF_TEXT_CHARS,
+  extractPdf,
+  saveUpload,
+  uploadUrl,
+  type ExtractedPdf,
+} from "@/lib/server/pdf-upload";
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Look the upload up by DOI / arXiv id first, then by exact title. Returns
+ * null when neither Semantic Scholar nor OpenAlex knows the paper.
+ */
+async function resolveUploadedPaper(extracted: ExtractedPdf): Promise<PaperMetadata | null> {
+  const canonical = extracted.doi
+    ? `doi:${extracted.doi}`
+    : extracted.arxivId
+      ? `arxiv:${extracted.arxivId}`
+      : null;
+
+  if (canonical) {
+    try {
+      return await s2GetPaper(canonicalIdToS2Query(canonical));
+    } catch {
+      // Fall through to OpenAlex
+    }
+    try {
+      return await oaGetWork(
+        extracted.doi ? `doi:${extracted.doi}` : `doi:10.48550/arXiv.${extracted.arxivId}`
+      );
+    } catch {
+      // Fall through to title search
+    }
+  }
+
+  if (extracted.title) {
+    try {
+      const { papers } = await searchPapers(extracted.title, { limit: 5 });
+      const wanted = normalizeTitle(extracted.title);
+      return papers.find((p) => normalizeTitle(p.title) === wanted) ?? null;
+    } catch {
+      // Best-effort
+    }
+  }
+
+  return null;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const form = await req.formData();
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json<ApiResponse<never>>(
+        { error: "Missing 'file' field", status: "error" },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_PDF_BYTES) {
+      return NextResponse.json<ApiResponse<never>>(
+        { error: `File too large (${Math.round(file.size / 1024 / 1024)} MB); the limit is ${MAX_PDF_BYTES / 1024 / 1024} MB`, status: "error" },
+        { status: 413 }
+      );
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    // Check the magic number rather than trusting the browser's MIME type
+    if (new TextDecoder().decode(bytes.slice(0, 5)) !== "%PDF-") {
+      return NextResponse.json<ApiResponse<never>>(
+        { error: "Not a PDF file", status: "error" },
+        { status: 400 }
+      );
+    }
+
+    let extracted: ExtractedPdf;
+    try {
+      extracted = await extractPdf(bytes);
+    } catch (err) {
+      return NextResponse.json<ApiResponse<never>>(
+        {
+          error: `Could not read PDF: ${err instanceof Error ? err.message : "unknown error"}`,
+          status: "error",
+        },
+        { status: 422 }
+      );
+    }
+    console.log(
+      "[research-rodeo] [sources/upload] file:", file.name,
+      "pages:", extracted.pages,
+      "chars:", extracted.text.length,
+      "doi:", extracted.doi ?? "-",
+      "arxiv:", extracted.arxivId ?? "-"
+    );
+
+    const fileId = await saveUpload(bytes, extracted.text);
+    const fileUrl = uploadUrl(req.nextUrl.origin, fileId);
+
+    const local: PaperMetadata = {
+      id: "",
+      externalIds: {
+        doi: extracted.doi,
+        arxivId: extracted.arxivId,
+      },
+      title: extracted.title ?? file.name.replace(/\.pdf$/i, ""),
+      authors: extracted.authors,
+      citationCount: 0,
+      referenceCount: 0,
+      url: fileUrl,
+      openAccessPdf: fileUrl,
+      siteName: "Uploaded PDF",
+    };
+
+    const remote = await resolveUploadedPaper(extracted);
+    let paper: PaperMetadata;
+    if (remote) {
+      const merged = mergePapers(resolvePaper(remote), local);
+      // The reader should open the uploaded copy, not the publisher link
+      paper = { ...merged, id: createCanonicalId(merged), openAccessPdf: fileUrl };
+    } else if (extracted.doi || extracted.arxivId) {
+      // Unresolved for now, but the identifier still dedupes and hydrates later
+      paper = { ...local, id: createCanonicalId(local) };
+    } else {
+      paper = { ...local, id: `upload-${fileId}` };
+    }
+
+    const contentTruncated = extracted.text.length > MAX_PDF_TEXT_CHARS;
+    const result: PdfUploadResult = {
+      nodeId: paper.id,
+      paper,
+      resolved: Boolean(remote),
+      content: extracted.text.slice(0, MAX_PDF_TEXT_CHARS),
+      contentTruncated,
+      pages: extracted.pages,
+    };
+    console.log(
+      "[research-rodeo] [sources/upload] node:", paper.id,
+      "resolved:", result.resolved
+    );
+
+    return NextResponse.json<ApiResponse<PdfUploadResult>>({
+      data: result,
+      status: "success",
+    });
+  } catch (error) {
+    console.error("[research-rodeo] [sources/upload] error:", error);
+    return NextResponse.json<ApiResponse<never>>(
+      {
+        error: error instanceof Error ? error.message : "Internal server error",
+        status: "error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiResponse } from "@/types";
+import { readUpload } from "@/lib/server/pdf-upload";
+
+/** Serve a previously uploaded PDF so the reader can embed it. */
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const pdf = await readUpload(id, "pdf");
+  if (!pdf) {
+    return NextResponse.json<ApiResponse<never>>(
+      { error: `Upload not found: ${id}`, status: "error" },
+      { status: 404 }
+    );
+  }
+
+  return new Response(new Uint8Array(pdf), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `inline; filename="${id}.pdf"`,
+      // Upload ids are random and files are never rewritten
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  });
+}
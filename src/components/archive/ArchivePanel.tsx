@@ -0,0 +1,215 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Archive, ArchiveRestore, Trash2 } from "lucide-react";
+import { ScrollArea } from "@/components/ui/ScrollArea";
+import { Button } from "@/components/ui/Button";
+import { useGraphStore } from "@/store/graph-store";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { executeGraphCommand } from "@/lib/graph/commands";
+import {
+  ARCHIVE_PURGE_OPTIONS,
+  purgeArchivedNodes,
+  setArchivePurgeDays,
+} from "@/lib/db/archive-actions";
+import { cn } from "@/lib/utils";
+import type { PaperNode } from "@/types";
+
+function relativeTime(timestamp: number): string {
+  const diff = Date.now() - timestamp;
+  const seconds = Math.floor(diff / 1000);
+  if (seconds < 60) return "just now";
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ago`;
+}
+
+function describeArchival(node: PaperNode): string {
+  if (!node.archive) return "Archived earlier";
+  const { archivedAt, source, previousState, edges } = node.archive;
+  const links = edges.length > 0 ? ` · ${edges.length} link${edges.length === 1 ? "" : "s"}` : "";
+  return `${relativeTime(archivedAt)} · ${source} · was ${previousState}${links}`;
+}
+
+export function ArchivePanel({ className }: { className?: string }) {
+  const nodes = useGraphStore((s) => s.nodes);
+  const selectNode = useGraphStore((s) => s.selectNode);
+  const hole = useRabbitHoleStore((s) =>
+    s.rabbitHoles.find((h) => h.id === s.currentRabbitHoleId)
+  );
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirmingPurge, setConfirmingPurge] = useState(false);
+
+  // Newest first; nodes archived before archive records existed go last
+  const archived = useMemo(
+    () =>
+      Array.from(nodes.values())
+        .filter((n) => n.state === "archived")
+        .sort((a, b) => (b.archive?.archivedAt ?? 0) - (a.archive?.archivedAt ?? 0)),
+    [nodes]
+  );
+  const selectedIds = archived.filter((n) => selected.has(n.id)).map((n) => n.id);
+  const allSelected = archived.length > 0 && selectedIds.length === archived.length;
+
+  const toggle = (nodeId: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(nodeId)) next.delete(nodeId);
+      else next.add(nodeId);
+      return next;
+    });
+
+  const restore = async (nodeIds: string[]) => {
+    if (nodeIds.length === 0) return;
+    await executeGraphCommand({ type: "restore-nodes", nodeIds, source: "canvas" });
+    setSelected(new Set());
+  };
+
+  const purge = () => {
+    purgeArchivedNodes(selectedIds);
+    setSelected(new Set());
+    setConfirmingPurge(false);
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex flex-col h-full bg-[#f8f7f4] border-l border-[#e8e7e2]",
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-[#e8e7e2]">
+        <div className="flex items-center gap-2">
+          <Archive className="w-3.5 h-3.5 text-violet-500" />
+          <span className="text-sm font-medium text-[#1c1917]">Archive</span>
+        </div>
+        <span className="text-xs text-[#78716c]">
+          {archived.length} source{archived.length !== 1 ? "s" : ""}
+        </span>
+      </div>
+
+      {/* Auto-purge policy */}
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-[#e8e7e2]">
+        <span className="text-[11px] text-[#57534e]">Delete archived sources after</span>
+        <select
+          value={hole?.archivePurgeDays ?? ""}
+          onChange={(e) => setArchivePurgeDays(e.target.value ? Number(e.target.value) : undefined)}
+          disabled={!hole}
+          className="h-7 rounded-md border border-[#dddcd7] bg-white px-1.5 text-[11px] text-[#1c1917] outline-none focus:border-[#7c3aed]"
+          title="Checked each time this rabbit hole is opened"
+        >
+          <option value="">Never</option>
+          {ARCHIVE_PURGE_OPTIONS.map((days) => (
+            <option key={days} value={days}>
+              {days} days
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Bulk actions */}
+      {archived.length > 0 && (
+        <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-[#e8e7e2]">
+          <label className="flex items-center gap-2 text-[11px] text-[#57534e] cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelected(allSelected ? new Set() : new Set(archived.map((n) => n.id)))}
+              className="accent-violet-600"
+            />
+            {selectedIds.length > 0 ? `${selectedIds.length} selected` : "Select all"}
+          </label>
+          {confirmingPurge ? (
+            <div className="flex items-center gap-1">
+              <span className="text-[11px] text-red-600">Delete permanently?</span>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-[11px]" onClick={() => setConfirmingPurge(false)}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="h-6 px-2 text-[11px] bg-red-600 hover:bg-red-700"
+                onClick={purge}
+              >
+                Delete
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-[11px] gap-1"
+                disabled={selectedIds.length === 0}
+                onClick={() => void restore(selectedIds)}
+              >
+                <ArchiveRestore className="w-3 h-3" />
+                Restore
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-[11px] gap-1 text-red-600 hover:text-red-700"
+                disabled={selectedIds.length === 0}
+                onClick={() => setConfirmingPurge(true)}
+              >
+                <Trash2 className="w-3 h-3" />
+                Delete
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Archived nodes */}
+      <ScrollArea className="flex-1">
+        {archived.length === 0 ? (
+          <div className="text-center py-12 px-4">
+            <Archive className="w-8 h-8 text-[#dddcd7] mx-auto mb-3" />
+            <p className="text-sm text-[#78716c]">Nothing archived</p>
+            <p className="text-xs text-[#a8a29e] mt-1">
+              Archived sources are kept here until you restore or delete them
+            </p>
+          </div>
+        ) : (
+          <div className="py-2">
+            {archived.map((node) => (
+              <div
+                key={node.id}
+                className="group flex items-start gap-3 px-4 py-2.5 hover:bg-[#f3f2ee] transition-colors"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(node.id)}
+                  onChange={() => toggle(node.id)}
+                  className="mt-0.5 accent-violet-600"
+                />
+                <button
+                  className="flex-1 min-w-0 text-left"
+                  onClick={() => selectNode(node.id)}
+                >
+                  <p className="font-paper-title text-xs text-[#44403c] leading-snug line-clamp-2">
+                    {node.data.title}
+                  </p>
+                  <p className="text-[10px] text-[#a8a29e] mt-0.5">{describeArchival(node)}</p>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+                  title="Restore"
+                  onClick={() => void restore([node.id])}
+                >
+                  <ArchiveRestore className="w-3 h-3 text-[#78716c]" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
@@ -22,8 +22,10 @@ import type {
 import { useGraphStore } from "@/store/graph-store";
 import { newRabbitHoleId, useRabbitHoleStore } from "@/store/rabbit-hole-store";
 import { useChatStore } from "@/store/chat-store";
+import { useAnnotationStore } from "@/store/annotation-store";
 import { EMPTY_WORKFLOW_SNAPSHOT, useWorkflowStore } from "@/store/workflow-store";
 import { executeGraphCommand } from "@/lib/graph/commands";
+import { runUndoGroup, type UndoGroup } from "@/lib/graph/undo";
 import {
   createChatThread,
   parseChatMessage,
@@ -79,6 +81,7 @@ const TOOL_LABELS: Record<string, string> = {
   getPaperDetails: "Getting details",
   summarizeCluster: "Summarizing cluster",
   findContradictions: "Finding contradictions",
+  tagGraphNodes: "Tagging nodes",
 };
 
 function parseAuthors(input: unknown): Author[] {
@@ -120,6 +123,11 @@ function parseExternalIds(input: unknown): ExternalIds {
   return out;
 }
 
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((v): v is string => typeof v === "string" && v.trim().length > 0);
+}
+
 function normalizeUrl(value: unknown): string | undefined {
   if (typeof value !== "string" || value.trim().length === 0) return undefined;
   try {
@@ -374,6 +382,26 @@ function intentFromToolCall(toolCall: ToolCallShape): {
         },
       };
     }
+    case "tagGraphNodes": {
+      const nodeIds = stringList(input.nodeIds);
+      const addTags = stringList(input.addTags);
+      const removeTags = stringList(input.removeTags);
+      if (nodeIds.length === 0 || addTags.length + removeTags.length === 0) return null;
+      const parts = [
+        addTags.length > 0 ? `+${addTags.join(", +")}` : "",
+        removeTags.length > 0 ? `-${removeTags.join(", -")}` : "",
+      ].filter(Boolean);
+      return {
+        summary: `Tag ${nodeIds.length} node${nodeIds.length === 1 ? "" : "s"} ${parts.join(" ")}`,
+        intent: {
+          type: "tag-nodes",
+          nodeIds,
+          addTags,
+          removeTags,
+          source: "chat",
+        },
+      };
+    }
     case "relayoutGraph": {
       return {
         summary: "Relayout graph",
@@ -577,6 +605,9 @@ export function ChatDock() {
     activeRabbitHoleId ? s.byHole[activeRabbitHoleId] : undefined
   );
   const setActiveThread = useChatStore((s) => s.setActiveThread);
+  const annotations = useAnnotationStore((s) =>
+    activeRabbitHoleId ? s.byHole[activeRabbitHoleId] : undefined
+  );
   const setDraft = useChatStore((s) => s.setDraft);
   const getDraft = useChatStore((s) => s.getDraft);
 
@@ -645,10 +676,11 @@ export function ChatDock() {
         weights,
         nodes: nodeArr,
         clusters,
+        annotations,
       },
       ""
     );
-  }, [clusters, nodes, query, workflow.question, weights]);
+  }, [annotations, clusters, nodes, query, workflow.question, weights]);
 
   const workflowContext = useMemo(() => {
     const answers = Object.entries(workflow.scopeAnswers)
@@ -946,10 +978,10 @@ export function ChatDock() {
   }, [activeRabbitHoleId, setActiveThread, setDraft]);
 
   const handleApplyPending = useCallback(
-    async (pendingId: string) => {
+    async (pendingId: string, undoGroup?: UndoGroup) => {
       const pending = workflow.pendingActions.find((action) => action.id === pendingId);
       if (!pending) return;
-      const result = await executeGraphCommand(pending.intent);
+      const result = await executeGraphCommand(pending.intent, undoGroup);
       if (!result.applied) {
         await addToolOutput({
           state: "output-error",
@@ -974,6 +1006,19 @@ export function ChatDock() {
     [addToolOutput, removePendingAction, workflow.pendingActions]
   );
 
+  const handleApplyAllPending = useCallback(async () => {
+    const ids = workflow.pendingActions.map((action) => action.id);
+    if (ids.length === 0) return;
+    // One undo step for the whole batch
+    await runUndoGroup(
+      `Applied ${ids.length} proposed action${ids.length === 1 ? "" : "s"}`,
+      async (group) => {
+        for (const id of ids) await handleApplyPending(id, group);
+      },
+      "chat"
+    );
+  }, [handleApplyPending, workflow.pendingActions]);
+
   const handleRejectPending = useCallback(
     async (pendingId: string) => {
       const pending = workflow.pendingActions.find((action) => action.id === pendingId);
@@ -1189,7 +1234,17 @@ export function ChatDock() {
 
               {workflow.pendingActions.length > 0 && (
                 <div className="space-y-2">
-                  <p className="text-xs font-medium text-[#44403c]">Proposed graph actions</p>
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs font-medium text-[#44403c]">Proposed graph actions</p>
+                    {workflow.pendingActions.length > 1 && (
+                      <button
+                        onClick={() => void handleApplyAllPending()}
+                        className="h-6 rounded-md px-2 text-[11px] font-medium text-[#44403c] hover:bg-[#f3f2ee]"
+                      >
+                        Apply all
+                      </button>
+                    )}
+                  </div>
                   {workflow.pendingActions.map((action) => (
                     <div
                       key={action.id}
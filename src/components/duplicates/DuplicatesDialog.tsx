@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import { Combine, Loader2, AlertCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { ScrollArea } from "@/components/ui/ScrollArea";
+import { useGraphStore } from "@/store/graph-store";
+import { useUIStore } from "@/store/ui-store";
+import { executeGraphCommand } from "@/lib/graph/commands";
+import { findDuplicateGroups, type DuplicateGroup } from "@/lib/graph/duplicates";
+import { extractDomain } from "@/lib/utils/arxiv-urls";
+import { cn } from "@/lib/utils";
+import type { PaperNode } from "@/types";
+
+function describeNode(node: PaperNode): string {
+  const ids = node.data.externalIds;
+  const parts = [
+    node.data.year ? String(node.data.year) : null,
+    ids.doi ? `doi ${ids.doi}` : ids.arxivId ? `arXiv ${ids.arxivId}` : null,
+    !ids.doi && !ids.arxivId && node.data.url ? extractDomain(node.data.url) : null,
+    node.state,
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+function GroupCard({
+  group,
+  nodes,
+  included,
+  primaryId,
+  onToggle,
+  onPickPrimary,
+}: {
+  group: DuplicateGroup;
+  nodes: Map<string, PaperNode>;
+  included: boolean;
+  primaryId: string;
+  onToggle: () => void;
+  onPickPrimary: (nodeId: string) => void;
+}) {
+  return (
+    <div className={cn("px-4 py-3 border-b border-[#f3f2ee] last:border-0", !included && "opacity-50")}>
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input type="checkbox" checked={included} onChange={onToggle} className="mt-0.5 accent-violet-600" />
+        <span className="text-[11px] text-[#78716c] leading-snug">{group.reasons.join("; ")}</span>
+      </label>
+      <div className="mt-2 ml-5 space-y-1">
+        {group.nodeIds.map((nodeId) => {
+          const node = nodes.get(nodeId);
+          if (!node) return null;
+          const keep = nodeId === primaryId;
+          return (
+            <label
+              key={nodeId}
+              className={cn(
+                "flex items-start gap-2 rounded-md px-2 py-1.5 cursor-pointer",
+                keep ? "bg-[#f3f2ee]" : "hover:bg-[#f8f7f4]"
+              )}
+            >
+              <input
+                type="radio"
+                name={`keep-${group.primaryId}`}
+                checked={keep}
+                onChange={() => onPickPrimary(nodeId)}
+                disabled={!included}
+                className="mt-0.5 accent-violet-600"
+              />
+              <span className="flex-1 min-w-0">
+                <span className="block font-paper-title text-xs text-[#1c1917] line-clamp-1">{node.data.title}</span>
+                <span className="block text-[10px] text-[#a8a29e] truncate">{describeNode(node)}</span>
+              </span>
+              {keep && <span className="shrink-0 text-[10px] font-medium text-violet-600">Keep</span>}
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/** Dialog body; mounted fresh on each open so the scan reflects the current graph. */
+function DuplicatesBody({ onClose }: { onClose: () => void }) {
+  const nodes = useGraphStore((s) => s.nodes);
+  const [groups] = useState(() => findDuplicateGroups(useGraphStore.getState().nodes));
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [primaries, setPrimaries] = useState<Record<string, string>>({});
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const included = groups.filter((g) => !excluded.has(g.primaryId));
+  const duplicateCount = included.reduce((sum, g) => sum + g.nodeIds.length - 1, 0);
+
+  const toggle = (groupId: string) =>
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(groupId)) next.delete(groupId);
+      else next.add(groupId);
+      return next;
+    });
+
+  const handleMerge = async () => {
+    setMerging(true);
+    setError(null);
+    const result = await executeGraphCommand({
+      type: "merge-duplicates",
+      groups: included.map((group) => {
+        const primaryId = primaries[group.primaryId] ?? group.primaryId;
+        return { primaryId, duplicateIds: group.nodeIds.filter((id) => id !== primaryId) };
+      }),
+      source: "canvas",
+    });
+    setMerging(false);
+    if (result.applied) onClose();
+    else setError(result.error ?? "Merge failed");
+  };
+
+  return (
+    <>
+      <DialogHeader className="px-4 pt-4 pb-3 border-b border-[#e8e7e2]">
+        <DialogTitle className="flex items-center gap-2 text-sm font-medium">
+          <Combine className="w-3.5 h-3.5 text-violet-500" />
+          Find duplicates
+        </DialogTitle>
+      </DialogHeader>
+
+      {groups.length === 0 ? (
+        <div className="px-4 py-8 text-center">
+          <p className="text-sm text-[#78716c]">No likely duplicates found</p>
+          <p className="text-xs text-[#a8a29e] mt-1">
+            Papers are compared by DOI, arXiv and other ids, links, and title
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="px-4 py-2.5 border-b border-[#e8e7e2] text-[11px] text-[#57534e]">
+            <span className="font-medium text-[#1c1917]">{groups.length}</span> group
+            {groups.length === 1 ? "" : "s"} of likely duplicates. Each group merges into the paper
+            marked Keep; its links, notes and tags carry over.
+          </div>
+          <ScrollArea className="max-h-[420px]">
+            {groups.map((group) => (
+              <GroupCard
+                key={group.primaryId}
+                group={group}
+                nodes={nodes}
+                included={!excluded.has(group.primaryId)}
+                primaryId={primaries[group.primaryId] ?? group.primaryId}
+                onToggle={() => toggle(group.primaryId)}
+                onPickPrimary={(nodeId) => setPrimaries((prev) => ({ ...prev, [group.primaryId]: nodeId }))}
+              />
+            ))}
+          </ScrollArea>
+        </>
+      )}
+
+      {error && (
+        <p className="flex items-center gap-1.5 px-4 pb-2 text-[11px] text-red-600">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex items-center justify-end gap-1.5 px-4 py-3 border-t border-[#e8e7e2]">
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          {groups.length === 0 ? "Close" : "Cancel"}
+        </Button>
+        {groups.length > 0 && (
+          <Button size="sm" onClick={() => void handleMerge()} disabled={merging || duplicateCount === 0} className="gap-1.5">
+            {merging && <Loader2 className="w-3 h-3 animate-spin" />}
+            Merge {duplicateCount} duplicate{duplicateCount === 1 ? "" : "s"}
+          </Button>
+        )}
+      </div>
+    </>
+  );
+}
+
+export function DuplicatesDialog() {
+  const open = useUIStore((s) => s.duplicatesOpen);
+  const close = useUIStore((s) => s.closeDuplicates);
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && close()}>
+      <DialogContent className="sm:max-w-lg p-0 gap-0 overflow-hidden">
+        <DuplicatesBody onClose={close} />
+      </DialogContent>
+    </Dialog>
+  );
+}
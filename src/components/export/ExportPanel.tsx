@@ -1,31 +1,43 @@
 "use client";
 
 import { useState, useMemo, useCallback } from "react";
-import { Download, Copy, Check, FileText, BookOpen, Braces, FileDown, Vault } from "lucide-react";
+import { Download, Copy, Check, FileText, BookOpen, Braces, FileDown, Vault, Quote, ListOrdered, Package, Network, Sigma, Link } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/Button";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/Tabs";
 import { ScrollArea } from "@/components/ui/ScrollArea";
 import { useGraphStore } from "@/store/graph-store";
-import { generateBibTeX, generateRIS, generateMarkdownReview, generateObsidianExport, downloadFile } from "@/lib/utils/export";
-import type { PaperMetadata, ExportFormat, Cluster } from "@/types";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { useAnnotationStore } from "@/store/annotation-store";
+import { generateBibTeX, generateRIS, generateCSLJSON, generateMarkdownReview, generateObsidianExport, generateGraphML, generateGEXF, generateLatexReview, formatBibliography, CITATION_STYLES, downloadFile } from "@/lib/utils/export";
+import { buildRodeoBundle } from "@/lib/db/rodeo-bundle";
+import type { PaperMetadata, ExportFormat, Cluster, CitationStyle } from "@/types";
 
 type Scope = "all" | "cluster" | "selected";
 
-const FMT_EXT: Record<ExportFormat, string> = { bibtex: "bib", ris: "ris", markdown: "md", json: "json", obsidian: "md" };
-const FMT_MIME: Record<ExportFormat, string> = { bibtex: "application/x-bibtex", ris: "application/x-research-info-systems", markdown: "text/markdown", json: "application/json", obsidian: "text/markdown" };
+const FMT_EXT: Record<ExportFormat, string> = { bibtex: "bib", ris: "ris", "csl-json": "json", citation: "txt", markdown: "md", json: "json", obsidian: "md", graphml: "graphml", gexf: "gexf", latex: "tex", rodeo: "rodeo" };
+const FMT_MIME: Record<ExportFormat, string> = { bibtex: "application/x-bibtex", ris: "application/x-research-info-systems", "csl-json": "application/vnd.citationstyles.csl+json", citation: "text/plain", markdown: "text/markdown", json: "application/json", obsidian: "text/markdown", graphml: "application/graphml+xml", gexf: "application/gexf+xml", latex: "application/x-tex", rodeo: "application/json" };
 
 export function ExportPanel({ className }: { className?: string }) {
   const [format, setFormat] = useState<ExportFormat>("bibtex");
   const [scope, setScope] = useState<Scope>("all");
+  const [citationStyle, setCitationStyle] = useState<CitationStyle>("apa");
   const [copied, setCopied] = useState(false);
+  const [feedCopied, setFeedCopied] = useState(false);
   const [isGeneratingReview, setIsGeneratingReview] = useState(false);
   const [reviewContent, setReviewContent] = useState<string | null>(null);
+  const [latexDraft, setLatexDraft] = useState<{ tex: string; bib: string } | null>(null);
 
   const nodes = useGraphStore((s) => s.nodes);
   const edges = useGraphStore((s) => s.edges);
   const clusters = useGraphStore((s) => s.clusters);
   const selectedNodeId = useGraphStore((s) => s.selectedNodeId);
+  const rabbitHoleName = useRabbitHoleStore((s) => s.getCurrentRabbitHole()?.name);
+  const rabbitHoleId = useRabbitHoleStore((s) => s.currentRabbitHoleId);
+  const annotations = useAnnotationStore((s) => (rabbitHoleId ? s.byHole[rabbitHoleId] : undefined));
+  const rabbitHoleSlug =
+    (rabbitHoleName ?? "rabbit-hole").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") ||
+    "rabbit-hole";
 
   const allPapers: PaperMetadata[] = useMemo(() => {
     const nodeArray =
@@ -62,6 +74,12 @@ export function ExportPanel({ className }: { className?: string }) {
     return allPapers;
   }, [scope, allPapers, nodes, clusters, selectedNodeId]);
 
+  // LaTeX exports ship as a .tex/.bib pair whose cite keys must line up
+  const latexExport = useMemo(() => {
+    if (format !== "latex") return null;
+    return latexDraft ?? generateLatexReview(scopedPapers, (clusters ?? []) as Cluster[], rabbitHoleName);
+  }, [format, latexDraft, scopedPapers, clusters, rabbitHoleName]);
+
   const preview = useMemo(() => {
     if (format === "markdown" && reviewContent) return reviewContent;
 
@@ -70,23 +88,45 @@ export function ExportPanel({ className }: { className?: string }) {
         return generateBibTeX(scopedPapers.slice(0, 5));
       case "ris":
         return generateRIS(scopedPapers.slice(0, 5));
+      case "csl-json":
+        return generateCSLJSON(scopedPapers.slice(0, 3));
+      case "citation":
+        return formatBibliography(scopedPapers.slice(0, 5), citationStyle);
       case "json":
         return JSON.stringify(scopedPapers.slice(0, 3), null, 2);
       case "markdown":
         return generateMarkdownReview(
           scopedPapers.slice(0, 5),
-          (clusters ?? []) as Cluster[]
+          (clusters ?? []) as Cluster[],
+          annotations
         );
       case "obsidian":
         return generateObsidianExport(
+          nodes instanceof Map ? nodes : new Map(),
+          edges ?? [],
+          (clusters ?? []) as Cluster[],
+          annotations
+        ).slice(0, 2000) + "\n\n... (preview truncated)";
+      case "graphml":
+        return generateGraphML(
           nodes instanceof Map ? nodes : new Map(),
           edges ?? [],
           (clusters ?? []) as Cluster[]
         ).slice(0, 2000) + "\n\n... (preview truncated)";
+      case "gexf":
+        return generateGEXF(
+          nodes instanceof Map ? nodes : new Map(),
+          edges ?? [],
+          (clusters ?? []) as Cluster[]
+        ).slice(0, 2000) + "\n\n... (preview truncated)";
+      case "latex":
+        return (latexExport?.tex ?? "").slice(0, 2000) + "\n\n... (preview truncated)";
+      case "rodeo":
+        return JSON.stringify(buildRodeoBundle(), null, 2).slice(0, 2000) + "\n\n... (preview truncated)";
       default:
         return "";
     }
-  }, [format, scopedPapers, clusters, reviewContent, nodes, edges]);
+  }, [format, scopedPapers, clusters, reviewContent, nodes, edges, citationStyle, latexExport, annotations]);
 
   const fullContent = useMemo(() => {
     if (format === "markdown" && reviewContent) return reviewContent;
@@ -96,32 +136,64 @@ export function ExportPanel({ className }: { className?: string }) {
         return generateBibTeX(scopedPapers);
       case "ris":
         return generateRIS(scopedPapers);
+      case "csl-json":
+        return generateCSLJSON(scopedPapers);
+      case "citation":
+        return formatBibliography(scopedPapers, citationStyle);
       case "json":
         return JSON.stringify(scopedPapers, null, 2);
       case "markdown":
         return generateMarkdownReview(
           scopedPapers,
-          (clusters ?? []) as Cluster[]
+          (clusters ?? []) as Cluster[],
+          annotations
         );
       case "obsidian":
         return generateObsidianExport(
+          nodes instanceof Map ? nodes : new Map(),
+          edges ?? [],
+          (clusters ?? []) as Cluster[],
+          annotations
+        );
+      case "graphml":
+        return generateGraphML(
+          nodes instanceof Map ? nodes : new Map(),
+          edges ?? [],
+          (clusters ?? []) as Cluster[]
+        );
+      case "gexf":
+        return generateGEXF(
           nodes instanceof Map ? nodes : new Map(),
           edges ?? [],
           (clusters ?? []) as Cluster[]
         );
+      case "latex":
+        return latexExport?.tex ?? "";
+      case "rodeo":
+        return JSON.stringify(buildRodeoBundle());
       default:
         return "";
     }
-  }, [format, scopedPapers, clusters, reviewContent, nodes, edges]);
+  }, [format, scopedPapers, clusters, reviewContent, nodes, edges, citationStyle, latexExport, annotations]);
 
   const handleDownload = useCallback(() => {
     const ext = FMT_EXT[format];
     const mime = FMT_MIME[format];
     const filename = format === "obsidian"
       ? `research-rodeo-obsidian-vault.${ext}`
-      : `research-rodeo-export.${ext}`;
+      : format === "rodeo" || format === "graphml" || format === "gexf" || format === "latex"
+        ? `${rabbitHoleSlug}.${ext}`
+      : format === "csl-json"
+        ? `research-rodeo-export.csl.${ext}`
+        : format === "citation"
+          ? `research-rodeo-bibliography-${citationStyle}.${ext}`
+          : `research-rodeo-export.${ext}`;
     downloadFile(fullContent, filename, mime);
-  }, [fullContent, format]);
+    // The .tex file ends with \bibliography{references}, so the keys resolve when both sit side by side
+    if (format === "latex" && latexExport) {
+      downloadFile(latexExport.bib, "references.bib", FMT_MIME.bibtex);
+    }
+  }, [fullContent, format, citationStyle, rabbitHoleSlug, latexExport]);
 
   const handleCopy = useCallback(async () => {
     await navigator.clipboard.writeText(fullContent);
@@ -129,6 +201,15 @@ export function ExportPanel({ className }: { className?: string }) {
     setTimeout(() => setCopied(false), 2000);
   }, [fullContent]);
 
+  // Live feed of materialized papers for LaTeX projects (see /api/holes/[id]/bibliography.bib)
+  const handleCopyFeedUrl = useCallback(async () => {
+    if (!rabbitHoleId) return;
+    const url = `${window.location.origin}/api/holes/${encodeURIComponent(rabbitHoleId)}/bibliography.bib`;
+    await navigator.clipboard.writeText(url);
+    setFeedCopied(true);
+    setTimeout(() => setFeedCopied(false), 2000);
+  }, [rabbitHoleId]);
+
   const handleDraftReview = useCallback(async () => {
     setIsGeneratingReview(true);
     try {
@@ -136,23 +217,29 @@ export function ExportPanel({ className }: { className?: string }) {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          format: "markdown",
+          format: format === "latex" ? "latex" : "markdown",
           papers: scopedPapers,
           clusters: clusters ?? [],
           includeReview: true,
+          title: rabbitHoleName,
+          annotations: annotations ?? [],
         }),
       });
       const data = await res.json();
       if (data.status === "success" && data.data?.content) {
-        setReviewContent(data.data.content);
-        setFormat("markdown");
+        if (format === "latex") {
+          setLatexDraft({ tex: data.data.content, bib: data.data.bib ?? "" });
+        } else {
+          setReviewContent(data.data.content);
+          setFormat("markdown");
+        }
       }
     } catch {
       // Fall back to local generation
     } finally {
       setIsGeneratingReview(false);
     }
-  }, [scopedPapers, clusters]);
+  }, [scopedPapers, clusters, format, rabbitHoleName, annotations]);
 
   return (
     <div
@@ -194,30 +281,84 @@ export function ExportPanel({ className }: { className?: string }) {
           onValueChange={(v) => {
             setFormat(v as ExportFormat);
             setReviewContent(null);
+            setLatexDraft(null);
           }}
         >
-          <TabsList className="w-full">
-            <TabsTrigger value="bibtex" className="flex-1 gap-1 text-xs">
+          <TabsList className="w-full flex-wrap">
+            <TabsTrigger value="bibtex" className="flex-1 basis-[22%] gap-1 text-xs">
               <FileText className="h-3.5 w-3.5" /> BibTeX
             </TabsTrigger>
-            <TabsTrigger value="ris" className="flex-1 gap-1 text-xs">
+            <TabsTrigger value="ris" className="flex-1 basis-[22%] gap-1 text-xs">
               <FileDown className="h-3.5 w-3.5" /> RIS
             </TabsTrigger>
-            <TabsTrigger value="obsidian" className="flex-1 gap-1 text-xs">
+            <TabsTrigger value="csl-json" className="flex-1 basis-[22%] gap-1 text-xs">
+              <Quote className="h-3.5 w-3.5" /> CSL
+            </TabsTrigger>
+            <TabsTrigger value="citation" className="flex-1 basis-[22%] gap-1 text-xs">
+              <ListOrdered className="h-3.5 w-3.5" /> Cite
+            </TabsTrigger>
+            <TabsTrigger value="obsidian" className="flex-1 basis-[22%] gap-1 text-xs">
               <Vault className="h-3.5 w-3.5" /> Obsidian
             </TabsTrigger>
-            <TabsTrigger value="markdown" className="flex-1 gap-1 text-xs">
+            <TabsTrigger value="markdown" className="flex-1 basis-[22%] gap-1 text-xs">
               <BookOpen className="h-3.5 w-3.5" /> Review
             </TabsTrigger>
-            <TabsTrigger value="json" className="flex-1 gap-1 text-xs">
+            <TabsTrigger value="latex" className="flex-1 basis-[22%] gap-1 text-xs">
+              <Sigma className="h-3.5 w-3.5" /> LaTeX
+            </TabsTrigger>
+            <TabsTrigger value="json" className="flex-1 basis-[22%] gap-1 text-xs">
               <Braces className="h-3.5 w-3.5" /> JSON
             </TabsTrigger>
+            <TabsTrigger value="graphml" className="flex-1 basis-[22%] gap-1 text-xs">
+              <Network className="h-3.5 w-3.5" /> GraphML
+            </TabsTrigger>
+            <TabsTrigger value="gexf" className="flex-1 basis-[22%] gap-1 text-xs">
+              <Network className="h-3.5 w-3.5" /> GEXF
+            </TabsTrigger>
+            <TabsTrigger value="rodeo" className="flex-1 basis-[22%] gap-1 text-xs">
+              <Package className="h-3.5 w-3.5" /> Bundle
+            </TabsTrigger>
           </TabsList>
         </Tabs>
       </div>
 
+      {/* Citation style picker */}
+      {format === "citation" && (
+        <div className="px-4 pt-3 flex gap-2">
+          {(Object.keys(CITATION_STYLES) as CitationStyle[]).map((s) => (
+            <button
+              key={s}
+              onClick={() => setCitationStyle(s)}
+              className={cn(
+                "rounded-full px-3 py-1 text-xs font-medium transition-colors",
+                citationStyle === s
+                  ? "bg-violet-600 text-white"
+                  : "bg-[#f3f2ee] text-[#44403c] hover:bg-[#eeeee8]"
+              )}
+            >
+              {CITATION_STYLES[s].label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Live BibTeX feed link */}
+      {format === "bibtex" && rabbitHoleId && (
+        <div className="px-4 pt-3">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCopyFeedUrl}
+            className="w-full gap-1.5"
+          >
+            {feedCopied ? <Check className="h-3.5 w-3.5" /> : <Link className="h-3.5 w-3.5" />}
+            {feedCopied ? "Feed URL copied" : "Copy live .bib feed URL"}
+          </Button>
+        </div>
+      )}
+
       {/* Draft AI Review button */}
-      {format === "markdown" && (
+      {(format === "markdown" || format === "latex") && (
         <div className="px-4 pt-3">
           <Button
             variant="outline"
@@ -240,7 +381,7 @@ export function ExportPanel({ className }: { className?: string }) {
           <pre
             className={cn(
               "p-3 text-xs whitespace-pre-wrap break-words",
-              format === "markdown" || format === "obsidian"
+              format === "markdown" || format === "obsidian" || format === "citation"
                 ? "font-paper-title text-[#44403c]"
                 : "font-mono text-[#57534e]"
             )}
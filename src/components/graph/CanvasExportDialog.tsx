@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { useReactFlow } from "@xyflow/react";
+import { ImageDown, Loader2, AlertCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { useGraphStore } from "@/store/graph-store";
+import { useUIStore } from "@/store/ui-store";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { renderGraphSVG, type CanvasBounds } from "@/lib/graph/canvas-export";
+import { downloadFile } from "@/lib/utils/export";
+import { cn } from "@/lib/utils";
+
+type Area = "viewport" | "graph";
+type ImageFormat = "svg" | "png";
+
+const SCALES = [1, 2, 3, 4];
+
+function Choice<T extends string | number>({
+  options,
+  value,
+  onChange,
+  label,
+  disabled,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (v: T) => void;
+  label: string;
+  disabled?: boolean;
+}) {
+  return (
+    <div className={cn("flex items-center justify-between gap-3", disabled && "opacity-40 pointer-events-none")}>
+      <span className="text-xs text-[#57534e]">{label}</span>
+      <div className="flex gap-1.5">
+        {options.map((o) => (
+          <button
+            key={o.value}
+            type="button"
+            onClick={() => onChange(o.value)}
+            className={cn(
+              "rounded-full px-3 py-1 text-xs font-medium transition-colors",
+              value === o.value
+                ? "bg-violet-600 text-white"
+                : "bg-[#f3f2ee] text-[#44403c] hover:bg-[#eeeee8]"
+            )}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function CanvasExportDialog() {
+  const open = useUIStore((s) => s.canvasExportOpen);
+  const close = useUIStore((s) => s.closeCanvasExport);
+  const currentView = useUIStore((s) => s.currentView);
+  const rabbitHoleName = useRabbitHoleStore((s) => s.getCurrentRabbitHole()?.name);
+  const { getNodes, getViewport } = useReactFlow();
+
+  const [area, setArea] = useState<Area>("viewport");
+  const [format, setFormat] = useState<ImageFormat>("png");
+  const [scale, setScale] = useState(2);
+  const [legend, setLegend] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canUseViewport = currentView === "graph";
+  const effectiveArea: Area = canUseViewport ? area : "graph";
+
+  /** Visible flow-space rectangle of the canvas, from the viewport transform. */
+  function viewportBounds(): CanvasBounds | undefined {
+    const el = document.querySelector(".react-flow");
+    if (!el) return undefined;
+    const rect = el.getBoundingClientRect();
+    const { x, y, zoom } = getViewport();
+    return { x: -x / zoom, y: -y / zoom, width: rect.width / zoom, height: rect.height / zoom };
+  }
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const { nodes, edges, clusters } = useGraphStore.getState();
+      const sizes = new Map(
+        getNodes()
+          .filter((n) => n.measured?.width && n.measured?.height)
+          .map((n) => [n.id, { width: n.measured!.width!, height: n.measured!.height! }])
+      );
+      const svg = renderGraphSVG(Array.from(nodes.values()), edges, clusters, {
+        bounds: effectiveArea === "viewport" ? viewportBounds() : undefined,
+        legend,
+        sizes,
+      });
+
+      const base =
+        (rabbitHoleName ?? "research-rodeo-graph")
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-|-$/g, "") || "research-rodeo-graph";
+
+      if (format === "svg") {
+        downloadFile(svg, `${base}.svg`, "image/svg+xml");
+      } else {
+        const res = await fetch("/api/export/png", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ svg, scale }),
+        });
+        if (!res.ok) {
+          const json = await res.json().catch(() => null);
+          throw new Error(json?.error ?? `PNG export failed (${res.status})`);
+        }
+        downloadFile(await res.blob(), `${base}@${scale}x.png`, "image/png");
+      }
+      close();
+    } catch (err) {
+      console.error("[CanvasExportDialog] Error:", err);
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && !exporting && close()}>
+      <DialogContent className="sm:max-w-sm p-0 gap-0 overflow-hidden">
+        <DialogHeader className="px-4 pt-4 pb-3 border-b border-[#e8e7e2]">
+          <DialogTitle className="flex items-center gap-2 text-sm font-medium">
+            <ImageDown className="w-3.5 h-3.5 text-violet-500" />
+            Export graph image
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-3 px-4 py-3">
+          <Choice
+            label="Area"
+            value={effectiveArea}
+            onChange={setArea}
+            options={[
+              { value: "viewport", label: "Current view" },
+              { value: "graph", label: "Whole graph" },
+            ]}
+          />
+          <Choice
+            label="Format"
+            value={format}
+            onChange={setFormat}
+            options={[
+              { value: "png", label: "PNG" },
+              { value: "svg", label: "SVG" },
+            ]}
+          />
+          <Choice
+            label="Scale"
+            value={scale}
+            onChange={setScale}
+            disabled={format !== "png"}
+            options={SCALES.map((s) => ({ value: s, label: `${s}×` }))}
+          />
+          <label className="flex items-center justify-between gap-3 text-xs text-[#57534e]">
+            Include legend
+            <input
+              type="checkbox"
+              checked={legend}
+              onChange={(e) => setLegend(e.target.checked)}
+              className="accent-violet-600"
+            />
+          </label>
+
+          {error && (
+            <div className="flex items-center gap-2 text-xs text-red-600">
+              <AlertCircle className="w-3.5 h-3.5" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 pb-4">
+          <Button type="button" variant="ghost" size="sm" onClick={close} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button type="button" size="sm" onClick={handleExport} disabled={exporting}>
+            {exporting ? (
+              <>
+                <Loader2 className="w-3 h-3 animate-spin mr-1.5" />
+                Rendering…
+              </>
+            ) : "Export"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import { Panel } from "@xyflow/react";
+import { History, Redo2, Undo2 } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/Popover";
+import { ScrollArea } from "@/components/ui/ScrollArea";
+import { useHistoryStore, type HistoryEntry } from "@/store/history-store";
+import { cn } from "@/lib/utils";
+
+function formatEntryTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+function EntryRow({
+  entry,
+  undone,
+  onClick,
+}: {
+  entry: HistoryEntry;
+  undone: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        "w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-[#f3f2ee]",
+        undone && "opacity-50"
+      )}
+      title={undone ? "Redo up to here" : "Undo back to before this"}
+    >
+      <span className="flex-1 min-w-0 truncate text-xs text-[#1c1917]">{entry.description}</span>
+      <span className="shrink-0 text-[10px] text-[#a8a29e]">
+        {entry.source} · {formatEntryTime(entry.createdAt)}
+      </span>
+    </button>
+  );
+}
+
+/** Undo / redo buttons over the canvas with a popover listing every step. */
+export function CanvasHistoryControls() {
+  const past = useHistoryStore((s) => s.past);
+  const future = useHistoryStore((s) => s.future);
+  const undo = useHistoryStore((s) => s.undo);
+  const redo = useHistoryStore((s) => s.redo);
+  const [open, setOpen] = useState(false);
+
+  const undoTo = (index: number) => {
+    for (let i = past.length - 1; i >= index; i--) undo();
+  };
+  const redoTo = (index: number) => {
+    for (let i = future.length - 1; i >= index; i--) redo();
+  };
+
+  const buttonClass =
+    "p-1.5 rounded-md text-[#57534e] hover:bg-[#f3f2ee] hover:text-[#1c1917] disabled:opacity-40 disabled:hover:bg-transparent";
+
+  return (
+    <Panel position="top-right">
+      <div className="flex items-center gap-0.5 rounded-lg bg-white/90 border border-[#e8e7e2] p-0.5 shadow-sm">
+        <button
+          onClick={undo}
+          disabled={past.length === 0}
+          className={buttonClass}
+          title={past.length > 0 ? `Undo: ${past[past.length - 1].description}` : "Nothing to undo"}
+        >
+          <Undo2 className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={redo}
+          disabled={future.length === 0}
+          className={buttonClass}
+          title={future.length > 0 ? `Redo: ${future[future.length - 1].description}` : "Nothing to redo"}
+        >
+          <Redo2 className="w-3.5 h-3.5" />
+        </button>
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <button
+              disabled={past.length === 0 && future.length === 0}
+              className={buttonClass}
+              title="Undo history"
+            >
+              <History className="w-3.5 h-3.5" />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-80 p-0 overflow-hidden">
+            <div className="px-3 py-2 border-b border-[#e8e7e2] text-xs font-medium text-[#44403c]">
+              Undo history
+            </div>
+            <ScrollArea className="max-h-[320px]">
+              <div className="py-1">
+                {future.map((entry, index) => (
+                  <EntryRow
+                    key={`future-${entry.createdAt}-${index}`}
+                    entry={entry}
+                    undone
+                    onClick={() => redoTo(index)}
+                  />
+                ))}
+                {[...past].reverse().map((entry, reversedIndex) => {
+                  const index = past.length - 1 - reversedIndex;
+                  return (
+                    <EntryRow
+                      key={`past-${entry.createdAt}-${index}`}
+                      entry={entry}
+                      undone={false}
+                      onClick={() => undoTo(index)}
+                    />
+                  );
+                })}
+              </div>
+            </ScrollArea>
+            <p className="px-3 py-2 border-t border-[#e8e7e2] text-[10px] text-[#a8a29e]">
+              Click a step to undo back to it, or a faded one to redo.
+            </p>
+          </PopoverContent>
+        </Popover>
+      </div>
+    </Panel>
+  );
+}
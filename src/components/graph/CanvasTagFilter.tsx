@@ -0,0 +1,59 @@
+"use client";
+
+import { useMemo } from "react";
+import { Panel } from "@xyflow/react";
+import { Tag, X } from "lucide-react";
+import { useGraphStore } from "@/store/graph-store";
+import { useUIStore } from "@/store/ui-store";
+import { collectTagUsage, sameTag } from "@/lib/utils/tags";
+import { cn } from "@/lib/utils";
+
+/** Tag chips over the canvas; nodes outside the active filter are dimmed. */
+export function CanvasTagFilter() {
+  const nodes = useGraphStore((s) => s.nodes);
+  const tagDefinitions = useGraphStore((s) => s.tagDefinitions);
+  const tagFilter = useUIStore((s) => s.tagFilter);
+  const toggleTagFilter = useUIStore((s) => s.toggleTagFilter);
+  const setTagFilter = useUIStore((s) => s.setTagFilter);
+
+  const tags = useMemo(
+    () => collectTagUsage(nodes.values(), tagDefinitions).filter((t) => t.count > 0),
+    [nodes, tagDefinitions]
+  );
+
+  if (tags.length === 0) return null;
+
+  return (
+    <Panel position="top-left">
+      <div className="flex flex-wrap items-center gap-1 max-w-[420px] rounded-lg bg-white/90 border border-[#e8e7e2] px-2 py-1.5 shadow-sm">
+        <Tag className="w-3 h-3 text-[#a8a29e]" />
+        {tags.map((tag) => {
+          const active = tagFilter.some((t) => sameTag(t, tag.name));
+          return (
+            <button
+              key={tag.name}
+              onClick={() => toggleTagFilter(tag.name)}
+              className={cn(
+                "flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors border",
+                active ? "text-[#1c1917]" : "border-transparent text-[#57534e] hover:text-[#1c1917]"
+              )}
+              style={active ? { borderColor: tag.color, backgroundColor: `${tag.color}20` } : undefined}
+            >
+              <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: tag.color }} />
+              {tag.name}
+            </button>
+          );
+        })}
+        {tagFilter.length > 0 && (
+          <button
+            onClick={() => setTagFilter([])}
+            className="p-0.5 text-[#a8a29e] hover:text-[#44403c]"
+            title="Clear tag filter"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+    </Panel>
+  );
+}
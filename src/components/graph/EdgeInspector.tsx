@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Link2, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { Slider } from "@/components/ui/Slider";
+import { useGraphStore } from "@/store/graph-store";
+import { executeGraphCommand } from "@/lib/graph/commands";
+import { EDGE_STYLES } from "@/lib/design-tokens";
+import { cn } from "@/lib/utils";
+import type { EdgeTrust, EdgeType, GraphEdge } from "@/types";
+
+const EDGE_TYPE_LABELS: Record<EdgeType, string> = {
+  "cites": "Cites",
+  "cited-by": "Cited by",
+  "semantic-similarity": "Semantically similar",
+  "same-author": "Same author",
+  "same-dataset": "Same dataset",
+  "methodologically-similar": "Similar method",
+  "contradicts": "Contradicts",
+  "extends": "Extends",
+  "same-venue": "Same venue",
+};
+
+function citationUrlOf(edge: GraphEdge): string {
+  const url = edge.metadata?.citationUrl;
+  return typeof url === "string" ? url : "";
+}
+
+function EdgeForm({ edge, onClose }: { edge: GraphEdge; onClose: () => void }) {
+  const sourceTitle = useGraphStore((s) => s.nodes.get(edge.source)?.data.title);
+  const targetTitle = useGraphStore((s) => s.nodes.get(edge.target)?.data.title);
+  const [edgeType, setEdgeType] = useState<EdgeType>(edge.type);
+  const [weight, setWeight] = useState(edge.weight);
+  const [trust, setTrust] = useState<EdgeTrust>(edge.trust);
+  const [citationUrl, setCitationUrl] = useState(citationUrlOf(edge));
+  const [evidence, setEvidence] = useState(edge.evidence ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const dirty =
+    edgeType !== edge.type ||
+    weight !== edge.weight ||
+    trust !== edge.trust ||
+    citationUrl.trim() !== citationUrlOf(edge) ||
+    evidence.trim() !== (edge.evidence ?? "");
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    const result = await executeGraphCommand({
+      type: "update-edge",
+      edgeId: edge.id,
+      edgeType,
+      weight,
+      trust,
+      evidence,
+      citationUrl: trust === "source-backed" ? citationUrl : undefined,
+      source: "canvas",
+    });
+    setSaving(false);
+    if (result.applied) onClose();
+    else setError(result.error ?? "Could not update the edge");
+  };
+
+  const labelClass = "block text-[10px] font-medium uppercase tracking-wide text-[#a8a29e] mb-1";
+
+  return (
+    <div className="w-72 rounded-lg bg-white border border-[#e8e7e2] shadow-md">
+      <div className="flex items-start gap-2 px-3 py-2.5 border-b border-[#e8e7e2]">
+        <Link2 className="w-3.5 h-3.5 mt-0.5 shrink-0 text-violet-500" />
+        <div className="flex-1 min-w-0 text-[11px] leading-snug text-[#44403c]">
+          <p className="font-paper-title line-clamp-1">{sourceTitle ?? edge.source}</p>
+          <p className="text-[#a8a29e]">→</p>
+          <p className="font-paper-title line-clamp-1">{targetTitle ?? edge.target}</p>
+        </div>
+        <button onClick={onClose} className="p-0.5 text-[#a8a29e] hover:text-[#44403c]" title="Close">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="px-3 py-2.5 space-y-3">
+        <div>
+          <label className={labelClass}>Relation</label>
+          <div className="flex items-center gap-2">
+            <span
+              className="w-2 h-2 rounded-full shrink-0"
+              style={{ backgroundColor: EDGE_STYLES[edgeType]?.stroke ?? "#a8a29e" }}
+            />
+            <select
+              value={edgeType}
+              onChange={(e) => setEdgeType(e.target.value as EdgeType)}
+              className="flex-1 h-7 rounded-md border border-[#dddcd7] bg-white px-1.5 text-[11px] text-[#1c1917] outline-none focus:border-[#7c3aed]"
+            >
+              {(Object.keys(EDGE_TYPE_LABELS) as EdgeType[]).map((type) => (
+                <option key={type} value={type}>
+                  {EDGE_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>
+            Weight <span className="normal-case tracking-normal text-[#57534e]">{weight.toFixed(2)}</span>
+          </label>
+          <Slider value={[weight]} min={0} max={1} step={0.05} onValueChange={([v]) => setWeight(v)} />
+        </div>
+
+        <div>
+          <label className={labelClass}>Trust</label>
+          <div className="flex rounded-md border border-[#dddcd7] p-0.5">
+            {(["inferred", "source-backed"] as const).map((value) => (
+              <button
+                key={value}
+                onClick={() => setTrust(value)}
+                className={cn(
+                  "flex-1 rounded px-2 py-1 text-[11px] transition-colors",
+                  trust === value ? "bg-[#f3f2ee] text-[#1c1917] font-medium" : "text-[#78716c] hover:text-[#1c1917]"
+                )}
+              >
+                {value === "inferred" ? "Inferred" : "Source-backed"}
+              </button>
+            ))}
+          </div>
+          {trust === "source-backed" && (
+            <Input
+              value={citationUrl}
+              onChange={(e) => setCitationUrl(e.target.value)}
+              placeholder="Citation URL (https://…)"
+              className="mt-1.5 h-7 text-[11px] px-2"
+            />
+          )}
+        </div>
+
+        <div>
+          <label className={labelClass}>Evidence</label>
+          <textarea
+            value={evidence}
+            onChange={(e) => setEvidence(e.target.value)}
+            rows={3}
+            placeholder="Why are these papers connected?"
+            className="w-full resize-none rounded-md border border-[#dddcd7] bg-[#f8f7f4] px-2 py-1.5 text-[11px] text-[#1c1917] placeholder:text-[#a8a29e] outline-none focus:border-[#c8c7c2]"
+          />
+        </div>
+
+        {error && (
+          <p className="flex items-center gap-1.5 text-[11px] text-red-600">
+            <AlertCircle className="w-3 h-3 shrink-0" />
+            {error}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-end gap-1.5 px-3 py-2 border-t border-[#e8e7e2]">
+        <Button variant="ghost" size="sm" className="h-7 text-[11px]" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          className="h-7 text-[11px] gap-1.5"
+          disabled={!dirty || saving}
+          onClick={() => void handleSave()}
+        >
+          {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/** Floating editor for the clicked edge; renders nothing once the edge is gone. */
+export function EdgeInspector({ edgeId, onClose }: { edgeId: string; onClose: () => void }) {
+  const edge = useGraphStore((s) => s.edges.find((e) => e.id === edgeId));
+  if (!edge) return null;
+
+  return (
+    <div className="absolute top-14 right-3 z-10">
+      <EdgeForm key={edge.id} edge={edge} onClose={onClose} />
+    </div>
+  );
+}
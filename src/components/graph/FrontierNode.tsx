@@ -33,19 +33,21 @@ function FrontierNodeInner({ data }: NodeProps<FrontierNodeType>) {
         </h3>
         <p className="text-[9px] text-[#78716c]">{paper.year ?? ""}</p>
 
-        <div className="flex justify-center mt-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
-          <button
-            type="button"
-            className="flex items-center gap-0.5 text-[9px] text-[#7c3aed] hover:text-[#6d28d9] cursor-pointer bg-transparent border-0"
-            onClick={(e) => {
-              e.stopPropagation();
-              onMaterialize?.();
-            }}
-          >
-            <Plus className="w-3 h-3" />
-            Materialize
-          </button>
-        </div>
+        {onMaterialize && (
+          <div className="flex justify-center mt-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button
+              type="button"
+              className="flex items-center gap-0.5 text-[9px] text-[#7c3aed] hover:text-[#6d28d9] cursor-pointer bg-transparent border-0"
+              onClick={(e) => {
+                e.stopPropagation();
+                onMaterialize();
+              }}
+            >
+              <Plus className="w-3 h-3" />
+              Materialize
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
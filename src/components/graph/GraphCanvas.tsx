@@ -1,21 +1,24 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import {
   ReactFlow, Controls, MiniMap, Background, BackgroundVariant,
   useNodesState, useEdgesState, useReactFlow,
+  type EdgeMouseHandler,
   type NodeMouseHandler,
+  type OnNodeDrag,
 } from "@xyflow/react";
-import { PaperNodeCard } from "./PaperNodeCard";
-import { FrontierNode } from "./FrontierNode";
-import { CitationEdge } from "./edges/CitationEdge";
-import { SemanticEdge } from "./edges/SemanticEdge";
-import { ContradictionEdge } from "./edges/ContradictionEdge";
+import { nodeTypes, edgeTypes } from "./flow-types";
 import { GraphContextMenu } from "./GraphContextMenu";
+import { CanvasTagFilter } from "./CanvasTagFilter";
+import { CanvasHistoryControls } from "./CanvasHistoryControls";
+import { EdgeInspector } from "./EdgeInspector";
+import { ReplayCanvas } from "./ReplayCanvas";
 import { useGraph } from "@/hooks/useGraph";
 import { useGraphStore } from "@/store/graph-store";
 import { useUIStore } from "@/store/ui-store";
 import { useHistoryStore } from "@/store/history-store";
+import { useTimeTravelStore } from "@/store/time-travel-store";
 import {
   persistAddEdges,
   persistAddNodes,
@@ -26,14 +29,11 @@ import {
   persistUpdateNodePositions,
 } from "@/lib/db/graph-actions";
 import { executeGraphCommand } from "@/lib/graph/commands";
+import { recordPositionChange } from "@/lib/graph/undo";
+import { openTimeTravel } from "@/lib/db/time-travel";
 import { useKeyboard } from "@/hooks/useKeyboard";
 import type { ExpansionMode, GraphNodeData } from "@/types";
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const nodeTypes = { paper: PaperNodeCard, frontier: FrontierNode } as any;
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const edgeTypes = { citation: CitationEdge, semantic: SemanticEdge, contradiction: ContradictionEdge } as any;
-
 interface ContextMenuState {
   type: "node" | "canvas";
   position: { x: number; y: number };
@@ -71,11 +71,14 @@ export function GraphCanvas() {
   const toggleSearch = useUIStore((s) => s.toggleSearch);
   const toggleChatDock = useUIStore((s) => s.toggleChatDock);
   const openAddSource = useUIStore((s) => s.openAddSource);
+  const openCanvasExport = useUIStore((s) => s.openCanvasExport);
+  const replaying = useTimeTravelStore((s) => s.status !== "idle");
 
   const [nodes, setNodes, onNC] = useNodesState(rfNodes);
   const [edges, setEdges, onEC] = useEdgesState(rfEdges);
   const [ctxMenu, setCtxMenu] = useState<ContextMenuState | null>(null);
   const [minimap, setMinimap] = useState(true);
+  const [inspectedEdgeId, setInspectedEdgeId] = useState<string | null>(null);
 
   useEffect(() => { setNodes(rfNodes); }, [rfNodes, setNodes]);
   useEffect(() => { setEdges(rfEdges); }, [rfEdges, setEdges]);
@@ -99,8 +102,14 @@ export function GraphCanvas() {
     selectNode(node.id);
     setRightPanel("reader");
     setCtxMenu(null);
+    setInspectedEdgeId(null);
   }, [selectNode, toggleNodeSelection, setRightPanel]);
 
+  const handleEdgeClick: EdgeMouseHandler = useCallback((_e, edge) => {
+    setInspectedEdgeId(edge.id);
+    setCtxMenu(null);
+  }, []);
+
   const handleNodeCtx: NodeMouseHandler = useCallback((e, node) => {
     e.preventDefault();
     const data = node.data as unknown as GraphNodeData;
@@ -119,12 +128,30 @@ export function GraphCanvas() {
 
   const handlePaneClick = useCallback(() => {
     setCtxMenu(null);
+    setInspectedEdgeId(null);
     clearSelection();
   }, [clearSelection]);
 
-  const handleNodeDragStop: NodeMouseHandler = useCallback((_e, node) => {
-    const posMap = new Map([[node.id, { x: node.position.x, y: node.position.y }]]);
+  // Positions at drag start, so a drag can be undone as one step
+  const dragStartRef = useRef<Map<string, { x: number; y: number }>>(new Map());
+
+  const handleNodeDragStart: OnNodeDrag = useCallback((_e, _node, dragged) => {
+    const graph = useGraphStore.getState();
+    dragStartRef.current = new Map(
+      dragged
+        .map((n) => [n.id, graph.nodes.get(n.id)?.position] as const)
+        .filter((entry): entry is readonly [string, { x: number; y: number }] => entry[1] != null)
+    );
+  }, []);
+
+  const handleNodeDragStop: OnNodeDrag = useCallback((_e, _node, dragged) => {
+    const posMap = new Map(dragged.map((n) => [n.id, { x: n.position.x, y: n.position.y }]));
     persistUpdateNodePositions(posMap);
+    recordPositionChange(
+      dragged.length === 1 ? "Moved a node" : `Moved ${dragged.length} nodes`,
+      dragStartRef.current,
+      posMap
+    );
   }, []);
 
   const closeMenu = useCallback(() => setCtxMenu(null), []);
@@ -176,6 +203,7 @@ export function GraphCanvas() {
 
     useHistoryStore.getState().push({
       description: `Deleted ${nodeIds.length} node(s)`,
+      source: "canvas",
       undo: () => {
         if (removedNodes.length > 0) {
           persistAddNodes(removedNodes);
@@ -196,6 +224,7 @@ export function GraphCanvas() {
   }, []);
 
   const handleDeleteSelected = useCallback(() => {
+    if (useTimeTravelStore.getState().status !== "idle") return;
     const { selectedNodeIds, selectedNodeId } = useGraphStore.getState();
     if (selectedNodeIds.size > 0) {
       handleDeleteWithHistory(Array.from(selectedNodeIds));
@@ -223,12 +252,19 @@ export function GraphCanvas() {
       useUIStore.getState().setRightPanel(null);
       clearSelection();
     }, [clearSelection]),
-    onUndo: useCallback(() => useHistoryStore.getState().undo(), []),
-    onRedo: useCallback(() => useHistoryStore.getState().redo(), []),
+    // The live graph is hidden while replaying, so don't let edits land on it
+    onUndo: useCallback(() => {
+      if (useTimeTravelStore.getState().status === "idle") useHistoryStore.getState().undo();
+    }, []),
+    onRedo: useCallback(() => {
+      if (useTimeTravelStore.getState().status === "idle") useHistoryStore.getState().redo();
+    }, []),
     onSelectAll: selectAllNodes,
     onDeleteSelected: handleDeleteSelected,
   });
 
+  if (replaying) return <ReplayCanvas />;
+
   return (
     <div className="w-full h-full relative">
       <ReactFlow
@@ -236,7 +272,9 @@ export function GraphCanvas() {
         onNodesChange={handleNC} onEdgesChange={handleEC}
         nodeTypes={nodeTypes} edgeTypes={edgeTypes}
         onNodeClick={handleNodeClick}
+        onEdgeClick={handleEdgeClick}
         onNodeContextMenu={handleNodeCtx}
+        onNodeDragStart={handleNodeDragStart}
         onNodeDragStop={handleNodeDragStop}
         onPaneContextMenu={handlePaneCtx}
         onPaneClick={handlePaneClick}
@@ -247,6 +285,8 @@ export function GraphCanvas() {
         className="bg-[#f8f7f4]"
       >
         <FitViewOnMaterialize />
+        <CanvasTagFilter />
+        <CanvasHistoryControls />
         <Controls position="bottom-left" />
         {minimap && (
           <MiniMap
@@ -262,6 +302,10 @@ export function GraphCanvas() {
         <Background variant={BackgroundVariant.Dots} gap={24} size={1} color="#b3b0a6" />
       </ReactFlow>
 
+      {inspectedEdgeId && (
+        <EdgeInspector edgeId={inspectedEdgeId} onClose={() => setInspectedEdgeId(null)} />
+      )}
+
       {ctxMenu?.type === "node" && ctxMenu.nodeId && (
         <GraphContextMenu
           type="node" position={ctxMenu.position}
@@ -285,6 +329,8 @@ export function GraphCanvas() {
           onToggleMinimap={() => setMinimap(!minimap)}
           onRelayout={handleRelayout}
           onAddSource={openAddSource}
+          onExportImage={openCanvasExport}
+          onReplayHistory={() => void openTimeTravel()}
           onClearGraph={persistClearGraph}
           onClose={closeMenu}
         />
@@ -298,6 +344,8 @@ function PaneMenu({
   onToggleMinimap,
   onRelayout,
   onAddSource,
+  onExportImage,
+  onReplayHistory,
   onClearGraph,
   onClose,
 }: {
@@ -305,6 +353,8 @@ function PaneMenu({
   onToggleMinimap: () => void;
   onRelayout: () => Promise<void>;
   onAddSource: () => void;
+  onExportImage: () => void;
+  onReplayHistory: () => void;
   onClearGraph: () => void;
   onClose: () => void;
 }) {
@@ -319,6 +369,8 @@ function PaneMenu({
         void onRelayout().then(() => fitView({ padding: 0.25, maxZoom: 1.25 }));
       }}
       onAddSource={onAddSource}
+      onExportImage={onExportImage}
+      onReplayHistory={onReplayHistory}
       onClearGraph={onClearGraph}
       onClose={onClose}
     />
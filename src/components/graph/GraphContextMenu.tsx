@@ -16,6 +16,7 @@ import {
   LayoutGrid,
   Trash2,
   Link2,
+  ImageDown,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { ExpansionMode } from "@/types";
@@ -47,6 +48,8 @@ interface CanvasMenuProps {
   onToggleMinimap: () => void;
   onAutoLayout: () => void;
   onAddSource: () => void;
+  onExportImage: () => void;
+  onReplayHistory: () => void;
   onClearGraph: () => void;
   onClose: () => void;
 }
@@ -184,6 +187,8 @@ function buildCanvasMenuGroups(props: CanvasMenuProps): MenuGroup[] {
     {
       items: [
         { label: "Add source from URL", icon: Link2, onClick: props.onAddSource, shortcut: "⌘V" },
+        { label: "Export image…", icon: ImageDown, onClick: props.onExportImage },
+        { label: "Replay history", icon: History, onClick: props.onReplayHistory },
       ],
     },
     {
@@ -35,7 +35,7 @@ function clusterColor(clusterId: string | undefined): string | undefined {
 
 function PaperNodeCardInner({ data }: NodeProps<PaperNodeType>) {
   const [showExpand, setShowExpand] = useState(false);
-  const { paper, state, scores, clusterId, isSelected, isMultiSelected, isExpanding, onExpand, onSelect } = data;
+  const { paper, state, scores, clusterId, tags, isSelected, isMultiSelected, isExpanding, onExpand, onSelect } = data;
 
   if (state === "archived") return null;
 
@@ -142,9 +142,27 @@ function PaperNodeCardInner({ data }: NodeProps<PaperNodeType>) {
             : `${authorLine}${paper.year ? `, ${paper.year}` : ""}`}
         </p>
 
+        {/* Tags */}
+        {tags && tags.length > 0 && (
+          <div className="flex flex-wrap gap-0.5 mt-1">
+            {tags.slice(0, 3).map((tag) => (
+              <span
+                key={tag.name}
+                className="px-1 rounded text-[8px] leading-[14px] text-[#44403c] truncate max-w-[90px]"
+                style={{ backgroundColor: `${tag.color}26` }}
+              >
+                {tag.name}
+              </span>
+            ))}
+            {tags.length > 3 && (
+              <span className="text-[8px] leading-[14px] text-[#a8a29e]">+{tags.length - 3}</span>
+            )}
+          </div>
+        )}
+
         {/* Expand + Relevance row */}
         <div className="mt-1 flex items-center gap-1.5 relative">
-          {state !== "discovered" && (
+          {state !== "discovered" && onExpand && (
             <>
               {isExpanding ? (
                 <span className="flex items-center gap-0.5 text-[10px] text-[#7c3aed] shrink-0">
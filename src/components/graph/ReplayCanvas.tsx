@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { ReactFlow, Background, BackgroundVariant, Controls, Panel } from "@xyflow/react";
+import { History, Loader2, Pause, Play, RotateCcw, SkipBack, SkipForward, X, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { nodeTypes, edgeTypes } from "./flow-types";
+import { toFlowEdge, toFlowNode } from "@/hooks/useGraph";
+import { useGraphStore } from "@/store/graph-store";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { useTimeTravelStore } from "@/store/time-travel-store";
+import { restoreSnapshotAsRabbitHole } from "@/lib/db/time-travel";
+import { describeStep, snapshotAtStep } from "@/lib/graph/replay";
+
+const PLAY_INTERVAL_MS = 900;
+
+function formatStepTime(at: number): string {
+  return new Date(at).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/** Read-only canvas showing the graph as it was at the selected replay step. */
+export function ReplayCanvas() {
+  const status = useTimeTravelStore((s) => s.status);
+  const steps = useTimeTravelStore((s) => s.steps);
+  const stepIndex = useTimeTravelStore((s) => s.stepIndex);
+  const playing = useTimeTravelStore((s) => s.playing);
+  const error = useTimeTravelStore((s) => s.error);
+  const replayHoleId = useTimeTravelStore((s) => s.rabbitHoleId);
+  const setStepIndex = useTimeTravelStore((s) => s.setStepIndex);
+  const setPlaying = useTimeTravelStore((s) => s.setPlaying);
+  const exit = useTimeTravelStore((s) => s.exit);
+  const tagDefinitions = useGraphStore((s) => s.tagDefinitions);
+  const currentRabbitHoleId = useRabbitHoleStore((s) => s.currentRabbitHoleId);
+  const setCurrentRabbitHoleId = useRabbitHoleStore((s) => s.setCurrentRabbitHoleId);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+
+  // Leave time-travel when the user switches holes
+  useEffect(() => {
+    if (replayHoleId && currentRabbitHoleId !== replayHoleId) exit();
+  }, [currentRabbitHoleId, replayHoleId, exit]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (stepIndex >= steps.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStepIndex(stepIndex + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, stepIndex, steps.length, setStepIndex, setPlaying]);
+
+  const snapshot = useMemo(() => snapshotAtStep(steps, stepIndex), [steps, stepIndex]);
+  const previousIds = useMemo(
+    () => new Set(snapshotAtStep(steps, stepIndex - 1).nodes.keys()),
+    [steps, stepIndex]
+  );
+
+  // Nodes added by the current step animate in
+  const rfNodes = useMemo(
+    () =>
+      Array.from(snapshot.nodes.values())
+        .filter((n) => n.state !== "archived")
+        .map((node) => ({
+          ...toFlowNode(node, snapshot.clusters, tagDefinitions),
+          className: previousIds.has(node.id) ? undefined : "replay-node-enter",
+        })),
+    [snapshot, previousIds, tagDefinitions]
+  );
+  const rfEdges = useMemo(() => snapshot.edges.map(toFlowEdge), [snapshot]);
+
+  const step = stepIndex >= 0 ? steps[stepIndex] : undefined;
+  const atEnd = stepIndex >= steps.length - 1;
+
+  const handleRestore = () => {
+    if (!step) return;
+    setRestoreError(null);
+    try {
+      const result = restoreSnapshotAsRabbitHole(snapshot, step.at);
+      exit();
+      setCurrentRabbitHoleId(result.rabbitHoleId);
+    } catch (err) {
+      console.error("[ReplayCanvas] Restore error:", err);
+      setRestoreError(err instanceof Error ? err.message : "Restore failed");
+    }
+  };
+
+  return (
+    <div className="w-full h-full relative replay-canvas">
+      <ReactFlow
+        nodes={rfNodes}
+        edges={rfEdges}
+        nodeTypes={nodeTypes}
+        edgeTypes={edgeTypes}
+        fitView
+        fitViewOptions={{ padding: 0.25, maxZoom: 1.25 }}
+        minZoom={0.1}
+        maxZoom={2.5}
+        nodesDraggable={false}
+        nodesConnectable={false}
+        elementsSelectable={false}
+        proOptions={{ hideAttribution: true }}
+        className="bg-[#f8f7f4]"
+      >
+        <Controls position="bottom-left" showInteractive={false} />
+        <Background variant={BackgroundVariant.Dots} gap={24} size={1} color="#b3b0a6" />
+
+        <Panel position="top-center">
+          <div className="flex items-center gap-1.5 rounded-full bg-violet-600 text-white px-3 py-1 text-xs font-medium shadow-sm">
+            <History className="w-3.5 h-3.5" />
+            Time travel — read-only
+          </div>
+        </Panel>
+
+        <Panel position="bottom-center">
+          <div className="w-[560px] max-w-[90vw] rounded-xl bg-white border border-[#e8e7e2] shadow-lg px-4 py-3 mb-2">
+            {status === "loading" && (
+              <div className="flex items-center justify-center gap-2 py-2 text-xs text-[#78716c]">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                Loading history…
+              </div>
+            )}
+
+            {status === "error" && (
+              <div className="flex items-center justify-between gap-2 py-1 text-xs text-red-600">
+                <span className="flex items-center gap-2">
+                  <AlertCircle className="w-3.5 h-3.5" />
+                  {error}
+                </span>
+                <Button variant="ghost" size="sm" onClick={exit}>
+                  Close
+                </Button>
+              </div>
+            )}
+
+            {status === "ready" && steps.length === 0 && (
+              <div className="flex items-center justify-between gap-2 py-1 text-xs text-[#78716c]">
+                This rabbit hole has no recorded history yet.
+                <Button variant="ghost" size="sm" onClick={exit}>
+                  Close
+                </Button>
+              </div>
+            )}
+
+            {status === "ready" && steps.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setStepIndex(-1)}
+                    className="p-1 text-[#78716c] hover:text-[#1c1917]"
+                    title="Back to the start"
+                  >
+                    <SkipBack className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (atEnd) setStepIndex(-1);
+                      setPlaying(!playing);
+                    }}
+                    className="flex items-center justify-center w-7 h-7 rounded-full bg-violet-600 text-white hover:bg-violet-700"
+                    title={playing ? "Pause" : "Play"}
+                  >
+                    {playing ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5 ml-0.5" />}
+                  </button>
+                  <button
+                    onClick={() => setStepIndex(steps.length - 1)}
+                    className="p-1 text-[#78716c] hover:text-[#1c1917]"
+                    title="Jump to now"
+                  >
+                    <SkipForward className="w-3.5 h-3.5" />
+                  </button>
+                  <input
+                    type="range"
+                    min={-1}
+                    max={steps.length - 1}
+                    value={stepIndex}
+                    onChange={(e) => {
+                      setPlaying(false);
+                      setStepIndex(Number(e.target.value));
+                    }}
+                    className="flex-1 accent-violet-600"
+                  />
+                  <span className="text-[10px] text-[#a8a29e] tabular-nums shrink-0">
+                    {stepIndex + 1}/{steps.length}
+                  </span>
+                </div>
+
+                <div className="flex items-center justify-between gap-3">
+                  <p className="text-xs text-[#44403c] truncate">
+                    {step ? (
+                      <>
+                        <span className="text-[#78716c]">{formatStepTime(step.at)}</span>
+                        {" · "}
+                        {describeStep(step)}
+                      </>
+                    ) : (
+                      <span className="text-[#78716c]">Before the first change</span>
+                    )}
+                    <span className="text-[#a8a29e]">
+                      {" · "}
+                      {rfNodes.length} nodes, {rfEdges.length} edges
+                    </span>
+                  </p>
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    {!atEnd && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleRestore}
+                        disabled={!step}
+                        className="gap-1.5 text-xs"
+                      >
+                        <RotateCcw className="w-3 h-3" />
+                        Restore as new hole
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={exit} className="gap-1 text-xs">
+                      <X className="w-3 h-3" />
+                      Exit
+                    </Button>
+                  </div>
+                </div>
+                {restoreError && <p className="text-[11px] text-red-600">{restoreError}</p>}
+              </div>
+            )}
+          </div>
+        </Panel>
+      </ReactFlow>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { PaperNodeCard } from "./PaperNodeCard";
+import { FrontierNode } from "./FrontierNode";
+import { CitationEdge } from "./edges/CitationEdge";
+import { SemanticEdge } from "./edges/SemanticEdge";
+import { ContradictionEdge } from "./edges/ContradictionEdge";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const nodeTypes = { paper: PaperNodeCard, frontier: FrontierNode } as any;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const edgeTypes = { citation: CitationEdge, semantic: SemanticEdge, contradiction: ContradictionEdge } as any;
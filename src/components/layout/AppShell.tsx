@@ -14,8 +14,14 @@ import { TopBar } from "@/components/layout/TopBar";
 import { StatusBar } from "@/components/layout/StatusBar";
 import { PaperListSidebar } from "@/components/layout/PaperListSidebar";
 import { AddSourceDialog } from "@/components/source/AddSourceDialog";
+import { ImportDialog } from "@/components/source/ImportDialog";
+import { CanvasExportDialog } from "@/components/graph/CanvasExportDialog";
+import { TagManagerDialog } from "@/components/tags/TagManagerDialog";
+import { MergeHolesDialog } from "@/components/rabbit-holes/MergeHolesDialog";
+import { DuplicatesDialog } from "@/components/duplicates/DuplicatesDialog";
 import { useGraphStore } from "@/store/graph-store";
 import { useUIStore } from "@/store/ui-store";
+import { useSavedSearchScheduler } from "@/hooks/useSavedSearchScheduler";
 import { layout, animation } from "@/lib/design-tokens";
 import { isValidSourceUrl } from "@/lib/utils/url-source";
 
@@ -36,6 +42,10 @@ const TimelinePanel = dynamic(
   () => import("@/components/timeline/TimelinePanel").then((m) => ({ default: m.TimelinePanel })),
   { ssr: false, loading: () => <RightPanelSkeleton /> }
 );
+const ArchivePanel = dynamic(
+  () => import("@/components/archive/ArchivePanel").then((m) => ({ default: m.ArchivePanel })),
+  { ssr: false, loading: () => <RightPanelSkeleton /> }
+);
 
 function RightPanelSkeleton() {
   return (
@@ -55,6 +65,8 @@ export function AppShell() {
 
   const hasNodes = nodesMap.size > 0;
 
+  useSavedSearchScheduler();
+
   // Cmd+V: open Add source dialog; if clipboard is a URL, pre-fill it
   useEffect(() => {
     function onKeyDown(e: KeyboardEvent) {
@@ -157,6 +169,7 @@ export function AppShell() {
                   {rightPanel === "frontier" && <FrontierPanel />}
                   {rightPanel === "export" && <ExportPanel />}
                   {rightPanel === "timeline" && <TimelinePanel />}
+                  {rightPanel === "archive" && <ArchivePanel />}
                 </div>
               </motion.div>
             )}
@@ -170,6 +183,13 @@ export function AppShell() {
         <SearchBar />
         {/* Add source from URL (Cmd+V or top bar / context menu) */}
         <AddSourceDialog />
+        {/* Import a bibliography file into the current rabbit hole */}
+        <ImportDialog />
+        {/* Export the graph canvas as SVG / PNG (canvas context menu) */}
+        <CanvasExportDialog />
+        <TagManagerDialog />
+        <MergeHolesDialog />
+        <DuplicatesDialog />
       </div>
     </TooltipProvider>
   );
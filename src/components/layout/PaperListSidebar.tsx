@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useMemo, useCallback } from "react";
-import { Search, ArrowUpDown, ChevronLeft, ChevronRight } from "lucide-react";
+import { Search, ArrowUpDown, ChevronLeft, ChevronRight, Tags, Combine } from "lucide-react";
 import { motion } from "framer-motion";
 import { Input } from "@/components/ui/Input";
 import { Badge } from "@/components/ui/Badge";
@@ -12,6 +12,7 @@ import { useGraphStore } from "@/store/graph-store";
 import { useUIStore } from "@/store/ui-store";
 import { cn, formatAuthors, formatCount } from "@/lib/utils";
 import { layout, animation, CLUSTER_COLORS } from "@/lib/design-tokens";
+import { collectTagUsage, matchesTagFilter, sameTag, tagColor } from "@/lib/utils/tags";
 import type { PaperNode } from "@/types";
 
 type SortKey = "relevance" | "citations" | "year";
@@ -23,7 +24,13 @@ export function PaperListSidebar() {
   const clusters = useGraphStore((s) => s.clusters);
   const selectedNodeId = useGraphStore((s) => s.selectedNodeId);
   const selectNode = useGraphStore((s) => s.selectNode);
+  const tagDefinitions = useGraphStore((s) => s.tagDefinitions);
   const setRightPanel = useUIStore((s) => s.setRightPanel);
+  const tagFilter = useUIStore((s) => s.tagFilter);
+  const toggleTagFilter = useUIStore((s) => s.toggleTagFilter);
+  const setTagFilter = useUIStore((s) => s.setTagFilter);
+  const openTagManager = useUIStore((s) => s.openTagManager);
+  const openDuplicates = useUIStore((s) => s.openDuplicates);
 
   const [searchFilter, setSearchFilter] = useState("");
   const [sortKey, setSortKey] = useState<SortKey>("relevance");
@@ -37,6 +44,11 @@ export function PaperListSidebar() {
     );
   }, [nodes]);
 
+  const tagUsage = useMemo(
+    () => collectTagUsage(allPapers, tagDefinitions).filter((t) => t.count > 0),
+    [allPapers, tagDefinitions]
+  );
+
   // Filter by direction (prior/derivative) relative to selected node
   const directionFiltered = useMemo(() => {
     if (!selectedNodeId) return allPapers;
@@ -65,7 +77,7 @@ export function PaperListSidebar() {
     return allPapers.filter((p) => ids.has(p.id) || p.id === selectedNodeId);
   }, [allPapers, edges, selectedNodeId, direction]);
 
-  // Filter by search text and cluster
+  // Filter by search text, cluster and tags
   const filteredPapers = useMemo(() => {
     let papers = directionFiltered;
 
@@ -73,6 +85,10 @@ export function PaperListSidebar() {
       papers = papers.filter((p) => p.clusterId === activeClusterId);
     }
 
+    if (tagFilter.length > 0) {
+      papers = papers.filter((p) => matchesTagFilter(p, tagFilter));
+    }
+
     if (searchFilter.trim()) {
       const q = searchFilter.toLowerCase();
       papers = papers.filter(
@@ -83,7 +99,7 @@ export function PaperListSidebar() {
     }
 
     return papers;
-  }, [directionFiltered, searchFilter, activeClusterId]);
+  }, [directionFiltered, searchFilter, activeClusterId, tagFilter]);
 
   // Sort
   const sortedPapers = useMemo(() => {
@@ -175,6 +191,15 @@ export function PaperListSidebar() {
         >
           <ArrowUpDown className="w-3 h-3 text-[#78716c]" />
         </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={openDuplicates}
+          title="Find duplicates"
+        >
+          <Combine className="w-3 h-3 text-[#78716c]" />
+        </Button>
       </div>
 
       {/* Cluster filter chips */}
@@ -222,6 +247,51 @@ export function PaperListSidebar() {
         </div>
       )}
 
+      {/* Tag filter chips */}
+      {tagUsage.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 px-2 py-1.5 border-b border-[#e8e7e2]">
+          <button
+            onClick={() => setTagFilter([])}
+            className={cn(
+              "px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors",
+              tagFilter.length === 0
+                ? "bg-[#eeeee8] text-[#1c1917]"
+                : "bg-[#f3f2ee] text-[#78716c] hover:text-[#44403c]"
+            )}
+          >
+            All tags
+          </button>
+          {tagUsage.map((tag) => {
+            const active = tagFilter.some((t) => sameTag(t, tag.name));
+            return (
+              <button
+                key={tag.name}
+                onClick={() => toggleTagFilter(tag.name)}
+                className={cn(
+                  "flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors border",
+                  active ? "text-[#1c1917]" : "text-[#57534e] hover:text-[#1c1917]"
+                )}
+                style={{
+                  borderColor: active ? tag.color : "transparent",
+                  backgroundColor: active ? `${tag.color}20` : undefined,
+                }}
+              >
+                <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: tag.color }} />
+                {tag.name}
+                <span className="text-[#a8a29e]">{tag.count}</span>
+              </button>
+            );
+          })}
+          <button
+            onClick={openTagManager}
+            className="ml-auto p-0.5 text-[#a8a29e] hover:text-[#44403c]"
+            title="Manage tags"
+          >
+            <Tags className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
       {/* Sort indicator */}
       <div className="px-2 py-1 border-b border-[#e8e7e2]/50">
         <span className="text-[10px] text-[#a8a29e]">
@@ -293,10 +363,11 @@ function PaperRow({
         )}
       </div>
 
-      {/* Cluster badge */}
-      {paper.clusterId && (
-        <div className="mt-1">
-          <ClusterDot clusterId={paper.clusterId} />
+      {/* Cluster badge + tags */}
+      {(paper.clusterId || (paper.userTags?.length ?? 0) > 0) && (
+        <div className="flex items-center gap-1.5 mt-1">
+          {paper.clusterId && <ClusterDot clusterId={paper.clusterId} />}
+          {paper.userTags && paper.userTags.length > 0 && <TagDots tags={paper.userTags} />}
         </div>
       )}
     </motion.button>
@@ -315,3 +386,22 @@ function ClusterDot({ clusterId }: { clusterId: string }) {
     />
   );
 }
+
+function TagDots({ tags }: { tags: string[] }) {
+  const tagDefinitions = useGraphStore((s) => s.tagDefinitions);
+
+  return (
+    <span className="flex items-center gap-1 min-w-0 text-[10px] text-[#78716c]">
+      {tags.slice(0, 3).map((tag) => (
+        <span key={tag} className="flex items-center gap-0.5 truncate">
+          <span
+            className="inline-block w-1.5 h-1.5 rounded-full shrink-0"
+            style={{ backgroundColor: tagColor(tagDefinitions, tag) }}
+          />
+          {tag}
+        </span>
+      ))}
+      {tags.length > 3 && <span className="text-[#a8a29e]">+{tags.length - 3}</span>}
+    </span>
+  );
+}
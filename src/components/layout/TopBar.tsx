@@ -9,6 +9,8 @@ import {
   PanelLeft,
   Link2,
   Clock,
+  Upload,
+  Archive,
 } from "lucide-react";
 import { AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/Button";
@@ -21,6 +23,8 @@ import {
 import { WeightControls } from "@/components/weights/WeightControls";
 import { useGraphStore } from "@/store/graph-store";
 import { useUIStore } from "@/store/ui-store";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { useSavedSearchStore, countNewResults } from "@/store/saved-search-store";
 import { cn } from "@/lib/utils";
 import { layout } from "@/lib/design-tokens";
 
@@ -36,10 +40,17 @@ export function TopBar() {
   const weightsPanelOpen = useUIStore((s) => s.weightsPanelOpen);
   const toggleWeights = useUIStore((s) => s.toggleWeights);
   const openAddSource = useUIStore((s) => s.openAddSource);
+  const openImport = useUIStore((s) => s.openImport);
   const currentView = useUIStore((s) => s.currentView);
   const setCurrentView = useUIStore((s) => s.setCurrentView);
 
+  const currentRabbitHoleId = useRabbitHoleStore((s) => s.currentRabbitHoleId);
+  const savedSearches = useSavedSearchStore((s) =>
+    currentRabbitHoleId ? s.byHole[currentRabbitHoleId] : undefined
+  );
+
   const nodeCount = nodes.size;
+  const newResultCount = countNewResults(savedSearches);
 
   const handleTogglePanel = useCallback(
     (panel: typeof rightPanel) => {
@@ -142,6 +153,21 @@ export function TopBar() {
           <TooltipContent>Add source from URL (PDF, video, link) — Cmd+V</TooltipContent>
         </Tooltip>
 
+        {/* Import bibliography */}
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={openImport}
+            >
+              <Upload className="w-3.5 h-3.5 text-[#57534e]" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Import bibliography (.bib, .ris, CSL-JSON)</TooltipContent>
+        </Tooltip>
+
         {/* Search */}
         <Tooltip>
           <TooltipTrigger asChild>
@@ -156,9 +182,18 @@ export function TopBar() {
               <kbd className="hidden sm:inline-flex items-center rounded bg-[#f3f2ee] px-1 py-0.5 text-[9px] font-mono text-[#78716c]">
                 {"\u2318"}K
               </kbd>
+              {newResultCount > 0 && (
+                <Badge className="text-[10px] px-1.5 py-0 tabular-nums">
+                  {newResultCount} new
+                </Badge>
+              )}
             </Button>
           </TooltipTrigger>
-          <TooltipContent>Search papers (Cmd+K)</TooltipContent>
+          <TooltipContent>
+            {newResultCount > 0
+              ? `Search papers (Cmd+K) — ${newResultCount} new from saved searches`
+              : "Search papers (Cmd+K)"}
+          </TooltipContent>
         </Tooltip>
 
         {/* Weights */}
@@ -216,6 +251,21 @@ export function TopBar() {
           <TooltipContent>Exploration timeline</TooltipContent>
         </Tooltip>
 
+        {/* Archive */}
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant={rightPanel === "archive" ? "default" : "ghost"}
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => handleTogglePanel("archive")}
+            >
+              <Archive className="w-3.5 h-3.5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Archive</TooltipContent>
+        </Tooltip>
+
         {/* Export */}
         <Tooltip>
           <TooltipTrigger asChild>
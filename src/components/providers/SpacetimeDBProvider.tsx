@@ -5,152 +5,182 @@ import { DbConnection, type SubscriptionHandle } from "@/lib/spacetimedb";
 import { useRabbitHoleStore, type RabbitHole } from "@/store/rabbit-hole-store";
 import { useGraphStore } from "@/store/graph-store";
 import { useChatStore } from "@/store/chat-store";
-import { parsePersistedNotes } from "@/lib/db/graph-actions";
+import { useAnnotationStore } from "@/store/annotation-store";
+import { useSavedSearchStore } from "@/store/saved-search-store";
+import { useUIStore } from "@/store/ui-store";
+import { useWorkflowStore } from "@/store/workflow-store";
+import { useHistoryStore } from "@/store/history-store";
+import { migrateLegacyNodeTags } from "@/lib/db/graph-actions";
+import { purgeExpiredArchive } from "@/lib/db/archive-actions";
+import { rowNotesAndTags, rowToCluster, rowToEdge, rowToNode } from "@/lib/db/hole-rows";
 import type {
   PaperNode,
   GraphEdge,
   Cluster,
-  NodeScores,
-  NodeState,
   ChatThread,
   ChatMessageRecord,
+  Annotation,
+  AnnotationType,
+  AppliedChangeEvent,
+  TagDefinition,
+  SavedSearch,
+  SearchMode,
+  SearchFilters,
+  SearchProvider,
 } from "@/types";
 
 const SPACETIMEDB_URI = process.env.NEXT_PUBLIC_SPACETIMEDB_URI ?? "wss://maincloud.spacetimedb.com";
 const MODULE_NAME = process.env.NEXT_PUBLIC_SPACETIMEDB_DATABASE ?? "rabbit-hole-db";
 const AUTH_TOKEN_KEY = "rh_stdb_token";
 
-/** Convert a SpacetimeDB node row to a PaperNode */
-function rowToNode(row: {
+/** Convert a SpacetimeDB chat_thread row to a ChatThread */
+function rowToChatThread(row: {
   id: string;
   rabbitHoleId: string;
-  dataJson: string;
-  state: string;
-  positionX: number;
-  positionY: number;
-  clusterId?: string;
-  scoresJson: string;
-  addedAt: bigint;
-  expandedAt?: bigint;
-  userNotes?: string;
-}): PaperNode {
-  let data = { id: row.id, title: "", authors: [], citationCount: 0, referenceCount: 0, externalIds: {} };
-  let scores: NodeScores = { relevance: 0, influence: 0, recency: 0, semanticSimilarity: 0, localCentrality: 0, velocity: 0 };
-  try { data = JSON.parse(row.dataJson); } catch {}
-  try { scores = JSON.parse(row.scoresJson); } catch {}
-
-  const dataNotes =
-    typeof (data as Record<string, unknown>)["_userNotes"] === "string"
-      ? ((data as Record<string, unknown>)["_userNotes"] as string)
-      : undefined;
-  const parsedNotes = parsePersistedNotes(row.userNotes ?? dataNotes);
-
+  title?: string;
+  createdAt: bigint;
+  updatedAt: bigint;
+  nextSeq: bigint;
+}): ChatThread {
   return {
     id: row.id,
-    data,
-    state: row.state as NodeState,
-    position: { x: row.positionX, y: row.positionY },
-    clusterId: row.clusterId ?? undefined,
-    scores,
-    addedAt: Number(row.addedAt),
-    expandedAt: row.expandedAt != null ? Number(row.expandedAt) : undefined,
-    userNotes: parsedNotes.notes || undefined,
-    userTags: parsedNotes.tags.length > 0 ? parsedNotes.tags : undefined,
+    rabbitHoleId: row.rabbitHoleId,
+    title: row.title ?? undefined,
+    createdAt: Number(row.createdAt),
+    updatedAt: Number(row.updatedAt),
+    nextSeq: Number(row.nextSeq),
   };
 }
 
-/** Convert a SpacetimeDB edge row to a GraphEdge */
-function rowToEdge(row: {
+/** Convert a SpacetimeDB chat_message row to a ChatMessageRecord */
+function rowToChatMessage(row: {
   id: string;
   rabbitHoleId: string;
-  source: string;
-  target: string;
-  edgeType: string;
-  trust: string;
-  weight: number;
-  evidence?: string;
-  metadataJson?: string;
-}): GraphEdge {
+  threadId: string;
+  seq: bigint;
+  role: string;
+  messageJson: string;
+  createdAt: bigint;
+  updatedAt: bigint;
+}): ChatMessageRecord {
   return {
     id: row.id,
-    source: row.source,
-    target: row.target,
-    type: row.edgeType as GraphEdge["type"],
-    trust: row.trust as GraphEdge["trust"],
-    weight: row.weight,
-    evidence: row.evidence ?? undefined,
-    metadata: row.metadataJson ? JSON.parse(row.metadataJson) : undefined,
+    rabbitHoleId: row.rabbitHoleId,
+    threadId: row.threadId,
+    seq: Number(row.seq),
+    role: row.role,
+    messageJson: row.messageJson,
+    createdAt: Number(row.createdAt),
+    updatedAt: Number(row.updatedAt),
   };
 }
 
-/** Convert a SpacetimeDB cluster row to a Cluster */
-function rowToCluster(row: {
+/** Convert a SpacetimeDB tag row to a TagDefinition */
+function rowToTag(row: {
   id: string;
   rabbitHoleId: string;
-  label: string;
-  description?: string;
-  nodeIdsJson: string;
+  name: string;
   color?: string;
-  centroidJson?: string;
-}): Cluster {
-  let nodeIds: string[] = [];
-  let centroid: number[] | undefined;
-  try { nodeIds = JSON.parse(row.nodeIdsJson); } catch {}
-  try {
-    if (row.centroidJson) {
-      const parsed = JSON.parse(row.centroidJson);
-      // Stored as {x, y} from graph actions; convert to [x, y] for Cluster.centroid
-      if (Array.isArray(parsed)) centroid = parsed;
-      else if (parsed && typeof parsed.x === "number") centroid = [parsed.x, parsed.y];
-    }
-  } catch {}
+  createdAt: bigint;
+}): TagDefinition {
   return {
     id: row.id,
-    label: row.label,
-    description: row.description ?? undefined,
-    nodeIds,
-    color: row.color ?? "#8b5cf6",
-    centroid,
+    name: row.name,
+    color: row.color ?? undefined,
+    createdAt: Number(row.createdAt),
   };
 }
 
-/** Convert a SpacetimeDB chat_thread row to a ChatThread */
-function rowToChatThread(row: {
+/** Convert a SpacetimeDB action_event row to an AppliedChangeEvent */
+function rowToAppliedChange(row: {
   id: string;
   rabbitHoleId: string;
-  title?: string;
+  source: string;
+  actionType: string;
+  summary: string;
+  payloadJson?: string;
   createdAt: bigint;
-  updatedAt: bigint;
-  nextSeq: bigint;
-}): ChatThread {
+}): AppliedChangeEvent {
+  let payload: Record<string, unknown> | undefined;
+  if (row.payloadJson) {
+    try { payload = JSON.parse(row.payloadJson); } catch {}
+  }
   return {
     id: row.id,
     rabbitHoleId: row.rabbitHoleId,
-    title: row.title ?? undefined,
+    source: row.source as AppliedChangeEvent["source"],
+    actionType: row.actionType,
+    summary: row.summary,
+    payload,
+    createdAt: Number(row.createdAt),
+  };
+}
+
+/** Convert a SpacetimeDB annotation row to an Annotation */
+function rowToAnnotation(row: {
+  id: string;
+  rabbitHoleId: string;
+  nodeId: string;
+  text: string;
+  note?: string;
+  tagsJson: string;
+  annotationType?: string;
+  createdAt: bigint;
+  updatedAt: bigint;
+}): Annotation {
+  let tags: string[] = [];
+  try { tags = JSON.parse(row.tagsJson); } catch {}
+  return {
+    id: row.id,
+    paperId: row.nodeId,
+    text: row.text,
+    note: row.note ?? undefined,
+    tags,
+    type: (row.annotationType ?? undefined) as AnnotationType | undefined,
     createdAt: Number(row.createdAt),
     updatedAt: Number(row.updatedAt),
-    nextSeq: Number(row.nextSeq),
   };
 }
 
-/** Convert a SpacetimeDB chat_message row to a ChatMessageRecord */
-function rowToChatMessage(row: {
+/** Convert a SpacetimeDB saved_search row to a SavedSearch */
+function rowToSavedSearch(row: {
   id: string;
   rabbitHoleId: string;
-  threadId: string;
-  seq: bigint;
-  role: string;
-  messageJson: string;
+  query: string;
+  mode: string;
+  domainsJson: string;
+  filtersJson: string;
+  providersJson?: string;
+  seenIdsJson: string;
+  newIdsJson: string;
+  intervalHours?: number;
+  lastRunAt?: bigint;
   createdAt: bigint;
   updatedAt: bigint;
-}): ChatMessageRecord {
+}): SavedSearch {
+  let domains: string[] = [];
+  let filters: SearchFilters = {};
+  let providers: SearchProvider[] | undefined;
+  let seenIds: string[] = [];
+  let newIds: string[] = [];
+  try { domains = JSON.parse(row.domainsJson); } catch {}
+  try { filters = JSON.parse(row.filtersJson); } catch {}
+  if (row.providersJson) {
+    try { providers = JSON.parse(row.providersJson); } catch {}
+  }
+  try { seenIds = JSON.parse(row.seenIdsJson); } catch {}
+  try { newIds = JSON.parse(row.newIdsJson); } catch {}
   return {
     id: row.id,
-    rabbitHoleId: row.rabbitHoleId,
-    threadId: row.threadId,
-    seq: Number(row.seq),
-    role: row.role,
-    messageJson: row.messageJson,
+    query: row.query,
+    mode: row.mode as SearchMode,
+    domains,
+    filters,
+    providers,
+    seenIds,
+    newIds,
+    intervalHours: row.intervalHours ?? undefined,
+    lastRunAt: row.lastRunAt != null ? Number(row.lastRunAt) : undefined,
     createdAt: Number(row.createdAt),
     updatedAt: Number(row.updatedAt),
   };
@@ -170,6 +200,7 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
 
   const graphStore = useGraphStore;
   const chatStore = useChatStore;
+  const annotationStore = useAnnotationStore;
 
   // Initialize connection once
   useEffect(() => {
@@ -200,6 +231,8 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
             id: row.id,
             name: row.name,
             rootQuery: row.rootQuery ?? undefined,
+            parentId: row.parentId ?? undefined,
+            archivePurgeDays: row.archivePurgeDays ?? undefined,
             createdAt: Number(row.createdAt),
             updatedAt: Number(row.updatedAt),
           };
@@ -215,6 +248,8 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
             id: row.id,
             name: row.name,
             rootQuery: row.rootQuery ?? undefined,
+            parentId: row.parentId ?? undefined,
+            archivePurgeDays: row.archivePurgeDays ?? undefined,
             createdAt: Number(row.createdAt),
             updatedAt: Number(row.updatedAt),
           });
@@ -235,6 +270,8 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
                 id: row.id,
                 name: row.name,
                 rootQuery: row.rootQuery ?? undefined,
+                parentId: row.parentId ?? undefined,
+                archivePurgeDays: row.archivePurgeDays ?? undefined,
                 createdAt: Number(row.createdAt),
                 updatedAt: Number(row.updatedAt),
               });
@@ -284,8 +321,11 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
     // Subscribe to new hole BEFORE unsubscribing from old (subscribe-before-unsubscribe)
     const oldHandle = holeSubRef.current;
 
-    // Clear graph store while loading
+    // Clear graph store while loading; undo steps belong to the previous hole
     graphStore.getState().clearGraph();
+    useHistoryStore.getState().clear();
+    graphStore.getState().setTagDefinitions([]);
+    useUIStore.getState().setTagFilter([]);
 
     // Register per-hole table callbacks
     const onNodeInsert = (_ctx: unknown, row: Parameters<typeof rowToNode>[0]) => {
@@ -320,6 +360,14 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
       graphStore.getState().removeEdges([row.id]);
       console.log(`[STDB] edge.delete id=${row.id.slice(0, 8)}`);
     };
+    const onEdgeUpdate = (_ctx: unknown, _old: unknown, row: Parameters<typeof rowToEdge>[0]) => {
+      if (row.rabbitHoleId !== id) return;
+      const edge = rowToEdge(row);
+      graphStore.setState({
+        edges: graphStore.getState().edges.map((e) => (e.id === edge.id ? edge : e)),
+      });
+      console.log(`[STDB] edge.update id=${row.id.slice(0, 8)}`);
+    };
 
     const onClusterInsert = (_ctx: unknown, row: Parameters<typeof rowToCluster>[0]) => {
       if (row.rabbitHoleId !== id) return;
@@ -402,11 +450,73 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
       chatStore.getState().removeMessage(id, row.threadId, row.id);
     };
 
+    const onTagUpsert = (_ctx: unknown, row: Parameters<typeof rowToTag>[0]) => {
+      if (row.rabbitHoleId !== id) return;
+      graphStore.getState().upsertTagDefinition(rowToTag(row));
+    };
+    const onTagUpdate = (_ctx: unknown, _old: unknown, row: Parameters<typeof rowToTag>[0]) =>
+      onTagUpsert(_ctx, row);
+    const onTagDelete = (_ctx: unknown, row: { id: string; rabbitHoleId: string }) => {
+      if (row.rabbitHoleId !== id) return;
+      graphStore.getState().removeTagDefinition(row.id);
+    };
+
+    const onAnnotationUpsert = (
+      _ctx: unknown,
+      row: Parameters<typeof rowToAnnotation>[0]
+    ) => {
+      if (row.rabbitHoleId !== id) return;
+      annotationStore.getState().upsertAnnotation(id, rowToAnnotation(row));
+    };
+    const onAnnotationUpdate = (
+      _ctx: unknown,
+      _old: unknown,
+      row: Parameters<typeof rowToAnnotation>[0]
+    ) => onAnnotationUpsert(_ctx, row);
+    const onAnnotationDelete = (
+      _ctx: unknown,
+      row: { id: string; rabbitHoleId: string }
+    ) => {
+      if (row.rabbitHoleId !== id) return;
+      annotationStore.getState().removeAnnotation(id, row.id);
+      console.log(`[STDB] annotation.delete id=${row.id.slice(0, 8)}`);
+    };
+
+    const onSavedSearchUpsert = (
+      _ctx: unknown,
+      row: Parameters<typeof rowToSavedSearch>[0]
+    ) => {
+      if (row.rabbitHoleId !== id) return;
+      useSavedSearchStore.getState().upsertSavedSearch(id, rowToSavedSearch(row));
+    };
+    const onSavedSearchUpdate = (
+      _ctx: unknown,
+      _old: unknown,
+      row: Parameters<typeof rowToSavedSearch>[0]
+    ) => onSavedSearchUpsert(_ctx, row);
+    const onSavedSearchDelete = (
+      _ctx: unknown,
+      row: { id: string; rabbitHoleId: string }
+    ) => {
+      if (row.rabbitHoleId !== id) return;
+      useSavedSearchStore.getState().removeSavedSearch(id, row.id);
+      console.log(`[STDB] saved_search.delete id=${row.id.slice(0, 8)}`);
+    };
+
+    const onActionEventInsert = (
+      _ctx: unknown,
+      row: Parameters<typeof rowToAppliedChange>[0]
+    ) => {
+      if (row.rabbitHoleId !== id) return;
+      useWorkflowStore.getState().mergeAppliedChanges(id, [rowToAppliedChange(row)]);
+    };
+
     conn.db.node.onInsert(onNodeInsert as never);
     conn.db.node.onDelete(onNodeDelete as never);
     conn.db.node.onUpdate(onNodeUpdate as never);
     conn.db.edge.onInsert(onEdgeInsert as never);
     conn.db.edge.onDelete(onEdgeDelete as never);
+    conn.db.edge.onUpdate(onEdgeUpdate as never);
     conn.db.cluster.onInsert(onClusterInsert as never);
     conn.db.cluster.onDelete(onClusterDelete as never);
     conn.db.node_content.onInsert(onContentInsert as never);
@@ -416,6 +526,16 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
     conn.db.chat_message.onInsert(onChatMessageInsert as never);
     conn.db.chat_message.onUpdate(onChatMessageUpdate as never);
     conn.db.chat_message.onDelete(onChatMessageDelete as never);
+    conn.db.tag.onInsert(onTagUpsert as never);
+    conn.db.tag.onUpdate(onTagUpdate as never);
+    conn.db.tag.onDelete(onTagDelete as never);
+    conn.db.annotation.onInsert(onAnnotationUpsert as never);
+    conn.db.annotation.onUpdate(onAnnotationUpdate as never);
+    conn.db.annotation.onDelete(onAnnotationDelete as never);
+    conn.db.saved_search.onInsert(onSavedSearchUpsert as never);
+    conn.db.saved_search.onUpdate(onSavedSearchUpdate as never);
+    conn.db.saved_search.onDelete(onSavedSearchDelete as never);
+    conn.db.action_event.onInsert(onActionEventInsert as never);
 
     const newHandle = conn
       .subscriptionBuilder()
@@ -429,6 +549,11 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
         const clustersArr: Cluster[] = [];
         const threadsArr: ChatThread[] = [];
         const messagesArr: ChatMessageRecord[] = [];
+        const annotationsArr: Annotation[] = [];
+        const tagsArr: TagDefinition[] = [];
+        const savedSearchesArr: SavedSearch[] = [];
+        const actionEventsArr: AppliedChangeEvent[] = [];
+        const legacyTagNodeIds: string[] = [];
         const contentMap = new Map<string, { content: string; truncated: boolean }>();
 
         for (const row of conn.db.node_content.iter()) {
@@ -439,6 +564,9 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
         for (const row of conn.db.node.iter()) {
           if (row.rabbitHoleId === id) {
             const node = rowToNode(row);
+            if (rowNotesAndTags(row, node.data as unknown as Record<string, unknown>).legacy) {
+              legacyTagNodeIds.push(node.id);
+            }
             const c = contentMap.get(node.id);
             if (c) {
               node.data = { ...node.data, fetchedContent: c.content, contentTruncated: c.truncated };
@@ -458,11 +586,26 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
         for (const row of conn.db.chat_message.iter()) {
           if (row.rabbitHoleId === id) messagesArr.push(rowToChatMessage(row));
         }
+        for (const row of conn.db.annotation.iter()) {
+          if (row.rabbitHoleId === id) annotationsArr.push(rowToAnnotation(row));
+        }
+        for (const row of conn.db.tag.iter()) {
+          if (row.rabbitHoleId === id) tagsArr.push(rowToTag(row));
+        }
+        for (const row of conn.db.saved_search.iter()) {
+          if (row.rabbitHoleId === id) savedSearchesArr.push(rowToSavedSearch(row));
+        }
+        for (const row of conn.db.action_event.iter()) {
+          if (row.rabbitHoleId === id) actionEventsArr.push(rowToAppliedChange(row));
+        }
 
         graphStore.getState().clearGraph();
         if (nodesArr.length > 0) graphStore.getState().addNodes(nodesArr);
         if (edgesArr.length > 0) graphStore.getState().addEdges(edgesArr);
         if (clustersArr.length > 0) graphStore.getState().setClusters(clustersArr);
+        graphStore.getState().setTagDefinitions(tagsArr);
+        // Move tags out of the old `[tags:]` notes prefix into the tags column
+        migrateLegacyNodeTags(legacyTagNodeIds);
         const currentActive = chatStore.getState().byHole[id]?.activeThreadId ?? null;
         chatStore.getState().hydrateHole({
           rabbitHoleId: id,
@@ -470,13 +613,19 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
           messages: messagesArr,
           preferredActiveThreadId: currentActive,
         });
+        annotationStore.getState().hydrateHole(id, annotationsArr);
+        useSavedSearchStore.getState().hydrateHole(id, savedSearchesArr);
+        // Merge rather than replace so events recorded before this hole synced stay visible
+        useWorkflowStore.getState().mergeAppliedChanges(id, actionEventsArr);
+        // Apply the hole's archive auto-purge policy, if it has one
+        purgeExpiredArchive();
 
         const hydrationMs = (performance.now() - hydrationStart).toFixed(1);
         const totalMs = (performance.now() - holeSubStart).toFixed(1);
         console.log(
           `[STDB] ✓ hole:${id.slice(0, 8)} hydrated in ${hydrationMs}ms (total ${totalMs}ms) — ` +
           `${nodesArr.length} nodes, ${edgesArr.length} edges, ${clustersArr.length} clusters, ${contentMap.size} content, ` +
-          `${threadsArr.length} chat threads, ${messagesArr.length} chat messages`
+          `${threadsArr.length} chat threads, ${messagesArr.length} chat messages, ${annotationsArr.length} annotations, ${savedSearchesArr.length} saved searches, ${actionEventsArr.length} action events`
         );
       })
       .subscribe([
@@ -486,6 +635,10 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
         `SELECT * FROM node_content WHERE rabbit_hole_id = '${id}'`,
         `SELECT * FROM chat_thread WHERE rabbit_hole_id = '${id}'`,
         `SELECT * FROM chat_message WHERE rabbit_hole_id = '${id}'`,
+        `SELECT * FROM annotation WHERE rabbit_hole_id = '${id}'`,
+        `SELECT * FROM tag WHERE rabbit_hole_id = '${id}'`,
+        `SELECT * FROM saved_search WHERE rabbit_hole_id = '${id}'`,
+        `SELECT * FROM action_event WHERE rabbit_hole_id = '${id}'`,
       ]);
 
     holeSubRef.current = newHandle;
@@ -499,6 +652,7 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
       conn.db.node.removeOnUpdate(onNodeUpdate as never);
       conn.db.edge.removeOnInsert(onEdgeInsert as never);
       conn.db.edge.removeOnDelete(onEdgeDelete as never);
+      conn.db.edge.removeOnUpdate(onEdgeUpdate as never);
       conn.db.cluster.removeOnInsert(onClusterInsert as never);
       conn.db.cluster.removeOnDelete(onClusterDelete as never);
       conn.db.node_content.removeOnInsert(onContentInsert as never);
@@ -508,8 +662,18 @@ export function SpacetimeDBProvider({ children }: { children: React.ReactNode })
       conn.db.chat_message.removeOnInsert(onChatMessageInsert as never);
       conn.db.chat_message.removeOnUpdate(onChatMessageUpdate as never);
       conn.db.chat_message.removeOnDelete(onChatMessageDelete as never);
+      conn.db.tag.removeOnInsert(onTagUpsert as never);
+      conn.db.tag.removeOnUpdate(onTagUpdate as never);
+      conn.db.tag.removeOnDelete(onTagDelete as never);
+      conn.db.annotation.removeOnInsert(onAnnotationUpsert as never);
+      conn.db.annotation.removeOnUpdate(onAnnotationUpdate as never);
+      conn.db.annotation.removeOnDelete(onAnnotationDelete as never);
+      conn.db.saved_search.removeOnInsert(onSavedSearchUpsert as never);
+      conn.db.saved_search.removeOnUpdate(onSavedSearchUpdate as never);
+      conn.db.saved_search.removeOnDelete(onSavedSearchDelete as never);
+      conn.db.action_event.removeOnInsert(onActionEventInsert as never);
     };
-  }, [currentRabbitHoleId, graphStore, chatStore]);
+  }, [currentRabbitHoleId, graphStore, chatStore, annotationStore]);
 
   return <>{children}</>;
 }
@@ -0,0 +1,302 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { GitMerge, Loader2, AlertCircle, ArrowRight } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { ScrollArea } from "@/components/ui/ScrollArea";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { useUIStore } from "@/store/ui-store";
+import {
+  applyMerge,
+  planMerge,
+  DEFAULT_CHOICES,
+  type MergeChoice,
+  type MergeField,
+  type MergeMatch,
+  type MergePlan,
+  type MergeResolutions,
+} from "@/lib/db/merge";
+import { cn } from "@/lib/utils";
+import type { PaperNode } from "@/types";
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  notes: "Notes",
+  tags: "Tags",
+  state: "State",
+};
+
+function describeField(node: PaperNode, field: MergeField): string {
+  switch (field) {
+    case "notes": {
+      const notes = node.userNotes?.trim() ?? "";
+      return notes.length > 140 ? `${notes.slice(0, 140)}…` : notes;
+    }
+    case "tags":
+      return (node.userTags ?? []).join(", ");
+    case "state":
+      return node.state;
+  }
+}
+
+function ChoiceButton({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={cn(
+        "px-2 py-0.5 rounded text-[10px] font-medium transition-colors",
+        active ? "bg-violet-600 text-white" : "text-[#57534e] hover:bg-[#f3f2ee]"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+function ConflictRow({
+  match,
+  choices,
+  onChoose,
+  targetName,
+  sourceName,
+}: {
+  match: MergeMatch;
+  choices: Partial<Record<MergeField, MergeChoice>>;
+  onChoose: (field: MergeField, choice: MergeChoice) => void;
+  targetName: string;
+  sourceName: string;
+}) {
+  return (
+    <div className="px-4 py-2.5 border-b border-[#f3f2ee] last:border-0">
+      <p className="text-xs font-medium text-[#1c1917] line-clamp-1">{match.target.data.title}</p>
+      <div className="mt-1.5 space-y-2">
+        {match.conflicts.map((field) => {
+          const choice = choices[field] ?? DEFAULT_CHOICES[field];
+          const combinable = field === "notes" || field === "tags";
+          return (
+            <div key={field} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[10px] uppercase tracking-wide text-[#a8a29e]">
+                  {FIELD_LABELS[field]}
+                </span>
+                <div className="flex items-center gap-0.5 rounded-md border border-[#e8e7e2] p-0.5">
+                  <ChoiceButton active={choice === "target"} onClick={() => onChoose(field, "target")}>
+                    Target
+                  </ChoiceButton>
+                  <ChoiceButton active={choice === "source"} onClick={() => onChoose(field, "source")}>
+                    Source
+                  </ChoiceButton>
+                  {combinable && (
+                    <ChoiceButton active={choice === "both"} onClick={() => onChoose(field, "both")}>
+                      Both
+                    </ChoiceButton>
+                  )}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2 text-[11px] text-[#44403c]">
+                <div className={cn("rounded bg-[#f8f7f4] px-2 py-1", choice === "source" && "opacity-50")}>
+                  <span className="block text-[10px] text-[#a8a29e] truncate">{targetName}</span>
+                  <span className="whitespace-pre-wrap break-words">{describeField(match.target, field)}</span>
+                </div>
+                <div className={cn("rounded bg-[#f8f7f4] px-2 py-1", choice === "target" && "opacity-50")}>
+                  <span className="block text-[10px] text-[#a8a29e] truncate">{sourceName}</span>
+                  <span className="whitespace-pre-wrap break-words">{describeField(match.source, field)}</span>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/** Dialog body; mounted fresh on each open, starting from the open hole as the target. */
+function MergeHolesBody({ onClose }: { onClose: () => void }) {
+  const rabbitHoles = useRabbitHoleStore((s) => s.rabbitHoles);
+  const currentRabbitHoleId = useRabbitHoleStore((s) => s.currentRabbitHoleId);
+  const setCurrentRabbitHoleId = useRabbitHoleStore((s) => s.setCurrentRabbitHoleId);
+
+  const sortedHoles = useMemo(
+    () => [...rabbitHoles].sort((a, b) => b.createdAt - a.createdAt),
+    [rabbitHoles]
+  );
+  const [targetId, setTargetId] = useState(() => currentRabbitHoleId ?? sortedHoles[0]?.id ?? "");
+  const [sourceId, setSourceId] = useState(() => sortedHoles.find((h) => h.id !== targetId)?.id ?? "");
+  const [plan, setPlan] = useState<MergePlan | null>(null);
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const conflicted = useMemo(
+    () => plan?.matches.filter((m) => m.conflicts.length > 0) ?? [],
+    [plan]
+  );
+
+  const handlePlan = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setPlan(await planMerge(sourceId, targetId));
+      setResolutions({});
+    } catch (err) {
+      console.error("[MergeHolesDialog] Plan error:", err);
+      setError(err instanceof Error ? err.message : "Failed to compare rabbit holes");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMerge = () => {
+    if (!plan) return;
+    setError(null);
+    try {
+      applyMerge(plan, resolutions);
+      setCurrentRabbitHoleId(plan.target.hole.id);
+      onClose();
+    } catch (err) {
+      console.error("[MergeHolesDialog] Merge error:", err);
+      setError(err instanceof Error ? err.message : "Merge failed");
+    }
+  };
+
+  const choose = (sourceNodeId: string, field: MergeField, choice: MergeChoice) =>
+    setResolutions((prev) => ({
+      ...prev,
+      [sourceNodeId]: { ...prev[sourceNodeId], [field]: choice },
+    }));
+
+  const selectClass =
+    "h-8 w-full rounded-md border border-[#dddcd7] bg-white px-2 text-xs text-[#1c1917] outline-none focus:border-[#7c3aed]";
+
+  return (
+    <>
+      <DialogHeader className="px-4 pt-4 pb-3 border-b border-[#e8e7e2]">
+        <DialogTitle className="flex items-center gap-2 text-sm font-medium">
+          <GitMerge className="w-3.5 h-3.5 text-violet-500" />
+          Merge rabbit holes
+        </DialogTitle>
+      </DialogHeader>
+
+      {!plan ? (
+        <div className="px-4 py-4 space-y-3">
+          <div className="flex items-end gap-2">
+            <label className="flex-1 space-y-1">
+              <span className="text-[10px] uppercase tracking-wide text-[#a8a29e]">Source</span>
+              <select value={sourceId} onChange={(e) => setSourceId(e.target.value)} className={selectClass}>
+                {sortedHoles.map((hole) => (
+                  <option key={hole.id} value={hole.id}>
+                    {hole.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <ArrowRight className="w-3.5 h-3.5 mb-2.5 text-[#a8a29e] shrink-0" />
+            <label className="flex-1 space-y-1">
+              <span className="text-[10px] uppercase tracking-wide text-[#a8a29e]">Target</span>
+              <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={selectClass}>
+                {sortedHoles.map((hole) => (
+                  <option key={hole.id} value={hole.id}>
+                    {hole.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className="text-[11px] text-[#78716c]">
+            Papers from the source are added to the target. Duplicates are combined, and you
+            can review any notes, tags or states that differ. The source is left as it is.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="px-4 py-2.5 border-b border-[#e8e7e2] text-[11px] text-[#57534e]">
+            <span className="font-medium text-[#1c1917]">{plan.matches.length}</span> matching papers,{" "}
+            <span className="font-medium text-[#1c1917]">{plan.unmatched.length}</span> new from &quot;
+            {plan.source.hole.name}&quot;.{" "}
+            {conflicted.length > 0
+              ? `${conflicted.length} need${conflicted.length === 1 ? "s" : ""} review.`
+              : "No conflicts."}
+          </div>
+          {conflicted.length > 0 && (
+            <ScrollArea className="max-h-[380px]">
+              {conflicted.map((match) => (
+                <ConflictRow
+                  key={match.source.id}
+                  match={match}
+                  choices={resolutions[match.source.id] ?? {}}
+                  onChoose={(field, choice) => choose(match.source.id, field, choice)}
+                  targetName={plan.target.hole.name}
+                  sourceName={plan.source.hole.name}
+                />
+              ))}
+            </ScrollArea>
+          )}
+        </>
+      )}
+
+      {error && (
+        <p className="flex items-center gap-1.5 px-4 pb-2 text-[11px] text-red-600">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-t border-[#e8e7e2]">
+        <p className="text-[10px] text-[#a8a29e]">
+          {plan ? "Combined notes keep both sides under a header naming each hole." : ""}
+        </p>
+        <div className="flex items-center gap-1.5">
+          {plan ? (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => setPlan(null)}>
+                Back
+              </Button>
+              <Button size="sm" onClick={handleMerge} className="gap-1.5">
+                <GitMerge className="w-3 h-3" />
+                Merge into &quot;{plan.target.hole.name}&quot;
+              </Button>
+            </>
+          ) : (
+            <Button
+              size="sm"
+              onClick={handlePlan}
+              disabled={loading || !sourceId || !targetId || sourceId === targetId}
+              className="gap-1.5"
+            >
+              {loading && <Loader2 className="w-3 h-3 animate-spin" />}
+              Compare
+            </Button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
+
+export function MergeHolesDialog() {
+  const open = useUIStore((s) => s.mergeHolesOpen);
+  const close = useUIStore((s) => s.closeMergeHoles);
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && close()}>
+      <DialogContent className="sm:max-w-lg p-0 gap-0 overflow-hidden">
+        <MergeHolesBody onClose={close} />
+      </DialogContent>
+    </Dialog>
+  );
+}
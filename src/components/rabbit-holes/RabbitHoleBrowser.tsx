@@ -1,14 +1,16 @@
 "use client";
 
 import { useState, useMemo, useCallback } from "react";
-import { Plus, Search, ChevronDown, Rabbit, Trash2, Edit2, Check, X } from "lucide-react";
+import { Plus, Search, ChevronDown, Rabbit, Trash2, Edit2, Check, X, GitFork, GitMerge, Loader2 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { nanoid } from "nanoid";
 import { Input } from "@/components/ui/Input";
 import { Button } from "@/components/ui/Button";
 import { cn } from "@/lib/utils";
 import { useRabbitHoleStore, type RabbitHole } from "@/store/rabbit-hole-store";
+import { useUIStore } from "@/store/ui-store";
 import { animation } from "@/lib/design-tokens";
+import { forkRabbitHole } from "@/lib/db/fork";
 
 function formatRelativeTime(ms: number): string {
   const diff = Date.now() - ms;
@@ -22,17 +24,51 @@ function formatRelativeTime(ms: number): string {
   return new Date(ms).toLocaleDateString();
 }
 
+/** Forks indent under their parent; indentation stops growing past this depth */
+const MAX_FORK_DEPTH = 3;
+
+/** Order holes newest first with each fork listed under its parent. */
+function orderByLineage(holes: RabbitHole[]): { hole: RabbitHole; depth: number }[] {
+  const ids = new Set(holes.map((h) => h.id));
+  const children = new Map<string, RabbitHole[]>();
+  const roots: RabbitHole[] = [];
+  for (const hole of holes) {
+    if (hole.parentId && ids.has(hole.parentId)) {
+      const siblings = children.get(hole.parentId) ?? [];
+      siblings.push(hole);
+      children.set(hole.parentId, siblings);
+    } else {
+      roots.push(hole);
+    }
+  }
+
+  const ordered: { hole: RabbitHole; depth: number }[] = [];
+  const visit = (hole: RabbitHole, depth: number) => {
+    ordered.push({ hole, depth });
+    const forks = (children.get(hole.id) ?? []).sort((a, b) => b.createdAt - a.createdAt);
+    for (const fork of forks) visit(fork, depth + 1);
+  };
+  for (const root of roots.sort((a, b) => b.createdAt - a.createdAt)) visit(root, 0);
+  return ordered;
+}
+
 export function RabbitHoleBrowser() {
   const rabbitHoles = useRabbitHoleStore((s) => s.rabbitHoles);
   const currentRabbitHoleId = useRabbitHoleStore((s) => s.currentRabbitHoleId);
   const setCurrentRabbitHoleId = useRabbitHoleStore((s) => s.setCurrentRabbitHoleId);
   const dbConnection = useRabbitHoleStore((s) => s.dbConnection);
   const isDbConnected = useRabbitHoleStore((s) => s.isDbConnected);
+  const openMergeHoles = useUIStore((s) => s.openMergeHoles);
 
   const [isOpen, setIsOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
+  const [forkingId, setForkingId] = useState<string | null>(null);
+  const [forkName, setForkName] = useState("");
+  const [forkIncludeChat, setForkIncludeChat] = useState(false);
+  const [forkBusy, setForkBusy] = useState(false);
+  const [forkError, setForkError] = useState<string | null>(null);
 
   const currentHole = useMemo(
     () => rabbitHoles.find((h) => h.id === currentRabbitHoleId),
@@ -49,9 +85,20 @@ export function RabbitHoleBrowser() {
     );
   }, [rabbitHoles, searchQuery]);
 
+  const holeNames = useMemo(
+    () => new Map(rabbitHoles.map((h) => [h.id, h.name])),
+    [rabbitHoles]
+  );
+
+  // Search results stay flat; the full list shows forks under their parent
   const sortedHoles = useMemo(
-    () => [...filteredHoles].sort((a, b) => b.createdAt - a.createdAt),
-    [filteredHoles]
+    () =>
+      searchQuery.trim()
+        ? [...filteredHoles]
+            .sort((a, b) => b.createdAt - a.createdAt)
+            .map((hole) => ({ hole, depth: 0 }))
+        : orderByLineage(filteredHoles),
+    [filteredHoles, searchQuery]
   );
 
   const handleCreate = useCallback(() => {
@@ -101,6 +148,34 @@ export function RabbitHoleBrowser() {
 
   const cancelEdit = useCallback(() => setEditingId(null), []);
 
+  const startFork = useCallback((e: React.MouseEvent, hole: RabbitHole) => {
+    e.stopPropagation();
+    setEditingId(null);
+    setForkingId(hole.id);
+    setForkName(`${hole.name} (fork)`);
+    setForkIncludeChat(false);
+    setForkError(null);
+  }, []);
+
+  const commitFork = useCallback(
+    async (id: string) => {
+      setForkBusy(true);
+      setForkError(null);
+      try {
+        const result = await forkRabbitHole(id, { name: forkName, includeChat: forkIncludeChat });
+        setForkingId(null);
+        setCurrentRabbitHoleId(result.rabbitHoleId);
+        setIsOpen(false);
+      } catch (err) {
+        console.error("[RabbitHoleBrowser] Fork error:", err);
+        setForkError(err instanceof Error ? err.message : "Fork failed");
+      } finally {
+        setForkBusy(false);
+      }
+    },
+    [forkName, forkIncludeChat, setCurrentRabbitHoleId]
+  );
+
   if (!isDbConnected) {
     return (
       <div className="px-3 py-2 border-b border-[#e8e7e2]">
@@ -158,6 +233,18 @@ export function RabbitHoleBrowser() {
                 <Plus className="w-3.5 h-3.5" />
                 New rabbit hole
               </button>
+              {rabbitHoles.length >= 2 && (
+                <button
+                  onClick={() => {
+                    openMergeHoles();
+                    setIsOpen(false);
+                  }}
+                  className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-[11px] font-medium text-[#57534e] hover:bg-[#f3f2ee]/60 transition-colors"
+                >
+                  <GitMerge className="w-3.5 h-3.5" />
+                  Merge rabbit holes
+                </button>
+              )}
 
               {/* List */}
               {sortedHoles.length === 0 ? (
@@ -166,60 +253,124 @@ export function RabbitHoleBrowser() {
                 </div>
               ) : (
                 <div className="space-y-0.5 max-h-56 overflow-y-auto">
-                  {sortedHoles.map((hole) => (
-                    <div
-                      key={hole.id}
-                      onClick={() => editingId !== hole.id && handleOpen(hole.id)}
-                      className={cn(
-                        "group flex items-center gap-1.5 px-2 py-1.5 rounded-md cursor-pointer transition-colors",
-                        hole.id === currentRabbitHoleId
-                          ? "bg-[#7c3aed]/10 text-[#7c3aed]"
-                          : "hover:bg-[#f3f2ee]/60 text-[#1c1917]"
-                      )}
-                    >
-                      {editingId === hole.id ? (
-                        <div className="flex items-center gap-1 flex-1 min-w-0" onClick={(e) => e.stopPropagation()}>
+                  {sortedHoles.map(({ hole, depth }) => (
+                    <div key={hole.id}>
+                      <div
+                        onClick={() => editingId !== hole.id && forkingId !== hole.id && handleOpen(hole.id)}
+                        style={depth > 0 ? { paddingLeft: 8 + Math.min(depth, MAX_FORK_DEPTH) * 12 } : undefined}
+                        className={cn(
+                          "group flex items-center gap-1.5 px-2 py-1.5 rounded-md cursor-pointer transition-colors",
+                          hole.id === currentRabbitHoleId
+                            ? "bg-[#7c3aed]/10 text-[#7c3aed]"
+                            : "hover:bg-[#f3f2ee]/60 text-[#1c1917]"
+                        )}
+                      >
+                        {editingId === hole.id ? (
+                          <div className="flex items-center gap-1 flex-1 min-w-0" onClick={(e) => e.stopPropagation()}>
+                            <input
+                              autoFocus
+                              value={editingName}
+                              onChange={(e) => setEditingName(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") commitEdit(hole.id);
+                                if (e.key === "Escape") cancelEdit();
+                              }}
+                              className="flex-1 min-w-0 text-[11px] bg-white border border-[#dddcd7] rounded px-1 py-0.5 outline-none focus:border-[#7c3aed]"
+                            />
+                            <button onClick={() => commitEdit(hole.id)} className="p-0.5 text-green-600 hover:text-green-700">
+                              <Check className="w-3 h-3" />
+                            </button>
+                            <button onClick={cancelEdit} className="p-0.5 text-[#78716c] hover:text-[#1c1917]">
+                              <X className="w-3 h-3" />
+                            </button>
+                          </div>
+                        ) : (
+                          <>
+                            {hole.parentId && (
+                              <GitFork className="w-3 h-3 shrink-0 text-[#a8a29e]" />
+                            )}
+                            <div className="flex-1 min-w-0">
+                              <div className="text-[11px] font-medium truncate">{hole.name}</div>
+                              {hole.parentId && (depth === 0 || !hole.rootQuery) ? (
+                                <div className="text-[10px] text-[#a8a29e] truncate">
+                                  forked from {holeNames.get(hole.parentId) ?? "a deleted hole"}
+                                </div>
+                              ) : (
+                                hole.rootQuery && (
+                                  <div className="text-[10px] text-[#a8a29e] truncate">{hole.rootQuery}</div>
+                                )
+                              )}
+                            </div>
+                            <span className="text-[10px] text-[#a8a29e] shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                              {formatRelativeTime(hole.createdAt)}
+                            </span>
+                            <button
+                              onClick={(e) => startFork(e, hole)}
+                              className="p-0.5 text-[#a8a29e] hover:text-[#7c3aed] opacity-0 group-hover:opacity-100 transition-opacity"
+                              title="Fork"
+                            >
+                              <GitFork className="w-3 h-3" />
+                            </button>
+                            <button
+                              onClick={(e) => startEdit(e, hole)}
+                              className="p-0.5 text-[#a8a29e] hover:text-[#44403c] opacity-0 group-hover:opacity-100 transition-opacity"
+                            >
+                              <Edit2 className="w-3 h-3" />
+                            </button>
+                            <button
+                              onClick={(e) => handleDelete(e, hole.id)}
+                              className="p-0.5 text-[#a8a29e] hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                      {forkingId === hole.id && (
+                        <div className="mx-1 mt-1 mb-1.5 p-2 rounded-md border border-[#e8e7e2] bg-[#f8f7f4] space-y-1.5">
                           <input
                             autoFocus
-                            value={editingName}
-                            onChange={(e) => setEditingName(e.target.value)}
+                            value={forkName}
+                            onChange={(e) => setForkName(e.target.value)}
                             onKeyDown={(e) => {
-                              if (e.key === "Enter") commitEdit(hole.id);
-                              if (e.key === "Escape") cancelEdit();
+                              if (e.key === "Enter" && !forkBusy) commitFork(hole.id);
+                              if (e.key === "Escape") setForkingId(null);
                             }}
-                            className="flex-1 min-w-0 text-[11px] bg-white border border-[#dddcd7] rounded px-1 py-0.5 outline-none focus:border-[#7c3aed]"
+                            disabled={forkBusy}
+                            className="w-full text-[11px] bg-white border border-[#dddcd7] rounded px-1.5 py-0.5 outline-none focus:border-[#7c3aed]"
                           />
-                          <button onClick={() => commitEdit(hole.id)} className="p-0.5 text-green-600 hover:text-green-700">
-                            <Check className="w-3 h-3" />
-                          </button>
-                          <button onClick={cancelEdit} className="p-0.5 text-[#78716c] hover:text-[#1c1917]">
-                            <X className="w-3 h-3" />
-                          </button>
-                        </div>
-                      ) : (
-                        <>
-                          <div className="flex-1 min-w-0">
-                            <div className="text-[11px] font-medium truncate">{hole.name}</div>
-                            {hole.rootQuery && (
-                              <div className="text-[10px] text-[#a8a29e] truncate">{hole.rootQuery}</div>
-                            )}
+                          <label className="flex items-center gap-1.5 text-[10px] text-[#57534e] cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={forkIncludeChat}
+                              onChange={(e) => setForkIncludeChat(e.target.checked)}
+                              disabled={forkBusy}
+                              className="accent-[#7c3aed]"
+                            />
+                            Include chat threads
+                          </label>
+                          {forkError && <p className="text-[10px] text-red-600">{forkError}</p>}
+                          <div className="flex items-center justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setForkingId(null)}
+                              disabled={forkBusy}
+                              className="h-6 px-2 text-[10px]"
+                            >
+                              Cancel
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() => commitFork(hole.id)}
+                              disabled={forkBusy}
+                              className="h-6 px-2 gap-1 text-[10px]"
+                            >
+                              {forkBusy ? <Loader2 className="w-3 h-3 animate-spin" /> : <GitFork className="w-3 h-3" />}
+                              Fork
+                            </Button>
                           </div>
-                          <span className="text-[10px] text-[#a8a29e] shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
-                            {formatRelativeTime(hole.createdAt)}
-                          </span>
-                          <button
-                            onClick={(e) => startEdit(e, hole)}
-                            className="p-0.5 text-[#a8a29e] hover:text-[#44403c] opacity-0 group-hover:opacity-100 transition-opacity"
-                          >
-                            <Edit2 className="w-3 h-3" />
-                          </button>
-                          <button
-                            onClick={(e) => handleDelete(e, hole.id)}
-                            className="p-0.5 text-[#a8a29e] hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
-                          >
-                            <Trash2 className="w-3 h-3" />
-                          </button>
-                        </>
+                        </div>
                       )}
                     </div>
                   ))}
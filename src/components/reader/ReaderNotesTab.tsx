@@ -1,27 +1,50 @@
 "use client";
 
-import { useState, useCallback, useEffect, useRef } from "react";
-import { X, Plus } from "lucide-react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { X, Plus, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/Button";
 import { ScrollArea } from "@/components/ui/ScrollArea";
-import { persistUpdateNodeNotes, parsePersistedNotes } from "@/lib/db/graph-actions";
+import { persistUpdateNodeNotes } from "@/lib/db/graph-actions";
+import { applyNodeTags } from "@/lib/db/tag-actions";
+import { deleteAnnotation } from "@/lib/db/annotation-actions";
+import { collectTagUsage, normalizeTag, sameTag, tagColor } from "@/lib/utils/tags";
+import { useAnnotationStore } from "@/store/annotation-store";
+import { useGraphStore } from "@/store/graph-store";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
 import { useTimelineStore } from "@/store/timeline-store";
-import type { PaperNode } from "@/types";
+import { ANNOTATION_TYPE_LABELS, type Annotation, type PaperNode } from "@/types";
 
 interface Props {
   node: PaperNode;
 }
 
+const EMPTY_ANNOTATIONS: Annotation[] = [];
+
 export function ReaderNotesTab({ node }: Props) {
-  // Parse persisted notes (which may contain encoded tags)
-  const parsed = parsePersistedNotes(node.userNotes);
-  const [notes, setNotes] = useState(parsed.notes);
+  const [notes, setNotes] = useState(node.userNotes ?? "");
   const [tagInput, setTagInput] = useState("");
-  const [tags, setTags] = useState<string[]>(node.userTags ?? parsed.tags);
+  // Tags are saved immediately, so read them straight from the node
+  const tags = useMemo(() => node.userTags ?? [], [node.userTags]);
+  const allNodes = useGraphStore((s) => s.nodes);
+  const tagDefinitions = useGraphStore((s) => s.tagDefinitions);
+  const tagSuggestions = useMemo(
+    () =>
+      collectTagUsage(allNodes.values(), tagDefinitions)
+        .map((t) => t.name)
+        .filter((name) => !tags.some((t) => sameTag(t, name))),
+    [allNodes, tagDefinitions, tags]
+  );
+  const holeId = useRabbitHoleStore((s) => s.currentRabbitHoleId);
+  const holeAnnotations = useAnnotationStore((s) =>
+    holeId ? s.byHole[holeId] ?? EMPTY_ANNOTATIONS : EMPTY_ANNOTATIONS
+  );
+  const annotations = useMemo(
+    () => holeAnnotations.filter((a) => a.paperId === node.id),
+    [holeAnnotations, node.id]
+  );
 
   // Refs to track latest values for the debounced save
   const notesRef = useRef(notes);
-  const tagsRef = useRef(tags);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const nodeIdRef = useRef(node.id);
   const nodeTitleRef = useRef(node.data.title);
@@ -34,7 +57,7 @@ export function ReaderNotesTab({ node }: Props) {
     if (!debounceRef.current) return;
     clearTimeout(debounceRef.current);
     debounceRef.current = null;
-    persistUpdateNodeNotes(nodeIdRef.current, notesRef.current, tagsRef.current);
+    persistUpdateNodeNotes(nodeIdRef.current, notesRef.current);
     useTimelineStore.getState().addEvent({
       type: "note",
       summary: `Updated notes on "${nodeTitleRef.current}"`,
@@ -45,7 +68,7 @@ export function ReaderNotesTab({ node }: Props) {
   const scheduleSave = useCallback(() => {
     if (debounceRef.current) clearTimeout(debounceRef.current);
     debounceRef.current = setTimeout(() => {
-      persistUpdateNodeNotes(nodeIdRef.current, notesRef.current, tagsRef.current);
+      persistUpdateNodeNotes(nodeIdRef.current, notesRef.current);
       useTimelineStore.getState().addEvent({
         type: "note",
         summary: `Updated notes on "${nodeTitleRef.current}"`,
@@ -70,24 +93,25 @@ export function ReaderNotesTab({ node }: Props) {
   );
 
   const handleAddTag = useCallback(() => {
-    const t = tagInput.trim();
-    if (t && !tags.includes(t)) {
-      const next = [...tags, t];
-      setTags(next);
-      tagsRef.current = next;
-      setTagInput("");
-      scheduleSave();
+    const t = normalizeTag(tagInput);
+    if (!t) return;
+    // Reuse the existing spelling when the tag is already used elsewhere in the hole
+    const existing = tagSuggestions.find((name) => sameTag(name, t));
+    if (applyNodeTags([node.id], [existing ?? t]).length > 0) {
+      useTimelineStore.getState().addEvent({
+        type: "note",
+        summary: `Tagged "${node.data.title}" with ${existing ?? t}`,
+        nodeId: node.id,
+      });
     }
-  }, [tagInput, tags, scheduleSave]);
+    setTagInput("");
+  }, [tagInput, tagSuggestions, node.id, node.data.title]);
 
   const handleRemoveTag = useCallback(
     (tag: string) => {
-      const next = tags.filter((t) => t !== tag);
-      setTags(next);
-      tagsRef.current = next;
-      scheduleSave();
+      applyNodeTags([node.id], [], [tag]);
     },
-    [tags, scheduleSave]
+    [node.id]
   );
 
   return (
@@ -115,6 +139,10 @@ export function ReaderNotesTab({ node }: Props) {
                 key={tag}
                 className="bg-[#f3f2ee] text-[#44403c] rounded-full px-3 py-1 text-xs flex items-center gap-1"
               >
+                <span
+                  className="w-1.5 h-1.5 rounded-full"
+                  style={{ backgroundColor: tagColor(tagDefinitions, tag) }}
+                />
                 {tag}
                 <button
                   onClick={() => handleRemoveTag(tag)}
@@ -130,14 +158,62 @@ export function ReaderNotesTab({ node }: Props) {
               value={tagInput}
               onChange={(e) => setTagInput(e.target.value)}
               onKeyDown={(e) => e.key === "Enter" && handleAddTag()}
+              list={`tag-suggestions-${node.id}`}
               placeholder="Add tag..."
               className="flex-1 bg-white border border-[#dddcd7] rounded-lg px-3 py-1.5 text-xs text-[#44403c] placeholder:text-[#a8a29e] focus:outline-none focus:ring-1 focus:ring-violet-500"
             />
+            <datalist id={`tag-suggestions-${node.id}`}>
+              {tagSuggestions.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
             <Button variant="outline" size="sm" onClick={handleAddTag}>
               <Plus className="w-3.5 h-3.5" />
             </Button>
           </div>
         </div>
+
+        <div>
+          <h3 className="text-xs font-medium text-[#78716c] uppercase tracking-wider mb-2">
+            Highlights
+          </h3>
+          {annotations.length === 0 ? (
+            <p className="text-xs text-[#a8a29e]">
+              Select text in the Text tab to save highlights.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {annotations.map((a) => (
+                <div
+                  key={a.id}
+                  className="group bg-white border border-[#e8e7e2] rounded-lg px-3 py-2 space-y-1.5"
+                >
+                  <div className="flex items-center gap-2">
+                    {a.type && (
+                      <span className="rounded-full bg-violet-500/10 text-violet-700 px-2 py-0.5 text-[10px] font-medium">
+                        {ANNOTATION_TYPE_LABELS[a.type]}
+                      </span>
+                    )}
+                    <span className="text-[10px] text-[#a8a29e] flex-1">
+                      {new Date(a.createdAt).toLocaleDateString()}
+                    </span>
+                    <button
+                      onClick={() => deleteAnnotation(a.id)}
+                      className="text-[#a8a29e] hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete highlight"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <p className="text-xs text-[#44403c] italic border-l-2 border-violet-400 pl-2">
+                    {a.text}
+                  </p>
+                  {a.note && <p className="text-xs text-[#78716c]">{a.note}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
     </ScrollArea>
   );
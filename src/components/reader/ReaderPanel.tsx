@@ -9,6 +9,7 @@ import { ReaderDetailsTab } from "./ReaderDetailsTab";
 import { ReaderNotesTab } from "./ReaderNotesTab";
 import { ReaderAskAiTab } from "./ReaderAskAiTab";
 import { ReaderViewTab } from "./ReaderViewTab";
+import { ReaderTextTab } from "./ReaderTextTab";
 
 export function ReaderPanel() {
   const selectedNodeId = useGraphStore((s) => s.selectedNodeId);
@@ -17,6 +18,7 @@ export function ReaderPanel() {
   const node = selectedNodeId ? nodes.get(selectedNodeId) : undefined;
 
   const hasViewUrl = !!(node?.data.url || node?.data.openAccessPdf);
+  const hasText = hasViewUrl || !!node?.data.fetchedContent;
 
   if (!node) {
     return (
@@ -61,6 +63,11 @@ export function ReaderPanel() {
                 View
               </TabsTrigger>
             )}
+            {hasText && (
+              <TabsTrigger value="text" className="flex-1 text-xs">
+                Text
+              </TabsTrigger>
+            )}
             <TabsTrigger value="details" className="flex-1 text-xs">
               Details
             </TabsTrigger>
@@ -79,6 +86,12 @@ export function ReaderPanel() {
           </TabsContent>
         )}
 
+        {hasText && (
+          <TabsContent value="text" className="flex-1 min-h-0 mt-0">
+            <ReaderTextTab key={node.id} node={node} />
+          </TabsContent>
+        )}
+
         <TabsContent value="details" className="flex-1 min-h-0 mt-0">
           <ReaderDetailsTab node={node} />
         </TabsContent>
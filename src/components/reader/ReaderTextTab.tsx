@@ -0,0 +1,211 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { Highlighter, Loader2, AlertCircle, FileText } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { ScrollArea } from "@/components/ui/ScrollArea";
+import { persistNodeContent } from "@/lib/db/graph-actions";
+import { createAnnotation } from "@/lib/db/annotation-actions";
+import { useAnnotationStore } from "@/store/annotation-store";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { useTimelineStore } from "@/store/timeline-store";
+import { ANNOTATION_TYPE_LABELS, type Annotation, type AnnotationType, type PaperNode } from "@/types";
+import { cn } from "@/lib/utils";
+
+interface Props {
+  node: PaperNode;
+}
+
+const MIN_SELECTION_CHARS = 3;
+const EMPTY_ANNOTATIONS: Annotation[] = [];
+
+type Segment = { text: string; annotationId?: string };
+
+/**
+ * Split the content into plain and highlighted runs. Each annotation marks its
+ * first occurrence; overlapping highlights keep the earlier one.
+ */
+function segmentContent(content: string, annotations: Annotation[]): Segment[] {
+  const ranges = annotations
+    .map((a) => ({ id: a.id, start: content.indexOf(a.text), length: a.text.length }))
+    .filter((r) => r.start >= 0 && r.length > 0)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: Segment[] = [];
+  let cursor = 0;
+  for (const r of ranges) {
+    if (r.start < cursor) continue;
+    if (r.start > cursor) segments.push({ text: content.slice(cursor, r.start) });
+    segments.push({ text: content.slice(r.start, r.start + r.length), annotationId: r.id });
+    cursor = r.start + r.length;
+  }
+  if (cursor < content.length) segments.push({ text: content.slice(cursor) });
+  return segments;
+}
+
+export function ReaderTextTab({ node }: Props) {
+  const content = node.data.fetchedContent;
+  const sourceUrl = node.data.openAccessPdf ?? node.data.url;
+  const holeId = useRabbitHoleStore((s) => s.currentRabbitHoleId);
+  const holeAnnotations = useAnnotationStore((s) =>
+    holeId ? s.byHole[holeId] ?? EMPTY_ANNOTATIONS : EMPTY_ANNOTATIONS
+  );
+  const annotations = useMemo(
+    () => holeAnnotations.filter((a) => a.paperId === node.id),
+    [holeAnnotations, node.id]
+  );
+
+  const [selection, setSelection] = useState<string | null>(null);
+  const [type, setType] = useState<AnnotationType | undefined>(undefined);
+  const [note, setNote] = useState("");
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  const segments = useMemo(
+    () => (content ? segmentContent(content, annotations) : []),
+    [content, annotations]
+  );
+
+  const handleMouseUp = () => {
+    const sel = window.getSelection();
+    if (!sel || sel.isCollapsed || !contentRef.current) return;
+    if (!contentRef.current.contains(sel.anchorNode) || !contentRef.current.contains(sel.focusNode)) {
+      return;
+    }
+    const text = sel.toString().trim();
+    if (text.length >= MIN_SELECTION_CHARS) setSelection(text);
+  };
+
+  const resetSelection = () => {
+    setSelection(null);
+    setType(undefined);
+    setNote("");
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleSave = () => {
+    if (!selection) return;
+    const annotation = createAnnotation({ nodeId: node.id, text: selection, type, note });
+    if (annotation) {
+      useTimelineStore.getState().addEvent({
+        type: "note",
+        summary: `Highlighted ${type ? ANNOTATION_TYPE_LABELS[type].toLowerCase() : "passage"} in "${node.data.title}"`,
+        nodeId: node.id,
+      });
+    }
+    resetSelection();
+  };
+
+  const handleFetch = async () => {
+    if (!sourceUrl) return;
+    setFetching(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/fetch-content?url=${encodeURIComponent(sourceUrl)}`);
+      const data = (await res.json()) as { content?: string; truncated?: boolean; error?: string };
+      if (!res.ok || data.error || !data.content) {
+        throw new Error(data.error ?? "No text could be extracted");
+      }
+      persistNodeContent(node.id, sourceUrl, data.content, data.truncated ?? false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Fetch failed");
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  if (!content) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-3 text-[#78716c] p-6 text-center">
+        <FileText className="w-8 h-8 text-[#a8a29e]" />
+        <p className="text-sm">No text has been fetched for this source yet.</p>
+        {sourceUrl && (
+          <Button size="sm" variant="outline" onClick={handleFetch} disabled={fetching} className="gap-1.5 text-xs">
+            {fetching ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileText className="w-3.5 h-3.5" />}
+            Fetch text
+          </Button>
+        )}
+        {error && (
+          <div className="flex items-center gap-2 text-xs text-red-600">
+            <AlertCircle className="w-3.5 h-3.5" />
+            {error}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {selection ? (
+        <div className="px-4 py-3 border-b border-[#e8e7e2] bg-[#f8f7f4] space-y-2 shrink-0">
+          <p className="text-xs text-[#44403c] italic line-clamp-3 border-l-2 border-violet-400 pl-2">
+            {selection}
+          </p>
+          <div className="flex flex-wrap gap-1.5">
+            {(Object.keys(ANNOTATION_TYPE_LABELS) as AnnotationType[]).map((t) => (
+              <button
+                key={t}
+                onClick={() => setType(type === t ? undefined : t)}
+                className={cn(
+                  "rounded-full px-3 py-1 text-xs font-medium transition-colors",
+                  type === t
+                    ? "bg-violet-600 text-white"
+                    : "bg-white border border-[#dddcd7] text-[#44403c] hover:bg-[#f3f2ee]"
+                )}
+              >
+                {ANNOTATION_TYPE_LABELS[t]}
+              </button>
+            ))}
+          </div>
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSave()}
+            placeholder="Add a note (optional)..."
+            className="w-full bg-white border border-[#dddcd7] rounded-lg px-3 py-1.5 text-xs text-[#44403c] placeholder:text-[#a8a29e] focus:outline-none focus:ring-1 focus:ring-violet-500"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={resetSelection}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} className="gap-1.5">
+              <Highlighter className="w-3.5 h-3.5" />
+              Save highlight
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 px-4 py-2.5 border-b border-[#e8e7e2] bg-[#f8f7f4] shrink-0">
+          <Highlighter className="w-3.5 h-3.5 text-[#a8a29e]" />
+          <span className="text-[11px] text-[#78716c]">
+            Select text to annotate it
+            {annotations.length > 0 && ` · ${annotations.length} highlight${annotations.length === 1 ? "" : "s"}`}
+          </span>
+        </div>
+      )}
+
+      <ScrollArea className="flex-1 min-h-0">
+        <div
+          ref={contentRef}
+          onMouseUp={handleMouseUp}
+          className="p-4 text-sm text-[#44403c] leading-relaxed whitespace-pre-wrap break-words"
+        >
+          {segments.map((seg, i) =>
+            seg.annotationId ? (
+              <mark key={i} className="bg-violet-500/15 text-inherit rounded-sm">
+                {seg.text}
+              </mark>
+            ) : (
+              <span key={i}>{seg.text}</span>
+            )
+          )}
+          {node.data.contentTruncated && (
+            <p className="mt-4 text-xs text-[#a8a29e]">[Content truncated]</p>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
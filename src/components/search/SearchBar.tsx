@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback } from "react";
-import { Search, X, Loader2, Globe, MapPin } from "lucide-react";
+import { Search, X, Loader2, Globe, MapPin, SlidersHorizontal, Bookmark, BookmarkCheck } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/Dialog";
 import { Button } from "@/components/ui/Button";
@@ -10,13 +10,21 @@ import { useGraphStore } from "@/store/graph-store";
 import { executeGraphCommand } from "@/lib/graph/commands";
 import { useRabbitHoleStore, newRabbitHoleId } from "@/store/rabbit-hole-store";
 import { useTimelineStore } from "@/store/timeline-store";
+import { useSavedSearchStore } from "@/store/saved-search-store";
+import {
+  SAVED_SEARCH_INTERVALS,
+  deleteSavedSearch,
+  runSavedSearch,
+  saveSearch,
+  setSavedSearchInterval,
+} from "@/lib/db/saved-search-actions";
 import { cn } from "@/lib/utils";
 import { searchWithinGraph, type SearchHit } from "@/lib/graph/search";
 import { SearchResults } from "./SearchResults";
 import { LocalSearchResults } from "./LocalSearchResults";
-import type { PaperMetadata } from "@/types";
-
-type SearchMode = "auto" | "instant" | "deep";
+import { SearchFilterPanel, AppliedFiltersNote, countActiveFilters } from "./SearchFilterPanel";
+import { DEFAULT_SEARCH_PROVIDERS, SEARCH_PROVIDER_LABELS } from "@/types";
+import type { PaperMetadata, SavedSearch, SearchFilters, SearchMode, SearchProvider, SearchResult } from "@/types";
 
 const DOMAIN_OPTIONS = [
   { label: "arxiv.org", value: "arxiv.org" },
@@ -29,8 +37,20 @@ const MODE_OPTIONS: { value: SearchMode; label: string }[] = [
   { value: "auto", label: "Auto" },
   { value: "instant", label: "Instant" },
   { value: "deep", label: "Deep" },
+  { value: "federated", label: "Federated" },
 ];
 
+const ALL_PROVIDERS = Object.keys(SEARCH_PROVIDER_LABELS) as SearchProvider[];
+
+type SearchParams = Pick<SavedSearch, "query" | "mode" | "domains" | "filters" | "providers">;
+
+function intervalLabel(hours: number): string {
+  if (hours === 1) return "Every hour";
+  if (hours === 24) return "Daily";
+  if (hours === 168) return "Weekly";
+  return `Every ${hours} hours`;
+}
+
 export function SearchBar() {
   const searchOpen = useUIStore((s) => s.searchOpen);
   const toggleSearch = useUIStore((s) => s.toggleSearch);
@@ -41,6 +61,10 @@ export function SearchBar() {
   const currentRabbitHoleId = useRabbitHoleStore((s) => s.currentRabbitHoleId);
   const setCurrentRabbitHoleId = useRabbitHoleStore((s) => s.setCurrentRabbitHoleId);
 
+  const savedSearches = useSavedSearchStore((s) =>
+    currentRabbitHoleId ? s.byHole[currentRabbitHoleId] : undefined
+  );
+
   const graphNodes = useGraphStore((s) => s.nodes);
   const selectNode = useGraphStore((s) => s.selectNode);
 
@@ -48,9 +72,20 @@ export function SearchBar() {
   const [searchScope, setSearchScope] = useState<"web" | "local">("web");
   const [searchMode, setSearchMode] = useState<SearchMode>("auto");
   const [selectedDomains, setSelectedDomains] = useState<string[]>([]);
+  const [selectedProviders, setSelectedProviders] = useState<SearchProvider[]>(DEFAULT_SEARCH_PROVIDERS);
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [filtersOpen, setFiltersOpen] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [results, setResults] = useState<PaperMetadata[]>([]);
+  const [resultProviders, setResultProviders] = useState<SearchResult["providers"]>();
+  const [failedProviders, setFailedProviders] = useState<SearchProvider[]>([]);
+  const [resultFilters, setResultFilters] = useState<SearchResult["appliedFilters"]>();
+  /** The saved search whose results are showing, if any */
+  const [activeSavedId, setActiveSavedId] = useState<string | null>(null);
+  const [newResultIds, setNewResultIds] = useState<Set<string>>();
+  /** What produced the results on screen, so saving doesn't pick up later edits */
+  const [lastRequest, setLastRequest] = useState<SearchParams | null>(null);
   const [localResults, setLocalResults] = useState<SearchHit[]>([]);
   const [selectedIdx, setSelectedIdx] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -76,6 +111,10 @@ export function SearchBar() {
     } else {
       setInputValue("");
       setSelectedDomains([]);
+      setFilters({});
+      setFiltersOpen(false);
+      setActiveSavedId(null);
+      setNewResultIds(undefined);
       setError(null);
       setResults([]);
       setLocalResults([]);
@@ -109,6 +148,15 @@ export function SearchBar() {
     );
   }, []);
 
+  // Keep at least one provider selected
+  const toggleProvider = useCallback((provider: SearchProvider) => {
+    setSelectedProviders((prev) =>
+      prev.includes(provider)
+        ? prev.length > 1 ? prev.filter((p) => p !== provider) : prev
+        : ALL_PROVIDERS.filter((p) => p === provider || prev.includes(p))
+    );
+  }, []);
+
   const handleLocalSearch = useCallback(() => {
     const query = inputValue.trim();
     if (!query) return;
@@ -127,6 +175,24 @@ export function SearchBar() {
     });
   }, [inputValue, graphNodes]);
 
+  const clearWebResults = useCallback(() => {
+    setError(null);
+    setResults([]);
+    setResultProviders(undefined);
+    setFailedProviders([]);
+    setResultFilters(undefined);
+    setNewResultIds(undefined);
+    setLocalResults([]);
+    setSelectedIdx(-1);
+  }, []);
+
+  const showResult = useCallback((result: SearchResult) => {
+    setResults(result.papers);
+    setResultProviders(result.providers);
+    setFailedProviders(Object.keys(result.failedProviders ?? {}) as SearchProvider[]);
+    setResultFilters(result.appliedFilters);
+  }, []);
+
   const handleSearch = useCallback(async () => {
     if (searchScope === "local") {
       handleLocalSearch();
@@ -135,11 +201,17 @@ export function SearchBar() {
 
     const query = inputValue.trim();
     if (!query || isSearching) return;
-    setError(null);
+    clearWebResults();
+    setActiveSavedId(null);
+    setLastRequest(null);
     setIsSearching(true);
-    setResults([]);
-    setLocalResults([]);
-    setSelectedIdx(-1);
+    const request: SearchParams = {
+      query,
+      mode: searchMode,
+      domains: selectedDomains,
+      filters: countActiveFilters(filters) > 0 ? filters : {},
+      providers: searchMode === "federated" ? selectedProviders : undefined,
+    };
     try {
       const res = await fetch("/api/search", {
         method: "POST",
@@ -148,6 +220,8 @@ export function SearchBar() {
           text: query,
           searchMode,
           domains: selectedDomains.length > 0 ? selectedDomains : undefined,
+          filters: countActiveFilters(filters) > 0 ? filters : undefined,
+          providers: request.providers,
         }),
       });
       const data = await res.json();
@@ -156,7 +230,8 @@ export function SearchBar() {
         setError("No papers found. Try a different query.");
         return;
       }
-      setResults(data.data.papers);
+      showResult(data.data as SearchResult);
+      setLastRequest(request);
       useTimelineStore.getState().addEvent({
         type: "search",
         summary: `Searched "${query}" — ${data.data.papers.length} results`,
@@ -167,7 +242,41 @@ export function SearchBar() {
     } finally {
       setIsSearching(false);
     }
-  }, [inputValue, isSearching, searchMode, selectedDomains, searchScope, handleLocalSearch]);
+  }, [inputValue, isSearching, searchMode, selectedDomains, selectedProviders, filters, searchScope, handleLocalSearch, clearWebResults, showResult]);
+
+  /** Load a saved search into the bar and re-run it, highlighting what's new. */
+  const handleRunSaved = useCallback(async (search: SavedSearch) => {
+    if (isSearching) return;
+    setSearchScope("web");
+    setInputValue(search.query);
+    setSearchMode(search.mode);
+    setSelectedDomains(search.domains);
+    setFilters(search.filters);
+    if (search.providers) setSelectedProviders(search.providers);
+    clearWebResults();
+    setActiveSavedId(search.id);
+    setLastRequest(null);
+    setIsSearching(true);
+    try {
+      const run = await runSavedSearch(search.id, { reviewed: true });
+      if (!run) return;
+      if (run.result.papers.length === 0) {
+        setError("No papers found for this saved search.");
+        return;
+      }
+      showResult(run.result);
+      setNewResultIds(new Set(run.newIds));
+      useTimelineStore.getState().addEvent({
+        type: "search",
+        summary: `Re-ran saved search "${search.query}" — ${run.result.papers.length} results, ${run.newIds.length} new`,
+        metadata: { query: search.query, savedSearchId: search.id, resultCount: run.result.papers.length, newCount: run.newIds.length },
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Search failed");
+    } finally {
+      setIsSearching(false);
+    }
+  }, [isSearching, clearWebResults, showResult]);
 
   /** Ensure a rabbit hole exists (create one for the first search). */
   const ensureRabbitHole = useCallback(async (query: string): Promise<string | null> => {
@@ -179,6 +288,22 @@ export function SearchBar() {
     return id;
   }, [currentRabbitHoleId, dbConnection, setCurrentRabbitHoleId]);
 
+  const handleSaveSearch = useCallback(async () => {
+    if (!lastRequest) return;
+    if (!(await ensureRabbitHole(lastRequest.query))) {
+      setError("Connect to a rabbit hole to save searches.");
+      return;
+    }
+    const saved = saveSearch({ ...lastRequest, resultIds: results.map((p) => p.id) });
+    if (saved) setActiveSavedId(saved.id);
+  }, [lastRequest, results, ensureRabbitHole]);
+
+  const handleRemoveSaved = useCallback((searchId: string) => {
+    deleteSavedSearch(searchId);
+    setActiveSavedId(null);
+    setNewResultIds(undefined);
+  }, []);
+
   const addToGraph = useCallback(async (paper: PaperMetadata) => {
     setLoading(true);
     try {
@@ -241,6 +366,8 @@ export function SearchBar() {
     else if (e.key === "Escape") toggleSearch();
   };
 
+  const activeSaved = savedSearches?.find((s) => s.id === activeSavedId);
+
   return (
     <Dialog open={searchOpen} onOpenChange={toggleSearch}>
       <DialogContent className="sm:max-w-[640px] p-0 gap-0 overflow-hidden bg-[#f8f7f4] border-[#dddcd7]">
@@ -300,12 +427,98 @@ export function SearchBar() {
                       : "bg-[#f3f2ee] text-[#44403c] hover:bg-[#eeeee8]"
                   )}>{m.label}</button>
               ))}
+              <div className="w-px h-4 bg-[#e8e7e2] mx-1" />
+              <button onClick={() => setFiltersOpen((open) => !open)}
+                className={cn("rounded-full px-3 py-1 text-xs transition-colors flex items-center gap-1",
+                  filtersOpen || countActiveFilters(filters) > 0
+                    ? "bg-violet-600/20 text-[#7c3aed] border border-violet-500/30"
+                    : "bg-[#f3f2ee] text-[#44403c] hover:bg-[#eeeee8]"
+                )}>
+                <SlidersHorizontal className="w-3 h-3" /> Filters
+                {countActiveFilters(filters) > 0 && <span className="tabular-nums">· {countActiveFilters(filters)}</span>}
+              </button>
             </>
           )}
         </div>
 
+        {searchScope === "web" && filtersOpen && (
+          <SearchFilterPanel filters={filters} onChange={setFilters} />
+        )}
+
+        {searchScope === "web" && searchMode === "federated" && (
+          <div className="px-4 py-2 flex flex-wrap items-center gap-2 border-b border-[#e8e7e2]/50">
+            <span className="text-[11px] text-[#78716c]">Providers</span>
+            {ALL_PROVIDERS.map((provider) => (
+              <button key={provider} onClick={() => toggleProvider(provider)}
+                className={cn("rounded-full px-3 py-1 text-xs transition-colors",
+                  selectedProviders.includes(provider)
+                    ? "bg-violet-600/20 text-[#7c3aed] border border-violet-500/30"
+                    : "bg-[#f3f2ee] text-[#44403c] hover:bg-[#eeeee8]"
+                )}>{SEARCH_PROVIDER_LABELS[provider]}</button>
+            ))}
+          </div>
+        )}
+
+        {searchScope === "web" && savedSearches && savedSearches.length > 0 && (
+          <div className="px-4 py-2 flex flex-wrap items-center gap-2 border-b border-[#e8e7e2]/50">
+            <span className="text-[11px] text-[#78716c]">Saved</span>
+            {savedSearches.map((search) => (
+              <button key={search.id} onClick={() => void handleRunSaved(search)}
+                title={search.lastRunAt ? `Last run ${new Date(search.lastRunAt).toLocaleString()}` : undefined}
+                className={cn("rounded-full px-3 py-1 text-xs transition-colors flex items-center gap-1.5 max-w-[200px]",
+                  search.id === activeSavedId
+                    ? "bg-violet-600/20 text-[#7c3aed] border border-violet-500/30"
+                    : "bg-[#f3f2ee] text-[#44403c] hover:bg-[#eeeee8]"
+                )}>
+                <span className="truncate">{search.query}</span>
+                {search.newIds.length > 0 && (
+                  <span className="rounded-full bg-violet-600 px-1.5 text-[10px] text-white tabular-nums">
+                    {search.newIds.length}
+                  </span>
+                )}
+              </button>
+            ))}
+            {activeSaved && (
+              <div className="ml-auto flex items-center gap-1.5">
+                <select
+                  value={activeSaved.intervalHours ?? ""}
+                  onChange={(e) => setSavedSearchInterval(activeSaved.id, e.target.value ? Number(e.target.value) : undefined)}
+                  className="h-6 rounded-md border border-[#dddcd7] bg-white px-1.5 text-[11px] text-[#44403c] outline-none focus:border-[#7c3aed]"
+                  title="Re-run automatically while the app is open"
+                >
+                  <option value="">Manual</option>
+                  {SAVED_SEARCH_INTERVALS.map((hours) => (
+                    <option key={hours} value={hours}>{intervalLabel(hours)}</option>
+                  ))}
+                </select>
+                <button onClick={() => handleRemoveSaved(activeSaved.id)}
+                  className="text-[11px] text-[#a8a29e] hover:text-[#44403c]">Remove</button>
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="max-h-[400px] overflow-y-auto">
           {error && <p className="text-sm text-red-400 px-4 py-3" role="alert">{error}</p>}
+          {!isSearching && failedProviders.length > 0 && results.length > 0 && (
+            <p className="text-[11px] text-[#a8a29e] px-4 pt-3">
+              {failedProviders.map((p) => SEARCH_PROVIDER_LABELS[p]).join(", ")} didn&apos;t respond; showing results from the rest.
+            </p>
+          )}
+          {!isSearching && results.length > 0 && <AppliedFiltersNote applied={resultFilters} />}
+          {!isSearching && results.length > 0 && searchScope === "web" && lastRequest && !activeSaved && (
+            <div className="flex justify-end px-4 pt-2">
+              <Button variant="ghost" size="sm" className="h-7 gap-1.5 text-[11px] text-[#57534e]" onClick={() => void handleSaveSearch()}>
+                <Bookmark className="w-3 h-3" /> Save search
+              </Button>
+            </div>
+          )}
+          {!isSearching && results.length > 0 && searchScope === "web" && activeSaved && !newResultIds && (
+            <p className="flex items-center gap-1.5 px-4 pt-3 text-[11px] text-[#78716c]">
+              <BookmarkCheck className="w-3 h-3 text-violet-500" />
+              Saved to this rabbit hole&apos;s watch list
+            </p>
+          )}
           {isSearching && (
             <div className="p-4 space-y-3">
               {Array.from({ length: 4 }).map((_, i) => (
@@ -318,7 +531,7 @@ export function SearchBar() {
           )}
           {/* Web search results */}
           {!isSearching && results.length > 0 && searchScope === "web" && (
-            <SearchResults results={results} selectedIdx={selectedIdx}
+            <SearchResults results={results} providers={resultProviders} newIds={newResultIds} selectedIdx={selectedIdx}
               onSelect={setSelectedIdx} onAdd={addToGraph} onAddAll={addAllToGraph} />
           )}
           {/* Local graph search results */}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useMemo } from "react";
+import { useGraphStore } from "@/store/graph-store";
+import { cn } from "@/lib/utils";
+import { SEARCH_PROVIDER_LABELS } from "@/types";
+import type { AppliedFilters, SearchFilterKey, SearchFilters, SearchProvider, SearchResult } from "@/types";
+
+/** How many of the graph's fields of study the picker offers. */
+const MAX_FIELD_OPTIONS = 16;
+
+const FILTER_LABELS: Record<SearchFilterKey, string> = {
+  yearMin: "from year",
+  yearMax: "to year",
+  fieldsOfStudy: "field of study",
+  minCitations: "min citations",
+  openAccessOnly: "open access",
+};
+
+/** Number of filters set, counting the year range once. */
+export function countActiveFilters(filters: SearchFilters): number {
+  return (
+    (filters.yearMin || filters.yearMax ? 1 : 0) +
+    (filters.fieldsOfStudy?.length ? 1 : 0) +
+    (filters.minCitations ? 1 : 0) +
+    (filters.openAccessOnly ? 1 : 0)
+  );
+}
+
+function parseWhole(value: string): number | undefined {
+  const n = parseInt(value, 10);
+  return Number.isNaN(n) || n <= 0 ? undefined : n;
+}
+
+/** Fields of study across the graph's papers, most common first. */
+function useGraphFieldsOfStudy(): string[] {
+  const nodes = useGraphStore((s) => s.nodes);
+  return useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const node of nodes.values()) {
+      if (node.archive) continue;
+      for (const field of node.data.fieldsOfStudy ?? []) {
+        counts.set(field, (counts.get(field) ?? 0) + 1);
+      }
+    }
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_FIELD_OPTIONS)
+      .map(([field]) => field);
+  }, [nodes]);
+}
+
+export function SearchFilterPanel({
+  filters,
+  onChange,
+}: {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+}) {
+  const graphFields = useGraphFieldsOfStudy();
+  const selectedFields = filters.fieldsOfStudy ?? [];
+  // Keep selected fields visible even if they left the graph
+  const fieldOptions = [...selectedFields.filter((f) => !graphFields.includes(f)), ...graphFields];
+
+  const toggleField = (field: string) => {
+    const next = selectedFields.includes(field)
+      ? selectedFields.filter((f) => f !== field)
+      : [...selectedFields, field];
+    onChange({ ...filters, fieldsOfStudy: next.length > 0 ? next : undefined });
+  };
+
+  const inputClass =
+    "h-7 w-20 rounded-md border border-[#dddcd7] bg-white px-2 text-xs text-[#1c1917] placeholder:text-[#a8a29e] outline-none focus:border-[#7c3aed]";
+
+  return (
+    <div className="px-4 py-2 space-y-2 border-b border-[#e8e7e2]/50">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[11px] text-[#78716c]">Years</span>
+        <input type="number" inputMode="numeric" placeholder="From" value={filters.yearMin ?? ""}
+          onChange={(e) => onChange({ ...filters, yearMin: parseWhole(e.target.value) })}
+          className={inputClass} />
+        <span className="text-[11px] text-[#a8a29e]">–</span>
+        <input type="number" inputMode="numeric" placeholder="To" value={filters.yearMax ?? ""}
+          onChange={(e) => onChange({ ...filters, yearMax: parseWhole(e.target.value) })}
+          className={inputClass} />
+        <div className="w-px h-4 bg-[#e8e7e2] mx-1" />
+        <span className="text-[11px] text-[#78716c]">Min citations</span>
+        <input type="number" inputMode="numeric" min={0} placeholder="Any" value={filters.minCitations ?? ""}
+          onChange={(e) => onChange({ ...filters, minCitations: parseWhole(e.target.value) })}
+          className={inputClass} />
+        <div className="w-px h-4 bg-[#e8e7e2] mx-1" />
+        <button onClick={() => onChange({ ...filters, openAccessOnly: filters.openAccessOnly ? undefined : true })}
+          className={cn("rounded-full px-3 py-1 text-xs transition-colors",
+            filters.openAccessOnly
+              ? "bg-violet-600/20 text-[#7c3aed] border border-violet-500/30"
+              : "bg-[#f3f2ee] text-[#44403c] hover:bg-[#eeeee8]"
+          )}>Open access only</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-[11px] text-[#78716c] mr-0.5">Fields</span>
+        {fieldOptions.length === 0 ? (
+          <span className="text-[11px] text-[#a8a29e]">Add papers to the graph to filter by their fields of study</span>
+        ) : (
+          fieldOptions.map((field) => (
+            <button key={field} onClick={() => toggleField(field)}
+              className={cn("rounded-full px-2.5 py-0.5 text-[11px] transition-colors",
+                selectedFields.includes(field)
+                  ? "bg-violet-600/20 text-[#7c3aed] border border-violet-500/30"
+                  : "bg-[#f3f2ee] text-[#44403c] hover:bg-[#eeeee8]"
+              )}>{field}</button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Per-provider lines for filters checked after searching or not enforceable at all. */
+export function AppliedFiltersNote({ applied }: { applied: SearchResult["appliedFilters"] }) {
+  if (!applied) return null;
+  const reports = Object.entries(applied) as [SearchProvider, AppliedFilters][];
+  const describe = (pick: (report: AppliedFilters) => SearchFilterKey[]) =>
+    reports
+      .filter(([, report]) => pick(report).length > 0)
+      .map(([provider, report]) =>
+        `${SEARCH_PROVIDER_LABELS[provider]}: ${pick(report).map((k) => FILTER_LABELS[k]).join(", ")}`
+      );
+  const postFiltered = describe((r) => r.postFiltered);
+  const unenforced = describe((r) => r.unenforced);
+  if (postFiltered.length === 0 && unenforced.length === 0) return null;
+
+  return (
+    <div className="text-[11px] text-[#a8a29e] px-4 pt-3 space-y-0.5">
+      {postFiltered.length > 0 && (
+        <p>Checked after searching, not by the provider — {postFiltered.join("; ")}</p>
+      )}
+      {unenforced.length > 0 && (
+        <p>Not enforceable, the provider doesn&apos;t report these — {unenforced.join("; ")}</p>
+      )}
+    </div>
+  );
+}
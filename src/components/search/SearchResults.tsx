@@ -4,10 +4,15 @@ import { Plus, ExternalLink } from "lucide-react";
 import { Button } from "@/components/ui/Button";
 import { cn, formatAuthors, formatCount } from "@/lib/utils";
 import { extractDomain } from "@/lib/utils/arxiv-urls";
-import type { PaperMetadata } from "@/types";
+import { SEARCH_PROVIDER_LABELS } from "@/types";
+import type { PaperMetadata, SearchProvider } from "@/types";
 
 interface SearchResultsProps {
   results: PaperMetadata[];
+  /** Federated search: the providers that returned each paper, by paper id */
+  providers?: Record<string, SearchProvider[]>;
+  /** Saved search re-run: ids of results not seen on earlier runs */
+  newIds?: Set<string>;
   selectedIdx: number;
   onSelect: (idx: number) => void;
   onAdd: (paper: PaperMetadata) => void;
@@ -16,6 +21,8 @@ interface SearchResultsProps {
 
 export function SearchResults({
   results,
+  providers,
+  newIds,
   selectedIdx,
   onSelect,
   onAdd,
@@ -23,11 +30,19 @@ export function SearchResults({
 }: SearchResultsProps) {
   return (
     <div className="p-2">
+      {newIds && (
+        <p className="px-3 pt-1 pb-2 text-[11px] text-[#78716c]">
+          {newIds.size > 0
+            ? `${newIds.size} new since the last run`
+            : "No new results since the last run"}
+        </p>
+      )}
       {results.map((paper, i) => (
         <div
           key={paper.id}
           className={cn(
             "flex items-start gap-3 p-3 rounded-lg transition-colors cursor-pointer",
+            newIds?.has(paper.id) && "border-l-2 border-violet-500 bg-violet-50/60",
             selectedIdx === i ? "bg-[#f3f2ee]" : "hover:bg-[#f3f2ee]/60"
           )}
           onClick={() => onAdd(paper)}
@@ -42,6 +57,11 @@ export function SearchResults({
               {paper.year ? ` -- ${paper.year}` : ""}
             </p>
             <div className="flex items-center gap-2 mt-1">
+              {newIds?.has(paper.id) && (
+                <span className="bg-violet-600 text-white rounded-full px-2 py-0.5 text-[10px] font-medium">
+                  New
+                </span>
+              )}
               {paper.url && (
                 <span className="bg-[#f3f2ee] text-[#57534e] rounded-full px-2 py-0.5 text-[10px]">
                   {extractDomain(paper.url)}
@@ -52,6 +72,11 @@ export function SearchResults({
                   {formatCount(paper.citationCount)} cited
                 </span>
               )}
+              {providers?.[paper.id] && (
+                <span className="text-[10px] text-[#a8a29e]">
+                  {providers[paper.id].map((p) => SEARCH_PROVIDER_LABELS[p]).join(" · ")}
+                </span>
+              )}
             </div>
           </div>
           <div className="flex gap-1 shrink-0">
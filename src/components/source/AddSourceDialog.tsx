@@ -10,10 +10,10 @@ import {
 } from "@/components/ui/Dialog";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
-import { useGraphStore } from "@/store/graph-store";
 import { useUIStore } from "@/store/ui-store";
 import { useRabbitHoleStore, newRabbitHoleId } from "@/store/rabbit-hole-store";
 import { executeGraphCommand } from "@/lib/graph/commands";
+import { persistNodeContent } from "@/lib/db/graph-actions";
 import {
   createNodeFromUrl,
   isValidSourceUrl,
@@ -23,6 +23,16 @@ import {
 } from "@/lib/utils/url-source";
 import { cn } from "@/lib/utils";
 import type { PaperMetadata } from "@/types";
+import { BulkIdentifierForm } from "./BulkIdentifierForm";
+import { PdfUploadForm } from "./PdfUploadForm";
+
+type Mode = "single" | "bulk" | "pdf";
+
+const MODE_LABELS: Record<Mode, string> = {
+  single: "Single URL",
+  bulk: "Bulk identifiers",
+  pdf: "Upload PDF",
+};
 
 export function AddSourceDialog() {
   const addSourceOpen = useUIStore((s) => s.addSourceOpen);
@@ -33,6 +43,7 @@ export function AddSourceDialog() {
   const currentRabbitHoleId = useRabbitHoleStore((s) => s.currentRabbitHoleId);
   const setCurrentRabbitHoleId = useRabbitHoleStore((s) => s.setCurrentRabbitHoleId);
 
+  const [mode, setMode] = useState<Mode>("single");
   const [url, setUrl] = useState("");
   const [preview, setPreview] = useState<ScrapeResult | null>(null);
   const [loading, setLoading] = useState(false);
@@ -46,6 +57,7 @@ export function AddSourceDialog() {
       setUrl(addSourceInitialUrl ?? "");
       setPreview(null);
       setScrapeError(false);
+      if (addSourceInitialUrl) setMode("single");
       requestAnimationFrame(() => inputRef.current?.focus());
       if (addSourceInitialUrl && isValidSourceUrl(addSourceInitialUrl)) {
         fetchPreview(addSourceInitialUrl);
@@ -139,26 +151,7 @@ export function AddSourceDialog() {
 
       // If content was fetched, persist it too
       if (data.content) {
-        dbConnection.reducers.setNodeContent({
-          rabbitHoleId,
-          nodeId: data.nodeId,
-          url: trimmed,
-          content: data.content,
-          truncated: data.contentTruncated ?? false,
-        });
-        const nodes = new Map(useGraphStore.getState().nodes);
-        const node = nodes.get(data.nodeId);
-        if (node) {
-          nodes.set(data.nodeId, {
-            ...node,
-            data: {
-              ...node.data,
-              fetchedContent: data.content,
-              contentTruncated: data.contentTruncated ?? false,
-            },
-          });
-          useGraphStore.setState({ nodes });
-        }
+        persistNodeContent(data.nodeId, trimmed, data.content, data.contentTruncated ?? false);
       }
 
     } catch (err) {
@@ -182,7 +175,7 @@ export function AddSourceDialog() {
 
   return (
     <Dialog open={addSourceOpen} onOpenChange={(open) => !open && closeAddSource()}>
-      <DialogContent className="sm:max-w-md p-0 gap-0 overflow-hidden">
+      <DialogContent className={cn("p-0 gap-0 overflow-hidden", mode === "bulk" ? "sm:max-w-xl" : "sm:max-w-md")}>
         <DialogHeader className="px-4 pt-4 pb-3 border-b border-[#e8e7e2]">
           <DialogTitle className="flex items-center gap-2 text-sm font-medium">
             <Link2 className="w-3.5 h-3.5 text-violet-500" />
@@ -190,118 +183,150 @@ export function AddSourceDialog() {
           </DialogTitle>
         </DialogHeader>
 
-        <form onSubmit={handleSubmit} className="flex flex-col">
-          {/* URL input */}
-          <div className="px-4 py-3">
-            <Input
-              ref={inputRef}
-              type="url"
-              inputMode="url"
-              autoComplete="url"
-              placeholder="https://..."
-              value={url}
-              onChange={(e) => handleUrlChange(e.target.value)}
-              className="font-mono text-xs h-8"
-            />
-          </div>
-
-          {/* Preview */}
-          {(loading || preview || scrapeError) && (
-            <div className="mx-4 mb-3 rounded-lg border border-[#e8e7e2] overflow-hidden bg-[#f8f7f4]">
-              {loading && (
-                <div className="flex items-center gap-2 px-3 py-3 text-xs text-[#78716c]">
-                  <Loader2 className="w-3.5 h-3.5 animate-spin text-violet-500" />
-                  Fetching preview…
-                </div>
-              )}
-              {scrapeError && !loading && (
-                <div className="flex items-center gap-2 px-3 py-3 text-xs text-[#78716c]">
-                  <AlertCircle className="w-3.5 h-3.5 text-[#a8a29e]" />
-                  Could not fetch preview — will add URL as-is.
-                </div>
+        <div className="px-4 pt-3 flex gap-2">
+          {(Object.keys(MODE_LABELS) as Mode[]).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={cn(
+                "rounded-full px-3 py-1 text-xs font-medium transition-colors",
+                mode === m
+                  ? "bg-violet-600 text-white"
+                  : "bg-[#f3f2ee] text-[#44403c] hover:bg-[#eeeee8]"
               )}
-              {preview && !loading && (
-                <div className="flex gap-3 p-3">
-                  <div
-                    className={cn(
-                      "shrink-0 rounded-md overflow-hidden border border-[#e8e7e2]",
-                      preview.ogImage ? "w-20 h-14" : "w-10 h-10 flex items-center justify-center bg-white"
-                    )}
-                  >
-                    {preview.ogImage ? (
-                      // eslint-disable-next-line @next/next/no-img-element
-                      <img src={preview.ogImage} alt="" className="w-full h-full object-cover" />
-                    ) : preview.isPdf ? (
-                      <FileText className="w-5 h-5 text-violet-500/70" />
-                    ) : (
-                      <Globe className="w-4 h-4 text-[#a8a29e]" />
-                    )}
+            >
+              {MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
+
+        {mode === "bulk" ? (
+          <BulkIdentifierForm
+            ensureRabbitHole={ensureRabbitHole}
+            onCancel={closeAddSource}
+            onDone={closeAddSource}
+          />
+        ) : mode === "pdf" ? (
+          <PdfUploadForm
+            ensureRabbitHole={ensureRabbitHole}
+            onCancel={closeAddSource}
+            onDone={closeAddSource}
+          />
+        ) : (
+          <form onSubmit={handleSubmit} className="flex flex-col">
+            {/* URL input */}
+            <div className="px-4 py-3">
+              <Input
+                ref={inputRef}
+                type="url"
+                inputMode="url"
+                autoComplete="url"
+                placeholder="https://..."
+                value={url}
+                onChange={(e) => handleUrlChange(e.target.value)}
+                className="font-mono text-xs h-8"
+              />
+            </div>
+
+            {/* Preview */}
+            {(loading || preview || scrapeError) && (
+              <div className="mx-4 mb-3 rounded-lg border border-[#e8e7e2] overflow-hidden bg-[#f8f7f4]">
+                {loading && (
+                  <div className="flex items-center gap-2 px-3 py-3 text-xs text-[#78716c]">
+                    <Loader2 className="w-3.5 h-3.5 animate-spin text-violet-500" />
+                    Fetching preview…
                   </div>
-                  <div className="flex-1 min-w-0">
-                    <p className="text-xs font-medium text-[#1c1917] leading-snug line-clamp-2 mb-0.5">
-                      {preview.title}
-                    </p>
-                    {preview.description && (
-                      <p className="text-[10px] text-[#78716c] line-clamp-2 leading-relaxed">
-                        {preview.description}
-                      </p>
-                    )}
-                    <div className="flex items-center gap-1 mt-1">
-                      {preview.faviconUrl && (
-                        // eslint-disable-next-line @next/next/no-img-element
-                        <img
-                          src={preview.faviconUrl}
-                          alt=""
-                          className="w-3 h-3 rounded-sm"
-                          onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }}
-                        />
+                )}
+                {scrapeError && !loading && (
+                  <div className="flex items-center gap-2 px-3 py-3 text-xs text-[#78716c]">
+                    <AlertCircle className="w-3.5 h-3.5 text-[#a8a29e]" />
+                    Could not fetch preview — will add URL as-is.
+                  </div>
+                )}
+                {preview && !loading && (
+                  <div className="flex gap-3 p-3">
+                    <div
+                      className={cn(
+                        "shrink-0 rounded-md overflow-hidden border border-[#e8e7e2]",
+                        preview.ogImage ? "w-20 h-14" : "w-10 h-10 flex items-center justify-center bg-white"
                       )}
-                      <span className="text-[10px] text-[#a8a29e]">
-                        {preview.siteName ?? (() => {
-                          try { return new URL(preview.url).hostname.replace(/^www\./, ""); } catch { return ""; }
-                        })()}
-                      </span>
-                      {preview.isPdf && (
-                        <span className="ml-1 bg-violet-500/10 text-violet-600 text-[9px] px-1.5 py-0.5 rounded-full font-medium">
-                          PDF
-                        </span>
+                    >
+                      {preview.ogImage ? (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img src={preview.ogImage} alt="" className="w-full h-full object-cover" />
+                      ) : preview.isPdf ? (
+                        <FileText className="w-5 h-5 text-violet-500/70" />
+                      ) : (
+                        <Globe className="w-4 h-4 text-[#a8a29e]" />
                       )}
-                      {getSourceType(preview.url) === "wikipedia" && (
-                        <span className="ml-1 bg-blue-500/10 text-blue-600 text-[9px] px-1.5 py-0.5 rounded-full font-medium">
-                          Wikipedia
-                        </span>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-medium text-[#1c1917] leading-snug line-clamp-2 mb-0.5">
+                        {preview.title}
+                      </p>
+                      {preview.description && (
+                        <p className="text-[10px] text-[#78716c] line-clamp-2 leading-relaxed">
+                          {preview.description}
+                        </p>
                       )}
-                      {getSourceType(preview.url) === "youtube" && (
-                        <span className="ml-1 bg-red-500/10 text-red-600 text-[9px] px-1.5 py-0.5 rounded-full font-medium">
-                          YouTube
+                      <div className="flex items-center gap-1 mt-1">
+                        {preview.faviconUrl && (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            src={preview.faviconUrl}
+                            alt=""
+                            className="w-3 h-3 rounded-sm"
+                            onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }}
+                          />
+                        )}
+                        <span className="text-[10px] text-[#a8a29e]">
+                          {preview.siteName ?? (() => {
+                            try { return new URL(preview.url).hostname.replace(/^www\./, ""); } catch { return ""; }
+                          })()}
                         </span>
-                      )}
+                        {preview.isPdf && (
+                          <span className="ml-1 bg-violet-500/10 text-violet-600 text-[9px] px-1.5 py-0.5 rounded-full font-medium">
+                            PDF
+                          </span>
+                        )}
+                        {getSourceType(preview.url) === "wikipedia" && (
+                          <span className="ml-1 bg-blue-500/10 text-blue-600 text-[9px] px-1.5 py-0.5 rounded-full font-medium">
+                            Wikipedia
+                          </span>
+                        )}
+                        {getSourceType(preview.url) === "youtube" && (
+                          <span className="ml-1 bg-red-500/10 text-red-600 text-[9px] px-1.5 py-0.5 rounded-full font-medium">
+                            YouTube
+                          </span>
+                        )}
+                      </div>
                     </div>
                   </div>
-                </div>
-              )}
-            </div>
-          )}
+                )}
+              </div>
+            )}
 
-          <div className="flex justify-end gap-2 px-4 pb-4">
-            <Button type="button" variant="ghost" size="sm" onClick={closeAddSource} disabled={submitting}>
-              Cancel
-            </Button>
-            <Button type="submit" size="sm" disabled={!valid || busy}>
-              {submitting ? (
-                <>
-                  <Loader2 className="w-3 h-3 animate-spin mr-1.5" />
-                  Adding…
-                </>
-              ) : loading ? (
-                <>
-                  <Loader2 className="w-3 h-3 animate-spin mr-1.5" />
-                  Fetching…
-                </>
-              ) : "Add to graph"}
-            </Button>
-          </div>
-        </form>
+            <div className="flex justify-end gap-2 px-4 pb-4">
+              <Button type="button" variant="ghost" size="sm" onClick={closeAddSource} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={!valid || busy}>
+                {submitting ? (
+                  <>
+                    <Loader2 className="w-3 h-3 animate-spin mr-1.5" />
+                    Adding…
+                  </>
+                ) : loading ? (
+                  <>
+                    <Loader2 className="w-3 h-3 animate-spin mr-1.5" />
+                    Fetching…
+                  </>
+                ) : "Add to graph"}
+              </Button>
+            </div>
+          </form>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,239 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Loader2, AlertCircle, CheckCircle2, Link2, XCircle, MinusCircle } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { useGraphStore } from "@/store/graph-store";
+import { executeGraphCommand } from "@/lib/graph/commands";
+import { isDuplicate } from "@/lib/api/paper-resolver";
+import { parseIdentifierList } from "@/lib/utils/identifiers";
+import { createNodeFromUrl } from "@/lib/utils/url-source";
+import { cn } from "@/lib/utils";
+import type { ApiResponse, BulkIdentifierRow, IdentifierKind, PaperMetadata } from "@/types";
+
+const KIND_LABELS: Record<IdentifierKind, string> = {
+  doi: "DOI",
+  arxiv: "arXiv",
+  pmid: "PMID",
+  url: "URL",
+};
+
+type RowOutcome = "add" | "link" | "duplicate" | "not-found" | "invalid";
+
+interface ResolvedRow extends BulkIdentifierRow {
+  outcome: RowOutcome;
+}
+
+/** Decide what "Add" will do with each row, given what is already in the graph. */
+function planRows(rows: BulkIdentifierRow[]): ResolvedRow[] {
+  const inGraph = Array.from(useGraphStore.getState().nodes.values()).map((n) => n.data);
+  const accepted: PaperMetadata[] = [];
+  return rows.map((row) => {
+    if (row.status === "invalid") return { ...row, outcome: "invalid" };
+    if (row.status === "not-found") {
+      return { ...row, outcome: row.kind === "url" ? "link" : "not-found" };
+    }
+    const paper = row.paper!;
+    if (inGraph.some((p) => isDuplicate(p, paper)) || accepted.some((p) => isDuplicate(p, paper))) {
+      return { ...row, outcome: "duplicate" };
+    }
+    accepted.push(paper);
+    return { ...row, outcome: "add" };
+  });
+}
+
+function OutcomeIcon({ outcome }: { outcome: RowOutcome }) {
+  switch (outcome) {
+    case "add":
+      return <CheckCircle2 className="w-3 h-3 text-green-600 shrink-0" />;
+    case "link":
+      return <Link2 className="w-3 h-3 text-violet-500 shrink-0" />;
+    case "duplicate":
+      return <MinusCircle className="w-3 h-3 text-[#a8a29e] shrink-0" />;
+    default:
+      return <XCircle className="w-3 h-3 text-red-500 shrink-0" />;
+  }
+}
+
+function outcomeText(row: ResolvedRow): string {
+  switch (row.outcome) {
+    case "add":
+      return row.paper!.title;
+    case "duplicate":
+      return `Already in graph: ${row.paper!.title}`;
+    case "link":
+      return "Not indexed; will be added as a web link";
+    case "not-found":
+      return "Not found in Semantic Scholar or OpenAlex";
+    case "invalid":
+      return "Not a DOI, arXiv id, PMID or URL";
+  }
+}
+
+export function BulkIdentifierForm({
+  ensureRabbitHole,
+  onCancel,
+  onDone,
+}: {
+  ensureRabbitHole: () => Promise<string | null>;
+  onCancel: () => void;
+  onDone: () => void;
+}) {
+  const [text, setText] = useState("");
+  const [rows, setRows] = useState<ResolvedRow[] | null>(null);
+  const [resolving, setResolving] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsed = useMemo(() => parseIdentifierList(text), [text]);
+  const kindCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const id of parsed) {
+      const label = id.kind ? KIND_LABELS[id.kind] : "unrecognised";
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+    }
+    return Array.from(counts, ([label, n]) => `${n} ${label}`).join(" · ");
+  }, [parsed]);
+
+  const toAdd = rows?.filter((r) => r.outcome === "add" || r.outcome === "link") ?? [];
+
+  const handleResolve = async () => {
+    setResolving(true);
+    setError(null);
+    setRows(null);
+    try {
+      const res = await fetch("/api/sources/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ text }),
+      });
+      const json = (await res.json()) as ApiResponse<BulkIdentifierRow[]>;
+      if (json.status !== "success" || !json.data) {
+        throw new Error(json.error ?? "Could not resolve identifiers");
+      }
+      setRows(planRows(json.data));
+    } catch (err) {
+      console.error("[BulkIdentifierForm] Error:", err);
+      setError(err instanceof Error ? err.message : "Could not resolve identifiers");
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (toAdd.length === 0) return;
+    setAdding(true);
+    setError(null);
+    try {
+      await ensureRabbitHole();
+      const papers = toAdd.map((row) =>
+        row.outcome === "link" ? createNodeFromUrl(row.value).data : row.paper!
+      );
+      const result = await executeGraphCommand({
+        type: "add-nodes",
+        papers,
+        materialize: true,
+        source: "canvas",
+      });
+      if (!result.applied) throw new Error(result.error ?? "Failed to add sources");
+      onDone();
+    } catch (err) {
+      console.error("[BulkIdentifierForm] Error:", err);
+      setError(err instanceof Error ? err.message : "Failed to add sources");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const busy = resolving || adding;
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex flex-col gap-2 px-4 py-3">
+        <textarea
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setRows(null);
+          }}
+          placeholder={"Paste DOIs, arXiv ids, PMIDs or URLs, one per line\n10.1038/nature14539\narXiv:1706.03762\nPMID: 31978945"}
+          rows={6}
+          className="w-full resize-none rounded-lg border border-[#dddcd7] bg-[#f8f7f4] px-3 py-2 font-mono text-[11px] text-[#1c1917] placeholder:text-[#a8a29e] focus-visible:outline-none focus-visible:border-[#c8c7c2]"
+        />
+        {parsed.length > 0 && !rows && (
+          <p className="text-[11px] text-[#78716c]">{kindCounts}</p>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-xs text-red-600">
+            <AlertCircle className="w-3.5 h-3.5" />
+            {error}
+          </div>
+        )}
+
+        {rows && (
+          <div className="rounded-lg border border-[#e8e7e2] bg-[#f8f7f4] overflow-hidden">
+            <div className="px-3 py-1.5 border-b border-[#e8e7e2] text-[11px] text-[#78716c]">
+              {rows.filter((r) => r.outcome === "add").length} resolved ·{" "}
+              {rows.filter((r) => r.outcome === "link").length} links ·{" "}
+              {rows.filter((r) => r.outcome === "duplicate").length} already in graph ·{" "}
+              {rows.filter((r) => r.outcome === "not-found" || r.outcome === "invalid").length} failed
+            </div>
+            <ul className="max-h-56 overflow-y-auto divide-y divide-[#eeeee8]">
+              {rows.map((row, i) => (
+                <li key={`${row.input}-${i}`} className="flex items-center gap-2 px-3 py-1.5 text-[11px]">
+                  <OutcomeIcon outcome={row.outcome} />
+                  <span className="w-10 shrink-0 text-[10px] font-medium text-[#a8a29e]">
+                    {row.kind ? KIND_LABELS[row.kind] : "?"}
+                  </span>
+                  <span className="w-32 shrink-0 truncate font-mono text-[10px] text-[#57534e]" title={row.input}>
+                    {row.value || row.input}
+                  </span>
+                  <span
+                    className={cn(
+                      "flex-1 min-w-0 truncate",
+                      row.outcome === "add" ? "text-[#1c1917]" : "text-[#78716c]"
+                    )}
+                    title={outcomeText(row)}
+                  >
+                    {outcomeText(row)}
+                  </span>
+                  {row.source && row.outcome === "add" && (
+                    <span className="shrink-0 text-[9px] text-[#a8a29e]">
+                      {row.source === "openalex" ? "OpenAlex" : "S2"}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2 px-4 pb-4">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={adding}>
+          Cancel
+        </Button>
+        {rows ? (
+          <Button type="button" size="sm" onClick={handleAdd} disabled={toAdd.length === 0 || busy}>
+            {adding ? (
+              <>
+                <Loader2 className="w-3 h-3 animate-spin mr-1.5" />
+                Adding…
+              </>
+            ) : `Add ${toAdd.length} to graph`}
+          </Button>
+        ) : (
+          <Button type="button" size="sm" onClick={handleResolve} disabled={parsed.length === 0 || busy}>
+            {resolving ? (
+              <>
+                <Loader2 className="w-3 h-3 animate-spin mr-1.5" />
+                Resolving {parsed.length}…
+              </>
+            ) : "Resolve"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
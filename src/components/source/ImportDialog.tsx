@@ -0,0 +1,293 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Upload, Loader2, FileText, AlertCircle, CheckCircle2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/Dialog";
+import { Button } from "@/components/ui/Button";
+import { useGraphStore } from "@/store/graph-store";
+import { useUIStore } from "@/store/ui-store";
+import { useRabbitHoleStore, newRabbitHoleId } from "@/store/rabbit-hole-store";
+import { executeGraphCommand } from "@/lib/graph/commands";
+import { isDuplicate } from "@/lib/api/paper-resolver";
+import { detectImportFormat } from "@/lib/utils/import";
+import {
+  RODEO_BUNDLE_FORMAT,
+  importRodeoBundle,
+  parseRodeoBundle,
+  type RodeoImportResult,
+} from "@/lib/db/rodeo-bundle";
+import { cn } from "@/lib/utils";
+import type {
+  ApiResponse,
+  ImportResult,
+  PaperMetadata,
+  UnresolvedImportEntry,
+} from "@/types";
+
+interface ImportReport {
+  total: number;
+  added: number;
+  duplicates: number;
+  unresolved: UnresolvedImportEntry[];
+}
+
+export function ImportDialog() {
+  const importOpen = useUIStore((s) => s.importOpen);
+  const closeImport = useUIStore((s) => s.closeImport);
+
+  const dbConnection = useRabbitHoleStore((s) => s.dbConnection);
+  const currentRabbitHoleId = useRabbitHoleStore((s) => s.currentRabbitHoleId);
+  const setCurrentRabbitHoleId = useRabbitHoleStore((s) => s.setCurrentRabbitHoleId);
+
+  const [content, setContent] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [bundleReport, setBundleReport] = useState<RodeoImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (importOpen) {
+      setContent("");
+      setFileName(null);
+      setError(null);
+      setReport(null);
+      setBundleReport(null);
+      setProgress(null);
+    }
+  }, [importOpen]);
+
+  async function loadFile(file: File) {
+    setError(null);
+    setReport(null);
+    setBundleReport(null);
+    setFileName(file.name);
+    setContent(await file.text());
+  }
+
+  function handleDrop(e: React.DragEvent<HTMLDivElement>) {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) void loadFile(file);
+  }
+
+  /** Ensure there is a current rabbit hole; creates one if needed. Returns its id. */
+  function ensureRabbitHole(): string | null {
+    if (currentRabbitHoleId) return currentRabbitHoleId;
+    if (!dbConnection) return null;
+    const id = newRabbitHoleId();
+    dbConnection.reducers.createRabbitHole({ id, name: "Imported Bibliography", rootQuery: undefined });
+    setCurrentRabbitHoleId(id);
+    return id;
+  }
+
+  /** A `.rodeo` bundle restores a whole rabbit hole instead of adding papers to this one. */
+  function isRodeoBundle(): boolean {
+    if (fileName?.toLowerCase().endsWith(".rodeo")) return true;
+    return content.trimStart().startsWith("{") && content.includes(`"${RODEO_BUNDLE_FORMAT}"`);
+  }
+
+  const handleImport = async () => {
+    if (!content.trim()) return;
+    setSubmitting(true);
+    setError(null);
+    setReport(null);
+    setBundleReport(null);
+
+    if (isRodeoBundle()) {
+      try {
+        const result = importRodeoBundle(parseRodeoBundle(content));
+        setCurrentRabbitHoleId(result.rabbitHoleId);
+        setBundleReport(result);
+      } catch (err) {
+        console.error("[ImportDialog] Bundle import error:", err);
+        setError(err instanceof Error ? err.message : "Bundle import failed");
+      } finally {
+        setSubmitting(false);
+      }
+      return;
+    }
+
+    try {
+      const res = await fetch("/api/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          format: detectImportFormat(content, fileName ?? undefined),
+          content,
+        }),
+      });
+      const json = (await res.json()) as ApiResponse<ImportResult>;
+      if (json.status !== "success" || !json.data) {
+        throw new Error(json.error ?? "Import failed");
+      }
+
+      ensureRabbitHole();
+
+      const { papers, unresolved, total } = json.data;
+      const accepted: PaperMetadata[] = [];
+      let duplicates = 0;
+      let added = 0;
+      setProgress({ done: 0, total: papers.length });
+
+      for (const paper of papers) {
+        const existing = Array.from(useGraphStore.getState().nodes.values()).map((n) => n.data);
+        if (
+          existing.some((p) => isDuplicate(p, paper)) ||
+          accepted.some((p) => isDuplicate(p, paper))
+        ) {
+          duplicates++;
+        } else {
+          const result = await executeGraphCommand({
+            type: "add-node",
+            paper,
+            materialize: true,
+            source: "canvas",
+          });
+          if (result.applied) {
+            accepted.push(paper);
+            added++;
+          }
+        }
+        setProgress((p) => (p ? { ...p, done: p.done + 1 } : p));
+      }
+
+      setReport({ total, added, duplicates, unresolved });
+    } catch (err) {
+      console.error("[ImportDialog] Error:", err);
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setSubmitting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={importOpen} onOpenChange={(open) => !open && !submitting && closeImport()}>
+      <DialogContent className="sm:max-w-md p-0 gap-0 overflow-hidden">
+        <DialogHeader className="px-4 pt-4 pb-3 border-b border-[#e8e7e2]">
+          <DialogTitle className="flex items-center gap-2 text-sm font-medium">
+            <Upload className="w-3.5 h-3.5 text-violet-500" />
+            Import bibliography
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-3 px-4 py-3">
+          {/* Drop zone */}
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragging(true);
+            }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+            className={cn(
+              "flex flex-col items-center justify-center gap-1.5 rounded-lg border border-dashed px-3 py-5 cursor-pointer transition-colors",
+              dragging
+                ? "border-violet-400 bg-violet-500/5"
+                : "border-[#dddcd7] bg-[#f8f7f4] hover:bg-[#f3f2ee]"
+            )}
+          >
+            <FileText className="w-5 h-5 text-violet-500/70" />
+            <span className="text-xs text-[#44403c]">
+              {fileName ?? "Drop a .bib, .ris, CSL-JSON or .rodeo file here or click to browse"}
+            </span>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".bib,.bibtex,.ris,.json,.rodeo,text/x-bibtex,application/x-bibtex,application/x-research-info-systems,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void loadFile(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          <textarea
+            value={content}
+            onChange={(e) => {
+              setContent(e.target.value);
+              setFileName(null);
+            }}
+            placeholder="…or paste BibTeX, RIS or CSL-JSON entries"
+            rows={5}
+            className="w-full resize-none rounded-lg border border-[#dddcd7] bg-[#f8f7f4] px-3 py-2 font-mono text-[11px] text-[#1c1917] placeholder:text-[#a8a29e] focus-visible:outline-none focus-visible:border-[#c8c7c2]"
+          />
+
+          {error && (
+            <div className="flex items-center gap-2 text-xs text-red-600">
+              <AlertCircle className="w-3.5 h-3.5" />
+              {error}
+            </div>
+          )}
+
+          {bundleReport && (
+            <div className="rounded-lg border border-[#e8e7e2] bg-[#f8f7f4] px-3 py-2.5 text-xs text-[#44403c] space-y-1">
+              <div className="flex items-center gap-2">
+                <CheckCircle2 className="w-3.5 h-3.5 text-green-600" />
+                Restored &ldquo;{bundleReport.name}&rdquo; as a new rabbit hole
+              </div>
+              <p className="text-[11px] text-[#78716c]">
+                {bundleReport.nodes} nodes · {bundleReport.edges} edges · {bundleReport.clusters} clusters ·{" "}
+                {bundleReport.threads} chat threads · {bundleReport.messages} messages
+                {bundleReport.remappedIds > 0 && ` · ${bundleReport.remappedIds} ids remapped`}
+              </p>
+            </div>
+          )}
+
+          {report && (
+            <div className="rounded-lg border border-[#e8e7e2] bg-[#f8f7f4] px-3 py-2.5 text-xs text-[#44403c] space-y-1.5">
+              <div className="flex items-center gap-2">
+                <CheckCircle2 className="w-3.5 h-3.5 text-green-600" />
+                Added {report.added} of {report.total} entries
+                {report.duplicates > 0 && ` · ${report.duplicates} already in graph`}
+              </div>
+              {report.unresolved.length > 0 && (
+                <div>
+                  <p className="text-[11px] text-[#78716c] mb-1">
+                    {report.unresolved.length} could not be resolved and were added from the imported fields:
+                  </p>
+                  <ul className="max-h-32 overflow-y-auto space-y-0.5">
+                    {report.unresolved.map((entry, i) => (
+                      <li key={`${entry.citeKey ?? entry.title}-${i}`} className="text-[10px] text-[#57534e] truncate">
+                        {entry.citeKey && <span className="font-mono text-[#a8a29e] mr-1">{entry.citeKey}</span>}
+                        {entry.title}
+                        <span className="text-[#a8a29e]"> — {entry.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 pb-4">
+          <Button type="button" variant="ghost" size="sm" onClick={closeImport} disabled={submitting}>
+            {report || bundleReport ? "Close" : "Cancel"}
+          </Button>
+          <Button type="button" size="sm" onClick={handleImport} disabled={!content.trim() || submitting}>
+            {submitting ? (
+              <>
+                <Loader2 className="w-3 h-3 animate-spin mr-1.5" />
+                {progress ? `Adding ${progress.done}/${progress.total}…` : "Resolving…"}
+              </>
+            ) : "Import to graph"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
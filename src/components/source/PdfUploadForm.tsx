@@ -0,0 +1,142 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Loader2, AlertCircle, FileText } from "lucide-react";
+import { Button } from "@/components/ui/Button";
+import { executeGraphCommand } from "@/lib/graph/commands";
+import { persistNodeContent } from "@/lib/db/graph-actions";
+import { cn } from "@/lib/utils";
+import type { ApiResponse, PdfUploadResult } from "@/types";
+
+export function PdfUploadForm({
+  ensureRabbitHole,
+  onCancel,
+  onDone,
+}: {
+  ensureRabbitHole: () => Promise<string | null>;
+  onCancel: () => void;
+  onDone: () => void;
+}) {
+  const [file, setFile] = useState<File | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const pickFile = (picked: File | undefined) => {
+    if (!picked) return;
+    setError(null);
+    if (picked.type && picked.type !== "application/pdf" && !/\.pdf$/i.test(picked.name)) {
+      setError("Only PDF files can be uploaded");
+      return;
+    }
+    setFile(picked);
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+    setUploading(true);
+    setError(null);
+    try {
+      await ensureRabbitHole();
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/sources/upload", { method: "POST", body: form });
+      const json = (await res.json()) as ApiResponse<PdfUploadResult>;
+      if (json.status !== "success" || !json.data) {
+        throw new Error(json.error ?? "Upload failed");
+      }
+
+      const { paper, content, contentTruncated } = json.data;
+      const result = await executeGraphCommand({
+        type: "add-node",
+        paper,
+        materialize: true,
+        source: "canvas",
+      });
+      if (!result.applied) throw new Error(result.error ?? "Failed to add source");
+
+      // add-node may land on an existing node when the paper was already in the graph
+      const nodeId = result.addedNodeIds?.[0] ?? paper.id;
+      if (content) {
+        persistNodeContent(nodeId, paper.openAccessPdf ?? paper.url ?? "", content, contentTruncated);
+      }
+      onDone();
+    } catch (err) {
+      console.error("[PdfUploadForm] Error:", err);
+      setError(err instanceof Error ? err.message : "Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex flex-col gap-2 px-4 py-3">
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            pickFile(e.dataTransfer.files?.[0]);
+          }}
+          onClick={() => fileInputRef.current?.click()}
+          className={cn(
+            "flex flex-col items-center justify-center gap-1.5 rounded-lg border border-dashed px-3 py-6 cursor-pointer transition-colors",
+            dragging
+              ? "border-violet-400 bg-violet-500/5"
+              : "border-[#dddcd7] bg-[#f8f7f4] hover:bg-[#f3f2ee]"
+          )}
+        >
+          <FileText className="w-5 h-5 text-violet-500/70" />
+          <span className="text-xs text-[#44403c] text-center">
+            {file ? file.name : "Drop a PDF here or click to browse"}
+          </span>
+          {file && (
+            <span className="text-[10px] text-[#a8a29e]">
+              {(file.size / 1024 / 1024).toFixed(1)} MB
+            </span>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pdf,application/pdf"
+            className="hidden"
+            onChange={(e) => {
+              pickFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </div>
+        <p className="text-[11px] text-[#78716c]">
+          The text is extracted for the reader and chat, and the paper is matched by DOI, arXiv id or title.
+        </p>
+
+        {error && (
+          <div className="flex items-center gap-2 text-xs text-red-600">
+            <AlertCircle className="w-3.5 h-3.5" />
+            {error}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2 px-4 pb-4">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={uploading}>
+          Cancel
+        </Button>
+        <Button type="button" size="sm" onClick={handleUpload} disabled={!file || uploading}>
+          {uploading ? (
+            <>
+              <Loader2 className="w-3 h-3 animate-spin mr-1.5" />
+              Extracting…
+            </>
+          ) : "Add to graph"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Tags, Trash2, Check, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/Dialog";
+import { ScrollArea } from "@/components/ui/ScrollArea";
+import { useGraphStore } from "@/store/graph-store";
+import { useUIStore } from "@/store/ui-store";
+import { deleteTag, renameTag, setTagColor } from "@/lib/db/tag-actions";
+import { collectTagUsage, normalizeTag, sameTag, type TagUsage } from "@/lib/utils/tags";
+import { CLUSTER_COLORS } from "@/lib/design-tokens";
+import { cn } from "@/lib/utils";
+
+function TagRow({ tag, allTags }: { tag: TagUsage; allTags: TagUsage[] }) {
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(tag.name);
+  const [pickingColor, setPickingColor] = useState(false);
+
+  const trimmed = normalizeTag(name);
+  const mergeTarget = allTags.find((t) => t.name !== tag.name && sameTag(t.name, trimmed));
+
+  const commitRename = () => {
+    if (trimmed && trimmed !== tag.name) renameTag(tag.name, mergeTarget?.name ?? trimmed);
+    setEditing(false);
+  };
+
+  return (
+    <div className="px-4 py-2 border-b border-[#f3f2ee] last:border-0">
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setPickingColor(!pickingColor)}
+          className="w-3.5 h-3.5 rounded-full shrink-0 ring-offset-1 hover:ring-2 hover:ring-[#dddcd7]"
+          style={{ backgroundColor: tag.color }}
+          title="Change color"
+        />
+        {editing ? (
+          <>
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitRename();
+                if (e.key === "Escape") {
+                  setName(tag.name);
+                  setEditing(false);
+                }
+              }}
+              className="flex-1 min-w-0 bg-white border border-[#dddcd7] rounded-md px-2 py-0.5 text-xs text-[#44403c] focus:outline-none focus:ring-1 focus:ring-violet-500"
+            />
+            <button type="button" onClick={commitRename} className="text-[#78716c] hover:text-violet-600" title={mergeTarget ? `Merge into "${mergeTarget.name}"` : "Rename"}>
+              <Check className="w-3.5 h-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setName(tag.name);
+                setEditing(false);
+              }}
+              className="text-[#78716c] hover:text-[#44403c]"
+              title="Cancel"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={() => setEditing(true)}
+              className="flex-1 min-w-0 text-left text-xs text-[#1c1917] truncate hover:text-violet-700"
+              title="Rename"
+            >
+              {tag.name}
+            </button>
+            <span className="text-[10px] text-[#a8a29e] shrink-0">
+              {tag.count} source{tag.count === 1 ? "" : "s"}
+            </span>
+            <button
+              type="button"
+              onClick={() => deleteTag(tag.name)}
+              className="text-[#a8a29e] hover:text-red-600"
+              title="Remove tag from all sources"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {editing && mergeTarget && (
+        <p className="mt-1 pl-5.5 text-[10px] text-amber-600">
+          Merges into the existing tag &quot;{mergeTarget.name}&quot;.
+        </p>
+      )}
+
+      {pickingColor && (
+        <div className="flex flex-wrap gap-1.5 mt-2 pl-5.5">
+          {CLUSTER_COLORS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              onClick={() => {
+                setTagColor(tag.name, color);
+                setPickingColor(false);
+              }}
+              className={cn(
+                "w-4 h-4 rounded-full ring-offset-1",
+                tag.color === color && "ring-2 ring-[#1c1917]"
+              )}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function TagManagerDialog() {
+  const open = useUIStore((s) => s.tagManagerOpen);
+  const close = useUIStore((s) => s.closeTagManager);
+  const nodes = useGraphStore((s) => s.nodes);
+  const tagDefinitions = useGraphStore((s) => s.tagDefinitions);
+
+  const tags = useMemo(
+    () => collectTagUsage(nodes.values(), tagDefinitions),
+    [nodes, tagDefinitions]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && close()}>
+      <DialogContent className="sm:max-w-sm p-0 gap-0 overflow-hidden">
+        <DialogHeader className="px-4 pt-4 pb-3 border-b border-[#e8e7e2]">
+          <DialogTitle className="flex items-center gap-2 text-sm font-medium">
+            <Tags className="w-3.5 h-3.5 text-violet-500" />
+            Manage tags
+          </DialogTitle>
+        </DialogHeader>
+
+        {tags.length === 0 ? (
+          <p className="px-4 py-6 text-xs text-center text-[#a8a29e]">
+            No tags yet. Add tags to sources from the reader&apos;s Notes tab.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-[360px]">
+            {tags.map((tag) => (
+              <TagRow key={tag.name} tag={tag} allTags={tags} />
+            ))}
+          </ScrollArea>
+        )}
+
+        <p className="px-4 py-2.5 border-t border-[#e8e7e2] text-[10px] text-[#a8a29e]">
+          Click a name to rename it; renaming onto an existing tag merges the two.
+        </p>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,11 +10,13 @@ import {
   Navigation,
   Trash2,
   Clock,
+  History,
 } from "lucide-react";
 import { ScrollArea } from "@/components/ui/ScrollArea";
 import { Button } from "@/components/ui/Button";
 import { useTimelineStore, type TimelineEvent } from "@/store/timeline-store";
 import { useGraphStore } from "@/store/graph-store";
+import { openTimeTravel } from "@/lib/db/time-travel";
 import { cn } from "@/lib/utils";
 
 const EVENT_ICONS: Record<TimelineEvent["type"], React.ElementType> = {
@@ -64,6 +66,15 @@ export function TimelinePanel({ className }: { className?: string }) {
           <span className="text-sm font-medium text-[#1c1917]">Timeline</span>
         </div>
         <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => void openTimeTravel()}
+            title="Replay how the graph grew"
+          >
+            <History className="w-3 h-3 text-[#78716c]" />
+          </Button>
           <span className="text-xs text-[#78716c]">
             {events.length} event{events.length !== 1 ? "s" : ""}
           </span>
@@ -2,10 +2,20 @@
 
 import { useMemo, useCallback } from "react";
 import { useGraphStore } from "@/store/graph-store";
+import { useUIStore } from "@/store/ui-store";
 import { EDGE_STYLES, CLUSTER_COLORS } from "@/lib/design-tokens";
 import { executeGraphCommand } from "@/lib/graph/commands";
+import { matchesTagFilter, tagColor } from "@/lib/utils/tags";
 import type { Node, Edge, NodeChange, EdgeChange } from "@xyflow/react";
-import type { ExpansionMode, GraphNodeData, EdgeType } from "@/types";
+import type {
+  Cluster,
+  EdgeType,
+  ExpansionMode,
+  GraphEdge,
+  GraphNodeData,
+  PaperNode,
+  TagDefinition,
+} from "@/types";
 
 /** Map citation count to node width (188px min, 286px max) */
 function citationWidth(citationCount: number): number {
@@ -33,6 +43,56 @@ function resolveClusterColor(clusterId: string | undefined, clusters: { id: stri
   return CLUSTER_COLORS[Math.abs(hash) % CLUSTER_COLORS.length];
 }
 
+/** Map a node to its React Flow node, without selection state or callbacks. */
+export function toFlowNode(
+  node: PaperNode,
+  clusters: Cluster[],
+  tagDefinitions: TagDefinition[]
+): Node<GraphNodeData> {
+  const isFrontier = node.state === "discovered";
+  return {
+    id: node.id,
+    type: isFrontier ? "frontier" : "paper",
+    position: node.position,
+    width: isFrontier ? 176 : citationWidth(node.data.citationCount),
+    data: {
+      paper: node.data,
+      state: node.state,
+      scores: node.scores,
+      clusterId: node.clusterId,
+      tags: node.userTags?.map((name) => ({ name, color: tagColor(tagDefinitions, name) })),
+      isFrontier,
+    },
+    style: {
+      borderColor: resolveClusterColor(node.clusterId, clusters),
+    },
+  };
+}
+
+export function toFlowEdge(edge: GraphEdge): Edge {
+  const edgeStyle = EDGE_STYLES[edge.type as keyof typeof EDGE_STYLES];
+  return {
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    type: mapEdgeType(edge.type),
+    animated: edge.trust === "inferred",
+    data: {
+      type: edge.type,
+      trust: edge.trust,
+      weight: edge.weight,
+    },
+    style: edgeStyle
+      ? {
+          stroke: edgeStyle.stroke,
+          strokeWidth: edgeStyle.strokeWidth,
+          strokeDasharray: edgeStyle.dashArray,
+          opacity: edge.trust === "inferred" ? 0.4 : 0.7,
+        }
+      : undefined,
+  };
+}
+
 export function useGraph() {
   const nodes = useGraphStore((s) => s.nodes);
   const edges = useGraphStore((s) => s.edges);
@@ -40,6 +100,8 @@ export function useGraph() {
   const selectedNodeId = useGraphStore((s) => s.selectedNodeId);
   const selectedNodeIds = useGraphStore((s) => s.selectedNodeIds);
   const expandingNodeIds = useGraphStore((s) => s.expandingNodeIds);
+  const tagDefinitions = useGraphStore((s) => s.tagDefinitions);
+  const tagFilter = useUIStore((s) => s.tagFilter);
 
   const materializeNode = useCallback((nodeId: string) => {
     const node = useGraphStore.getState().nodes.get(nodeId);
@@ -66,68 +128,35 @@ export function useGraph() {
     return nodeArray
       .filter((n) => n.state !== "archived")
       .map((node) => {
-        const isFrontier = node.state === "discovered";
-        const clusterColor = resolveClusterColor(node.clusterId, clusters);
+        const base = toFlowNode(node, clusters, tagDefinitions);
         const nodeId = node.id;
-
         const isMultiSelected = selectedNodeIds.has(nodeId);
-        const isExpanding = expandingNodeIds.has(nodeId);
+        const isDimmed = !matchesTagFilter(node, tagFilter);
 
         return {
-          id: nodeId,
-          type: isFrontier ? "frontier" : "paper",
-          position: node.position,
+          ...base,
           selected: node.id === selectedNodeId || isMultiSelected,
-          width: isFrontier ? 176 : citationWidth(node.data.citationCount),
           data: {
-            paper: node.data,
-            state: node.state,
-            scores: node.scores,
-            clusterId: node.clusterId,
+            ...base.data,
+            isDimmed,
             isSelected: node.id === selectedNodeId,
             isMultiSelected,
-            isExpanding,
-            isFrontier,
+            isExpanding: expandingNodeIds.has(nodeId),
             onSelect: () => useGraphStore.getState().selectNode(nodeId),
             onExpand: (mode) => expandNode(nodeId, mode),
-            onMaterialize: isFrontier
+            onMaterialize: base.data.isFrontier
               ? () => materializeNode(nodeId)
               : undefined,
           } satisfies GraphNodeData,
           style: {
-            borderColor: clusterColor,
+            ...base.style,
+            opacity: isDimmed ? 0.25 : undefined,
           },
         };
       });
-  }, [nodes, clusters, selectedNodeId, selectedNodeIds, expandingNodeIds, materializeNode, expandNode]);
-
-  const rfEdges: Edge[] = useMemo(() => {
-    return edges.map((edge) => {
-      const edgeStyle = EDGE_STYLES[edge.type as keyof typeof EDGE_STYLES];
-      const type = mapEdgeType(edge.type);
-
-      return {
-        id: edge.id,
-        source: edge.source,
-        target: edge.target,
-        type,
-        animated: edge.trust === "inferred",
-        data: {
-          type: edge.type,
-          trust: edge.trust,
-          weight: edge.weight,
-        },
-        style: edgeStyle
-          ? {
-              stroke: edgeStyle.stroke,
-              strokeWidth: edgeStyle.strokeWidth,
-              strokeDasharray: edgeStyle.dashArray,
-              opacity: edge.trust === "inferred" ? 0.4 : 0.7,
-            }
-          : undefined,
-      };
-    });
-  }, [edges]);
+  }, [nodes, clusters, selectedNodeId, selectedNodeIds, expandingNodeIds, tagDefinitions, tagFilter, materializeNode, expandNode]);
+
+  const rfEdges: Edge[] = useMemo(() => edges.map(toFlowEdge), [edges]);
 
   const onNodesChange = useCallback((changes: NodeChange[]) => {
     const positionUpdates = new Map<string, { x: number; y: number }>();
@@ -0,0 +1,58 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { useTimelineStore } from "@/store/timeline-store";
+import { dueSavedSearches, runSavedSearch } from "@/lib/db/saved-search-actions";
+
+const CHECK_INTERVAL_MS = 60_000;
+/** A failed scheduled run waits this long before it is tried again. */
+const RETRY_AFTER_MS = 15 * 60_000;
+
+/**
+ * Re-run the current hole's scheduled saved searches while the app is open.
+ * Due searches run one at a time; their new results feed the TopBar badge.
+ */
+export function useSavedSearchScheduler(): void {
+  const currentRabbitHoleId = useRabbitHoleStore((s) => s.currentRabbitHoleId);
+
+  useEffect(() => {
+    if (!currentRabbitHoleId) return;
+    const rabbitHoleId = currentRabbitHoleId;
+    const failedAt = new Map<string, number>();
+    let running = false;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const now = Date.now();
+        for (const search of dueSavedSearches(rabbitHoleId, now)) {
+          if (now - (failedAt.get(search.id) ?? 0) < RETRY_AFTER_MS) continue;
+          try {
+            const run = await runSavedSearch(search.id, { reviewed: false });
+            if (run && run.newIds.length > 0) {
+              useTimelineStore.getState().addEvent({
+                type: "search",
+                summary: `Saved search "${search.query}" found ${run.newIds.length} new results`,
+                metadata: { query: search.query, savedSearchId: search.id, newCount: run.newIds.length },
+              });
+            }
+          } catch (err) {
+            failedAt.set(search.id, Date.now());
+            console.warn(
+              `[research-rodeo] [saved-search] run failed for "${search.query}":`,
+              err instanceof Error ? err.message : err
+            );
+          }
+        }
+      } finally {
+        running = false;
+      }
+    };
+
+    void tick();
+    const timer = setInterval(() => void tick(), CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [currentRabbitHoleId]);
+}
@@ -1,4 +1,4 @@
-import type { PaperNode, Cluster, WeightConfig } from "@/types";
+import type { Annotation, PaperNode, Cluster, WeightConfig } from "@/types";
 import { sanitizeAbstractText } from "@/lib/utils";
 
 /**
@@ -110,6 +110,7 @@ export function retrieveRelevantPapers(
     .map((s) => s.node);
 
   const digests = top.map((n) => {
+    const tagLine = n.userTags?.length ? `Tags: ${n.userTags.join(", ")}` : "";
     if (n.data.isUrlSource) {
       const desc = n.data.siteDescription ?? n.data.abstract;
       const site = n.data.siteName ?? (() => {
@@ -119,6 +120,7 @@ export function retrieveRelevantPapers(
         `**[${n.data.title}]** (ID: ${n.id}) — ${site}`,
         `URL: ${n.data.url ?? "N/A"}`,
       ];
+      if (tagLine) lines.push(tagLine);
       if (desc) lines.push(desc.slice(0, 200) + (desc.length > 200 ? "..." : ""));
       return lines.join("\n");
     }
@@ -136,15 +138,59 @@ export function retrieveRelevantPapers(
     const abstract = cleanAbstract
       ? cleanAbstract.slice(0, 200) + (cleanAbstract.length > 200 ? "..." : "")
       : "No abstract available";
-    return `**[${n.data.title}, ${n.data.year ?? "n.d."}]** (ID: ${n.id})\nAuthors: ${authors} | Citations: ${n.data.citationCount} | Venue: ${n.data.venue ?? "Unknown"}\n${abstract}`;
+    return `**[${n.data.title}, ${n.data.year ?? "n.d."}]** (ID: ${n.id})\nAuthors: ${authors} | Citations: ${n.data.citationCount} | Venue: ${n.data.venue ?? "Unknown"}\n${tagLine ? `${tagLine}\n` : ""}${abstract}`;
   });
 
   return `## Sources in Graph\n${digests.join("\n\n")}`;
 }
 
 /**
- * Assemble a 3-tier context for the chat system prompt.
- * Returns an array of context strings: [brief, clusters, papers]
+ * List the user's highlighted passages so the model can quote them and cite
+ * the source node. Highlights overlapping the question's keywords come first.
+ */
+export function buildAnnotationDigest(
+  question: string,
+  annotations: Annotation[],
+  nodes: PaperNode[],
+  topK: number = 20
+): string {
+  if (annotations.length === 0) return "";
+
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  const queryTerms = question
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .split(/\s+/)
+    .filter((w) => w.length > 2);
+
+  const scored = annotations
+    .filter((a) => nodeMap.has(a.paperId))
+    .map((a) => {
+      const haystack = `${a.text} ${a.note ?? ""}`.toLowerCase();
+      const keywordScore = queryTerms.filter((t) => haystack.includes(t)).length;
+      return { annotation: a, score: keywordScore };
+    })
+    .sort((a, b) => b.score - a.score || b.annotation.createdAt - a.annotation.createdAt)
+    .slice(0, topK);
+
+  if (scored.length === 0) return "";
+
+  const entries = scored.map(({ annotation: a }) => {
+    const node = nodeMap.get(a.paperId)!;
+    const kind = a.type ? ` [${a.type}]` : "";
+    const text = a.text.length > 400 ? a.text.slice(0, 400) + "..." : a.text;
+    const lines = [`- "${text}"${kind} — from [${node.data.title}](${node.id})`];
+    if (a.note) lines.push(`  User note: ${a.note}`);
+    return lines.join("\n");
+  });
+
+  return `## User Highlights\nPassages the user highlighted while reading. Quote them verbatim and cite the source link when relevant.\n${entries.join("\n")}`;
+}
+
+/**
+ * Assemble a 3-tier context for the chat system prompt, plus the user's
+ * highlights when there are any.
+ * Returns an array of context strings: [brief, clusters, papers, highlights]
  */
 export function assembleContext(
   project: {
@@ -152,6 +198,7 @@ export function assembleContext(
     weights: WeightConfig;
     nodes: PaperNode[];
     clusters: Cluster[];
+    annotations?: Annotation[];
   },
   question: string
 ): string[] {
@@ -166,5 +213,7 @@ export function assembleContext(
 
   const papers = retrieveRelevantPapers(question, project.nodes);
 
-  return [brief, clusterBriefs, papers].filter((s) => s.length > 0);
+  const highlights = buildAnnotationDigest(question, project.annotations ?? [], project.nodes);
+
+  return [brief, clusterBriefs, papers, highlights].filter((s) => s.length > 0);
 }
@@ -22,6 +22,7 @@ export const RESEARCH_AGENT_SYSTEM_PROMPT = `You are an AI research assistant em
 - **expandGraphNode** — Expand a node to discover related papers.
 - **mergeGraphClusters** — Merge two clusters into one.
 - **archiveGraphNode** — Remove a node from active view.
+- **tagGraphNodes** — Add or remove user tags on nodes (reuse existing tag names where they fit).
 - **relayoutGraph** — Trigger graph layout recomputation.
 - **addContradictionCard** — Add a contradiction card linked to the graph.
 - **saveCardForLater** — Save an evidence card for later review.
@@ -55,6 +56,7 @@ Sources in the graph may be academic papers, but they may also be:
 ### Citing Sources
 - When referencing a paper/source in the graph, use the format: [Title](nodeId) — this enables clickable citation badges in the UI.
 - If you do not have the node ID, fall back to [Paper Title, Year] format.
+- Passages under "User Highlights" are the user's own annotations. Quote them exactly and cite the source they came from with its [Title](nodeId) link.
 - For web sources without a node ID: reference by title or domain, e.g. [Post Title — lesswrong.com]
 
 ### Structure
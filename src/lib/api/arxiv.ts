@@ -1,4 +1,4 @@
-import type { PaperMetadata, Author } from "@/types";
+import type { PaperMetadata, Author, SearchFilters } from "@/types";
 
 const ARXIV_API_URL = "https://export.arxiv.org/api/query";
 const ARXIV_HTML_BASE = "https://arxiv.org/html";
@@ -148,6 +148,17 @@ function normalizeEntry(entry: ArxivEntry): PaperMetadata {
   };
 }
 
+/**
+ * arXiv can only narrow a search by submission date, and the range needs
+ * both ends. (Every arXiv paper is open access, so that filter needs nothing.)
+ */
+function submittedDateRange(filters: SearchFilters | undefined): string | undefined {
+  if (!filters?.yearMin && !filters?.yearMax) return undefined;
+  const from = filters.yearMin ?? 1991;
+  const to = filters.yearMax ?? new Date().getFullYear();
+  return `submittedDate:[${from}01010000 TO ${to}12312359]`;
+}
+
 export async function searchPapers(
   query: string,
   options: {
@@ -155,6 +166,7 @@ export async function searchPapers(
     start?: number;
     sortBy?: "relevance" | "lastUpdatedDate" | "submittedDate";
     sortOrder?: "ascending" | "descending";
+    filters?: SearchFilters;
   } = {}
 ): Promise<PaperMetadata[]> {
   const {
@@ -162,10 +174,12 @@ export async function searchPapers(
     start = 0,
     sortBy = "relevance",
     sortOrder = "descending",
+    filters,
   } = options;
 
+  const dateRange = submittedDateRange(filters);
   const params = new URLSearchParams({
-    search_query: `all:${query}`,
+    search_query: dateRange ? `all:${query} AND ${dateRange}` : `all:${query}`,
     start: start.toString(),
     max_results: maxResults.toString(),
     sortBy,
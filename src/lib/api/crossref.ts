@@ -0,0 +1,233 @@
+import type { PaperMetadata, Author, PaperFunder } from "@/types";
+import { sanitizeAbstractText } from "@/lib/utils";
+import { mergePapers } from "@/lib/api/paper-resolver";
+
+const CROSSREF_BASE_URL = "https://api.crossref.org";
+
+interface CrossrefAuthor {
+  given?: string;
+  family?: string;
+  name?: string; // organisational authors
+  ORCID?: string;
+  affiliation?: Array<{ name: string }>;
+}
+
+interface CrossrefDate {
+  "date-parts"?: Array<Array<number | null>>;
+}
+
+interface CrossrefReference {
+  key: string;
+  DOI?: string;
+  "article-title"?: string;
+  "journal-title"?: string;
+  author?: string; // first author surname only
+  year?: string;
+  volume?: string;
+  "first-page"?: string;
+  unstructured?: string;
+}
+
+interface CrossrefWork {
+  DOI: string;
+  URL?: string;
+  type?: string;
+  title?: string[];
+  author?: CrossrefAuthor[];
+  "container-title"?: string[];
+  volume?: string;
+  issue?: string;
+  page?: string;
+  publisher?: string;
+  issued?: CrossrefDate;
+  "published-print"?: CrossrefDate;
+  "published-online"?: CrossrefDate;
+  abstract?: string; // JATS XML
+  subject?: string[];
+  "is-referenced-by-count"?: number;
+  "references-count"?: number;
+  reference?: CrossrefReference[];
+  license?: Array<{ URL: string; "content-version"?: string }>;
+  funder?: Array<{ name: string; DOI?: string; award?: string[] }>;
+}
+
+interface CrossrefWorkResponse {
+  status: string;
+  message: CrossrefWork;
+}
+
+const CROSSREF_TYPES: Record<string, string> = {
+  "journal-article": "JournalArticle",
+  "proceedings-article": "Conference",
+  "book": "Book",
+  "monograph": "Book",
+  "book-chapter": "BookSection",
+  "dissertation": "Thesis",
+  "report": "Report",
+  "posted-content": "Preprint",
+};
+
+/** Crossref routes requests that carry a contact address to its polite pool. */
+function getPoliteParams(): URLSearchParams {
+  const params = new URLSearchParams();
+  const email = process.env.CROSSREF_EMAIL;
+  if (email) params.set("mailto", email);
+  return params;
+}
+
+async function crossrefFetch<T>(path: string): Promise<T> {
+  const polite = getPoliteParams().toString();
+  const url = `${CROSSREF_BASE_URL}${path}${polite ? `?${polite}` : ""}`;
+
+  try {
+    const res = await fetch(url, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(15_000),
+    });
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => "Unknown error");
+      throw new Error(`Crossref API error (${res.status}): ${text}`);
+    }
+
+    return res.json() as Promise<T>;
+  } catch (err) {
+    if (err instanceof DOMException && (err.name === "TimeoutError" || err.name === "AbortError")) {
+      throw new Error(`Request to Crossref timed out after 15s`);
+    }
+    throw err;
+  }
+}
+
+function normalizeDoi(doi: string): string {
+  return doi.replace(/^https?:\/\/(dx\.)?doi\.org\//i, "").replace(/^doi:/i, "").trim();
+}
+
+function yearOf(work: CrossrefWork): number | undefined {
+  for (const date of [work.issued, work["published-print"], work["published-online"]]) {
+    const year = date?.["date-parts"]?.[0]?.[0];
+    if (year) return year;
+  }
+  return undefined;
+}
+
+function normalizeAuthor(a: CrossrefAuthor, i: number): Author {
+  const name = a.name ?? [a.given, a.family].filter(Boolean).join(" ");
+  const orcid = a.ORCID?.replace(/^https?:\/\/orcid\.org\//, "");
+  return {
+    id: orcid ? `orcid:${orcid}` : `crossref-author-${name.toLowerCase().replace(/\s+/g, "-")}-${i}`,
+    name,
+    affiliations: a.affiliation && a.affiliation.length > 0 ? a.affiliation.map((af) => af.name) : undefined,
+  };
+}
+
+/** The license on the published version, falling back to the first listed. */
+function licenseOf(work: CrossrefWork): string | undefined {
+  const licenses = work.license ?? [];
+  return (licenses.find((l) => l["content-version"] === "vor") ?? licenses[0])?.URL;
+}
+
+function fundersOf(work: CrossrefWork): PaperFunder[] | undefined {
+  if (!work.funder || work.funder.length === 0) return undefined;
+  return work.funder.map((f) => ({
+    name: f.name,
+    doi: f.DOI,
+    awards: f.award && f.award.length > 0 ? f.award : undefined,
+  }));
+}
+
+function normalizeWork(work: CrossrefWork): PaperMetadata {
+  const doi = normalizeDoi(work.DOI);
+  const type = work.type ? CROSSREF_TYPES[work.type] : undefined;
+
+  return {
+    id: "", // Will be assigned by paper-resolver
+    externalIds: { doi },
+    title: work.title?.[0] ?? "Untitled",
+    authors: (work.author ?? []).filter((a) => a.name || a.family).map(normalizeAuthor),
+    year: yearOf(work),
+    abstract: work.abstract ? sanitizeAbstractText(work.abstract) : undefined,
+    venue: work["container-title"]?.[0],
+    volume: work.volume,
+    issue: work.issue,
+    pages: work.page,
+    publisher: work.publisher,
+    license: licenseOf(work),
+    funders: fundersOf(work),
+    citationCount: work["is-referenced-by-count"] ?? 0,
+    referenceCount: work["references-count"] ?? work.reference?.length ?? 0,
+    fieldsOfStudy: work.subject && work.subject.length > 0 ? work.subject : undefined,
+    publicationTypes: type ? [type] : undefined,
+    url: `https://doi.org/${doi}`,
+  };
+}
+
+/** Deposited references with a DOI or a title; bare unstructured strings are skipped. */
+function normalizeReference(ref: CrossrefReference): PaperMetadata | null {
+  const title = ref["article-title"];
+  if (!ref.DOI && !title) return null;
+  const doi = ref.DOI ? normalizeDoi(ref.DOI) : undefined;
+  const year = ref.year ? parseInt(ref.year, 10) : undefined;
+  return {
+    id: "", // Will be assigned by paper-resolver
+    externalIds: doi ? { doi } : {},
+    title: title ?? ref.unstructured ?? doi!,
+    authors: ref.author
+      ? [{ id: `crossref-author-${ref.author.toLowerCase().replace(/\s+/g, "-")}-0`, name: ref.author }]
+      : [],
+    year: year && !Number.isNaN(year) ? year : undefined,
+    venue: ref["journal-title"],
+    volume: ref.volume,
+    citationCount: 0,
+    referenceCount: 0,
+    url: doi ? `https://doi.org/${doi}` : undefined,
+  };
+}
+
+async function fetchWork(doi: string): Promise<CrossrefWork> {
+  const response = await crossrefFetch<CrossrefWorkResponse>(
+    `/works/${encodeURIComponent(normalizeDoi(doi))}`
+  );
+  return response.message;
+}
+
+/** Look up a DOI's registered metadata, funders and license. */
+export async function getWork(doi: string): Promise<PaperMetadata> {
+  return normalizeWork(await fetchWork(doi));
+}
+
+/**
+ * The work's metadata together with its reference list. References are only
+ * present when the publisher deposited them (and made them open).
+ */
+export async function getWorkWithReferences(
+  doi: string
+): Promise<{ paper: PaperMetadata; references: PaperMetadata[] }> {
+  const work = await fetchWork(doi);
+  return {
+    paper: normalizeWork(work),
+    references: (work.reference ?? [])
+      .map(normalizeReference)
+      .filter((r): r is PaperMetadata => r !== null),
+  };
+}
+
+/**
+ * Merge a Crossref record into a paper. Crossref is the registration agency,
+ * so its bibliographic fields (venue, volume, issue, pages, publisher, year)
+ * win; everything else merges as usual.
+ */
+export function mergeCrossref(paper: PaperMetadata, crossref: PaperMetadata): PaperMetadata {
+  const merged = mergePapers(paper, crossref);
+  return {
+    ...merged,
+    year: crossref.year ?? merged.year,
+    venue: crossref.venue ?? merged.venue,
+    volume: crossref.volume ?? merged.volume,
+    issue: crossref.issue ?? merged.issue,
+    pages: crossref.pages ?? merged.pages,
+    publisher: crossref.publisher ?? merged.publisher,
+    license: crossref.license ?? merged.license,
+    funders: crossref.funders ?? merged.funders,
+  };
+}
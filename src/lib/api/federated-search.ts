@@ -0,0 +1,128 @@
+import {
+  DEFAULT_SEARCH_PROVIDERS,
+  type PaperMetadata,
+  type SearchFilters,
+  type SearchProvider,
+} from "@/types";
+import { searchPapers as exaSearch, type ExaSearchOptions } from "@/lib/api/exa";
+import { searchPapers as s2Search } from "@/lib/api/semantic-scholar";
+import { searchWorks as openAlexSearch } from "@/lib/api/openalex";
+import { searchPapers as arxivSearch } from "@/lib/api/arxiv";
+import { searchPapers as pubmedSearch } from "@/lib/api/pubmed";
+import { isDuplicate, mergePapers, resolvePaper } from "@/lib/api/paper-resolver";
+import { publishedDateRange } from "@/lib/api/search-filters";
+
+/** Damping constant from the original RRF paper; keeps top ranks from dominating. */
+const RRF_K = 60;
+
+export interface FederatedSearchOptions {
+  providers?: SearchProvider[];
+  /** Results requested from each provider */
+  perProvider?: number;
+  /** Results kept after fusion */
+  limit?: number;
+  /** Passed to every provider, which applies what it supports natively */
+  filters?: SearchFilters;
+  /** Extra options for the Exa leg (domains, search type) */
+  exa?: ExaSearchOptions;
+}
+
+export interface FederatedSearchResult {
+  papers: PaperMetadata[];
+  /** Which providers returned each fused paper, by paper id */
+  providers: Record<string, SearchProvider[]>;
+  /** Providers that failed, with their error message */
+  failed: Partial<Record<SearchProvider, string>>;
+}
+
+interface FusedEntry {
+  paper: PaperMetadata;
+  score: number;
+  providers: SearchProvider[];
+}
+
+async function searchProvider(
+  provider: SearchProvider,
+  query: string,
+  perProvider: number,
+  filters: SearchFilters | undefined,
+  exa: ExaSearchOptions
+): Promise<PaperMetadata[]> {
+  switch (provider) {
+    case "exa":
+      return exaSearch(query, { ...exa, ...publishedDateRange(filters), numResults: perProvider });
+    case "semantic-scholar":
+      return (await s2Search(query, { limit: perProvider, filters })).papers;
+    case "openalex":
+      return (await openAlexSearch(query, { perPage: perProvider, filters })).papers;
+    case "arxiv":
+      return arxivSearch(query, { maxResults: perProvider, filters });
+    case "pubmed":
+      return (await pubmedSearch(query, { pageSize: perProvider, filters })).papers;
+  }
+}
+
+/**
+ * Query several providers in parallel and fuse their rankings with reciprocal
+ * rank fusion: a paper scores sum(1 / (RRF_K + rank)) over the providers that
+ * returned it. Records of the same paper are merged with mergePapers. A
+ * provider that fails is reported in `failed`; only when every provider fails
+ * does the search throw.
+ */
+export async function federatedSearch(
+  query: string,
+  options: FederatedSearchOptions = {}
+): Promise<FederatedSearchResult> {
+  const {
+    providers = DEFAULT_SEARCH_PROVIDERS,
+    perProvider = 10,
+    limit = 20,
+    filters,
+    exa = {},
+  } = options;
+  if (providers.length === 0) throw new Error("No search providers selected");
+
+  const settled = await Promise.allSettled(
+    providers.map((provider) => searchProvider(provider, query, perProvider, filters, exa))
+  );
+
+  const failed: FederatedSearchResult["failed"] = {};
+  const fused: FusedEntry[] = [];
+  settled.forEach((outcome, i) => {
+    const provider = providers[i];
+    if (outcome.status === "rejected") {
+      failed[provider] =
+        outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      return;
+    }
+    outcome.value.forEach((raw, rank) => {
+      const paper = resolvePaper(raw);
+      const entry = fused.find((e) => isDuplicate(e.paper, paper));
+      if (!entry) {
+        fused.push({ paper, score: 1 / (RRF_K + rank + 1), providers: [provider] });
+        return;
+      }
+      // mergePapers only covers bibliographic fields; keep the rest too
+      entry.paper = { ...paper, ...entry.paper, ...mergePapers(entry.paper, paper) };
+      // A provider counts once per paper, at its best rank
+      if (!entry.providers.includes(provider)) {
+        entry.score += 1 / (RRF_K + rank + 1);
+        entry.providers.push(provider);
+      }
+    });
+  });
+
+  if (Object.keys(failed).length === providers.length) {
+    const reasons = providers.map((p) => `${p} (${failed[p]})`).join(", ");
+    throw new Error(`All search providers failed: ${reasons}`);
+  }
+
+  const ranked = fused
+    .sort((a, b) => b.score - a.score || b.paper.citationCount - a.paper.citationCount)
+    .slice(0, limit);
+  return {
+    papers: ranked.map((e) => e.paper),
+    providers: Object.fromEntries(ranked.map((e) => [e.paper.id, e.providers])),
+    failed,
+  };
+}
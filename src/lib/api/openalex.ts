@@ -1,4 +1,4 @@
-import type { PaperMetadata, Author, ExternalIds } from "@/types";
+import type { PaperMetadata, Author, ExternalIds, SearchFilters } from "@/types";
 
 const OA_BASE_URL = "https://api.openalex.org";
 
@@ -139,16 +139,36 @@ function normalizeWork(work: OAWork): PaperMetadata {
   };
 }
 
+/** OpenAlex `filter` clauses for the search filters it supports natively. */
+function toWorksFilter(filters: SearchFilters | undefined): string | undefined {
+  if (!filters) return undefined;
+  const clauses: string[] = [];
+  if (filters.yearMin && filters.yearMax) {
+    clauses.push(`publication_year:${filters.yearMin}-${filters.yearMax}`);
+  } else if (filters.yearMin) {
+    clauses.push(`publication_year:>${filters.yearMin - 1}`);
+  } else if (filters.yearMax) {
+    clauses.push(`publication_year:<${filters.yearMax + 1}`);
+  }
+  if (filters.minCitations) {
+    clauses.push(`cited_by_count:>${filters.minCitations - 1}`);
+  }
+  if (filters.openAccessOnly) clauses.push("is_oa:true");
+  return clauses.length > 0 ? clauses.join(",") : undefined;
+}
+
 export async function searchWorks(
   query: string,
-  options: { perPage?: number; page?: number } = {}
+  options: { perPage?: number; page?: number; filters?: SearchFilters } = {}
 ): Promise<{ papers: PaperMetadata[]; total: number }> {
-  const { perPage = 10, page = 1 } = options;
+  const { perPage = 10, page = 1, filters } = options;
   const params = new URLSearchParams({
     search: query,
     per_page: perPage.toString(),
     page: page.toString(),
   });
+  const filter = toWorksFilter(filters);
+  if (filter) params.set("filter", filter);
 
   const response = await oaFetch<OASearchResponse>(
     `/works?${params.toString()}`
@@ -61,6 +61,11 @@ export function isDuplicate(a: PaperMetadata, b: PaperMetadata): boolean {
     a.externalIds.corpusId === b.externalIds.corpusId
   )
     return true;
+  if (
+    a.externalIds.pubmedId &&
+    a.externalIds.pubmedId === b.externalIds.pubmedId
+  )
+    return true;
 
   // Fuzzy title + year + first author match
   if (a.title && b.title && a.year && b.year) {
@@ -100,6 +105,12 @@ export function mergePapers(
       longerString(existing.abstract, incoming.abstract) || undefined,
     tldr: existing.tldr || incoming.tldr,
     venue: existing.venue || incoming.venue,
+    volume: existing.volume || incoming.volume,
+    issue: existing.issue || incoming.issue,
+    pages: existing.pages || incoming.pages,
+    publisher: existing.publisher || incoming.publisher,
+    license: existing.license || incoming.license,
+    funders: existing.funders ?? incoming.funders,
     citationCount: Math.max(
       existing.citationCount,
       incoming.citationCount
@@ -122,6 +133,8 @@ export function mergePapers(
     openAccessPdf: existing.openAccessPdf || incoming.openAccessPdf,
     url: existing.url || incoming.url,
     embedding: existing.embedding || incoming.embedding,
+    citeKey: existing.citeKey || incoming.citeKey,
+    aliasIds: mergeArrays(existing.aliasIds, incoming.aliasIds),
   };
 }
 
@@ -136,6 +149,35 @@ export function resolvePaper(paper: PaperMetadata): PaperMetadata {
   return paper;
 }
 
+/** Lowercased author name without punctuation, for comparing first authors. */
+export function normalizeAuthorName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Simple Jaccard-based title similarity.
+ * Computes overlap of word sets after normalization.
+ */
+export function computeTitleSimilarity(a: string, b: string): number {
+  const wordsA = new Set(tokenize(a));
+  const wordsB = new Set(tokenize(b));
+
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let intersection = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) intersection++;
+  }
+
+  const union = new Set([...wordsA, ...wordsB]).size;
+  return intersection / union;
+}
+
 // --- Internal utilities ---
 
 function mergeExternalIds(a: ExternalIds, b: ExternalIds): ExternalIds {
@@ -167,34 +209,6 @@ function longerString(
   return a.length >= b.length ? a : b;
 }
 
-function normalizeAuthorName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z\s]/g, "")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
-/**
- * Simple Jaccard-based title similarity.
- * Computes overlap of word sets after normalization.
- */
-function computeTitleSimilarity(a: string, b: string): number {
-  const wordsA = new Set(tokenize(a));
-  const wordsB = new Set(tokenize(b));
-
-  if (wordsA.size === 0 && wordsB.size === 0) return 1;
-  if (wordsA.size === 0 || wordsB.size === 0) return 0;
-
-  let intersection = 0;
-  for (const word of wordsA) {
-    if (wordsB.has(word)) intersection++;
-  }
-
-  const union = new Set([...wordsA, ...wordsB]).size;
-  return intersection / union;
-}
-
 function tokenize(text: string): string[] {
   return text
     .toLowerCase()
@@ -0,0 +1,274 @@
+import type { PaperMetadata, Author, ExternalIds, SearchFilters } from "@/types";
+import { sanitizeAbstractText } from "@/lib/utils";
+
+/**
+ * PubMed records through the Europe PMC REST API, which serves MEDLINE with
+ * citation counts, reference lists and MeSH headings in one JSON shape.
+ */
+const EPMC_BASE_URL = "https://www.ebi.ac.uk/europepmc/webservices/rest";
+
+interface EpmcAuthor {
+  fullName?: string;
+  firstName?: string;
+  lastName?: string;
+  authorId?: { type: string; value: string };
+  authorAffiliationDetailsList?: {
+    authorAffiliation?: Array<{ affiliation?: string }>;
+  };
+}
+
+interface EpmcResult {
+  id: string;
+  source: string; // "MED" for PubMed records
+  pmid?: string;
+  pmcid?: string;
+  doi?: string;
+  title?: string;
+  authorString?: string;
+  authorList?: { author?: EpmcAuthor[] };
+  pubYear?: string;
+  journalTitle?: string;
+  journalInfo?: { journal?: { title?: string } };
+  abstractText?: string;
+  citedByCount?: number;
+  isOpenAccess?: "Y" | "N";
+  fullTextUrlList?: {
+    fullTextUrl?: Array<{ availability?: string; documentStyle?: string; url: string }>;
+  };
+  meshHeadingList?: {
+    meshHeading?: Array<{ descriptorName: string; majorTopic_YN?: "Y" | "N" }>;
+  };
+  pubTypeList?: { pubType?: string[] };
+}
+
+interface EpmcSearchResponse {
+  hitCount: number;
+  resultList: { result: EpmcResult[] };
+}
+
+/** Reference and citation entries are a slimmer version of a search result. */
+interface EpmcLinkedRecord {
+  id?: string;
+  source?: string;
+  pmid?: string;
+  doi?: string;
+  title?: string;
+  authorString?: string;
+  pubYear?: string | number;
+  journalAbbreviation?: string;
+  citedByCount?: number;
+}
+
+interface EpmcReferencesResponse {
+  hitCount: number;
+  referenceList?: { reference?: EpmcLinkedRecord[] };
+}
+
+interface EpmcCitationsResponse {
+  hitCount: number;
+  citationList?: { citation?: EpmcLinkedRecord[] };
+}
+
+/** MeSH descriptors are specific; cap how many become fields of study. */
+const MAX_MESH_FIELDS = 8;
+
+async function epmcFetch<T>(path: string): Promise<T> {
+  const separator = path.includes("?") ? "&" : "?";
+  const url = `${EPMC_BASE_URL}${path}${separator}format=json`;
+
+  try {
+    const res = await fetch(url, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(15_000),
+    });
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => "Unknown error");
+      throw new Error(`Europe PMC API error (${res.status}): ${text}`);
+    }
+
+    return res.json() as Promise<T>;
+  } catch (err) {
+    if (err instanceof DOMException && (err.name === "TimeoutError" || err.name === "AbortError")) {
+      throw new Error(`Request to Europe PMC timed out after 15s`);
+    }
+    throw err;
+  }
+}
+
+function parseAuthorString(authorString: string | undefined): Author[] {
+  if (!authorString) return [];
+  return authorString
+    .replace(/\.$/, "")
+    .split(/,\s*/)
+    .filter((name) => name && name.toLowerCase() !== "et al")
+    .map((name, i) => ({
+      id: `pubmed-author-${name.toLowerCase().replace(/\s+/g, "-")}-${i}`,
+      name,
+    }));
+}
+
+function normalizeAuthors(result: EpmcResult): Author[] {
+  const list = result.authorList?.author;
+  if (!list || list.length === 0) return parseAuthorString(result.authorString);
+  return list
+    .filter((a) => a.fullName || a.lastName)
+    .map((a, i) => {
+      const name = a.firstName && a.lastName ? `${a.firstName} ${a.lastName}` : a.fullName || a.lastName!;
+      const affiliations = a.authorAffiliationDetailsList?.authorAffiliation
+        ?.map((af) => af.affiliation)
+        .filter((af): af is string => !!af);
+      return {
+        id:
+          a.authorId?.type === "ORCID"
+            ? `orcid:${a.authorId.value}`
+            : `pubmed-author-${name.toLowerCase().replace(/\s+/g, "-")}-${i}`,
+        name,
+        affiliations: affiliations && affiliations.length > 0 ? affiliations : undefined,
+      };
+    });
+}
+
+function pmidOf(record: { source?: string; pmid?: string; id?: string }): string | undefined {
+  if (record.pmid) return record.pmid;
+  return record.source === "MED" ? record.id : undefined;
+}
+
+function normalizeExternalIds(record: { source?: string; pmid?: string; id?: string; doi?: string }): ExternalIds {
+  const ids: ExternalIds = {};
+  const pmid = pmidOf(record);
+  if (pmid) ids.pubmedId = pmid;
+  if (record.doi) ids.doi = record.doi;
+  return ids;
+}
+
+/** Major-topic MeSH headings first, then the rest, as fields of study. */
+function meshFields(result: EpmcResult): string[] | undefined {
+  const headings = result.meshHeadingList?.meshHeading;
+  if (!headings || headings.length === 0) return undefined;
+  const major = headings.filter((h) => h.majorTopic_YN === "Y");
+  const minor = headings.filter((h) => h.majorTopic_YN !== "Y");
+  const names = [...major, ...minor].map((h) => h.descriptorName);
+  return Array.from(new Set(names)).slice(0, MAX_MESH_FIELDS);
+}
+
+function pubmedUrl(pmid: string | undefined, doi: string | undefined): string | undefined {
+  if (pmid) return `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`;
+  return doi ? `https://doi.org/${doi}` : undefined;
+}
+
+function normalizeResult(result: EpmcResult): PaperMetadata {
+  const externalIds = normalizeExternalIds(result);
+  const fullText = result.fullTextUrlList?.fullTextUrl ?? [];
+  const openPdf = fullText.find(
+    (u) => u.documentStyle === "pdf" && (u.availability === "Open access" || u.availability === "Free")
+  );
+  const year = result.pubYear ? Number(result.pubYear) : undefined;
+
+  return {
+    id: "", // Will be assigned by paper-resolver
+    externalIds,
+    title: (result.title ?? "Untitled").replace(/\.$/, ""),
+    authors: normalizeAuthors(result),
+    year: year && !Number.isNaN(year) ? year : undefined,
+    abstract: result.abstractText ? sanitizeAbstractText(result.abstractText) : undefined,
+    venue: result.journalInfo?.journal?.title || result.journalTitle,
+    citationCount: result.citedByCount ?? 0,
+    referenceCount: 0,
+    fieldsOfStudy: meshFields(result),
+    publicationTypes: result.pubTypeList?.pubType,
+    openAccessPdf:
+      openPdf?.url ??
+      (result.isOpenAccess === "Y" && result.pmcid
+        ? `https://europepmc.org/articles/${result.pmcid}?pdf=render`
+        : undefined),
+    url: pubmedUrl(externalIds.pubmedId, externalIds.doi),
+  };
+}
+
+function normalizeLinkedRecord(record: EpmcLinkedRecord): PaperMetadata {
+  const externalIds = normalizeExternalIds(record);
+  const year = record.pubYear ? Number(record.pubYear) : undefined;
+  return {
+    id: "", // Will be assigned by paper-resolver
+    externalIds,
+    title: (record.title ?? "Untitled").replace(/\.$/, ""),
+    authors: parseAuthorString(record.authorString),
+    year: year && !Number.isNaN(year) ? year : undefined,
+    venue: record.journalAbbreviation,
+    citationCount: record.citedByCount ?? 0,
+    referenceCount: 0,
+    url: pubmedUrl(externalIds.pubmedId, externalIds.doi),
+  };
+}
+
+/** Search PubMed (MEDLINE records only). */
+export async function searchPapers(
+  query: string,
+  options: { pageSize?: number; filters?: SearchFilters } = {}
+): Promise<{ papers: PaperMetadata[]; total: number }> {
+  const { pageSize = 10, filters } = options;
+  const clauses = [`(${query})`, "SRC:MED"];
+  if (filters?.yearMin || filters?.yearMax) {
+    clauses.push(`PUB_YEAR:[${filters.yearMin ?? 1800} TO ${filters.yearMax ?? new Date().getFullYear()}]`);
+  }
+  if (filters?.openAccessOnly) clauses.push("OPEN_ACCESS:y");
+  const params = new URLSearchParams({
+    query: clauses.join(" AND "),
+    resultType: "core",
+    pageSize: pageSize.toString(),
+  });
+
+  const response = await epmcFetch<EpmcSearchResponse>(`/search?${params.toString()}`);
+  return {
+    papers: response.resultList.result.map(normalizeResult),
+    total: response.hitCount,
+  };
+}
+
+/** PMIDs are plain digits; anything else would end up as Europe PMC query syntax. */
+export function isValidPmid(pmid: string): boolean {
+  return /^\d+$/.test(pmid);
+}
+
+/** Fetch one article by PMID. */
+export async function getPaper(pmid: string): Promise<PaperMetadata> {
+  if (!isValidPmid(pmid)) throw new Error(`Invalid PMID: ${pmid}`);
+  const params = new URLSearchParams({
+    query: `EXT_ID:${pmid} AND SRC:MED`,
+    resultType: "core",
+    pageSize: "1",
+  });
+  const response = await epmcFetch<EpmcSearchResponse>(`/search?${params.toString()}`);
+  const result = response.resultList.result[0];
+  if (!result) throw new Error(`PubMed article not found: ${pmid}`);
+  return normalizeResult(result);
+}
+
+/** Works the article cites, where its reference list has been deposited. */
+export async function getReferences(
+  pmid: string,
+  options: { pageSize?: number } = {}
+): Promise<PaperMetadata[]> {
+  const { pageSize = 50 } = options;
+  const response = await epmcFetch<EpmcReferencesResponse>(
+    `/MED/${encodeURIComponent(pmid)}/references?pageSize=${pageSize}`
+  );
+  return (response.referenceList?.reference ?? [])
+    .filter((r) => r.title)
+    .map(normalizeLinkedRecord);
+}
+
+/** Works that cite the article. */
+export async function getCitations(
+  pmid: string,
+  options: { pageSize?: number } = {}
+): Promise<PaperMetadata[]> {
+  const { pageSize = 50 } = options;
+  const response = await epmcFetch<EpmcCitationsResponse>(
+    `/MED/${encodeURIComponent(pmid)}/citations?pageSize=${pageSize}`
+  );
+  return (response.citationList?.citation ?? [])
+    .filter((c) => c.title)
+    .map(normalizeLinkedRecord);
+}
@@ -0,0 +1,115 @@
+import type {
+  AppliedFilters,
+  PaperMetadata,
+  SearchFilterKey,
+  SearchFilters,
+  SearchProvider,
+} from "@/types";
+import type { ExaSearchOptions } from "@/lib/api/exa";
+import { toS2FieldsOfStudy } from "@/lib/api/semantic-scholar";
+
+/**
+ * Filters each provider applies in its own query. Anything not listed is
+ * enforced by matchesFilters on the provider's results instead.
+ */
+const NATIVE_FILTERS: Record<SearchProvider, SearchFilterKey[]> = {
+  exa: ["yearMin", "yearMax"],
+  "semantic-scholar": ["yearMin", "yearMax", "fieldsOfStudy", "minCitations", "openAccessOnly"],
+  openalex: ["yearMin", "yearMax", "minCitations", "openAccessOnly"],
+  arxiv: ["yearMin", "yearMax", "openAccessOnly"],
+  pubmed: ["yearMin", "yearMax", "openAccessOnly"],
+};
+
+/**
+ * Filters a provider's results can't be checked against because it doesn't
+ * report the field: Exa returns no citation counts or open-access status.
+ */
+const UNREPORTED_FILTERS: Partial<Record<SearchProvider, SearchFilterKey[]>> = {
+  exa: ["minCitations", "openAccessOnly"],
+};
+
+/** The filters that actually narrow a search (unset, empty and zero don't). */
+export function activeFilterKeys(filters: SearchFilters | undefined): SearchFilterKey[] {
+  if (!filters) return [];
+  const keys: SearchFilterKey[] = [];
+  if (filters.yearMin) keys.push("yearMin");
+  if (filters.yearMax) keys.push("yearMax");
+  if (filters.fieldsOfStudy && filters.fieldsOfStudy.length > 0) keys.push("fieldsOfStudy");
+  if (filters.minCitations) keys.push("minCitations");
+  if (filters.openAccessOnly) keys.push("openAccessOnly");
+  return keys;
+}
+
+function isNative(provider: SearchProvider, key: SearchFilterKey, filters: SearchFilters): boolean {
+  if (!NATIVE_FILTERS[provider].includes(key)) return false;
+  // S2 only filters on its own field vocabulary (e.g. not MeSH headings)
+  if (provider === "semantic-scholar" && key === "fieldsOfStudy") {
+    return toS2FieldsOfStudy(filters.fieldsOfStudy).length > 0;
+  }
+  return true;
+}
+
+/**
+ * Which of the active filters a provider applied itself, which were
+ * post-filtered and which couldn't be enforced at all.
+ */
+export function appliedFilters(
+  provider: SearchProvider,
+  filters: SearchFilters | undefined
+): AppliedFilters {
+  const native: SearchFilterKey[] = [];
+  const postFiltered: SearchFilterKey[] = [];
+  const unenforced: SearchFilterKey[] = [];
+  for (const key of activeFilterKeys(filters)) {
+    if (isNative(provider, key, filters!)) native.push(key);
+    else if (UNREPORTED_FILTERS[provider]?.includes(key)) unenforced.push(key);
+    else postFiltered.push(key);
+  }
+  return { native, postFiltered, unenforced };
+}
+
+/**
+ * Filters none of a paper's providers report the field for, so its value is
+ * unknown rather than a mismatch (e.g. Exa's zero citation count).
+ */
+export function unreportedFilters(providers: SearchProvider[]): SearchFilterKey[] {
+  if (providers.length === 0) return [];
+  const [first, ...rest] = providers;
+  return (UNREPORTED_FILTERS[first] ?? []).filter((key) =>
+    rest.every((p) => UNREPORTED_FILTERS[p]?.includes(key))
+  );
+}
+
+/** Exa's published-date bounds for the year filters. */
+export function publishedDateRange(
+  filters: SearchFilters | undefined
+): Pick<ExaSearchOptions, "startPublishedDate" | "endPublishedDate"> {
+  return {
+    startPublishedDate: filters?.yearMin ? `${filters.yearMin}-01-01` : undefined,
+    endPublishedDate: filters?.yearMax ? `${filters.yearMax}-12-31` : undefined,
+  };
+}
+
+/**
+ * Post-filter applied to every result regardless of provider. Papers missing
+ * a year or fields of study are kept, since absence isn't a mismatch; so are
+ * papers whose providers don't report a field at all (`unknown`).
+ */
+export function matchesFilters(
+  paper: PaperMetadata,
+  filters: SearchFilters | undefined,
+  unknown: SearchFilterKey[] = []
+): boolean {
+  if (!filters) return true;
+  if (filters.yearMin && paper.year && paper.year < filters.yearMin) return false;
+  if (filters.yearMax && paper.year && paper.year > filters.yearMax) return false;
+  if (filters.minCitations && !unknown.includes("minCitations") && paper.citationCount < filters.minCitations) {
+    return false;
+  }
+  if (filters.openAccessOnly && !unknown.includes("openAccessOnly") && !paper.openAccessPdf) return false;
+  if (filters.fieldsOfStudy && filters.fieldsOfStudy.length > 0 && paper.fieldsOfStudy) {
+    const wanted = filters.fieldsOfStudy.map((f) => f.toLowerCase());
+    if (!paper.fieldsOfStudy.some((f) => wanted.includes(f.toLowerCase()))) return false;
+  }
+  return true;
+}
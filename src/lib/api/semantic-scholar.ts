@@ -1,4 +1,4 @@
-import type { PaperMetadata, Author, ExternalIds } from "@/types";
+import type { PaperMetadata, Author, ExternalIds, SearchFilters } from "@/types";
 
 const S2_BASE_URL = "https://api.semanticscholar.org/graph/v1";
 
@@ -38,6 +38,41 @@ const CITATION_FIELDS = [
   "url",
 ].join(",");
 
+/** The fixed vocabulary the search endpoint accepts for `fieldsOfStudy`. */
+export const S2_FIELDS_OF_STUDY = [
+  "Computer Science",
+  "Medicine",
+  "Chemistry",
+  "Biology",
+  "Materials Science",
+  "Physics",
+  "Geology",
+  "Psychology",
+  "Art",
+  "History",
+  "Geography",
+  "Sociology",
+  "Business",
+  "Political Science",
+  "Economics",
+  "Philosophy",
+  "Mathematics",
+  "Engineering",
+  "Environmental Science",
+  "Agricultural and Food Sciences",
+  "Education",
+  "Law",
+  "Linguistics",
+];
+
+/** Requested fields of study that S2 recognises, in its own casing. */
+export function toS2FieldsOfStudy(fields: string[] | undefined): string[] {
+  if (!fields) return [];
+  return S2_FIELDS_OF_STUDY.filter((f) =>
+    fields.some((requested) => requested.toLowerCase() === f.toLowerCase())
+  );
+}
+
 function getHeaders(): Record<string, string> {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
@@ -182,15 +217,28 @@ function normalizePaper(p: S2Paper): PaperMetadata {
 
 export async function searchPapers(
   query: string,
-  options: { limit?: number; offset?: number; fields?: string } = {}
+  options: { limit?: number; offset?: number; fields?: string; filters?: SearchFilters } = {}
 ): Promise<{ papers: PaperMetadata[]; total: number }> {
-  const { limit = 10, offset = 0, fields = DEFAULT_PAPER_FIELDS } = options;
+  const { limit = 10, offset = 0, fields = DEFAULT_PAPER_FIELDS, filters } = options;
   const params = new URLSearchParams({
     query,
     limit: limit.toString(),
     offset: offset.toString(),
     fields,
   });
+  if (filters?.yearMin || filters?.yearMax) {
+    params.set("year", `${filters.yearMin ?? ""}-${filters.yearMax ?? ""}`);
+  }
+  const fieldsOfStudy = toS2FieldsOfStudy(filters?.fieldsOfStudy);
+  if (fieldsOfStudy.length > 0) {
+    params.set("fieldsOfStudy", fieldsOfStudy.join(","));
+  }
+  if (filters?.minCitations) {
+    params.set("minCitationCount", filters.minCitations.toString());
+  }
+  if (filters?.openAccessOnly) {
+    params.set("openAccessPdf", "");
+  }
 
   const response = await s2Fetch<S2SearchResponse>(
     `/paper/search?${params.toString()}`
@@ -269,9 +317,21 @@ export async function batchGetPapers(
   paperIds: string[],
   fields: string = DEFAULT_PAPER_FIELDS
 ): Promise<PaperMetadata[]> {
+  const papers = await batchGetPapersAligned(paperIds, fields);
+  return papers.filter((p): p is PaperMetadata => p !== null);
+}
+
+/**
+ * Like batchGetPapers, but keeps one slot per requested id (null when S2 has
+ * no match), so results can be matched back to their inputs by position.
+ */
+export async function batchGetPapersAligned(
+  paperIds: string[],
+  fields: string = DEFAULT_PAPER_FIELDS
+): Promise<Array<PaperMetadata | null>> {
   const params = new URLSearchParams({ fields });
 
-  const response = await s2Fetch<S2Paper[]>(
+  const response = await s2Fetch<Array<S2Paper | null>>(
     `/paper/batch?${params.toString()}`,
     {
       method: "POST",
@@ -279,5 +339,5 @@ export async function batchGetPapers(
     }
   );
 
-  return response.filter((p) => p !== null).map(normalizePaper);
+  return response.map((p) => (p ? normalizePaper(p) : null));
 }
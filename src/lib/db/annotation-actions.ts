@@ -0,0 +1,120 @@
+"use client";
+
+import { nanoid } from "nanoid";
+import type { Annotation, AnnotationType } from "@/types";
+import { useAnnotationStore } from "@/store/annotation-store";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { noteAnnotationWrites } from "@/lib/graph/undo-writes";
+
+function getConn() {
+  return useRabbitHoleStore.getState().dbConnection;
+}
+
+function getHoleId() {
+  return useRabbitHoleStore.getState().currentRabbitHoleId;
+}
+
+function persist(rabbitHoleId: string, annotation: Annotation): void {
+  const conn = getConn();
+  if (!conn) return;
+  conn.reducers.upsertAnnotation({
+    rabbitHoleId,
+    annotationId: annotation.id,
+    nodeId: annotation.paperId,
+    text: annotation.text,
+    note: annotation.note ?? undefined,
+    tagsJson: JSON.stringify(annotation.tags),
+    annotationType: annotation.type ?? undefined,
+  });
+}
+
+/** Save a highlighted passage from a node's content as a new annotation. */
+export function createAnnotation(args: {
+  nodeId: string;
+  text: string;
+  type?: AnnotationType;
+  note?: string;
+  tags?: string[];
+}): Annotation | null {
+  const rabbitHoleId = getHoleId();
+  const text = args.text.trim();
+  if (!rabbitHoleId || !text) return null;
+
+  const now = Date.now();
+  const annotation: Annotation = {
+    id: `ann-${nanoid(10)}`,
+    paperId: args.nodeId,
+    text,
+    note: args.note?.trim() || undefined,
+    tags: args.tags ?? [],
+    type: args.type,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  useAnnotationStore.getState().upsertAnnotation(rabbitHoleId, annotation);
+  persist(rabbitHoleId, annotation);
+  return annotation;
+}
+
+/** Edit the note, type or tags of an existing annotation. */
+export function updateAnnotation(
+  annotationId: string,
+  patch: Partial<Pick<Annotation, "note" | "type" | "tags">>
+): void {
+  const rabbitHoleId = getHoleId();
+  if (!rabbitHoleId) return;
+
+  const existing = useAnnotationStore
+    .getState()
+    .byHole[rabbitHoleId]?.find((a) => a.id === annotationId);
+  if (!existing) return;
+
+  const annotation: Annotation = {
+    ...existing,
+    ...patch,
+    note: (patch.note ?? existing.note)?.trim() || undefined,
+    updatedAt: Date.now(),
+  };
+
+  useAnnotationStore.getState().upsertAnnotation(rabbitHoleId, annotation);
+  persist(rabbitHoleId, annotation);
+}
+
+/** Point every annotation on the given nodes at another node (after a merge). */
+export function reassignAnnotations(fromNodeIds: string[], toNodeId: string): void {
+  const rabbitHoleId = getHoleId();
+  if (!rabbitHoleId) return;
+
+  const from = new Set(fromNodeIds);
+  for (const existing of useAnnotationStore.getState().byHole[rabbitHoleId] ?? []) {
+    if (!from.has(existing.paperId)) continue;
+    noteAnnotationWrites([existing.id]);
+    const annotation: Annotation = { ...existing, paperId: toNodeId, updatedAt: Date.now() };
+    useAnnotationStore.getState().upsertAnnotation(rabbitHoleId, annotation);
+    persist(rabbitHoleId, annotation);
+  }
+}
+
+/** Write annotations back as they were, e.g. when a merge is undone. */
+export function restoreAnnotations(annotations: Annotation[]): void {
+  const rabbitHoleId = getHoleId();
+  if (!rabbitHoleId) return;
+
+  for (const annotation of annotations) {
+    useAnnotationStore.getState().upsertAnnotation(rabbitHoleId, annotation);
+    persist(rabbitHoleId, annotation);
+  }
+}
+
+export function deleteAnnotation(annotationId: string): void {
+  const rabbitHoleId = getHoleId();
+  if (!rabbitHoleId) return;
+
+  useAnnotationStore.getState().removeAnnotation(rabbitHoleId, annotationId);
+
+  const conn = getConn();
+  if (conn) {
+    conn.reducers.deleteAnnotation({ rabbitHoleId, annotationId });
+  }
+}
@@ -0,0 +1,179 @@
+"use client";
+
+/**
+ * Archive bin. Archiving detaches a node's edges and keeps them, with the
+ * state the node was in, on the node's archive record so a restore puts it
+ * back as it was. Purging deletes archived nodes for good through the
+ * remove_edge / remove_node reducers.
+ */
+
+import { nanoid } from "nanoid";
+import type { AppliedChangeEvent, GraphEdge, NodeArchive, PaperNode } from "@/types";
+import { useAnnotationStore } from "@/store/annotation-store";
+import { useGraphStore } from "@/store/graph-store";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { useWorkflowStore } from "@/store/workflow-store";
+import {
+  persistAddEdges,
+  persistAppendActionEvent,
+  persistRemoveEdges,
+  persistRemoveNodes,
+  persistSetClusters,
+  persistUpdateNodeArchive,
+  persistUpdateNodeState,
+} from "@/lib/db/graph-actions";
+import { deleteAnnotation } from "@/lib/db/annotation-actions";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ARCHIVE_PURGE_OPTIONS = [7, 30, 90, 365];
+
+function getConn() {
+  return useRabbitHoleStore.getState().dbConnection;
+}
+
+/** Archive nodes, detaching their edges. Returns the ids that were archived. */
+export function archiveNodes(nodeIds: string[], source: NodeArchive["source"]): string[] {
+  const archived: string[] = [];
+  for (const nodeId of nodeIds) {
+    const { nodes, edges } = useGraphStore.getState();
+    const node = nodes.get(nodeId);
+    if (!node || node.state === "archived") continue;
+
+    const attached = edges.filter((e) => e.source === nodeId || e.target === nodeId);
+    if (attached.length > 0) persistRemoveEdges(attached.map((e) => e.id));
+    persistUpdateNodeArchive(nodeId, {
+      archivedAt: Date.now(),
+      previousState: node.state,
+      source,
+      edges: attached,
+    });
+    persistUpdateNodeState(nodeId, "archived");
+    archived.push(nodeId);
+  }
+  return archived;
+}
+
+/**
+ * Return archived nodes to their prior state and reattach their edges. An
+ * edge whose other end is still archived is handed to that node's record so
+ * it comes back with it. Returns the ids that were restored.
+ */
+export function restoreNodes(nodeIds: string[]): string[] {
+  const { nodes } = useGraphStore.getState();
+  const restoring = nodeIds
+    .map((id) => nodes.get(id))
+    .filter((n): n is PaperNode => !!n && n.state === "archived");
+  if (restoring.length === 0) return [];
+
+  for (const node of restoring) {
+    persistUpdateNodeState(node.id, node.archive?.previousState ?? "discovered");
+    persistUpdateNodeArchive(node.id, undefined);
+  }
+
+  // Only once the whole batch is back, so edges between restored nodes return too
+  const graph = useGraphStore.getState();
+  const attachedIds = new Set(graph.edges.map((e) => e.id));
+  const reattach: GraphEdge[] = [];
+  const handedOver = new Map<string, GraphEdge[]>();
+  for (const node of restoring) {
+    for (const edge of node.archive?.edges ?? []) {
+      if (attachedIds.has(edge.id)) continue;
+      const otherId = edge.source === node.id ? edge.target : edge.source;
+      const other = graph.nodes.get(otherId);
+      if (!other) continue;
+      attachedIds.add(edge.id);
+      if (other.state === "archived") {
+        handedOver.set(otherId, [...(handedOver.get(otherId) ?? []), edge]);
+      } else {
+        reattach.push(edge);
+      }
+    }
+  }
+  if (reattach.length > 0) persistAddEdges(reattach);
+
+  for (const [otherId, edges] of handedOver) {
+    const archive = graph.nodes.get(otherId)?.archive;
+    if (!archive) continue;
+    const known = new Set(archive.edges.map((e) => e.id));
+    const added = edges.filter((e) => !known.has(e.id));
+    if (added.length > 0) persistUpdateNodeArchive(otherId, { ...archive, edges: [...archive.edges, ...added] });
+  }
+
+  useGraphStore.getState().recalculateScores();
+  return restoring.map((n) => n.id);
+}
+
+/**
+ * Permanently delete archived nodes with their edges, cluster membership and
+ * annotations. Nodes that aren't archived are skipped. Returns how many were
+ * deleted.
+ */
+export function purgeArchivedNodes(nodeIds: string[], source: "canvas" | "system" = "canvas"): number {
+  const holeId = useRabbitHoleStore.getState().currentRabbitHoleId;
+  if (!holeId) return 0;
+
+  const { nodes, edges, clusters } = useGraphStore.getState();
+  const ids = nodeIds.filter((id) => nodes.get(id)?.state === "archived");
+  if (ids.length === 0) return 0;
+  const idSet = new Set(ids);
+
+  const attached = edges.filter((e) => idSet.has(e.source) || idSet.has(e.target));
+  if (attached.length > 0) persistRemoveEdges(attached.map((e) => e.id));
+  persistRemoveNodes(ids);
+  // removeNodes already dropped them from clusters in the store
+  if (clusters.some((c) => c.nodeIds.some((id) => idSet.has(id)))) {
+    persistSetClusters(useGraphStore.getState().clusters);
+  }
+  for (const annotation of useAnnotationStore.getState().byHole[holeId] ?? []) {
+    if (idSet.has(annotation.paperId)) deleteAnnotation(annotation.id);
+  }
+
+  const event: AppliedChangeEvent = {
+    id: `change-${nanoid(10)}`,
+    rabbitHoleId: holeId,
+    source,
+    actionType: "purge-nodes",
+    summary:
+      source === "system"
+        ? `Auto-purged ${ids.length} expired archived source(s)`
+        : `Permanently deleted ${ids.length} archived source(s)`,
+    payload: { nodeIds: ids },
+    createdAt: Date.now(),
+  };
+  useWorkflowStore.getState().addAppliedChange(event);
+  persistAppendActionEvent(event);
+
+  console.log(`[STDB] purged ${ids.length} archived node(s) from hole ${holeId.slice(0, 8)} (${source})`);
+  return ids.length;
+}
+
+/**
+ * Apply the open hole's auto-purge policy. Nodes archived before archive
+ * records existed have no archival time and are never purged automatically.
+ */
+export function purgeExpiredArchive(): number {
+  const days = useRabbitHoleStore.getState().getCurrentRabbitHole()?.archivePurgeDays;
+  if (!days) return 0;
+
+  const cutoff = Date.now() - days * DAY_MS;
+  const expired: string[] = [];
+  for (const node of useGraphStore.getState().nodes.values()) {
+    if (node.state === "archived" && node.archive && node.archive.archivedAt < cutoff) {
+      expired.push(node.id);
+    }
+  }
+  return purgeArchivedNodes(expired, "system");
+}
+
+/** Set (or clear, with undefined) how long the open hole keeps archived nodes. */
+export function setArchivePurgeDays(days: number | undefined): void {
+  const holeStore = useRabbitHoleStore.getState();
+  const hole = holeStore.getCurrentRabbitHole();
+  if (!hole) return;
+
+  holeStore.upsertRabbitHole({ ...hole, archivePurgeDays: days });
+  const conn = getConn();
+  if (!conn) return;
+  conn.reducers.setArchivePolicy({ rabbitHoleId: hole.id, purgeAfterDays: days });
+}
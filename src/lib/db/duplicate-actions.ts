@@ -0,0 +1,137 @@
+"use client";
+
+/**
+ * Folding duplicate nodes into one. The surviving node takes the combined
+ * metadata (mergePapers), notes, tags and the furthest-along state; edges and
+ * annotations are moved onto it, and the absorbed ids are kept as aliasIds so
+ * a later insert of the same paper resolves to the survivor.
+ */
+
+import { nanoid } from "nanoid";
+import type { GraphEdge, NodeState, PaperMetadata, PaperNode } from "@/types";
+import { mergePapers } from "@/lib/api/paper-resolver";
+import { useGraphStore } from "@/store/graph-store";
+import {
+  persistAddEdges,
+  persistNodeContent,
+  persistRemoveEdges,
+  persistRemoveNodes,
+  persistSetClusters,
+  persistUpdateNodeData,
+  persistUpdateNodeNotes,
+  persistUpdateNodeState,
+  persistUpdateNodeTags,
+} from "@/lib/db/graph-actions";
+import { reassignAnnotations } from "@/lib/db/annotation-actions";
+import { mergeTagLists } from "@/lib/utils/tags";
+
+const STATE_RANK: Record<NodeState, number> = {
+  archived: 0,
+  discovered: 1,
+  enriched: 2,
+  materialized: 3,
+};
+
+export interface DuplicateMergeResult {
+  /** Duplicate nodes folded into the primary */
+  merged: number;
+  /** Edges moved onto the primary (duplicates and self-loops are dropped) */
+  edgesRewired: number;
+}
+
+function combineData(primary: PaperNode, duplicates: PaperNode[]): PaperMetadata {
+  let data: PaperMetadata = primary.data;
+  for (const duplicate of duplicates) {
+    // mergePapers only covers bibliographic fields; keep URL-node extras too
+    data = { ...duplicate.data, ...data, ...mergePapers(data, duplicate.data) };
+  }
+  const aliases = new Set(primary.data.aliasIds ?? []);
+  for (const duplicate of duplicates) {
+    aliases.add(duplicate.id);
+    for (const alias of duplicate.data.aliasIds ?? []) aliases.add(alias);
+  }
+  aliases.delete(primary.id);
+  return { ...data, aliasIds: aliases.size > 0 ? Array.from(aliases) : undefined };
+}
+
+function combineNotes(nodes: PaperNode[]): string {
+  const seen = new Set<string>();
+  const parts: string[] = [];
+  for (const node of nodes) {
+    const notes = node.userNotes?.trim();
+    if (!notes || seen.has(notes)) continue;
+    seen.add(notes);
+    parts.push(notes);
+  }
+  return parts.join("\n\n");
+}
+
+/** Fold `duplicateIds` into `primaryId`. Unknown or archived ids are skipped. */
+export function mergeDuplicateNodes(primaryId: string, duplicateIds: string[]): DuplicateMergeResult {
+  const graph = useGraphStore.getState();
+  const primary = graph.nodes.get(primaryId);
+  if (!primary) return { merged: 0, edgesRewired: 0 };
+  const duplicates = duplicateIds
+    .filter((id) => id !== primaryId)
+    .map((id) => graph.nodes.get(id))
+    .filter((n): n is PaperNode => !!n && n.state !== "archived");
+  if (duplicates.length === 0) return { merged: 0, edgesRewired: 0 };
+  const absorbed = new Set(duplicates.map((n) => n.id));
+  const all = [primary, ...duplicates];
+
+  // Metadata first: notes are mirrored into data, so they're written after it
+  const nodes = new Map(graph.nodes);
+  nodes.set(primaryId, { ...primary, data: combineData(primary, duplicates) });
+  useGraphStore.setState({ nodes });
+  persistUpdateNodeData(primaryId);
+
+  const notes = combineNotes(all);
+  if (notes !== (primary.userNotes ?? "")) persistUpdateNodeNotes(primaryId, notes);
+  const tags = all.reduce<string[]>((acc, node) => mergeTagLists(acc, node.userTags ?? []), []);
+  if (tags.length !== (primary.userTags ?? []).length) persistUpdateNodeTags(primaryId, tags);
+  const state = all.reduce<NodeState>(
+    (best, node) => (STATE_RANK[node.state] > STATE_RANK[best] ? node.state : best),
+    primary.state
+  );
+  if (state !== primary.state) persistUpdateNodeState(primaryId, state);
+
+  const withContent = duplicates.find((n) => n.data.fetchedContent);
+  if (!primary.data.fetchedContent && withContent?.data.fetchedContent) {
+    persistNodeContent(
+      primaryId,
+      withContent.data.url ?? "",
+      withContent.data.fetchedContent,
+      withContent.data.contentTruncated ?? false
+    );
+  }
+
+  // Rewire edges onto the primary, skipping self-loops and repeats. A rewired
+  // edge is a new row, so undo removes it and brings the original back
+  const edgeKey = (e: GraphEdge) => `${e.source}|${e.target}|${e.type}`;
+  const moving = graph.edges.filter((e) => absorbed.has(e.source) || absorbed.has(e.target));
+  const kept = new Set(
+    graph.edges.filter((e) => !absorbed.has(e.source) && !absorbed.has(e.target)).map(edgeKey)
+  );
+  const rewired: GraphEdge[] = [];
+  for (const edge of moving) {
+    const next = {
+      ...edge,
+      id: `edge-${nanoid(10)}`,
+      source: absorbed.has(edge.source) ? primaryId : edge.source,
+      target: absorbed.has(edge.target) ? primaryId : edge.target,
+    };
+    if (next.source === next.target || kept.has(edgeKey(next))) continue;
+    kept.add(edgeKey(next));
+    rewired.push(next);
+  }
+  if (moving.length > 0) persistRemoveEdges(moving.map((e) => e.id));
+  if (rewired.length > 0) persistAddEdges(rewired);
+
+  reassignAnnotations(Array.from(absorbed), primaryId);
+  persistRemoveNodes(Array.from(absorbed));
+  // removeNodes dropped the duplicates from their clusters in the store
+  persistSetClusters(useGraphStore.getState().clusters);
+  useGraphStore.getState().recalculateScores();
+
+  return { merged: duplicates.length, edgesRewired: rewired.length };
+}
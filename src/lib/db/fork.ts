@@ -0,0 +1,222 @@
+/**
+ * fork.ts
+ *
+ * Deep-copies a rabbit hole into a new one that records its parent. The
+ * source rows are read through a short-lived subscription (the source need
+ * not be the open hole) and written back with the *_batch reducers, so even
+ * large holes fork in a handful of reducer calls.
+ *
+ * Row ids are global primary keys, so every copied row gets a fresh id and
+ * every reference to it (edge endpoints, cluster members, annotations,
+ * node_content) is rewritten.
+ */
+
+import { newRabbitHoleId, useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import {
+  copiedRowId,
+  subscribeToHole,
+  toBatches,
+  type EdgeBatchRow,
+  type NodeBatchRow,
+  type NodeContentBatchRow,
+} from "@/lib/db/hole-rows";
+
+export interface ForkOptions {
+  /** Name for the new hole; defaults to "<source> (fork)" */
+  name?: string;
+  /** Copy chat threads and their messages as well */
+  includeChat?: boolean;
+}
+
+export interface ForkResult {
+  rabbitHoleId: string;
+  name: string;
+  nodes: number;
+  edges: number;
+  clusters: number;
+  threads: number;
+  messages: number;
+}
+
+function remapAll(ids: Iterable<string>): Map<string, string> {
+  const mapping = new Map<string, string>();
+  for (const id of ids) mapping.set(id, copiedRowId(id));
+  return mapping;
+}
+
+/** Copy a rabbit hole into a new hole linked to it as a fork. */
+export async function forkRabbitHole(sourceId: string, options: ForkOptions = {}): Promise<ForkResult> {
+  const holeStore = useRabbitHoleStore.getState();
+  const conn = holeStore.dbConnection;
+  if (!conn) throw new Error("Not connected to the database");
+  const source = holeStore.rabbitHoles.find((h) => h.id === sourceId);
+  if (!source) throw new Error("Rabbit hole not found");
+
+  const includeChat = options.includeChat ?? false;
+  const tables = ["node", "edge", "cluster", "node_content", "tag", "annotation"];
+  if (includeChat) tables.push("chat_thread", "chat_message");
+
+  const t0 = performance.now();
+  const unsubscribe = await subscribeToHole(conn, sourceId, tables);
+
+  try {
+    const inHole = <R extends { rabbitHoleId: string }>(rows: Iterable<R>) =>
+      Array.from(rows).filter((row) => row.rabbitHoleId === sourceId);
+
+    const nodes = inHole(conn.db.node.iter());
+    const nodeIds = remapAll(nodes.map((n) => n.id));
+    const edges = inHole(conn.db.edge.iter()).filter((e) => nodeIds.has(e.source) && nodeIds.has(e.target));
+    const edgeIds = remapAll(edges.map((e) => e.id));
+    const clusters = inHole(conn.db.cluster.iter());
+    const contents = inHole(conn.db.node_content.iter()).filter((c) => nodeIds.has(c.nodeId));
+    const tags = inHole(conn.db.tag.iter());
+    const annotations = inHole(conn.db.annotation.iter()).filter((a) => nodeIds.has(a.nodeId));
+    const threads = includeChat ? inHole(conn.db.chat_thread.iter()) : [];
+    const threadIds = remapAll(threads.map((t) => t.id));
+    const messages = includeChat
+      ? inHole(conn.db.chat_message.iter()).filter((m) => threadIds.has(m.threadId))
+      : [];
+    const nodeId = (id: string) => nodeIds.get(id) ?? id;
+
+    const holeId = newRabbitHoleId();
+    const name = options.name?.trim() || `${source.name} (fork)`;
+    conn.reducers.forkRabbitHole({
+      id: holeId,
+      parentId: sourceId,
+      name,
+      rootQuery: source.rootQuery,
+    });
+
+    // Notes travel both in the user_notes column and as _userNotes in data_json
+    const nodeRows: NodeBatchRow[] = nodes.map((n) => ({
+      nodeId: nodeId(n.id),
+      dataJson: n.dataJson,
+      state: n.state,
+      positionX: n.positionX,
+      positionY: n.positionY,
+      scoresJson: n.scoresJson,
+      addedAt: Number(n.addedAt),
+      expandedAt: n.expandedAt != null ? Number(n.expandedAt) : undefined,
+      userNotes: n.userNotes ?? undefined,
+      tagsJson: n.tagsJson ?? undefined,
+    }));
+    for (const batch of toBatches(nodeRows)) {
+      conn.reducers.addNodesBatch({ rabbitHoleId: holeId, nodesJson: JSON.stringify(batch) });
+    }
+
+    const edgeRows: EdgeBatchRow[] = edges.map((e) => ({
+      edgeId: edgeIds.get(e.id) ?? e.id,
+      source: nodeId(e.source),
+      target: nodeId(e.target),
+      edgeType: e.edgeType,
+      trust: e.trust,
+      weight: e.weight,
+      evidence: e.evidence ?? undefined,
+      metadataJson: e.metadataJson ?? undefined,
+    }));
+    for (const batch of toBatches(edgeRows)) {
+      conn.reducers.addEdgesBatch({ rabbitHoleId: holeId, edgesJson: JSON.stringify(batch) });
+    }
+
+    if (clusters.length > 0) {
+      conn.reducers.setClusters({
+        rabbitHoleId: holeId,
+        clustersJson: JSON.stringify(
+          clusters.map((c) => {
+            let members: string[] = [];
+            let centroid: unknown;
+            try {
+              members = JSON.parse(c.nodeIdsJson);
+              centroid = c.centroidJson ? JSON.parse(c.centroidJson) : undefined;
+            } catch {}
+            return {
+              id: copiedRowId(c.id),
+              label: c.label,
+              description: c.description ?? undefined,
+              nodeIds: members.filter((id) => nodeIds.has(id)).map(nodeId),
+              color: c.color ?? undefined,
+              centroid,
+            };
+          })
+        ),
+      });
+    }
+
+    const contentRows: NodeContentBatchRow[] = contents.map((c) => ({
+      nodeId: nodeId(c.nodeId),
+      url: c.url,
+      content: c.content,
+      truncated: c.truncated,
+    }));
+    for (const batch of toBatches(contentRows)) {
+      conn.reducers.setNodeContentsBatch({ rabbitHoleId: holeId, contentsJson: JSON.stringify(batch) });
+    }
+
+    for (const tag of tags) {
+      conn.reducers.upsertTag({
+        rabbitHoleId: holeId,
+        tagId: copiedRowId(tag.id),
+        name: tag.name,
+        color: tag.color ?? undefined,
+      });
+    }
+
+    for (const annotation of annotations) {
+      conn.reducers.upsertAnnotation({
+        rabbitHoleId: holeId,
+        annotationId: copiedRowId(annotation.id),
+        nodeId: nodeId(annotation.nodeId),
+        text: annotation.text,
+        note: annotation.note ?? undefined,
+        tagsJson: annotation.tagsJson,
+        annotationType: annotation.annotationType ?? undefined,
+      });
+    }
+
+    for (const thread of threads) {
+      const threadId = threadIds.get(thread.id) ?? thread.id;
+      conn.reducers.createChatThread({
+        rabbitHoleId: holeId,
+        threadId,
+        title: thread.title ?? undefined,
+      });
+
+      const messageRows = messages
+        .filter((m) => m.threadId === thread.id)
+        .map((m) => {
+          const messageId = copiedRowId(m.id);
+          // The UIMessage inside carries its own id, which chat-actions keys on
+          let messageJson = m.messageJson;
+          try {
+            messageJson = JSON.stringify({ ...JSON.parse(messageJson), id: messageId });
+          } catch {}
+          return { messageId, role: m.role, messageJson, seq: Number(m.seq) };
+        });
+      for (const batch of toBatches(messageRows)) {
+        conn.reducers.upsertChatMessagesBatch({
+          rabbitHoleId: holeId,
+          threadId,
+          messagesJson: JSON.stringify(batch),
+        });
+      }
+    }
+
+    console.log(
+      `[STDB] fork ${sourceId.slice(0, 8)} → hole ${holeId}: ${nodes.length} nodes, ${edges.length} edges, ` +
+      `${clusters.length} clusters, ${contents.length} contents, ${messages.length} chat messages ` +
+      `in ${(performance.now() - t0).toFixed(1)}ms`
+    );
+
+    return {
+      rabbitHoleId: holeId,
+      name,
+      nodes: nodes.length,
+      edges: edges.length,
+      clusters: clusters.length,
+      threads: threads.length,
+      messages: messages.length,
+    };
+  } finally {
+    unsubscribe();
+  }
+}
@@ -12,7 +12,9 @@
 import { useGraphStore } from "@/store/graph-store";
 import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
 import { useTimelineStore } from "@/store/timeline-store";
-import type { PaperNode, GraphEdge, Cluster, NodeState } from "@/types";
+import { recordGraphOp } from "@/lib/db/graph-log";
+import { noteClusterWrite, noteEdgeWrites, noteNodeWrites } from "@/lib/graph/undo-writes";
+import type { AppliedChangeEvent, PaperNode, GraphEdge, Cluster, NodeArchive, NodeState } from "@/types";
 
 function getConn() {
   return useRabbitHoleStore.getState().dbConnection;
@@ -24,6 +26,7 @@ function getHoleId() {
 
 /** Persist and add nodes to the current rabbit hole. */
 export function persistAddNodes(nodes: PaperNode[]): void {
+  noteNodeWrites(nodes.map((n) => n.id));
   useGraphStore.getState().addNodes(nodes);
 
   const conn = getConn();
@@ -42,8 +45,17 @@ export function persistAddNodes(nodes: PaperNode[]): void {
       scoresJson: JSON.stringify(node.scores),
       addedAt: BigInt(node.addedAt),
     });
+    // Restored or imported nodes can already carry tags
+    if (node.userTags && node.userTags.length > 0) {
+      conn.reducers.updateNodeTags({
+        rabbitHoleId: holeId,
+        nodeId: node.id,
+        tagsJson: JSON.stringify(node.userTags),
+      });
+    }
   }
   console.log(`[STDB] reducer:addNode ×${nodes.length} dispatched in ${(performance.now() - t0).toFixed(1)}ms`);
+  recordGraphOp(holeId, { type: "add-nodes", nodes });
 
   // Track timeline events
   for (const node of nodes) {
@@ -57,6 +69,16 @@ export function persistAddNodes(nodes: PaperNode[]): void {
 
 /** Persist and remove nodes from the current rabbit hole. */
 export function persistRemoveNodes(nodeIds: string[]): void {
+  // removeNodes also drops the nodes' edges and cluster membership
+  const removing = new Set(nodeIds);
+  noteNodeWrites(nodeIds);
+  noteEdgeWrites(
+    useGraphStore
+      .getState()
+      .edges.filter((e) => removing.has(e.source) || removing.has(e.target))
+      .map((e) => e.id)
+  );
+  noteClusterWrite();
   useGraphStore.getState().removeNodes(nodeIds);
 
   const conn = getConn();
@@ -68,6 +90,7 @@ export function persistRemoveNodes(nodeIds: string[]): void {
     conn.reducers.removeNode({ rabbitHoleId: holeId, nodeId });
   }
   console.log(`[STDB] reducer:removeNode ×${nodeIds.length} dispatched in ${(performance.now() - t0).toFixed(1)}ms`);
+  recordGraphOp(holeId, { type: "remove-nodes", nodeIds });
 
   // Track timeline events
   for (const nodeId of nodeIds) {
@@ -81,6 +104,7 @@ export function persistRemoveNodes(nodeIds: string[]): void {
 
 /** Persist and add edges. */
 export function persistAddEdges(edges: GraphEdge[]): void {
+  noteEdgeWrites(edges.map((e) => e.id));
   useGraphStore.getState().addEdges(edges);
 
   const conn = getConn();
@@ -102,10 +126,12 @@ export function persistAddEdges(edges: GraphEdge[]): void {
     });
   }
   console.log(`[STDB] reducer:addEdge ×${edges.length} dispatched in ${(performance.now() - t0).toFixed(1)}ms`);
+  recordGraphOp(holeId, { type: "add-edges", edges });
 }
 
 /** Persist and remove edges. */
 export function persistRemoveEdges(edgeIds: string[]): void {
+  noteEdgeWrites(edgeIds);
   useGraphStore.getState().removeEdges(edgeIds);
 
   const conn = getConn();
@@ -115,10 +141,38 @@ export function persistRemoveEdges(edgeIds: string[]): void {
   for (const edgeId of edgeIds) {
     conn.reducers.removeEdge({ rabbitHoleId: holeId, edgeId });
   }
+  recordGraphOp(holeId, { type: "remove-edges", edgeIds });
+}
+
+/** Persist an edit to an edge's type, trust, weight, evidence or metadata. */
+export function persistUpdateEdge(
+  edgeId: string,
+  patch: Partial<Omit<GraphEdge, "id" | "source" | "target">>
+): void {
+  noteEdgeWrites([edgeId]);
+  useGraphStore.getState().updateEdge(edgeId, patch);
+  const edge = useGraphStore.getState().edges.find((e) => e.id === edgeId);
+  if (!edge) return;
+
+  const conn = getConn();
+  const holeId = getHoleId();
+  if (!conn || !holeId) return;
+
+  conn.reducers.updateEdge({
+    rabbitHoleId: holeId,
+    edgeId,
+    edgeType: edge.type,
+    trust: edge.trust,
+    weight: edge.weight,
+    evidence: edge.evidence ?? undefined,
+    metadataJson: edge.metadata ? JSON.stringify(edge.metadata) : undefined,
+  });
+  recordGraphOp(holeId, { type: "edge-update", edge });
 }
 
 /** Persist a node state change. */
 export function persistUpdateNodeState(nodeId: string, state: NodeState): void {
+  noteNodeWrites([nodeId]);
   useGraphStore.getState().updateNodeState(nodeId, state);
 
   const conn = getConn();
@@ -126,10 +180,12 @@ export function persistUpdateNodeState(nodeId: string, state: NodeState): void {
   if (!conn || !holeId) return;
 
   conn.reducers.updateNodeState({ rabbitHoleId: holeId, nodeId, state });
+  recordGraphOp(holeId, { type: "node-state", nodeId, state });
 }
 
 /** Persist node position updates. */
 export function persistUpdateNodePositions(positions: Map<string, { x: number; y: number }>): void {
+  noteNodeWrites(positions.keys());
   useGraphStore.getState().updateNodePositions(positions);
 
   const conn = getConn();
@@ -146,21 +202,20 @@ export function persistUpdateNodePositions(positions: Map<string, { x: number; y
     });
   }
   console.log(`[STDB] reducer:updateNodePosition ×${positions.size} dispatched in ${(performance.now() - t0).toFixed(1)}ms`);
+  recordGraphOp(holeId, { type: "node-positions", positions: Object.fromEntries(positions) });
 }
 
-/** Persist node notes and tags change. */
-export function persistUpdateNodeNotes(nodeId: string, userNotes: string, userTags: string[]): void {
+/** Persist node notes change. Tags are stored separately, see persistUpdateNodeTags. */
+export function persistUpdateNodeNotes(nodeId: string, userNotes: string): void {
   // Update the Zustand store immediately
   const nodes = new Map(useGraphStore.getState().nodes);
   const node = nodes.get(nodeId);
   if (!node) return;
-  // Encode tags as a JSON prefix in the notes string so it round-trips through dataJson
-  const tagsPrefix = userTags.length > 0 ? `[tags:${JSON.stringify(userTags)}]\n` : "";
-  const combined = tagsPrefix + userNotes;
+  noteNodeWrites([nodeId]);
 
-  // Store notes on node and encode into data for dataJson serialization
-  const updatedData = { ...node.data, _userNotes: combined || undefined };
-  nodes.set(nodeId, { ...node, data: updatedData, userNotes: userNotes || undefined, userTags: userTags.length > 0 ? userTags : undefined });
+  // Store notes on node and mirror into data for dataJson serialization
+  const updatedData = { ...node.data, _userNotes: userNotes || undefined };
+  nodes.set(nodeId, { ...node, data: updatedData, userNotes: userNotes || undefined });
   useGraphStore.setState({ nodes });
 
   const conn = getConn();
@@ -171,6 +226,26 @@ export function persistUpdateNodeNotes(nodeId: string, userNotes: string, userTa
   if (!updatedNode) return;
 
   // Prefer dedicated notes column persistence when available.
+  persistNodeNotesColumn(holeId, nodeId, userNotes || undefined);
+
+  // Keep backward compatibility: persist _userNotes inside data_json as fallback.
+  conn.reducers.updateNodeData({
+    rabbitHoleId: holeId,
+    nodeId,
+    dataJson: JSON.stringify(updatedNode.data),
+    scoresJson: JSON.stringify(updatedNode.scores),
+  });
+  console.log(`[STDB] reducer:updateNodeNotes/updateNodeData (notes) for ${nodeId}`);
+}
+
+/**
+ * Write a node's user_notes column in any hole (merge writes into holes that
+ * aren't open). The data_json mirror is left to the caller.
+ */
+export function persistNodeNotesColumn(rabbitHoleId: string, nodeId: string, userNotes: string | undefined): void {
+  const conn = getConn();
+  if (!conn) return;
+
   try {
     (
       conn.reducers as unknown as {
@@ -180,27 +255,53 @@ export function persistUpdateNodeNotes(nodeId: string, userNotes: string, userTa
           userNotes?: string;
         }) => void;
       }
-    ).updateNodeNotes?.({
-      rabbitHoleId: holeId,
-      nodeId,
-      userNotes: combined || undefined,
-    });
+    ).updateNodeNotes?.({ rabbitHoleId, nodeId, userNotes });
   } catch (error) {
     // Keep note edits durable even if the connected module lacks this reducer.
     console.warn(`[STDB] reducer:updateNodeNotes unavailable for ${nodeId}`, error);
   }
+}
 
-  // Keep backward compatibility: persist _userNotes inside data_json as fallback.
-  conn.reducers.updateNodeData({
+/** Persist the full tag list of a node. */
+export function persistUpdateNodeTags(nodeId: string, userTags: string[]): void {
+  if (!useGraphStore.getState().nodes.has(nodeId)) return;
+  noteNodeWrites([nodeId]);
+  useGraphStore.getState().setNodeTags(nodeId, userTags);
+
+  const conn = getConn();
+  const holeId = getHoleId();
+  if (!conn || !holeId) return;
+
+  conn.reducers.updateNodeTags({
     rabbitHoleId: holeId,
     nodeId,
-    dataJson: JSON.stringify(updatedNode.data),
-    scoresJson: JSON.stringify(updatedNode.scores),
+    tagsJson: JSON.stringify(userTags),
+  });
+  recordGraphOp(holeId, { type: "node-tags", nodeId, tags: userTags });
+}
+
+/** Persist a node's archive record; undefined clears it on restore. */
+export function persistUpdateNodeArchive(nodeId: string, archive: NodeArchive | undefined): void {
+  if (!useGraphStore.getState().nodes.has(nodeId)) return;
+  noteNodeWrites([nodeId]);
+  useGraphStore.getState().setNodeArchive(nodeId, archive);
+
+  const conn = getConn();
+  const holeId = getHoleId();
+  if (!conn || !holeId) return;
+
+  conn.reducers.updateNodeArchive({
+    rabbitHoleId: holeId,
+    nodeId,
+    archiveJson: archive ? JSON.stringify(archive) : undefined,
   });
-  console.log(`[STDB] reducer:updateNodeNotes/updateNodeData (notes) for ${nodeId}`);
 }
 
-/** Parse persisted notes string back into { notes, tags }. */
+/**
+ * Parse the legacy notes encoding, where tags were prepended to the notes as
+ * `[tags:[...]]\n`. Only needed to read rows written before tags got their own
+ * column; new writes store plain notes.
+ */
 export function parsePersistedNotes(raw?: string): { notes: string; tags: string[] } {
   if (!raw) return { notes: "", tags: [] };
   const tagMatch = raw.match(/^\[tags:(\[.*?\])\]\n/);
@@ -216,10 +317,61 @@ export function parsePersistedNotes(raw?: string): { notes: string; tags: string
   return { notes: raw, tags: [] };
 }
 
+/** A persisted tag list; anything other than a JSON array of strings reads as no tags. */
+function parseTagList(json: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return Array.isArray(parsed) && parsed.every((t) => typeof t === "string") ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Resolve a node row's notes and tags. The tags column wins; rows without it
+ * fall back to the legacy prefix and report `legacy: true` so the caller can
+ * migrate them.
+ */
+export function parseNodeNotesAndTags(
+  tagsJson: string | undefined,
+  rawNotes: string | undefined
+): { notes: string; tags: string[]; legacy: boolean } {
+  const parsed = parsePersistedNotes(rawNotes);
+  const hasPrefix = parsed.notes !== (rawNotes ?? "");
+  if (tagsJson != null) {
+    return { notes: parsed.notes, tags: parseTagList(tagsJson), legacy: hasPrefix };
+  }
+  return { notes: parsed.notes, tags: parsed.tags, legacy: hasPrefix };
+}
+
+/**
+ * One-off migration for nodes whose tags still live in the notes prefix:
+ * writes the tags column and rewrites the notes without the prefix. Nodes
+ * must already be in the graph store with parsed notes and tags.
+ */
+export function migrateLegacyNodeTags(nodeIds: string[]): void {
+  const conn = getConn();
+  const holeId = getHoleId();
+  if (!conn || !holeId || nodeIds.length === 0) return;
+
+  for (const nodeId of nodeIds) {
+    const node = useGraphStore.getState().nodes.get(nodeId);
+    if (!node) continue;
+    conn.reducers.updateNodeTags({
+      rabbitHoleId: holeId,
+      nodeId,
+      tagsJson: JSON.stringify(node.userTags ?? []),
+    });
+    persistUpdateNodeNotes(nodeId, node.userNotes ?? "");
+  }
+  console.log(`[STDB] migrated legacy note tags on ${nodeIds.length} node(s)`);
+}
+
 /** Persist node data change (after scoring recalc). */
 export function persistUpdateNodeData(nodeId: string): void {
   const node = useGraphStore.getState().nodes.get(nodeId);
   if (!node) return;
+  noteNodeWrites([nodeId]);
 
   const conn = getConn();
   const holeId = getHoleId();
@@ -231,10 +383,43 @@ export function persistUpdateNodeData(nodeId: string): void {
     dataJson: JSON.stringify(node.data),
     scoresJson: JSON.stringify(node.scores),
   });
+  recordGraphOp(holeId, { type: "node-data", nodeId, data: node.data });
+}
+
+/** Attach fetched or extracted full text to a node (node_content table + store). */
+export function persistNodeContent(
+  nodeId: string,
+  url: string,
+  content: string,
+  truncated: boolean
+): void {
+  const nodes = new Map(useGraphStore.getState().nodes);
+  const node = nodes.get(nodeId);
+  if (node) {
+    noteNodeWrites([nodeId]);
+    nodes.set(nodeId, {
+      ...node,
+      data: { ...node.data, fetchedContent: content, contentTruncated: truncated },
+    });
+    useGraphStore.setState({ nodes });
+  }
+
+  const conn = getConn();
+  const holeId = getHoleId();
+  if (!conn || !holeId) return;
+
+  conn.reducers.setNodeContent({
+    rabbitHoleId: holeId,
+    nodeId,
+    url,
+    content,
+    truncated,
+  });
 }
 
 /** Persist clusters update. */
 export function persistSetClusters(clusters: Cluster[]): void {
+  noteClusterWrite();
   useGraphStore.getState().setClusters(clusters);
 
   const conn = getConn();
@@ -254,10 +439,34 @@ export function persistSetClusters(clusters: Cluster[]): void {
     rabbitHoleId: holeId,
     clustersJson: JSON.stringify(clustersPayload),
   });
+  recordGraphOp(holeId, { type: "clusters", clusters });
+}
+
+/**
+ * Append an applied-change event to the hole's action log. The event is
+ * already in workflow-store; this only writes the action_event row.
+ */
+export function persistAppendActionEvent(event: AppliedChangeEvent): void {
+  const conn = getConn();
+  if (!conn) return;
+
+  conn.reducers.appendActionEvent({
+    rabbitHoleId: event.rabbitHoleId,
+    eventId: event.id,
+    source: event.source,
+    actionType: event.actionType,
+    summary: event.summary,
+    payloadJson: event.payload ? JSON.stringify(event.payload) : undefined,
+    createdAt: BigInt(event.createdAt),
+  });
 }
 
 /** Persist clear graph for the current rabbit hole. */
 export function persistClearGraph(): void {
+  const graph = useGraphStore.getState();
+  noteNodeWrites(graph.nodes.keys());
+  noteEdgeWrites(graph.edges.map((e) => e.id));
+  noteClusterWrite();
   useGraphStore.getState().clearGraph();
 
   const conn = getConn();
@@ -265,4 +474,5 @@ export function persistClearGraph(): void {
   if (!conn || !holeId) return;
 
   conn.reducers.clearRabbitHole({ rabbitHoleId: holeId });
+  recordGraphOp(holeId, { type: "clear" });
 }
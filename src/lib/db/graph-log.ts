@@ -0,0 +1,113 @@
+/**
+ * graph-log.ts
+ *
+ * Append-only log of graph mutations per rabbit hole (graph_op table). The
+ * persist* wrappers in graph-actions record every change here, so the graph
+ * can be rebuilt at any earlier point — see lib/graph/replay.ts.
+ *
+ * The log is not part of the live hole subscription; it is only loaded when
+ * the user opens time-travel.
+ */
+
+import { nanoid } from "nanoid";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import type { GraphOp, GraphOpPayload, PaperMetadata } from "@/types";
+
+// Orders ops written in the same millisecond; created_at orders everything else
+let nextSeq = 0;
+
+function withoutContent(data: PaperMetadata): PaperMetadata {
+  const rest = { ...data };
+  delete rest.fetchedContent;
+  delete rest.contentTruncated;
+  return rest;
+}
+
+/** Full text lives in node_content; keep it out of the log. */
+function compactPayload(payload: GraphOpPayload): GraphOpPayload {
+  if (payload.type === "add-nodes") {
+    return {
+      ...payload,
+      nodes: payload.nodes.map((n) => ({ ...n, data: withoutContent(n.data) })),
+    };
+  }
+  if (payload.type === "node-data") {
+    return { ...payload, data: withoutContent(payload.data) };
+  }
+  return payload;
+}
+
+/** Append one graph mutation to a hole's log. */
+export function recordGraphOp(rabbitHoleId: string, payload: GraphOpPayload): void {
+  const conn = useRabbitHoleStore.getState().dbConnection;
+  if (!conn) return;
+
+  const { type, ...rest } = compactPayload(payload);
+  conn.reducers.appendGraphOp({
+    rabbitHoleId,
+    opId: `op-${nanoid(12)}`,
+    seq: BigInt(nextSeq++),
+    opType: type,
+    payloadJson: JSON.stringify(rest),
+    createdAt: BigInt(Date.now()),
+  });
+}
+
+function rowToGraphOp(row: {
+  id: string;
+  rabbitHoleId: string;
+  seq: bigint;
+  opType: string;
+  payloadJson: string;
+  createdAt: bigint;
+}): GraphOp | null {
+  try {
+    const payload = JSON.parse(row.payloadJson) as Record<string, unknown>;
+    return {
+      ...payload,
+      type: row.opType,
+      id: row.id,
+      rabbitHoleId: row.rabbitHoleId,
+      seq: Number(row.seq),
+      createdAt: Number(row.createdAt),
+    } as GraphOp;
+  } catch {
+    return null;
+  }
+}
+
+export function compareGraphOps(a: GraphOp, b: GraphOp): number {
+  return a.createdAt - b.createdAt || a.seq - b.seq || a.id.localeCompare(b.id);
+}
+
+/**
+ * Fetch a hole's full mutation log, oldest first. Uses a short-lived
+ * subscription that is dropped once the rows are read.
+ */
+export function loadGraphOps(rabbitHoleId: string): Promise<GraphOp[]> {
+  const conn = useRabbitHoleStore.getState().dbConnection;
+  if (!conn) return Promise.reject(new Error("Not connected to the database"));
+
+  return new Promise((resolve, reject) => {
+    const t0 = performance.now();
+    const handle = conn
+      .subscriptionBuilder()
+      .onApplied(() => {
+        const ops: GraphOp[] = [];
+        for (const row of conn.db.graph_op.iter()) {
+          if (row.rabbitHoleId !== rabbitHoleId) continue;
+          const op = rowToGraphOp(row);
+          if (op) ops.push(op);
+        }
+        handle.unsubscribe();
+        console.log(
+          `[STDB] graph_op hole:${rabbitHoleId.slice(0, 8)} loaded ${ops.length} ops in ${(performance.now() - t0).toFixed(1)}ms`
+        );
+        resolve(ops.sort(compareGraphOps));
+      })
+      .onError((ctx) => {
+        reject(ctx.event ?? new Error("Failed to load graph history"));
+      })
+      .subscribe(`SELECT * FROM graph_op WHERE rabbit_hole_id = '${rabbitHoleId}'`);
+  });
+}
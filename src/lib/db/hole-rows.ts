@@ -0,0 +1,210 @@
+/**
+ * hole-rows.ts
+ *
+ * Conversions from SpacetimeDB rows to graph types, plus helpers for the
+ * operations that copy rows between rabbit holes (fork, merge): reading a
+ * hole that isn't open, minting ids for copied rows and batching writes.
+ */
+
+import { nanoid } from "nanoid";
+import { parseNodeNotesAndTags } from "@/lib/db/graph-actions";
+import type { DbConnection } from "@/lib/spacetimedb";
+import type { PaperNode, GraphEdge, Cluster, NodeArchive, NodeScores, NodeState } from "@/types";
+
+export type NodeRow = {
+  id: string;
+  rabbitHoleId: string;
+  dataJson: string;
+  state: string;
+  positionX: number;
+  positionY: number;
+  clusterId?: string;
+  scoresJson: string;
+  addedAt: bigint;
+  expandedAt?: bigint;
+  userNotes?: string;
+  tagsJson?: string;
+  archiveJson?: string;
+};
+
+/** Notes and tags of a node row, reading legacy `[tags:]` note prefixes too */
+export function rowNotesAndTags(row: NodeRow, data: Record<string, unknown>) {
+  const dataNotes = typeof data["_userNotes"] === "string" ? (data["_userNotes"] as string) : undefined;
+  return parseNodeNotesAndTags(row.tagsJson, row.userNotes ?? dataNotes);
+}
+
+/** Convert a SpacetimeDB node row to a PaperNode */
+export function rowToNode(row: NodeRow): PaperNode {
+  let data = { id: row.id, title: "", authors: [], citationCount: 0, referenceCount: 0, externalIds: {} };
+  let scores: NodeScores = { relevance: 0, influence: 0, recency: 0, semanticSimilarity: 0, localCentrality: 0, velocity: 0 };
+  try { data = JSON.parse(row.dataJson); } catch {}
+  try { scores = JSON.parse(row.scoresJson); } catch {}
+
+  const parsedNotes = rowNotesAndTags(row, data as Record<string, unknown>);
+  // A stale record can outlive its archival if the state was changed elsewhere
+  let archive: NodeArchive | undefined;
+  if (row.archiveJson && row.state === "archived") {
+    try { archive = JSON.parse(row.archiveJson); } catch {}
+  }
+
+  return {
+    id: row.id,
+    data,
+    state: row.state as NodeState,
+    position: { x: row.positionX, y: row.positionY },
+    clusterId: row.clusterId ?? undefined,
+    scores,
+    addedAt: Number(row.addedAt),
+    expandedAt: row.expandedAt != null ? Number(row.expandedAt) : undefined,
+    userNotes: parsedNotes.notes || undefined,
+    userTags: parsedNotes.tags.length > 0 ? parsedNotes.tags : undefined,
+    archive,
+  };
+}
+
+/** Convert a SpacetimeDB edge row to a GraphEdge */
+export function rowToEdge(row: {
+  id: string;
+  rabbitHoleId: string;
+  source: string;
+  target: string;
+  edgeType: string;
+  trust: string;
+  weight: number;
+  evidence?: string;
+  metadataJson?: string;
+}): GraphEdge {
+  return {
+    id: row.id,
+    source: row.source,
+    target: row.target,
+    type: row.edgeType as GraphEdge["type"],
+    trust: row.trust as GraphEdge["trust"],
+    weight: row.weight,
+    evidence: row.evidence ?? undefined,
+    metadata: row.metadataJson ? JSON.parse(row.metadataJson) : undefined,
+  };
+}
+
+/** Convert a SpacetimeDB cluster row to a Cluster */
+export function rowToCluster(row: {
+  id: string;
+  rabbitHoleId: string;
+  label: string;
+  description?: string;
+  nodeIdsJson: string;
+  color?: string;
+  centroidJson?: string;
+}): Cluster {
+  let nodeIds: string[] = [];
+  let centroid: number[] | undefined;
+  try { nodeIds = JSON.parse(row.nodeIdsJson); } catch {}
+  try {
+    if (row.centroidJson) {
+      const parsed = JSON.parse(row.centroidJson);
+      // Stored as {x, y} from graph actions; convert to [x, y] for Cluster.centroid
+      if (Array.isArray(parsed)) centroid = parsed;
+      else if (parsed && typeof parsed.x === "number") centroid = [parsed.x, parsed.y];
+    }
+  } catch {}
+  return {
+    id: row.id,
+    label: row.label,
+    description: row.description ?? undefined,
+    nodeIds,
+    color: row.color ?? "#8b5cf6",
+    centroid,
+  };
+}
+
+// Keep each batched reducer call well under the server's message size limit
+const MAX_BATCH_ROWS = 250;
+const MAX_BATCH_CHARS = 512_000;
+
+/** Split rows into batches bounded by both row count and serialized size. */
+export function toBatches<T>(rows: T[]): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let chars = 0;
+  for (const row of rows) {
+    const size = JSON.stringify(row).length;
+    if (current.length > 0 && (current.length >= MAX_BATCH_ROWS || chars + size > MAX_BATCH_CHARS)) {
+      batches.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(row);
+    chars += size;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+const COPY_SUFFIX = /~[\w-]{6}$/;
+
+/** The id a row had before it was copied into another hole. */
+export function baseRowId(id: string): string {
+  return id.replace(COPY_SUFFIX, "");
+}
+
+/**
+ * A fresh id for a row copied into another hole. Row ids are global primary
+ * keys; an earlier copy suffix is dropped so they don't stack.
+ */
+export function copiedRowId(id: string): string {
+  return `${baseRowId(id)}~${nanoid(6)}`;
+}
+
+/** Row shape accepted by the add_nodes_batch reducer. */
+export interface NodeBatchRow {
+  nodeId: string;
+  dataJson: string;
+  state: string;
+  positionX: number;
+  positionY: number;
+  scoresJson: string;
+  addedAt: number;
+  expandedAt?: number;
+  userNotes?: string;
+  tagsJson?: string;
+}
+
+/** Row shape accepted by the add_edges_batch reducer. */
+export interface EdgeBatchRow {
+  edgeId: string;
+  source: string;
+  target: string;
+  edgeType: string;
+  trust: string;
+  weight: number;
+  evidence?: string;
+  metadataJson?: string;
+}
+
+/** Row shape accepted by the set_node_contents_batch reducer. */
+export interface NodeContentBatchRow {
+  nodeId: string;
+  url: string;
+  content: string;
+  truncated: boolean;
+}
+
+/**
+ * Subscribe to the given per-hole tables and resolve, once the rows are in the
+ * client cache, with a function that drops the subscription again.
+ */
+export function subscribeToHole(
+  conn: DbConnection,
+  rabbitHoleId: string,
+  tables: string[]
+): Promise<() => void> {
+  return new Promise((resolve, reject) => {
+    const handle = conn
+      .subscriptionBuilder()
+      .onApplied(() => resolve(() => handle.unsubscribe()))
+      .onError((ctx) => {
+        reject(ctx.event ?? new Error("Failed to load the rabbit hole"));
+      })
+      .subscribe(tables.map((table) => `SELECT * FROM ${table} WHERE rabbit_hole_id = '${rabbitHoleId}'`));
+  });
+}
@@ -0,0 +1,482 @@
+/**
+ * merge.ts
+ *
+ * Merges one rabbit hole (the source) into another (the target). Papers are
+ * matched with isDuplicate — or by id, which also catches nodes a fork copied
+ * — and matched pairs are combined with mergePapers. Where the two sides
+ * disagree on notes, tags or state, planMerge reports a conflict for the
+ * user to resolve before applyMerge writes into the target. Matched papers
+ * keep their place in the target's layout.
+ *
+ * The source hole is left untouched.
+ */
+
+import { nanoid } from "nanoid";
+import { useRabbitHoleStore, type RabbitHole } from "@/store/rabbit-hole-store";
+import { useWorkflowStore } from "@/store/workflow-store";
+import { isDuplicate, mergePapers } from "@/lib/api/paper-resolver";
+import { persistAppendActionEvent, persistNodeNotesColumn } from "@/lib/db/graph-actions";
+import { recordGraphOp } from "@/lib/db/graph-log";
+import {
+  baseRowId,
+  copiedRowId,
+  rowToCluster,
+  rowToEdge,
+  rowToNode,
+  subscribeToHole,
+  toBatches,
+  type EdgeBatchRow,
+  type NodeBatchRow,
+  type NodeContentBatchRow,
+} from "@/lib/db/hole-rows";
+import { mergeTagLists, sameTag } from "@/lib/utils/tags";
+import type { AppliedChangeEvent, Cluster, GraphEdge, NodeState, PaperMetadata, PaperNode } from "@/types";
+
+export type MergeField = "notes" | "tags" | "state";
+
+/** "both" combines notes (delimited) or tags (union); state picks a side */
+export type MergeChoice = "target" | "source" | "both";
+
+export interface MergeMatch {
+  source: PaperNode;
+  target: PaperNode;
+  /** Fields where the two sides disagree */
+  conflicts: MergeField[];
+}
+
+/** Per source node id, the chosen side for each conflicting field */
+export type MergeResolutions = Record<string, Partial<Record<MergeField, MergeChoice>>>;
+
+interface HoleContents {
+  hole: RabbitHole;
+  nodes: PaperNode[];
+  edges: GraphEdge[];
+  clusters: Cluster[];
+  content: NodeContentBatchRow[];
+  tags: { name: string; color?: string }[];
+  annotations: {
+    id: string;
+    nodeId: string;
+    text: string;
+    note?: string;
+    tagsJson: string;
+    annotationType?: string;
+  }[];
+}
+
+export interface MergePlan {
+  source: HoleContents;
+  target: HoleContents;
+  matches: MergeMatch[];
+  /** Source nodes with no counterpart in the target */
+  unmatched: PaperNode[];
+}
+
+export interface MergeResult {
+  matched: number;
+  addedNodes: number;
+  addedEdges: number;
+  clusters: number;
+}
+
+const MERGE_TABLES = ["node", "edge", "cluster", "node_content", "tag", "annotation"];
+
+// Gap between the target graph and the source nodes placed beside it
+const PLACEMENT_GAP = 240;
+
+export const DEFAULT_CHOICES: Record<MergeField, MergeChoice> = {
+  notes: "both",
+  tags: "both",
+  state: "target",
+};
+
+async function loadHole(hole: RabbitHole): Promise<HoleContents> {
+  const conn = useRabbitHoleStore.getState().dbConnection;
+  if (!conn) throw new Error("Not connected to the database");
+
+  const unsubscribe = await subscribeToHole(conn, hole.id, MERGE_TABLES);
+  try {
+    const inHole = <R extends { rabbitHoleId: string }>(rows: Iterable<R>) =>
+      Array.from(rows).filter((row) => row.rabbitHoleId === hole.id);
+
+    return {
+      hole,
+      nodes: inHole(conn.db.node.iter()).map(rowToNode),
+      edges: inHole(conn.db.edge.iter()).map(rowToEdge),
+      clusters: inHole(conn.db.cluster.iter()).map(rowToCluster),
+      content: inHole(conn.db.node_content.iter()).map((row) => ({
+        nodeId: row.nodeId,
+        url: row.url,
+        content: row.content,
+        truncated: row.truncated,
+      })),
+      tags: inHole(conn.db.tag.iter()).map((row) => ({ name: row.name, color: row.color ?? undefined })),
+      annotations: inHole(conn.db.annotation.iter()).map((row) => ({
+        id: row.id,
+        nodeId: row.nodeId,
+        text: row.text,
+        note: row.note ?? undefined,
+        tagsJson: row.tagsJson,
+        annotationType: row.annotationType ?? undefined,
+      })),
+    };
+  } finally {
+    unsubscribe();
+  }
+}
+
+function sameTagSet(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((tag) => b.some((other) => sameTag(tag, other)));
+}
+
+function conflictsBetween(source: PaperNode, target: PaperNode): MergeField[] {
+  const conflicts: MergeField[] = [];
+  const sourceNotes = source.userNotes?.trim() ?? "";
+  const targetNotes = target.userNotes?.trim() ?? "";
+  if (sourceNotes && targetNotes && sourceNotes !== targetNotes && !targetNotes.includes(sourceNotes)) {
+    conflicts.push("notes");
+  }
+  const sourceTags = source.userTags ?? [];
+  const targetTags = target.userTags ?? [];
+  if (sourceTags.length > 0 && targetTags.length > 0 && !sameTagSet(sourceTags, targetTags)) {
+    conflicts.push("tags");
+  }
+  if (source.state !== target.state) conflicts.push("state");
+  return conflicts;
+}
+
+/** External ids isDuplicate treats as exact matches */
+const EXACT_ID_KEYS = ["doi", "arxivId", "semanticScholarId", "openAlexId", "corpusId"] as const;
+
+/**
+ * Target papers indexed so each source paper is only checked against likely
+ * candidates: same node id (before any fork suffix), a shared external id, or
+ * the same year for isDuplicate's fuzzy title match.
+ */
+function createMatcher(targets: PaperNode[]) {
+  const byId = new Map<string, PaperNode>();
+  const byExternalId = new Map<string, PaperNode>();
+  const byYear = new Map<number, PaperNode[]>();
+  for (const node of targets) {
+    byId.set(baseRowId(node.id), node);
+    for (const key of EXACT_ID_KEYS) {
+      const value = node.data.externalIds[key];
+      if (value) byExternalId.set(`${key}:${value}`, node);
+    }
+    if (node.data.year != null) {
+      const group = byYear.get(node.data.year) ?? [];
+      group.push(node);
+      byYear.set(node.data.year, group);
+    }
+  }
+
+  return (paper: PaperNode): PaperNode | undefined => {
+    const sameId = byId.get(baseRowId(paper.id));
+    if (sameId) return sameId;
+    const candidates: PaperNode[] = [];
+    for (const key of EXACT_ID_KEYS) {
+      const value = paper.data.externalIds[key];
+      const hit = value ? byExternalId.get(`${key}:${value}`) : undefined;
+      if (hit) candidates.push(hit);
+    }
+    if (paper.data.year != null) candidates.push(...(byYear.get(paper.data.year) ?? []));
+    return candidates.find((candidate) => isDuplicate(candidate.data, paper.data));
+  };
+}
+
+/** Load both holes and work out which papers match and where they disagree. */
+export async function planMerge(sourceId: string, targetId: string): Promise<MergePlan> {
+  if (sourceId === targetId) throw new Error("Pick two different rabbit holes");
+  const holes = useRabbitHoleStore.getState().rabbitHoles;
+  const sourceHole = holes.find((h) => h.id === sourceId);
+  const targetHole = holes.find((h) => h.id === targetId);
+  if (!sourceHole || !targetHole) throw new Error("Rabbit hole not found");
+
+  const t0 = performance.now();
+  const target = await loadHole(targetHole);
+  const source = await loadHole(sourceHole);
+
+  const findMatch = createMatcher(target.nodes);
+  const matches: MergeMatch[] = [];
+  const unmatched: PaperNode[] = [];
+  for (const node of source.nodes) {
+    const match = findMatch(node);
+    if (match) {
+      matches.push({ source: node, target: match, conflicts: conflictsBetween(node, match) });
+    } else {
+      unmatched.push(node);
+    }
+  }
+
+  console.log(
+    `[STDB] merge plan ${sourceId.slice(0, 8)} → ${targetId.slice(0, 8)}: ${matches.length} matched, ` +
+    `${unmatched.length} new, ${matches.filter((m) => m.conflicts.length > 0).length} with conflicts ` +
+    `in ${(performance.now() - t0).toFixed(1)}ms`
+  );
+
+  return { source, target, matches, unmatched };
+}
+
+/** Notes from both holes, each under a header naming the hole it came from. */
+export function combineNotes(
+  targetName: string,
+  targetNotes: string | undefined,
+  sourceName: string,
+  sourceNotes: string | undefined
+): string {
+  const a = targetNotes?.trim() ?? "";
+  const b = sourceNotes?.trim() ?? "";
+  if (!b || a.includes(b)) return a;
+  if (!a) return b;
+  return `── From "${targetName}" ──\n${a}\n\n── From "${sourceName}" ──\n${b}`;
+}
+
+function choiceFor(resolutions: MergeResolutions, sourceNodeId: string, field: MergeField): MergeChoice {
+  return resolutions[sourceNodeId]?.[field] ?? DEFAULT_CHOICES[field];
+}
+
+/** Shift source-only nodes so they sit to the right of the target graph. */
+function placementOffset(target: PaperNode[], added: PaperNode[]): { x: number; y: number } {
+  if (target.length === 0 || added.length === 0) return { x: 0, y: 0 };
+  const targetMaxX = Math.max(...target.map((n) => n.position.x));
+  const targetMinY = Math.min(...target.map((n) => n.position.y));
+  const addedMinX = Math.min(...added.map((n) => n.position.x));
+  const addedMinY = Math.min(...added.map((n) => n.position.y));
+  return { x: targetMaxX + PLACEMENT_GAP - addedMinX, y: targetMinY - addedMinY };
+}
+
+/** Write the merged graph into the target hole. */
+export function applyMerge(plan: MergePlan, resolutions: MergeResolutions): MergeResult {
+  const conn = useRabbitHoleStore.getState().dbConnection;
+  if (!conn) throw new Error("Not connected to the database");
+
+  const { source, target } = plan;
+  const holeId = target.hole.id;
+  const now = Date.now();
+
+  // Source node id -> id in the target
+  const nodeIds = new Map<string, string>();
+  for (const match of plan.matches) nodeIds.set(match.source.id, match.target.id);
+  for (const node of plan.unmatched) nodeIds.set(node.id, copiedRowId(node.id));
+  const nodeId = (id: string) => nodeIds.get(id) ?? id;
+
+  // --- Matched nodes: several source papers can land on the same target ---
+  const merged = new Map<string, PaperNode>();
+  for (const match of plan.matches) {
+    const current = merged.get(match.target.id) ?? match.target;
+    const pick = (field: MergeField) => choiceFor(resolutions, match.source.id, field);
+
+    const notes = (() => {
+      const choice = pick("notes");
+      if (choice === "target") return current.userNotes ?? "";
+      if (choice === "source") return match.source.userNotes ?? "";
+      return combineNotes(target.hole.name, current.userNotes, source.hole.name, match.source.userNotes);
+    })();
+    const tags = (() => {
+      const choice = pick("tags");
+      if (choice === "target" && (current.userTags?.length ?? 0) > 0) return current.userTags ?? [];
+      if (choice === "source" && (match.source.userTags?.length ?? 0) > 0) return match.source.userTags ?? [];
+      return mergeTagLists(current.userTags ?? [], match.source.userTags ?? []);
+    })();
+
+    // Keep fields mergePapers doesn't know about; notes mirror into data_json.
+    // The source's archive record describes a node in the other hole.
+    const sourceData: PaperMetadata & { _archive?: unknown } = { ...match.source.data };
+    delete sourceData._archive;
+    const data = {
+      ...sourceData,
+      ...current.data,
+      ...mergePapers(current.data, match.source.data),
+      _userNotes: notes || undefined,
+    };
+    merged.set(match.target.id, {
+      ...current,
+      data,
+      userNotes: notes || undefined,
+      userTags: tags.length > 0 ? tags : undefined,
+      state: pick("state") === "source" ? match.source.state : current.state,
+    });
+  }
+
+  for (const [id, node] of merged) {
+    const before = target.nodes.find((n) => n.id === id);
+    if (!before) continue;
+
+    if (JSON.stringify(before.data) !== JSON.stringify(node.data)) {
+      conn.reducers.updateNodeData({
+        rabbitHoleId: holeId,
+        nodeId: id,
+        dataJson: JSON.stringify(node.data),
+        scoresJson: JSON.stringify(node.scores),
+      });
+      recordGraphOp(holeId, { type: "node-data", nodeId: id, data: node.data });
+    }
+    if ((before.userNotes ?? "") !== (node.userNotes ?? "")) {
+      persistNodeNotesColumn(holeId, id, node.userNotes);
+    }
+    if (!sameTagSet(before.userTags ?? [], node.userTags ?? [])) {
+      conn.reducers.updateNodeTags({
+        rabbitHoleId: holeId,
+        nodeId: id,
+        tagsJson: JSON.stringify(node.userTags ?? []),
+      });
+      recordGraphOp(holeId, { type: "node-tags", nodeId: id, tags: node.userTags ?? [] });
+    }
+    if (before.state !== node.state) {
+      conn.reducers.updateNodeState({ rabbitHoleId: holeId, nodeId: id, state: node.state });
+      recordGraphOp(holeId, { type: "node-state", nodeId: id, state: node.state as NodeState });
+    }
+  }
+
+  // --- Source-only nodes are copied in beside the target graph ---
+  const offset = placementOffset(target.nodes, plan.unmatched);
+  const addedNodes: PaperNode[] = plan.unmatched.map((node) => ({
+    ...node,
+    id: nodeId(node.id),
+    position: { x: node.position.x + offset.x, y: node.position.y + offset.y },
+    clusterId: undefined,
+  }));
+  const nodeRows: NodeBatchRow[] = addedNodes.map((node) => ({
+    nodeId: node.id,
+    dataJson: JSON.stringify({ ...node.data, _userNotes: node.userNotes || undefined }),
+    state: node.state,
+    positionX: node.position.x,
+    positionY: node.position.y,
+    scoresJson: JSON.stringify(node.scores),
+    addedAt: node.addedAt,
+    expandedAt: node.expandedAt,
+    userNotes: node.userNotes,
+    tagsJson: node.userTags ? JSON.stringify(node.userTags) : undefined,
+  }));
+  for (const batch of toBatches(nodeRows)) {
+    conn.reducers.addNodesBatch({ rabbitHoleId: holeId, nodesJson: JSON.stringify(batch) });
+  }
+  if (addedNodes.length > 0) recordGraphOp(holeId, { type: "add-nodes", nodes: addedNodes });
+
+  // --- Edges, with endpoints remapped; duplicates and collapsed self-loops are dropped ---
+  const edgeKey = (e: { source: string; target: string; type: string }) => `${e.source}|${e.target}|${e.type}`;
+  const existingEdges = new Set(target.edges.map(edgeKey));
+  const addedEdges: GraphEdge[] = [];
+  for (const edge of source.edges) {
+    const remapped = {
+      ...edge,
+      id: copiedRowId(edge.id),
+      source: nodeId(edge.source),
+      target: nodeId(edge.target),
+    };
+    if (remapped.source === remapped.target || existingEdges.has(edgeKey(remapped))) continue;
+    existingEdges.add(edgeKey(remapped));
+    addedEdges.push(remapped);
+  }
+  const edgeRows: EdgeBatchRow[] = addedEdges.map((edge) => ({
+    edgeId: edge.id,
+    source: edge.source,
+    target: edge.target,
+    edgeType: edge.type,
+    trust: edge.trust,
+    weight: edge.weight,
+    evidence: edge.evidence,
+    metadataJson: edge.metadata ? JSON.stringify(edge.metadata) : undefined,
+  }));
+  for (const batch of toBatches(edgeRows)) {
+    conn.reducers.addEdgesBatch({ rabbitHoleId: holeId, edgesJson: JSON.stringify(batch) });
+  }
+  if (addedEdges.length > 0) recordGraphOp(holeId, { type: "add-edges", edges: addedEdges });
+
+  // --- Clusters: same-label clusters combine; a node keeps its target cluster ---
+  let clusters = target.clusters;
+  if (source.clusters.length > 0) {
+    clusters = target.clusters.map((c) => ({ ...c, nodeIds: [...c.nodeIds] }));
+    const assigned = new Set(clusters.flatMap((c) => c.nodeIds));
+    for (const cluster of source.clusters) {
+      const members = cluster.nodeIds
+        .filter((id) => nodeIds.has(id))
+        .map(nodeId)
+        .filter((id) => !assigned.has(id));
+      if (members.length === 0) continue;
+      for (const id of members) assigned.add(id);
+
+      const existing = clusters.find((c) => c.label.toLowerCase() === cluster.label.toLowerCase());
+      if (existing) {
+        existing.nodeIds.push(...members);
+      } else {
+        clusters.push({ ...cluster, id: copiedRowId(cluster.id), nodeIds: members });
+      }
+    }
+    conn.reducers.setClusters({
+      rabbitHoleId: holeId,
+      clustersJson: JSON.stringify(
+        clusters.map((c) => ({
+          id: c.id,
+          label: c.label,
+          description: c.description,
+          nodeIds: c.nodeIds,
+          color: c.color,
+          centroid: c.centroid,
+        }))
+      ),
+    });
+    recordGraphOp(holeId, { type: "clusters", clusters });
+  }
+
+  // --- Full text the target doesn't have yet ---
+  const haveContent = new Set(target.content.map((c) => c.nodeId));
+  const contentRows: NodeContentBatchRow[] = [];
+  for (const content of source.content) {
+    const id = nodeIds.get(content.nodeId);
+    if (!id || haveContent.has(id)) continue;
+    haveContent.add(id);
+    contentRows.push({ ...content, nodeId: id });
+  }
+  for (const batch of toBatches(contentRows)) {
+    conn.reducers.setNodeContentsBatch({ rabbitHoleId: holeId, contentsJson: JSON.stringify(batch) });
+  }
+
+  // --- Tag definitions and annotations ---
+  for (const tag of source.tags) {
+    if (target.tags.some((t) => sameTag(t.name, tag.name))) continue;
+    conn.reducers.upsertTag({
+      rabbitHoleId: holeId,
+      tagId: `tag-${nanoid(10)}`,
+      name: tag.name,
+      color: tag.color,
+    });
+  }
+  for (const annotation of source.annotations) {
+    if (!nodeIds.has(annotation.nodeId)) continue;
+    conn.reducers.upsertAnnotation({
+      rabbitHoleId: holeId,
+      annotationId: copiedRowId(annotation.id),
+      nodeId: nodeId(annotation.nodeId),
+      text: annotation.text,
+      note: annotation.note,
+      tagsJson: annotation.tagsJson,
+      annotationType: annotation.annotationType,
+    });
+  }
+
+  const result: MergeResult = {
+    matched: merged.size,
+    addedNodes: addedNodes.length,
+    addedEdges: addedEdges.length,
+    clusters: clusters.length,
+  };
+
+  const event: AppliedChangeEvent = {
+    id: `change-${nanoid(10)}`,
+    rabbitHoleId: holeId,
+    source: "system",
+    actionType: "merge-rabbit-hole",
+    summary: `Merged "${source.hole.name}": ${result.addedNodes} new papers, ${result.matched} combined`,
+    payload: { sourceRabbitHoleId: source.hole.id, ...result },
+    createdAt: now,
+  };
+  useWorkflowStore.getState().mergeAppliedChanges(holeId, [event]);
+  persistAppendActionEvent(event);
+
+  console.log(
+    `[STDB] merge ${source.hole.id.slice(0, 8)} → ${holeId.slice(0, 8)}: ${result.matched} combined, ` +
+    `${result.addedNodes} nodes, ${result.addedEdges} edges added`
+  );
+  return result;
+}
@@ -0,0 +1,372 @@
+/**
+ * rodeo-bundle.ts
+ *
+ * Versioned `.rodeo` bundle format: a full-fidelity snapshot of one rabbit hole
+ * (graph, node content, chat and workflow state) that can be backed up or moved
+ * between SpacetimeDB instances.
+ *
+ * Export reads from the live stores plus the SpacetimeDB client cache; import
+ * recreates everything under a fresh rabbit hole via the existing reducers.
+ */
+
+import { nanoid } from "nanoid";
+import { useGraphStore } from "@/store/graph-store";
+import { useChatStore } from "@/store/chat-store";
+import { useRabbitHoleStore, newRabbitHoleId, type RabbitHole } from "@/store/rabbit-hole-store";
+import {
+  useWorkflowStore,
+  type RabbitHoleWorkflowSnapshot,
+} from "@/store/workflow-store";
+import { persistAppendActionEvent } from "@/lib/db/graph-actions";
+import type {
+  ChatMessageRecord,
+  ChatThread,
+  Cluster,
+  GraphEdge,
+  PaperNode,
+} from "@/types";
+
+export const RODEO_BUNDLE_FORMAT = "research-rodeo-bundle";
+export const RODEO_BUNDLE_VERSION = 1;
+
+export interface RodeoNodeContent {
+  nodeId: string;
+  url: string;
+  content: string;
+  truncated: boolean;
+}
+
+export interface RodeoBundle {
+  format: typeof RODEO_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  rabbitHole: RabbitHole;
+  nodes: PaperNode[];
+  edges: GraphEdge[];
+  clusters: Cluster[];
+  nodeContent: RodeoNodeContent[];
+  chat: {
+    threads: ChatThread[];
+    messages: ChatMessageRecord[];
+  };
+  workflow?: Omit<RabbitHoleWorkflowSnapshot, "pendingActions">;
+}
+
+export interface RodeoImportResult {
+  rabbitHoleId: string;
+  name: string;
+  nodes: number;
+  edges: number;
+  clusters: number;
+  threads: number;
+  messages: number;
+  remappedIds: number;
+}
+
+/** Build a bundle for the current rabbit hole. Returns null if none is open. */
+export function buildRodeoBundle(): RodeoBundle | null {
+  const holeStore = useRabbitHoleStore.getState();
+  const hole = holeStore.getCurrentRabbitHole();
+  if (!hole) return null;
+
+  const { nodes, edges, clusters } = useGraphStore.getState();
+  const conn = holeStore.dbConnection;
+
+  // Prefer the node_content rows (they carry the source URL); fall back to the
+  // content copied onto node data for nodes the cache doesn't know about.
+  const nodeContent = new Map<string, RodeoNodeContent>();
+  if (conn) {
+    for (const row of conn.db.node_content.iter()) {
+      if (row.rabbitHoleId !== hole.id) continue;
+      nodeContent.set(row.nodeId, {
+        nodeId: row.nodeId,
+        url: row.url,
+        content: row.content,
+        truncated: row.truncated,
+      });
+    }
+  }
+
+  const bundleNodes: PaperNode[] = [];
+  for (const node of nodes.values()) {
+    const { fetchedContent, contentTruncated, ...data } = node.data;
+    if (fetchedContent && !nodeContent.has(node.id)) {
+      nodeContent.set(node.id, {
+        nodeId: node.id,
+        url: data.url ?? "",
+        content: fetchedContent,
+        truncated: contentTruncated ?? false,
+      });
+    }
+    bundleNodes.push({ ...node, data });
+  }
+
+  const chat = useChatStore.getState().byHole[hole.id];
+  const workflow = useWorkflowStore.getState().byHole[hole.id];
+
+  return {
+    format: RODEO_BUNDLE_FORMAT,
+    version: RODEO_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    rabbitHole: hole,
+    nodes: bundleNodes,
+    edges,
+    clusters,
+    nodeContent: Array.from(nodeContent.values()),
+    chat: {
+      threads: chat?.threads ?? [],
+      messages: Object.values(chat?.messagesByThread ?? {}).flat(),
+    },
+    // Pending chat actions are tied to live tool calls and aren't carried over
+    workflow: workflow
+      ? {
+          question: workflow.question,
+          onboardingStep: workflow.onboardingStep,
+          scopeQuestions: workflow.scopeQuestions,
+          scopeAnswers: workflow.scopeAnswers,
+          layerStatus: workflow.layerStatus,
+          evidenceCards: workflow.evidenceCards,
+          appliedChanges: workflow.appliedChanges,
+        }
+      : undefined,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse and validate a `.rodeo` file. Throws with a readable message when the
+ * file is not a bundle, comes from a newer version, or is structurally broken.
+ */
+export function parseRodeoBundle(text: string): RodeoBundle {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  if (!isObject(raw) || raw.format !== RODEO_BUNDLE_FORMAT) {
+    throw new Error("File is not a Research Rodeo bundle");
+  }
+  if (typeof raw.version !== "number" || !Number.isInteger(raw.version) || raw.version < 1) {
+    throw new Error("Bundle has no valid schema version");
+  }
+  if (raw.version > RODEO_BUNDLE_VERSION) {
+    throw new Error(
+      `Bundle version ${raw.version} is newer than this app supports (${RODEO_BUNDLE_VERSION})`
+    );
+  }
+  if (!isObject(raw.rabbitHole) || typeof raw.rabbitHole.name !== "string") {
+    throw new Error("Bundle is missing its rabbit hole record");
+  }
+  for (const key of ["nodes", "edges", "clusters", "nodeContent"] as const) {
+    if (!Array.isArray(raw[key])) throw new Error(`Bundle is missing "${key}"`);
+  }
+  if (!isObject(raw.chat) || !Array.isArray(raw.chat.threads) || !Array.isArray(raw.chat.messages)) {
+    throw new Error('Bundle is missing "chat"');
+  }
+
+  const nodes = raw.nodes as unknown[];
+  const badNode = nodes.findIndex(
+    (n) => !isObject(n) || typeof n.id !== "string" || !isObject(n.data) || !isObject(n.position)
+  );
+  if (badNode !== -1) throw new Error(`Node #${badNode + 1} is malformed`);
+
+  const edges = raw.edges as unknown[];
+  const badEdge = edges.findIndex(
+    (e) => !isObject(e) || typeof e.id !== "string" || typeof e.source !== "string" || typeof e.target !== "string"
+  );
+  if (badEdge !== -1) throw new Error(`Edge #${badEdge + 1} is malformed`);
+
+  return raw as unknown as RodeoBundle;
+}
+
+/** Collect the ids already present in the connected database's client cache. */
+function collectTakenIds() {
+  const conn = useRabbitHoleStore.getState().dbConnection;
+  const taken = {
+    nodes: new Set<string>(),
+    edges: new Set<string>(),
+    clusters: new Set<string>(),
+    threads: new Set<string>(),
+    messages: new Set<string>(),
+  };
+  if (!conn) return taken;
+  for (const row of conn.db.node.iter()) taken.nodes.add(row.id);
+  for (const row of conn.db.edge.iter()) taken.edges.add(row.id);
+  for (const row of conn.db.cluster.iter()) taken.clusters.add(row.id);
+  for (const row of conn.db.chat_thread.iter()) taken.threads.add(row.id);
+  for (const row of conn.db.chat_message.iter()) taken.messages.add(row.id);
+  return taken;
+}
+
+/**
+ * Recreate a bundle as a new rabbit hole. Row ids that collide with rows in the
+ * client cache (the open hole — typically the bundle's own source) are
+ * remapped and every reference to them is rewritten.
+ */
+export function importRodeoBundle(bundle: RodeoBundle): RodeoImportResult {
+  const conn = useRabbitHoleStore.getState().dbConnection;
+  if (!conn) throw new Error("Not connected to the database");
+
+  const holeId = newRabbitHoleId();
+  const taken = collectTakenIds();
+  let remappedIds = 0;
+
+  function remap(ids: string[], used: Set<string>): Map<string, string> {
+    const mapping = new Map<string, string>();
+    for (const id of ids) {
+      let next = id;
+      if (used.has(id)) {
+        next = `${id}~${nanoid(6)}`;
+        remappedIds++;
+      }
+      used.add(next);
+      mapping.set(id, next);
+    }
+    return mapping;
+  }
+
+  const nodeIds = remap(bundle.nodes.map((n) => n.id), taken.nodes);
+  const edgeIds = remap(bundle.edges.map((e) => e.id), taken.edges);
+  const clusterIds = remap(bundle.clusters.map((c) => c.id), taken.clusters);
+  const threadIds = remap(bundle.chat.threads.map((t) => t.id), taken.threads);
+  const messageIds = remap(bundle.chat.messages.map((m) => m.id), taken.messages);
+  const nodeId = (id: string) => nodeIds.get(id) ?? id;
+
+  conn.reducers.createRabbitHole({
+    id: holeId,
+    name: bundle.rabbitHole.name,
+    rootQuery: bundle.rabbitHole.rootQuery ?? undefined,
+  });
+
+  for (const node of bundle.nodes) {
+    // Notes ride along in data_json the same way persistUpdateNodeNotes stores them
+    conn.reducers.addNode({
+      rabbitHoleId: holeId,
+      nodeId: nodeId(node.id),
+      dataJson: JSON.stringify({ ...node.data, _userNotes: node.userNotes || undefined }),
+      state: node.state,
+      positionX: node.position.x,
+      positionY: node.position.y,
+      scoresJson: JSON.stringify(node.scores),
+      addedAt: BigInt(node.addedAt ?? Date.now()),
+    });
+    if (node.userTags?.length) {
+      conn.reducers.updateNodeTags({
+        rabbitHoleId: holeId,
+        nodeId: nodeId(node.id),
+        tagsJson: JSON.stringify(node.userTags),
+      });
+    }
+  }
+
+  const edges = bundle.edges.filter((e) => nodeIds.has(e.source) && nodeIds.has(e.target));
+  for (const edge of edges) {
+    conn.reducers.addEdge({
+      rabbitHoleId: holeId,
+      edgeId: edgeIds.get(edge.id) ?? edge.id,
+      source: nodeId(edge.source),
+      target: nodeId(edge.target),
+      edgeType: edge.type,
+      trust: edge.trust,
+      weight: edge.weight,
+      evidence: edge.evidence ?? undefined,
+      metadataJson: edge.metadata ? JSON.stringify(edge.metadata) : undefined,
+    });
+  }
+
+  if (bundle.clusters.length > 0) {
+    conn.reducers.setClusters({
+      rabbitHoleId: holeId,
+      clustersJson: JSON.stringify(
+        bundle.clusters.map((c) => ({
+          id: clusterIds.get(c.id) ?? c.id,
+          label: c.label,
+          description: c.description,
+          nodeIds: c.nodeIds.filter((id) => nodeIds.has(id)).map(nodeId),
+          color: c.color,
+          centroid: c.centroid,
+        }))
+      ),
+    });
+  }
+
+  for (const content of bundle.nodeContent) {
+    if (!nodeIds.has(content.nodeId)) continue;
+    conn.reducers.setNodeContent({
+      rabbitHoleId: holeId,
+      nodeId: nodeId(content.nodeId),
+      url: content.url,
+      content: content.content,
+      truncated: content.truncated,
+    });
+  }
+
+  for (const thread of bundle.chat.threads) {
+    conn.reducers.createChatThread({
+      rabbitHoleId: holeId,
+      threadId: threadIds.get(thread.id) ?? thread.id,
+      title: thread.title ?? undefined,
+    });
+  }
+
+  const messages = bundle.chat.messages.filter((m) => threadIds.has(m.threadId));
+  for (const message of messages) {
+    const messageId = messageIds.get(message.id) ?? message.id;
+    let messageJson = message.messageJson;
+    if (messageId !== message.id) {
+      // The UIMessage inside carries its own id, which chat-actions keys on
+      try {
+        messageJson = JSON.stringify({ ...JSON.parse(messageJson), id: messageId });
+      } catch {}
+    }
+    conn.reducers.upsertChatMessage({
+      rabbitHoleId: holeId,
+      threadId: threadIds.get(message.threadId) ?? message.threadId,
+      messageId,
+      role: message.role,
+      messageJson,
+      seq: BigInt(message.seq),
+    });
+  }
+
+  if (bundle.workflow) {
+    const workflow = bundle.workflow;
+    // Fresh ids so importing the same bundle twice doesn't collide in action_event
+    const importedChanges = (workflow.appliedChanges ?? []).map((event) => ({
+      ...event,
+      id: `change-${nanoid(10)}`,
+      rabbitHoleId: holeId,
+    }));
+    useWorkflowStore.getState().importSnapshot(holeId, {
+      ...workflow,
+      evidenceCards: (workflow.evidenceCards ?? []).map((card) => ({
+        ...card,
+        rabbitHoleId: holeId,
+        linkedNodeId: card.linkedNodeId ? nodeId(card.linkedNodeId) : undefined,
+      })),
+      appliedChanges: importedChanges,
+    });
+    for (const event of importedChanges) persistAppendActionEvent(event);
+  }
+
+  console.log(
+    `[STDB] bundle import → hole ${holeId}: ${bundle.nodes.length} nodes, ${edges.length} edges, ` +
+    `${bundle.clusters.length} clusters, ${messages.length} chat messages, ${remappedIds} ids remapped`
+  );
+
+  return {
+    rabbitHoleId: holeId,
+    name: bundle.rabbitHole.name,
+    nodes: bundle.nodes.length,
+    edges: edges.length,
+    clusters: bundle.clusters.length,
+    threads: bundle.chat.threads.length,
+    messages: messages.length,
+    remappedIds,
+  };
+}
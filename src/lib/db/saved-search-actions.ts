@@ -0,0 +1,200 @@
+"use client";
+
+/**
+ * Saved searches: a rabbit hole's watch list of web searches. Each run is
+ * compared with the paper ids already seen. A run someone is looking at marks
+ * its results seen; a scheduled run only collects the new ids, which the
+ * TopBar counts until someone re-runs the search.
+ */
+
+import { nanoid } from "nanoid";
+import type {
+  ApiResponse,
+  SavedSearch,
+  SearchFilters,
+  SearchMode,
+  SearchProvider,
+  SearchResult,
+} from "@/types";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { useSavedSearchStore } from "@/store/saved-search-store";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const SAVED_SEARCH_INTERVALS = [1, 6, 24, 168];
+
+/** Oldest seen ids are dropped past this so the row stays small. */
+const MAX_SEEN_IDS = 2000;
+
+function getConn() {
+  return useRabbitHoleStore.getState().dbConnection;
+}
+
+function getHoleId() {
+  return useRabbitHoleStore.getState().currentRabbitHoleId;
+}
+
+function findSavedSearch(rabbitHoleId: string, searchId: string): SavedSearch | undefined {
+  return useSavedSearchStore.getState().byHole[rabbitHoleId]?.find((s) => s.id === searchId);
+}
+
+function persist(rabbitHoleId: string, search: SavedSearch): void {
+  const conn = getConn();
+  if (!conn) return;
+  conn.reducers.upsertSavedSearch({
+    rabbitHoleId,
+    savedSearchId: search.id,
+    query: search.query,
+    mode: search.mode,
+    domainsJson: JSON.stringify(search.domains),
+    filtersJson: JSON.stringify(search.filters),
+    providersJson: search.providers ? JSON.stringify(search.providers) : undefined,
+    seenIdsJson: JSON.stringify(search.seenIds),
+    newIdsJson: JSON.stringify(search.newIds),
+    intervalHours: search.intervalHours,
+    lastRunAt: search.lastRunAt != null ? BigInt(search.lastRunAt) : undefined,
+  });
+}
+
+function save(rabbitHoleId: string, search: SavedSearch): void {
+  useSavedSearchStore.getState().upsertSavedSearch(rabbitHoleId, search);
+  persist(rabbitHoleId, search);
+}
+
+/** Add a search to the watch list; the results already on screen count as seen. */
+export function saveSearch(args: {
+  query: string;
+  mode: SearchMode;
+  domains: string[];
+  filters: SearchFilters;
+  providers?: SearchProvider[];
+  resultIds: string[];
+  intervalHours?: number;
+}): SavedSearch | null {
+  const rabbitHoleId = getHoleId();
+  const query = args.query.trim();
+  if (!rabbitHoleId || !query) return null;
+
+  const now = Date.now();
+  const search: SavedSearch = {
+    id: `saved-${nanoid(10)}`,
+    query,
+    mode: args.mode,
+    domains: args.domains,
+    filters: args.filters,
+    providers: args.mode === "federated" ? args.providers : undefined,
+    seenIds: args.resultIds.slice(-MAX_SEEN_IDS),
+    newIds: [],
+    intervalHours: args.intervalHours,
+    lastRunAt: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+  save(rabbitHoleId, search);
+  return search;
+}
+
+export function setSavedSearchInterval(searchId: string, intervalHours: number | undefined): void {
+  const rabbitHoleId = getHoleId();
+  if (!rabbitHoleId) return;
+  const existing = findSavedSearch(rabbitHoleId, searchId);
+  if (!existing) return;
+  save(rabbitHoleId, { ...existing, intervalHours, updatedAt: Date.now() });
+}
+
+export function deleteSavedSearch(searchId: string): void {
+  const rabbitHoleId = getHoleId();
+  if (!rabbitHoleId) return;
+
+  useSavedSearchStore.getState().removeSavedSearch(rabbitHoleId, searchId);
+
+  const conn = getConn();
+  if (conn) {
+    conn.reducers.deleteSavedSearch({ rabbitHoleId, savedSearchId: searchId });
+  }
+}
+
+/** Scheduled searches in the hole whose interval has elapsed since their last run. */
+export function dueSavedSearches(rabbitHoleId: string, now: number): SavedSearch[] {
+  return (useSavedSearchStore.getState().byHole[rabbitHoleId] ?? []).filter(
+    (s) => s.intervalHours && now - (s.lastRunAt ?? 0) >= s.intervalHours * HOUR_MS
+  );
+}
+
+/**
+ * Record a run's result ids and return the new ones. A scheduled run only
+ * reports ids neither seen nor already pending, so the same find isn't
+ * announced twice. A reviewed run also returns the pending finds it shows,
+ * then folds everything into seenIds.
+ */
+function recordRun(
+  rabbitHoleId: string,
+  searchId: string,
+  resultIds: string[],
+  reviewed: boolean
+): string[] {
+  // Re-read: a teammate's run may have landed while the search was in flight
+  const latest = findSavedSearch(rabbitHoleId, searchId);
+  if (!latest) return [];
+
+  // Earlier scheduled finds are already counted, so they aren't new again
+  const known = new Set([...latest.seenIds, ...latest.newIds]);
+  const fresh = resultIds.filter((id) => !known.has(id));
+  const now = Date.now();
+  const next: SavedSearch = reviewed
+    ? {
+        ...latest,
+        seenIds: Array.from(new Set([...latest.seenIds, ...latest.newIds, ...fresh])).slice(-MAX_SEEN_IDS),
+        newIds: [],
+        lastRunAt: now,
+        updatedAt: now,
+      }
+    : {
+        ...latest,
+        newIds: Array.from(new Set([...latest.newIds, ...fresh])),
+        lastRunAt: now,
+        updatedAt: now,
+      };
+  save(rabbitHoleId, next);
+  if (!reviewed) return fresh;
+  const pending = new Set(latest.newIds);
+  return resultIds.filter((id) => pending.has(id) || !known.has(id));
+}
+
+/**
+ * Run a saved search through /api/search with its stored query, mode, domains
+ * and filters. `reviewed` says whether the results are being shown to someone.
+ */
+export async function runSavedSearch(
+  searchId: string,
+  options: { reviewed: boolean }
+): Promise<{ result: SearchResult; newIds: string[] } | null> {
+  const rabbitHoleId = getHoleId();
+  if (!rabbitHoleId) return null;
+  const search = findSavedSearch(rabbitHoleId, searchId);
+  if (!search) return null;
+
+  const res = await fetch("/api/search", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      text: search.query,
+      searchMode: search.mode,
+      domains: search.domains.length > 0 ? search.domains : undefined,
+      filters: search.filters,
+      providers: search.providers,
+    }),
+  });
+  const data = (await res.json()) as ApiResponse<SearchResult>;
+  if (!res.ok || data.status !== "success" || !data.data) {
+    throw new Error(data.error ?? `Search failed (${res.status})`);
+  }
+
+  const newIds = recordRun(
+    rabbitHoleId,
+    searchId,
+    data.data.papers.map((p) => p.id),
+    options.reviewed
+  );
+  return { result: data.data, newIds };
+}
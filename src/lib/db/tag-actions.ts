@@ -0,0 +1,141 @@
+"use client";
+
+/**
+ * Hole-wide tag management. Node tag lists are rewritten through
+ * persistUpdateNodeTags; colors live in the tag table.
+ */
+
+import { nanoid } from "nanoid";
+import type { TagDefinition } from "@/types";
+import { useGraphStore } from "@/store/graph-store";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { useUIStore } from "@/store/ui-store";
+import { persistUpdateNodeTags } from "@/lib/db/graph-actions";
+import { findTagDefinition, mergeTagLists, normalizeTag, sameTag } from "@/lib/utils/tags";
+
+function getConn() {
+  return useRabbitHoleStore.getState().dbConnection;
+}
+
+function getHoleId() {
+  return useRabbitHoleStore.getState().currentRabbitHoleId;
+}
+
+function persistTagDefinition(definition: TagDefinition): void {
+  useGraphStore.getState().upsertTagDefinition(definition);
+
+  const conn = getConn();
+  const holeId = getHoleId();
+  if (!conn || !holeId) return;
+
+  conn.reducers.upsertTag({
+    rabbitHoleId: holeId,
+    tagId: definition.id,
+    name: definition.name,
+    color: definition.color ?? undefined,
+  });
+}
+
+function persistDeleteTagDefinition(tagId: string): void {
+  useGraphStore.getState().removeTagDefinition(tagId);
+
+  const conn = getConn();
+  const holeId = getHoleId();
+  if (!conn || !holeId) return;
+
+  conn.reducers.deleteTag({ rabbitHoleId: holeId, tagId });
+}
+
+/** Set (or clear) the display color of a tag, creating its definition if needed. */
+export function setTagColor(name: string, color: string | undefined): void {
+  const tag = normalizeTag(name);
+  if (!tag) return;
+  const existing = findTagDefinition(useGraphStore.getState().tagDefinitions, tag);
+  persistTagDefinition(
+    existing
+      ? { ...existing, color }
+      : { id: `tag-${nanoid(10)}`, name: tag, color, createdAt: Date.now() }
+  );
+}
+
+/** Add and/or remove tags on a set of nodes. Returns the ids that changed. */
+export function applyNodeTags(
+  nodeIds: string[],
+  addTags: string[] = [],
+  removeTags: string[] = []
+): string[] {
+  const { nodes } = useGraphStore.getState();
+  const changed: string[] = [];
+  for (const nodeId of nodeIds) {
+    const node = nodes.get(nodeId);
+    if (!node) continue;
+    const current = node.userTags ?? [];
+    const next = mergeTagLists(
+      current.filter((t) => !removeTags.some((r) => sameTag(r, t))),
+      addTags
+    );
+    if (next.length === current.length && next.every((t, i) => t === current[i])) continue;
+    persistUpdateNodeTags(nodeId, next);
+    changed.push(nodeId);
+  }
+  return changed;
+}
+
+/**
+ * Rename a tag on every node in the hole. Renaming onto an existing tag merges
+ * the two: nodes end up with a single copy and the target keeps its color.
+ */
+export function renameTag(from: string, to: string): void {
+  const target = normalizeTag(to);
+  if (!target || from === target) return;
+
+  const { nodes, tagDefinitions } = useGraphStore.getState();
+  for (const node of nodes.values()) {
+    const tags = node.userTags ?? [];
+    if (!tags.some((t) => sameTag(t, from))) continue;
+    const next = mergeTagLists(
+      tags.filter((t) => !sameTag(t, from)),
+      [target]
+    );
+    persistUpdateNodeTags(node.id, next);
+  }
+
+  const source = findTagDefinition(tagDefinitions, from);
+  const existingTarget = tagDefinitions.find(
+    (d) => sameTag(d.name, target) && d.id !== source?.id
+  );
+  if (source && existingTarget) {
+    persistDeleteTagDefinition(source.id);
+    if (!existingTarget.color && source.color) {
+      persistTagDefinition({ ...existingTarget, color: source.color });
+    }
+  } else if (source) {
+    persistTagDefinition({ ...source, name: target });
+  }
+
+  // Keep active filters pointing at the renamed tag
+  const filter = useUIStore.getState().tagFilter;
+  if (filter.some((t) => sameTag(t, from))) {
+    useUIStore.getState().setTagFilter(
+      mergeTagLists(filter.filter((t) => !sameTag(t, from)), [target])
+    );
+  }
+}
+
+/** Remove a tag from every node and drop its definition. */
+export function deleteTag(name: string): void {
+  const { nodes, tagDefinitions } = useGraphStore.getState();
+  for (const node of nodes.values()) {
+    const tags = node.userTags ?? [];
+    if (!tags.some((t) => sameTag(t, name))) continue;
+    persistUpdateNodeTags(node.id, tags.filter((t) => !sameTag(t, name)));
+  }
+
+  const definition = findTagDefinition(tagDefinitions, name);
+  if (definition) persistDeleteTagDefinition(definition.id);
+
+  const filter = useUIStore.getState().tagFilter;
+  if (filter.some((t) => sameTag(t, name))) {
+    useUIStore.getState().setTagFilter(filter.filter((t) => !sameTag(t, name)));
+  }
+}
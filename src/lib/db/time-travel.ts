@@ -0,0 +1,80 @@
+/**
+ * time-travel.ts
+ *
+ * Loads a rabbit hole's graph_op log into the time-travel store and turns a
+ * replayed snapshot back into a real rabbit hole.
+ */
+
+import { useGraphStore } from "@/store/graph-store";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import { useTimeTravelStore } from "@/store/time-travel-store";
+import { loadGraphOps } from "@/lib/db/graph-log";
+import {
+  RODEO_BUNDLE_FORMAT,
+  RODEO_BUNDLE_VERSION,
+  importRodeoBundle,
+  type RodeoImportResult,
+  type RodeoNodeContent,
+} from "@/lib/db/rodeo-bundle";
+import { groupReplaySteps, withLegacyBaseline, type GraphSnapshot } from "@/lib/graph/replay";
+
+/** Enter time-travel for the current rabbit hole. */
+export async function openTimeTravel(): Promise<void> {
+  const holeId = useRabbitHoleStore.getState().currentRabbitHoleId;
+  if (!holeId) return;
+
+  const store = useTimeTravelStore.getState();
+  store.start(holeId);
+  try {
+    const ops = await loadGraphOps(holeId);
+    // The user may have exited or switched holes while the log loaded
+    if (useTimeTravelStore.getState().rabbitHoleId !== holeId) return;
+    const { nodes, edges } = useGraphStore.getState();
+    store.load(groupReplaySteps(withLegacyBaseline(ops, holeId, nodes.values(), edges)));
+  } catch (err) {
+    console.error("[time-travel] Failed to load graph history:", err);
+    store.fail(err instanceof Error ? err.message : "Failed to load graph history");
+  }
+}
+
+/**
+ * Create a new rabbit hole holding a replayed snapshot. Fetched full text is
+ * carried over for nodes the current hole still has it for.
+ */
+export function restoreSnapshotAsRabbitHole(
+  snapshot: GraphSnapshot,
+  at: number
+): RodeoImportResult {
+  const holeStore = useRabbitHoleStore.getState();
+  const hole = holeStore.getCurrentRabbitHole();
+  if (!hole) throw new Error("No rabbit hole is open");
+
+  const nodeContent: RodeoNodeContent[] = [];
+  const conn = holeStore.dbConnection;
+  if (conn) {
+    for (const row of conn.db.node_content.iter()) {
+      if (row.rabbitHoleId !== hole.id || !snapshot.nodes.has(row.nodeId)) continue;
+      nodeContent.push({
+        nodeId: row.nodeId,
+        url: row.url,
+        content: row.content,
+        truncated: row.truncated,
+      });
+    }
+  }
+
+  return importRodeoBundle({
+    format: RODEO_BUNDLE_FORMAT,
+    version: RODEO_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    rabbitHole: {
+      ...hole,
+      name: `${hole.name} (as of ${new Date(at).toLocaleDateString()})`,
+    },
+    nodes: Array.from(snapshot.nodes.values()),
+    edges: snapshot.edges,
+    clusters: snapshot.clusters,
+    nodeContent,
+    chat: { threads: [], messages: [] },
+  });
+}
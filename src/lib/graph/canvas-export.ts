@@ -0,0 +1,303 @@
+import { getBezierPath, Position } from "@xyflow/react";
+import { CLUSTER_COLORS, EDGE_STYLES } from "@/lib/design-tokens";
+import { formatAuthors, formatCount } from "@/lib/utils";
+import type { Cluster, EdgeType, GraphEdge, PaperNode } from "@/types";
+
+export interface CanvasBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CanvasExportOptions {
+  /** Region to render in flow coordinates; defaults to the whole graph. */
+  bounds?: CanvasBounds;
+  legend?: boolean;
+  /** Measured node sizes from React Flow, keyed by node id. */
+  sizes?: Map<string, { width: number; height: number }>;
+}
+
+type EdgeVariant = "citation" | "semantic" | "contradiction";
+
+const FONT_SANS = "Inter, Helvetica, Arial, sans-serif";
+const FONT_SERIF = "'Source Serif 4', Georgia, serif";
+const PADDING = 40;
+const FRONTIER_WIDTH = 176;
+const PAPER_HEIGHT = 104;
+const FRONTIER_HEIGHT = 64;
+
+/** Mirrors mapEdgeType in useGraph: which edge component draws each type. */
+function edgeVariant(type: EdgeType): EdgeVariant {
+  if (type === "contradicts") return "contradiction";
+  if (type === "semantic-similarity" || type === "methodologically-similar") return "semantic";
+  return "citation";
+}
+
+/** Stroke settings used by CitationEdge / SemanticEdge / ContradictionEdge. */
+const VARIANT_STYLES: Record<EdgeVariant, { label: string; stroke: string; strokeWidth: number; dashArray?: string; opacity: number }> = {
+  citation: { label: "Citation", ...EDGE_STYLES["cites"], opacity: 0.6 },
+  semantic: { label: "Semantic similarity", ...EDGE_STYLES["semantic-similarity"], opacity: 0.5 },
+  contradiction: { label: "Contradiction", ...EDGE_STYLES["contradicts"], opacity: 1 },
+};
+
+/** Same width rule as PaperNodeCard (188px min, 286px max). */
+function paperWidth(citationCount: number): number {
+  if (citationCount <= 0) return 188;
+  const t = Math.min(Math.log10(citationCount + 1) / 4, 1);
+  return Math.round(188 + t * 98);
+}
+
+function esc(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Greedy word wrap by approximate glyph width, clamped like line-clamp. */
+function wrapText(text: string, maxWidth: number, fontSize: number, maxLines: number): string[] {
+  const maxChars = Math.max(8, Math.floor(maxWidth / (fontSize * 0.52)));
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/)) {
+    const next = current ? `${current} ${word}` : word;
+    if (next.length <= maxChars) {
+      current = next;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = word;
+    if (lines.length === maxLines) break;
+  }
+  if (current && lines.length < maxLines) lines.push(current);
+  if (lines.length === maxLines && lines.join(" ").length < text.length) {
+    const last = lines[maxLines - 1];
+    lines[maxLines - 1] = `${last.slice(0, Math.max(0, maxChars - 1)).trimEnd()}…`;
+  }
+  return lines;
+}
+
+function clusterColorFor(node: PaperNode, clusters: Cluster[]): string | undefined {
+  const cluster =
+    clusters.find((c) => c.id === node.clusterId) ??
+    clusters.find((c) => c.nodeIds.includes(node.id));
+  if (cluster?.color) return cluster.color;
+  if (!node.clusterId) return undefined;
+  let hash = 0;
+  for (let i = 0; i < node.clusterId.length; i++) {
+    hash = (hash * 31 + node.clusterId.charCodeAt(i)) | 0;
+  }
+  return CLUSTER_COLORS[Math.abs(hash) % CLUSTER_COLORS.length];
+}
+
+function nodeSize(node: PaperNode, sizes?: CanvasExportOptions["sizes"]) {
+  const measured = sizes?.get(node.id);
+  if (measured && measured.width > 0 && measured.height > 0) return measured;
+  return node.state === "discovered"
+    ? { width: FRONTIER_WIDTH, height: FRONTIER_HEIGHT }
+    : { width: paperWidth(node.data.citationCount), height: PAPER_HEIGHT };
+}
+
+function renderPaperNode(node: PaperNode, w: number, h: number, color: string | undefined): string {
+  const { x, y } = node.position;
+  const paper = node.data;
+  const title = wrapText(paper.title, w - 18, 12, 2);
+  const byline = paper.isUrlSource
+    ? paper.siteName ?? ""
+    : `${formatAuthors(paper.authors, 1)}${paper.year ? `, ${paper.year}` : ""}`;
+  const barWidth = Math.round((w - 20) * Math.max(0, Math.min(1, node.scores.relevance)));
+  const parts = [
+    `<g transform="translate(${x} ${y})">`,
+    `<rect width="${w}" height="${h}" rx="8" fill="#ffffff" stroke="#dddcd7"/>`,
+    `<rect width="3" height="${h - 8}" y="4" rx="1.5" fill="${color ?? "#c8c7c2"}"/>`,
+    `<rect x="10" y="8" width="${w - 18}" height="32" rx="6" fill="rgba(139,92,246,0.07)" stroke="rgba(139,92,246,0.15)"/>`,
+    ...title.map(
+      (line, i) =>
+        `<text x="10" y="${56 + i * 14}" font-family="${FONT_SERIF}" font-size="12" fill="#1c1917">${esc(line)}</text>`
+    ),
+    `<text x="10" y="${58 + title.length * 14}" font-family="${FONT_SANS}" font-size="9" fill="#57534e">${esc(byline)}</text>`,
+    `<rect x="10" y="${h - 10}" width="${w - 20}" height="2" rx="1" fill="#e8e7e2"/>`,
+    `<rect x="10" y="${h - 10}" width="${barWidth}" height="2" rx="1" fill="rgba(139,92,246,0.6)"/>`,
+    `<rect x="${w - 22}" y="-6" width="28" height="14" rx="7" fill="#f3f2ee" stroke="#dddcd7"/>`,
+    `<text x="${w - 8}" y="4" text-anchor="middle" font-family="${FONT_SANS}" font-size="9" fill="#57534e">${esc(formatCount(paper.citationCount))}</text>`,
+    "</g>",
+  ];
+  return parts.join("");
+}
+
+function renderFrontierNode(node: PaperNode, w: number, h: number): string {
+  const { x, y } = node.position;
+  const title = wrapText(node.data.title, w - 16, 10, 2);
+  return [
+    `<g transform="translate(${x} ${y})" opacity="0.5">`,
+    `<rect width="${w}" height="${h}" rx="8" fill="#f3f2ee" stroke="#dddcd7" stroke-dasharray="4 3"/>`,
+    ...title.map(
+      (line, i) =>
+        `<text x="8" y="${18 + i * 12}" font-family="${FONT_SERIF}" font-size="10" fill="#57534e">${esc(line)}</text>`
+    ),
+    `<text x="8" y="${22 + title.length * 12}" font-family="${FONT_SANS}" font-size="9" fill="#78716c">${node.data.year ?? ""}</text>`,
+    "</g>",
+  ].join("");
+}
+
+function renderEdge(
+  edge: GraphEdge,
+  source: { x: number; y: number; w: number; h: number },
+  target: { x: number; y: number; w: number; h: number }
+): string {
+  const variant = edgeVariant(edge.type);
+  const style = VARIANT_STYLES[variant];
+  // Default handles: source at the bottom, target at the top of each card
+  const sourceX = source.x + source.w / 2;
+  const sourceY = source.y + source.h;
+  const targetX = target.x + target.w / 2;
+  const targetY = target.y;
+  const [path] = getBezierPath({
+    sourceX,
+    sourceY,
+    sourcePosition: Position.Bottom,
+    targetX,
+    targetY,
+    targetPosition: Position.Top,
+  });
+
+  const dash = style.dashArray ? ` stroke-dasharray="${style.dashArray}"` : "";
+  let out = `<path d="${path}" fill="none" stroke="${style.stroke}" stroke-width="${style.strokeWidth}"${dash} opacity="${style.opacity}"/>`;
+  if (variant === "contradiction") {
+    const midX = (sourceX + targetX) / 2;
+    const midY = (sourceY + targetY) / 2;
+    out +=
+      `<g transform="translate(${midX} ${midY})">` +
+      `<circle r="7" fill="#f8f7f4" stroke="${style.stroke}" stroke-width="1.5"/>` +
+      `<line x1="-3" y1="-3" x2="3" y2="3" stroke="${style.stroke}" stroke-width="1.5"/>` +
+      `<line x1="3" y1="-3" x2="-3" y2="3" stroke="${style.stroke}" stroke-width="1.5"/>` +
+      "</g>";
+  }
+  return out;
+}
+
+function renderLegend(
+  clusters: Cluster[],
+  variants: EdgeVariant[],
+  x: number,
+  y: number,
+  width: number
+): { svg: string; height: number } {
+  const items: string[] = [];
+  const columnWidth = 180;
+  const columns = Math.max(1, Math.floor((width - 24) / columnWidth));
+  const entries: { swatch: string; label: string }[] = [
+    ...clusters.map((c) => ({
+      swatch: `<rect width="12" height="12" rx="3" fill="${c.color}"/>`,
+      label: c.label,
+    })),
+    ...variants.map((v) => {
+      const s = VARIANT_STYLES[v];
+      const dash = s.dashArray ? ` stroke-dasharray="${s.dashArray}"` : "";
+      return {
+        swatch: `<line x1="0" y1="6" x2="20" y2="6" stroke="${s.stroke}" stroke-width="${Math.max(1.5, s.strokeWidth)}"${dash}/>`,
+        label: s.label,
+      };
+    }),
+  ];
+
+  entries.forEach((entry, i) => {
+    const col = i % columns;
+    const row = Math.floor(i / columns);
+    const ex = x + 12 + col * columnWidth;
+    const ey = y + 30 + row * 20;
+    const label = wrapText(entry.label, columnWidth - 40, 11, 1)[0] ?? "";
+    items.push(
+      `<g transform="translate(${ex} ${ey})">${entry.swatch}` +
+      `<text x="26" y="10" font-family="${FONT_SANS}" font-size="11" fill="#44403c">${esc(label)}</text></g>`
+    );
+  });
+
+  const rows = Math.ceil(entries.length / columns);
+  const height = 40 + rows * 20;
+  const svg =
+    `<g>` +
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="8" fill="#ffffff" stroke="#e8e7e2"/>` +
+    `<text x="${x + 12}" y="${y + 20}" font-family="${FONT_SANS}" font-size="11" font-weight="600" fill="#1c1917">Legend</text>` +
+    items.join("") +
+    `</g>`;
+  return { svg, height };
+}
+
+/**
+ * Render the graph as a standalone SVG document using the same node widths,
+ * cluster colors and edge styles as GraphCanvas.
+ */
+export function renderGraphSVG(
+  nodes: PaperNode[],
+  edges: GraphEdge[],
+  clusters: Cluster[],
+  options: CanvasExportOptions = {}
+): string {
+  const visible = nodes.filter((n) => n.state !== "archived");
+  const boxes = new Map(
+    visible.map((n) => {
+      const { width, height } = nodeSize(n, options.sizes);
+      return [n.id, { x: n.position.x, y: n.position.y, w: width, h: height }];
+    })
+  );
+
+  let bounds = options.bounds;
+  if (!bounds) {
+    if (boxes.size === 0) {
+      bounds = { x: 0, y: 0, width: 400, height: 300 };
+    } else {
+      const all = Array.from(boxes.values());
+      const minX = Math.min(...all.map((b) => b.x)) - PADDING;
+      const minY = Math.min(...all.map((b) => b.y)) - PADDING;
+      const maxX = Math.max(...all.map((b) => b.x + b.w)) + PADDING;
+      const maxY = Math.max(...all.map((b) => b.y + b.h)) + PADDING;
+      bounds = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+    }
+  }
+
+  const drawnEdges = edges.filter((e) => boxes.has(e.source) && boxes.has(e.target));
+  const edgeSvg = drawnEdges.map((e) => renderEdge(e, boxes.get(e.source)!, boxes.get(e.target)!));
+  const nodeSvg = visible.map((n) => {
+    const box = boxes.get(n.id)!;
+    return n.state === "discovered"
+      ? renderFrontierNode(n, box.w, box.h)
+      : renderPaperNode(n, box.w, box.h, clusterColorFor(n, clusters));
+  });
+
+  let legendSvg = "";
+  let legendHeight = 0;
+  if (options.legend) {
+    const usedClusterIds = new Set(visible.map((n) => n.clusterId).filter(Boolean));
+    const legendClusters = clusters.filter(
+      (c) => usedClusterIds.has(c.id) || c.nodeIds.some((id) => boxes.has(id))
+    );
+    const variants = Array.from(new Set(drawnEdges.map((e) => edgeVariant(e.type))));
+    if (legendClusters.length > 0 || variants.length > 0) {
+      const legend = renderLegend(
+        legendClusters,
+        variants,
+        bounds.x + 12,
+        bounds.y + bounds.height + 4,
+        bounds.width - 24
+      );
+      legendSvg = legend.svg;
+      legendHeight = legend.height + 16;
+    }
+  }
+
+  const width = Math.round(bounds.width);
+  const height = Math.round(bounds.height + legendHeight);
+  const viewBox = `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height + legendHeight}`;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewBox}">`,
+    `<rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height + legendHeight}" fill="#f8f7f4"/>`,
+    `<g>${edgeSvg.join("")}</g>`,
+    `<g>${nodeSvg.join("")}</g>`,
+    legendSvg,
+    "</svg>",
+  ].join("\n");
+}
@@ -11,21 +11,25 @@ import type {
 } from "@/types";
 import { computeLayout, incrementalLayout } from "@/lib/graph/layout";
 import { mergeClusters } from "@/lib/graph/clustering";
+import { recordUndoable, type TrackWrites, type UndoGroup } from "@/lib/graph/undo";
+import { createNodeResolver } from "@/lib/graph/duplicates";
 import {
   persistAddEdges,
   persistAddNodes,
-  persistRemoveEdges,
-  persistRemoveNodes,
+  persistAppendActionEvent,
   persistSetClusters,
+  persistUpdateEdge,
   persistUpdateNodeData,
   persistUpdateNodePositions,
   persistUpdateNodeState,
 } from "@/lib/db/graph-actions";
+import { applyNodeTags } from "@/lib/db/tag-actions";
+import { archiveNodes, restoreNodes } from "@/lib/db/archive-actions";
+import { mergeDuplicateNodes } from "@/lib/db/duplicate-actions";
 import { createNodeFromUrl } from "@/lib/utils/url-source";
 import { useGraphStore } from "@/store/graph-store";
 import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
 import { useWorkflowStore } from "@/store/workflow-store";
-import { useHistoryStore } from "@/store/history-store";
 
 const ZERO_SCORES: NodeScores = {
   relevance: 0,
@@ -63,32 +67,7 @@ function emitAppliedChange(
     createdAt: now(),
   };
   useWorkflowStore.getState().addAppliedChange(event);
-
-  const conn = useRabbitHoleStore.getState().dbConnection as unknown as {
-    reducers?: Record<string, (...args: unknown[]) => void>;
-  } | null;
-  const reducer = conn?.reducers?.appendActionEvent as
-    | ((args: {
-        rabbitHoleId: string;
-        eventId: string;
-        source: string;
-        actionType: string;
-        summary: string;
-        payloadJson?: string;
-        createdAt: bigint;
-      }) => void)
-    | undefined;
-  if (reducer) {
-    reducer({
-      rabbitHoleId,
-      eventId: event.id,
-      source,
-      actionType,
-      summary,
-      payloadJson: payload ? JSON.stringify(payload) : undefined,
-      createdAt: BigInt(event.createdAt),
-    });
-  }
+  persistAppendActionEvent(event);
 }
 
 function recalculateAndPersistClusters() {
@@ -194,13 +173,19 @@ function mergePaperMetadata(base: PaperMetadata, incoming: PaperMetadata): Paper
     isUrlSource: base.isUrlSource ?? incoming.isUrlSource,
     fetchedContent: base.fetchedContent ?? incoming.fetchedContent,
     contentTruncated: base.contentTruncated ?? incoming.contentTruncated,
+    citeKey: base.citeKey ?? incoming.citeKey,
   };
 }
 
 function shouldHydratePaperMetadata(paper: PaperMetadata): boolean {
   const id = paper.id || "";
   if (!id) return false;
-  if (id.startsWith("url-") || id.startsWith("title:") || id.startsWith("paper-")) {
+  if (
+    id.startsWith("url-") ||
+    id.startsWith("title:") ||
+    id.startsWith("paper-") ||
+    id.startsWith("upload-")
+  ) {
     return false;
   }
   return (
@@ -246,75 +231,131 @@ function graphEdge(
   };
 }
 
+function isHttpUrl(value: string | undefined): value is string {
+  if (!value) return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
 function upsertEvidenceStatus(cardId: string | undefined, status: "added" | "contradiction" | "saved") {
   if (!cardId) return;
   useWorkflowStore.getState().setEvidenceCardStatus(cardId, status);
 }
 
-export async function executeGraphCommand(intent: GraphCommandIntent): Promise<GraphCommandResult> {
+/**
+ * Run a graph command and record it as one undo step. Every change the
+ * command makes, persistence included, is undone together. With an undo
+ * group the command joins the group's step instead.
+ */
+export function executeGraphCommand(
+  intent: GraphCommandIntent,
+  group?: UndoGroup
+): Promise<GraphCommandResult> {
+  return recordUndoable(
+    // A command runs synchronously up to its first await, so this tracks the
+    // commands that never await; the others track their later writes themselves
+    (track) => track(() => runGraphCommand(intent, track)),
+    (result) => (result.applied ? result.summary : null),
+    intent.source ?? "system",
+    group
+  );
+}
+
+async function runGraphCommand(intent: GraphCommandIntent, track: TrackWrites): Promise<GraphCommandResult> {
   try {
     switch (intent.type) {
       case "add-node": {
         const candidatePaper = await hydratePaperMetadata(intent.paper);
-        const graph = useGraphStore.getState();
-        const existing = graph.nodes.get(candidatePaper.id);
-        if (existing) {
-          const mergedData = mergePaperMetadata(existing.data, candidatePaper);
-          const metadataImproved =
-            mergedData.url !== existing.data.url ||
-            mergedData.openAccessPdf !== existing.data.openAccessPdf ||
-            mergedData.abstract !== existing.data.abstract ||
-            mergedData.authors.length !== existing.data.authors.length ||
-            mergedData.citationCount !== existing.data.citationCount ||
-            mergedData.referenceCount !== existing.data.referenceCount;
-          if (metadataImproved) {
-            const nodes = new Map(graph.nodes);
-            nodes.set(existing.id, { ...existing, data: mergedData });
-            useGraphStore.setState({ nodes });
-            persistUpdateNodeData(existing.id);
-          }
-          if (intent.materialize && existing.state !== "materialized") {
-            persistUpdateNodeState(existing.id, "materialized");
+        return track(() => {
+          const graph = useGraphStore.getState();
+          const existingId = createNodeResolver(graph.nodes)(candidatePaper.id);
+          const existing = existingId ? graph.nodes.get(existingId) : undefined;
+          if (existing) {
+            const mergedData = mergePaperMetadata(existing.data, candidatePaper);
+            const metadataImproved =
+              mergedData.url !== existing.data.url ||
+              mergedData.openAccessPdf !== existing.data.openAccessPdf ||
+              mergedData.abstract !== existing.data.abstract ||
+              mergedData.authors.length !== existing.data.authors.length ||
+              mergedData.citationCount !== existing.data.citationCount ||
+              mergedData.referenceCount !== existing.data.referenceCount;
+            if (metadataImproved) {
+              const nodes = new Map(graph.nodes);
+              nodes.set(existing.id, { ...existing, data: mergedData });
+              useGraphStore.setState({ nodes });
+              persistUpdateNodeData(existing.id);
+            }
+            if (intent.materialize && existing.state !== "materialized") {
+              // Bring an archived node back with its edges before promoting it
+              if (existing.state === "archived") restoreNodes([existing.id]);
+              persistUpdateNodeState(existing.id, "materialized");
+            }
+            upsertEvidenceStatus(intent.evidenceCardId, "added");
+            const summary = `Source already in graph: ${candidatePaper.title}`;
+            emitAppliedChange("add-node", summary, intent.source ?? "system", {
+              nodeId: existing.id,
+              duplicate: true,
+              metadataUpdated: metadataImproved || undefined,
+            });
+            return { applied: true, summary, addedNodeIds: [existing.id] };
           }
+
+          const state = intent.materialize ? "materialized" : "discovered";
+          const node = makePaperNode(candidatePaper, state);
+          const [positioned] = positionForNewNodes([node]);
+          persistAddNodes([positioned]);
+          recalculateAndPersistClusters();
           upsertEvidenceStatus(intent.evidenceCardId, "added");
-          const summary = `Source already in graph: ${candidatePaper.title}`;
+          const summary = `Added source: ${candidatePaper.title}`;
           emitAppliedChange("add-node", summary, intent.source ?? "system", {
-            nodeId: existing.id,
-            duplicate: true,
-            metadataUpdated: metadataImproved || undefined,
+            nodeId: positioned.id,
           });
-          return { applied: true, summary, addedNodeIds: [existing.id] };
-        }
 
+          return { applied: true, summary, addedNodeIds: [positioned.id] };
+        });
+      }
+
+      case "add-nodes": {
+        // Batch variant of add-node for papers that were already resolved
+        // server-side: one layout pass, one timeline entry, one undo step.
+        const graph = useGraphStore.getState();
+        const resolveNode = createNodeResolver(graph.nodes);
         const state = intent.materialize ? "materialized" : "discovered";
-        const node = makePaperNode(candidatePaper, state);
-        const [positioned] = positionForNewNodes([node]);
-        persistAddNodes([positioned]);
+        const seen = new Set<string>();
+        const newNodes: PaperNode[] = [];
+        const promoted: string[] = [];
+        for (const paper of intent.papers) {
+          if (seen.has(paper.id)) continue;
+          seen.add(paper.id);
+          const existingId = resolveNode(paper.id);
+          const existing = existingId ? graph.nodes.get(existingId) : undefined;
+          if (existing) {
+            if (intent.materialize && existing.state !== "materialized") promoted.push(existing.id);
+            continue;
+          }
+          newNodes.push(makePaperNode(paper, state));
+        }
+
+        const positioned = positionForNewNodes(newNodes);
+        if (positioned.length > 0) persistAddNodes(positioned);
+        restoreNodes(promoted.filter((id) => graph.nodes.get(id)?.state === "archived"));
+        for (const nodeId of promoted) persistUpdateNodeState(nodeId, "materialized");
         recalculateAndPersistClusters();
-        upsertEvidenceStatus(intent.evidenceCardId, "added");
-        const summary = `Added source: ${candidatePaper.title}`;
-        emitAppliedChange("add-node", summary, intent.source ?? "system", {
-          nodeId: positioned.id,
-        });
 
-        // Push undo entry: undo = remove the added node
-        const addedNodeId = positioned.id;
-        const addedPaper = candidatePaper;
-        const addedState = state;
-        useHistoryStore.getState().push({
-          description: summary,
-          undo: () => {
-            persistRemoveNodes([addedNodeId]);
-            recalculateAndPersistClusters();
-          },
-          redo: () => {
-            const redoNode = makePaperNode(addedPaper, addedState);
-            persistAddNodes([{ ...redoNode, position: positioned.position }]);
-            recalculateAndPersistClusters();
-          },
+        const duplicates = seen.size - positioned.length;
+        const summary =
+          `Added ${positioned.length} source${positioned.length === 1 ? "" : "s"}` +
+          (duplicates > 0 ? ` (${duplicates} already in graph)` : "");
+        emitAppliedChange("add-nodes", summary, intent.source ?? "system", {
+          nodeIds: positioned.map((n) => n.id),
+          duplicates,
         });
 
-        return { applied: true, summary, addedNodeIds: [positioned.id] };
+        return { applied: true, summary, addedNodeIds: positioned.map((n) => n.id) };
       }
 
       case "connect-nodes": {
@@ -336,6 +377,58 @@ export async function executeGraphCommand(intent: GraphCommandIntent): Promise<G
         return { applied: true, summary, addedEdgeIds: [edge.id] };
       }
 
+      case "update-edge": {
+        const edge = useGraphStore.getState().edges.find((e) => e.id === intent.edgeId);
+        if (!edge) {
+          return { applied: false, summary: "Edge not found", error: `No edge ${intent.edgeId}` };
+        }
+        const trust = intent.trust ?? edge.trust;
+        const citationUrl = intent.citationUrl?.trim() || undefined;
+        if (citationUrl && !isHttpUrl(citationUrl)) {
+          return { applied: false, summary: "Invalid citation", error: "Citation URL must be an http(s) link" };
+        }
+        if (trust === "source-backed" && edge.trust !== "source-backed" && !citationUrl) {
+          return {
+            applied: false,
+            summary: "Citation required",
+            error: "A source-backed edge needs a citation URL",
+          };
+        }
+
+        const patch: Partial<GraphEdge> = {};
+        if (intent.edgeType && intent.edgeType !== edge.type) patch.type = intent.edgeType;
+        if (trust !== edge.trust) patch.trust = trust;
+        if (intent.weight != null) {
+          const weight = Math.min(1, Math.max(0, intent.weight));
+          if (weight !== edge.weight) patch.weight = weight;
+        }
+        if (intent.evidence !== undefined) {
+          const evidence = intent.evidence.trim() || undefined;
+          if (evidence !== edge.evidence) patch.evidence = evidence;
+        }
+        if (citationUrl && citationUrl !== edge.metadata?.citationUrl) {
+          patch.metadata = { ...edge.metadata, citationUrl };
+        }
+        const changed = Object.keys(patch);
+        if (changed.length === 0) {
+          return { applied: false, summary: "Edge unchanged", error: "Nothing to update" };
+        }
+
+        persistUpdateEdge(edge.id, patch);
+        if (patch.type || patch.weight != null) recalculateAndPersistClusters();
+        const summary =
+          patch.trust === "source-backed"
+            ? `Marked edge ${edge.source.slice(0, 8)} -> ${edge.target.slice(0, 8)} as source-backed`
+            : `Edited edge ${edge.source.slice(0, 8)} -> ${edge.target.slice(0, 8)}`;
+        emitAppliedChange("update-edge", summary, intent.source ?? "system", {
+          edgeId: edge.id,
+          changed,
+          before: { type: edge.type, trust: edge.trust, weight: edge.weight, evidence: edge.evidence },
+          ...patch,
+        });
+        return { applied: true, summary };
+      }
+
       case "expand-node": {
         const graphState = useGraphStore.getState();
         const sourceNode = graphState.nodes.get(intent.nodeId);
@@ -344,7 +437,8 @@ export async function executeGraphCommand(intent: GraphCommandIntent): Promise<G
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            nodeId: intent.nodeId,
+            // The paper id: a node copied from another hole has a suffixed node id
+            nodeId: sourceNode?.data.id ?? intent.nodeId,
             mode: intent.mode,
             budget: intent.budget ?? 12,
             sourceUrl: sourceNode?.data.url,
@@ -371,63 +465,49 @@ export async function executeGraphCommand(intent: GraphCommandIntent): Promise<G
           return { applied: false, summary: "Expand failed", error: json.error ?? "No expansion data" };
         }
 
-        useGraphStore.getState().clearExpanding(intent.nodeId);
-        const graph = useGraphStore.getState();
-        const existingIds = new Set(graph.nodes.keys());
-        const newNodes = json.data.papers
-          .filter((paper) => !existingIds.has(paper.id))
-          .map((paper) => makePaperNode(paper, "discovered"));
-        const newEdges = json.data.edges.filter(
-          (edge) =>
-            !graph.edges.some((e) => e.id === edge.id) &&
-            edge.source &&
-            edge.target
-        );
-
-        const positioned = positionForNewNodes(newNodes);
-        if (positioned.length > 0) persistAddNodes(positioned);
-        if (newEdges.length > 0) persistAddEdges(newEdges);
-        recalculateAndPersistClusters();
-
-        const summary = `Expanded node with ${positioned.length} new sources (${intent.mode})`;
-        emitAppliedChange("expand-node", summary, intent.source ?? "system", {
-          nodeId: intent.nodeId,
-          mode: intent.mode,
-          nodesAdded: positioned.length,
-          edgesAdded: newEdges.length,
-        });
+        const expansion = json.data;
+        return track(() => {
+          useGraphStore.getState().clearExpanding(intent.nodeId);
+          const graph = useGraphStore.getState();
+          const resolveNode = createNodeResolver(graph.nodes);
+          const newNodes = expansion.papers
+            .filter((paper) => !resolveNode(paper.id))
+            .map((paper) => makePaperNode(paper, "discovered"));
+          // Papers already merged into another node connect to that node instead
+          const newEdges = expansion.edges
+            .map((edge) => ({
+              ...edge,
+              source: resolveNode(edge.source) ?? edge.source,
+              target: resolveNode(edge.target) ?? edge.target,
+            }))
+            .filter(
+              (edge) =>
+                !graph.edges.some((e) => e.id === edge.id) &&
+                edge.source &&
+                edge.target &&
+                edge.source !== edge.target
+            );
+
+          const positioned = positionForNewNodes(newNodes);
+          if (positioned.length > 0) persistAddNodes(positioned);
+          if (newEdges.length > 0) persistAddEdges(newEdges);
+          recalculateAndPersistClusters();
 
-        // Push undo entry: undo = remove all newly added nodes and edges
-        const expandedNodeIds = positioned.map((n) => n.id);
-        const expandedEdgeIds = newEdges.map((e) => e.id);
-        const expandedNodes = positioned.map((n) => ({ ...n }));
-        const expandedEdges = newEdges.map((e) => ({ ...e }));
-        if (expandedNodeIds.length > 0 || expandedEdgeIds.length > 0) {
-          useHistoryStore.getState().push({
-            description: summary,
-            undo: () => {
-              if (expandedEdgeIds.length > 0) {
-                persistRemoveEdges(expandedEdgeIds);
-              }
-              if (expandedNodeIds.length > 0) {
-                persistRemoveNodes(expandedNodeIds);
-              }
-              recalculateAndPersistClusters();
-            },
-            redo: () => {
-              if (expandedNodes.length > 0) persistAddNodes(expandedNodes);
-              if (expandedEdges.length > 0) persistAddEdges(expandedEdges);
-              recalculateAndPersistClusters();
-            },
+          const summary = `Expanded node with ${positioned.length} new sources (${intent.mode})`;
+          emitAppliedChange("expand-node", summary, intent.source ?? "system", {
+            nodeId: intent.nodeId,
+            mode: intent.mode,
+            nodesAdded: positioned.length,
+            edgesAdded: newEdges.length,
           });
-        }
 
-        return {
-          applied: true,
-          summary,
-          addedNodeIds: expandedNodeIds,
-          addedEdgeIds: expandedEdgeIds,
-        };
+          return {
+            applied: true,
+            summary,
+            addedNodeIds: positioned.map((n) => n.id),
+            addedEdgeIds: newEdges.map((e) => e.id),
+          };
+        });
       }
 
       case "merge-clusters": {
@@ -460,27 +540,46 @@ export async function executeGraphCommand(intent: GraphCommandIntent): Promise<G
       }
 
       case "archive-node": {
-        // Capture previous state for undo
-        const archiveGraph = useGraphStore.getState();
-        const archiveNode = archiveGraph.nodes.get(intent.nodeId);
-        const previousState = archiveNode?.state ?? "materialized";
-
-        persistUpdateNodeState(intent.nodeId, "archived");
+        if (archiveNodes([intent.nodeId], intent.source ?? "system").length === 0) {
+          return { applied: false, summary: "Node not found or already archived", error: "Nothing to archive" };
+        }
+        useGraphStore.getState().recalculateScores();
         const summary = `Archived source ${intent.nodeId.slice(0, 8)}`;
         emitAppliedChange("archive-node", summary, intent.source ?? "system", {
           nodeId: intent.nodeId,
         });
 
-        // Push undo entry: undo = restore the previous state
-        const archivedNodeId = intent.nodeId;
-        useHistoryStore.getState().push({
-          description: summary,
-          undo: () => {
-            persistUpdateNodeState(archivedNodeId, previousState);
-          },
-          redo: () => {
-            persistUpdateNodeState(archivedNodeId, "archived");
-          },
+        return { applied: true, summary };
+      }
+
+      case "merge-duplicates": {
+        let merged = 0;
+        let edgesRewired = 0;
+        for (const group of intent.groups) {
+          const result = mergeDuplicateNodes(group.primaryId, group.duplicateIds);
+          merged += result.merged;
+          edgesRewired += result.edgesRewired;
+        }
+        if (merged === 0) {
+          return { applied: false, summary: "No duplicates to merge", error: "Nodes not found" };
+        }
+        const summary = `Merged ${merged} duplicate source(s) into ${intent.groups.length} node(s)`;
+        emitAppliedChange("merge-duplicates", summary, intent.source ?? "system", {
+          groups: intent.groups,
+          edgesRewired,
+        });
+
+        return { applied: true, summary };
+      }
+
+      case "restore-nodes": {
+        const restored = restoreNodes(intent.nodeIds);
+        if (restored.length === 0) {
+          return { applied: false, summary: "No archived nodes to restore", error: "Nodes not archived" };
+        }
+        const summary = `Restored ${restored.length} source(s) from the archive`;
+        emitAppliedChange("restore-nodes", summary, intent.source ?? "system", {
+          nodeIds: restored,
         });
 
         return { applied: true, summary };
@@ -512,42 +611,47 @@ export async function executeGraphCommand(intent: GraphCommandIntent): Promise<G
           return { applied: false, summary: "No contradiction source provided", error: "Missing paper/url" };
         }
 
-        const addResult = await executeGraphCommand({
-          type: "add-node",
-          paper,
-          materialize: false,
-          source: intent.source,
-          evidenceCardId: intent.evidenceCardId,
-        });
+        const addResult = await runGraphCommand(
+          {
+            type: "add-node",
+            paper,
+            materialize: false,
+            source: intent.source,
+            evidenceCardId: intent.evidenceCardId,
+          },
+          track
+        );
         if (!addResult.applied) return addResult;
-        const contradictionNodeId = addResult.addedNodeIds?.[0];
+        return track(() => {
+          const contradictionNodeId = addResult.addedNodeIds?.[0];
+
+          if (anchor && contradictionNodeId && anchor !== contradictionNodeId) {
+            const edge = graphEdge(
+              anchor,
+              contradictionNodeId,
+              "contradicts",
+              "inferred",
+              0.8,
+              intent.snippet
+            );
+            persistAddEdges([edge]);
+            recalculateAndPersistClusters();
+          }
 
-        if (anchor && contradictionNodeId && anchor !== contradictionNodeId) {
-          const edge = graphEdge(
-            anchor,
+          upsertEvidenceStatus(intent.evidenceCardId, "contradiction");
+          const summary = anchor
+            ? `Added contradiction and linked to ${anchor.slice(0, 8)}`
+            : "Added contradiction source";
+          emitAppliedChange("add-contradiction", summary, intent.source ?? "system", {
+            anchorNodeId: anchor,
             contradictionNodeId,
-            "contradicts",
-            "inferred",
-            0.8,
-            intent.snippet
-          );
-          persistAddEdges([edge]);
-          recalculateAndPersistClusters();
-        }
-
-        upsertEvidenceStatus(intent.evidenceCardId, "contradiction");
-        const summary = anchor
-          ? `Added contradiction and linked to ${anchor.slice(0, 8)}`
-          : "Added contradiction source";
-        emitAppliedChange("add-contradiction", summary, intent.source ?? "system", {
-          anchorNodeId: anchor,
-          contradictionNodeId,
+          });
+          return {
+            applied: true,
+            summary,
+            addedNodeIds: contradictionNodeId ? [contradictionNodeId] : [],
+          };
         });
-        return {
-          applied: true,
-          summary,
-          addedNodeIds: contradictionNodeId ? [contradictionNodeId] : [],
-        };
       }
 
       case "save-for-later": {
@@ -558,6 +662,33 @@ export async function executeGraphCommand(intent: GraphCommandIntent): Promise<G
         });
         return { applied: true, summary };
       }
+
+      case "tag-nodes": {
+        const addTags = intent.addTags ?? [];
+        const removeTags = intent.removeTags ?? [];
+        if (addTags.length === 0 && removeTags.length === 0) {
+          return { applied: false, summary: "No tags to change", error: "No tags given" };
+        }
+
+        const graph = useGraphStore.getState();
+        if (!intent.nodeIds.some((id) => graph.nodes.has(id))) {
+          return { applied: false, summary: "No matching nodes", error: "Nodes not found" };
+        }
+
+        const changed = applyNodeTags(intent.nodeIds, addTags, removeTags);
+        const parts = [
+          addTags.length > 0 ? `added ${addTags.join(", ")}` : null,
+          removeTags.length > 0 ? `removed ${removeTags.join(", ")}` : null,
+        ].filter(Boolean);
+        const summary = `Tags ${parts.join("; ")} on ${changed.length} source(s)`;
+        emitAppliedChange("tag-nodes", summary, intent.source ?? "system", {
+          nodeIds: changed,
+          addTags,
+          removeTags,
+        });
+
+        return { applied: true, summary };
+      }
     }
   } catch (error) {
     // Clear any in-flight expanding state on unexpected errors
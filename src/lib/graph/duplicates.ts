@@ -0,0 +1,181 @@
+import type { PaperNode } from "@/types";
+import { computeTitleSimilarity, normalizeAuthorName } from "@/lib/api/paper-resolver";
+import { classifyIdentifier } from "@/lib/utils/identifiers";
+
+export interface DuplicateGroup {
+  /** Suggested node to keep: first of nodeIds */
+  primaryId: string;
+  nodeIds: string[];
+  /** Why the nodes were grouped, one line per distinct match */
+  reasons: string[];
+}
+
+const ID_LABELS = {
+  doi: "DOI",
+  arxivId: "arXiv id",
+  semanticScholarId: "Semantic Scholar id",
+  openAlexId: "OpenAlex id",
+  corpusId: "S2 corpus id",
+  pubmedId: "PubMed id",
+} as const;
+
+type IdKey = keyof typeof ID_LABELS;
+
+const STATE_RANK: Record<PaperNode["state"], number> = {
+  materialized: 3,
+  enriched: 2,
+  discovered: 1,
+  archived: 0,
+};
+
+/**
+ * The identifiers a node is known by: its external ids plus any a URL node's
+ * address carries (an arxiv.org or doi.org link), so a pasted link groups
+ * with the paper it points at.
+ */
+function identityKeys(node: PaperNode): { key: string; label: string; fromUrl: boolean }[] {
+  const keys: { key: string; label: string; fromUrl: boolean }[] = [];
+  for (const idKey of Object.keys(ID_LABELS) as IdKey[]) {
+    const raw = node.data.externalIds[idKey];
+    if (!raw) continue;
+    const value = idKey === "doi" ? raw.toLowerCase() : idKey === "arxivId" ? raw.replace(/v\d+$/, "") : raw;
+    keys.push({ key: `${idKey}:${value}`, label: `${ID_LABELS[idKey]} ${value}`, fromUrl: false });
+  }
+  if (node.data.url) {
+    const parsed = classifyIdentifier(node.data.url);
+    const idKey: IdKey | null =
+      parsed.kind === "doi" ? "doi" : parsed.kind === "arxiv" ? "arxivId" : parsed.kind === "pmid" ? "pubmedId" : null;
+    if (idKey) {
+      const value = idKey === "arxivId" ? parsed.value.replace(/v\d+$/, "") : parsed.value;
+      keys.push({ key: `${idKey}:${value}`, label: `${ID_LABELS[idKey]} ${value}`, fromUrl: true });
+    }
+  }
+  return keys;
+}
+
+/**
+ * Title match between two nodes, looser than isDuplicate so a preprint and
+ * its published version a year later still pair up. Returns the explanation,
+ * or null when the titles don't match closely enough.
+ */
+function titleMatch(a: PaperNode, b: PaperNode): string | null {
+  const titleA = a.data.title;
+  const titleB = b.data.title;
+  if (!titleA || !titleB) return null;
+  // Jaccard can't reach 0.85 when one title is much longer than the other
+  const ratio = Math.min(titleA.length, titleB.length) / Math.max(titleA.length, titleB.length);
+  if (ratio < 0.6) return null;
+
+  const yearA = a.data.year;
+  const yearB = b.data.year;
+  if (yearA != null && yearB != null && Math.abs(yearA - yearB) > 1) return null;
+
+  const similarity = computeTitleSimilarity(titleA, titleB);
+  if (similarity < 0.85) return null;
+  const sameFirstAuthor =
+    a.data.authors.length > 0 &&
+    b.data.authors.length > 0 &&
+    normalizeAuthorName(a.data.authors[0].name) === normalizeAuthorName(b.data.authors[0].name);
+  if (similarity < 0.95 && !sameFirstAuthor) return null;
+
+  const parts = [`Titles ${Math.round(similarity * 100)}% similar`];
+  if (sameFirstAuthor) parts.push("same first author");
+  if (yearA != null && yearB != null && yearA !== yearB) parts.push(`${yearA} vs ${yearB}`);
+  return parts.join(", ");
+}
+
+/** Richer, further-along nodes make the better survivor of a merge. */
+function primaryOrder(a: PaperNode, b: PaperNode): number {
+  return (
+    STATE_RANK[b.state] - STATE_RANK[a.state] ||
+    Number(!!a.data.isUrlSource) - Number(!!b.data.isUrlSource) ||
+    Number(!!b.data.externalIds.doi) - Number(!!a.data.externalIds.doi) ||
+    b.data.citationCount - a.data.citationCount ||
+    a.addedAt - b.addedAt
+  );
+}
+
+/**
+ * Scan the whole graph for likely duplicates: shared external ids (including
+ * ids read from a URL node's address) and near-identical titles. Matching
+ * pairs are chained into groups, so A~B and B~C yield one group {A, B, C}.
+ * Archived nodes are left out.
+ */
+export function findDuplicateGroups(nodes: Map<string, PaperNode>): DuplicateGroup[] {
+  const active = Array.from(nodes.values()).filter((n) => n.state !== "archived");
+
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  const reasons = new Map<string, Set<string>>();
+  const link = (a: string, b: string, reason: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...(reasons.get(rootA) ?? []), ...(reasons.get(rootB) ?? []), reason]);
+    if (rootA !== rootB) {
+      parent.set(rootB, rootA);
+      reasons.delete(rootB);
+    }
+    reasons.set(rootA, merged);
+  };
+  for (const node of active) parent.set(node.id, node.id);
+
+  const byKey = new Map<string, { nodeId: string; fromUrl: boolean }>();
+  for (const node of active) {
+    for (const { key, label, fromUrl } of identityKeys(node)) {
+      const seen = byKey.get(key);
+      if (!seen) {
+        byKey.set(key, { nodeId: node.id, fromUrl });
+      } else if (seen.nodeId !== node.id) {
+        link(seen.nodeId, node.id, fromUrl || seen.fromUrl ? `Link points to ${label}` : `Same ${label}`);
+      }
+    }
+  }
+
+  for (let i = 0; i < active.length; i++) {
+    for (let j = i + 1; j < active.length; j++) {
+      const reason = titleMatch(active[i], active[j]);
+      if (reason) link(active[i].id, active[j].id, reason);
+    }
+  }
+
+  const members = new Map<string, PaperNode[]>();
+  for (const node of active) {
+    const root = find(node.id);
+    members.set(root, [...(members.get(root) ?? []), node]);
+  }
+
+  const groups: DuplicateGroup[] = [];
+  for (const [root, group] of members) {
+    if (group.length < 2) continue;
+    const ordered = [...group].sort(primaryOrder);
+    groups.push({
+      primaryId: ordered[0].id,
+      nodeIds: ordered.map((n) => n.id),
+      reasons: Array.from(reasons.get(root) ?? []),
+    });
+  }
+  return groups.sort((a, b) => b.nodeIds.length - a.nodeIds.length);
+}
+
+/**
+ * Look up the node a paper id belongs to. Besides node ids this matches the
+ * paper id in node data, which differs from the node id in forked, imported
+ * or merged holes (`X~abc123`), and the alias ids left by earlier duplicate
+ * merges. Returns undefined when the graph has no such node.
+ */
+export function createNodeResolver(nodes: Map<string, PaperNode>): (id: string) => string | undefined {
+  const aliases = new Map<string, string>();
+  for (const node of nodes.values()) {
+    for (const alias of node.data.aliasIds ?? []) aliases.set(alias, node.id);
+  }
+  const paperIds = new Map<string, string>();
+  for (const node of nodes.values()) {
+    if (node.data.id && node.data.id !== node.id) paperIds.set(node.data.id, node.id);
+  }
+  return (id) => (nodes.has(id) ? id : paperIds.get(id) ?? aliases.get(id));
+}
@@ -0,0 +1,198 @@
+import type { Cluster, GraphEdge, GraphOp, PaperNode } from "@/types";
+
+export interface GraphSnapshot {
+  nodes: Map<string, PaperNode>;
+  edges: GraphEdge[];
+  clusters: Cluster[];
+}
+
+/** A burst of ops written together (one command, one drag, one layout). */
+export interface ReplayStep {
+  at: number;
+  ops: GraphOp[];
+}
+
+/** Ops closer together than this are replayed as one step */
+const STEP_GAP_MS = 1500;
+
+export function emptySnapshot(): GraphSnapshot {
+  return { nodes: new Map(), edges: [], clusters: [] };
+}
+
+/** Apply one op to a snapshot in place. */
+export function applyGraphOp(snapshot: GraphSnapshot, op: GraphOp): void {
+  switch (op.type) {
+    case "add-nodes":
+      for (const node of op.nodes) snapshot.nodes.set(node.id, node);
+      break;
+    case "remove-nodes": {
+      const removed = new Set(op.nodeIds);
+      for (const id of op.nodeIds) snapshot.nodes.delete(id);
+      snapshot.edges = snapshot.edges.filter((e) => !removed.has(e.source) && !removed.has(e.target));
+      break;
+    }
+    case "add-edges": {
+      const ids = new Set(snapshot.edges.map((e) => e.id));
+      for (const edge of op.edges) {
+        if (ids.has(edge.id)) continue;
+        ids.add(edge.id);
+        snapshot.edges.push(edge);
+      }
+      break;
+    }
+    case "remove-edges": {
+      const removed = new Set(op.edgeIds);
+      snapshot.edges = snapshot.edges.filter((e) => !removed.has(e.id));
+      break;
+    }
+    case "edge-update":
+      snapshot.edges = snapshot.edges.map((e) => (e.id === op.edge.id ? op.edge : e));
+      break;
+    case "node-state": {
+      const node = snapshot.nodes.get(op.nodeId);
+      if (node) snapshot.nodes.set(op.nodeId, { ...node, state: op.state });
+      break;
+    }
+    case "node-positions":
+      for (const [id, position] of Object.entries(op.positions)) {
+        const node = snapshot.nodes.get(id);
+        if (node) snapshot.nodes.set(id, { ...node, position });
+      }
+      break;
+    case "node-data": {
+      const node = snapshot.nodes.get(op.nodeId);
+      if (node) snapshot.nodes.set(op.nodeId, { ...node, data: op.data });
+      break;
+    }
+    case "node-tags": {
+      const node = snapshot.nodes.get(op.nodeId);
+      if (node) snapshot.nodes.set(op.nodeId, { ...node, userTags: op.tags });
+      break;
+    }
+    case "clusters":
+      snapshot.clusters = op.clusters;
+      break;
+    case "clear":
+      snapshot.nodes = new Map();
+      snapshot.edges = [];
+      snapshot.clusters = [];
+      break;
+  }
+}
+
+/**
+ * Holes created before the log existed (or imported from a bundle) have nodes
+ * the log never saw. Synthesize add ops for them at their `addedAt` time, and
+ * add each unlogged edge once both of its endpoints exist.
+ */
+export function withLegacyBaseline(
+  ops: GraphOp[],
+  rabbitHoleId: string,
+  nodes: Iterable<PaperNode>,
+  edges: GraphEdge[]
+): GraphOp[] {
+  const loggedNodes = new Set<string>();
+  const loggedEdges = new Set<string>();
+  for (const op of ops) {
+    if (op.type === "add-nodes") for (const n of op.nodes) loggedNodes.add(n.id);
+    if (op.type === "add-edges") for (const e of op.edges) loggedEdges.add(e.id);
+  }
+
+  const addedAt = new Map<string, number>();
+  const synthesized: GraphOp[] = [];
+  for (const node of nodes) {
+    addedAt.set(node.id, node.addedAt);
+    if (loggedNodes.has(node.id)) continue;
+    synthesized.push({
+      type: "add-nodes",
+      nodes: [node],
+      id: `baseline-node-${node.id}`,
+      rabbitHoleId,
+      seq: 0,
+      createdAt: node.addedAt,
+    });
+  }
+  for (const edge of edges) {
+    if (loggedEdges.has(edge.id)) continue;
+    const sourceAt = addedAt.get(edge.source);
+    const targetAt = addedAt.get(edge.target);
+    if (sourceAt == null || targetAt == null) continue;
+    synthesized.push({
+      type: "add-edges",
+      edges: [edge],
+      id: `baseline-edge-${edge.id}`,
+      rabbitHoleId,
+      seq: 1,
+      createdAt: Math.max(sourceAt, targetAt),
+    });
+  }
+
+  if (synthesized.length === 0) return ops;
+  return [...synthesized, ...ops].sort(
+    (a, b) => a.createdAt - b.createdAt || a.seq - b.seq || a.id.localeCompare(b.id)
+  );
+}
+
+/** Group time-ordered ops into replay steps. */
+export function groupReplaySteps(ops: GraphOp[]): ReplayStep[] {
+  const steps: ReplayStep[] = [];
+  for (const op of ops) {
+    const last = steps[steps.length - 1];
+    const lastOp = last?.ops[last.ops.length - 1];
+    if (last && lastOp && op.createdAt - lastOp.createdAt <= STEP_GAP_MS) {
+      last.ops.push(op);
+    } else {
+      steps.push({ at: op.createdAt, ops: [op] });
+    }
+  }
+  return steps;
+}
+
+/** The graph after replaying steps 0..index inclusive (-1 is the empty graph). */
+export function snapshotAtStep(steps: ReplayStep[], index: number): GraphSnapshot {
+  const snapshot = emptySnapshot();
+  for (let i = 0; i <= index && i < steps.length; i++) {
+    for (const op of steps[i].ops) applyGraphOp(snapshot, op);
+  }
+  return snapshot;
+}
+
+/** Short human summary of what a step changed. */
+export function describeStep(step: ReplayStep): string {
+  let nodesAdded = 0;
+  let nodesRemoved = 0;
+  let edgesAdded = 0;
+  let edgesRemoved = 0;
+  const other = new Set<string>();
+  for (const op of step.ops) {
+    switch (op.type) {
+      case "add-nodes": nodesAdded += op.nodes.length; break;
+      case "remove-nodes": nodesRemoved += op.nodeIds.length; break;
+      case "add-edges": edgesAdded += op.edges.length; break;
+      case "remove-edges": edgesRemoved += op.edgeIds.length; break;
+      case "edge-update": other.add("edited links"); break;
+      case "node-state": other.add(op.state === "archived" ? "archived a node" : "changed node state"); break;
+      case "node-positions": other.add("moved nodes"); break;
+      case "node-tags": other.add("tagged nodes"); break;
+      case "node-data": other.add("updated metadata"); break;
+      case "clusters": other.add("reclustered"); break;
+      case "clear": other.add("cleared the graph"); break;
+    }
+  }
+
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+  const parts: string[] = [];
+  if (nodesAdded > 0) parts.push(`added ${plural(nodesAdded, "node")}`);
+  if (edgesAdded > 0) parts.push(`added ${plural(edgesAdded, "edge")}`);
+  if (nodesRemoved > 0) parts.push(`removed ${plural(nodesRemoved, "node")}`);
+  if (edgesRemoved > 0) parts.push(`removed ${plural(edgesRemoved, "edge")}`);
+  // Positions and clusters follow most additions; only mention them on their own
+  if (parts.length > 0) {
+    other.delete("moved nodes");
+    other.delete("reclustered");
+  }
+  parts.push(...other);
+
+  const text = parts.join(", ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,56 @@
+/**
+ * undo-writes.ts
+ *
+ * Write tracking for undo. The persist* wrappers report the nodes, edges,
+ * clusters and annotations they change; undo.ts builds a command's undo step from exactly
+ * those, so whatever else changes while the command is in flight (a
+ * teammate's update, a drag, another command) stays out of it.
+ */
+
+export interface GraphWrites {
+  nodeIds: Set<string>;
+  edgeIds: Set<string>;
+  annotationIds: Set<string>;
+  clusters: boolean;
+}
+
+// Set while collectWrites is running
+let active: GraphWrites | null = null;
+
+export function emptyWrites(): GraphWrites {
+  return { nodeIds: new Set(), edgeIds: new Set(), annotationIds: new Set(), clusters: false };
+}
+
+/**
+ * Run `apply` with the writes it makes collected into `writes`. Only the
+ * synchronous part of `apply` is covered, so nothing else can write in
+ * between; a nested call leaves its writes to the outer one.
+ */
+export function collectWrites<R>(writes: GraphWrites, apply: () => R): R {
+  if (active) return apply();
+  active = writes;
+  try {
+    return apply();
+  } finally {
+    active = null;
+  }
+}
+
+export function noteNodeWrites(nodeIds: Iterable<string>): void {
+  if (!active) return;
+  for (const id of nodeIds) active.nodeIds.add(id);
+}
+
+export function noteEdgeWrites(edgeIds: Iterable<string>): void {
+  if (!active) return;
+  for (const id of edgeIds) active.edgeIds.add(id);
+}
+
+export function noteAnnotationWrites(annotationIds: Iterable<string>): void {
+  if (!active) return;
+  for (const id of annotationIds) active.annotationIds.add(id);
+}
+
+export function noteClusterWrite(): void {
+  if (active) active.clusters = true;
+}
@@ -0,0 +1,343 @@
+/**
+ * undo.ts
+ *
+ * Undo support for graph commands. Rather than each command hand-writing its
+ * inverse, a command runs its writes through track(): the graph is captured
+ * around each tracked (synchronous) section and diffed on just the nodes,
+ * edges, clusters and annotations the section's persist* calls reported
+ * (undo-writes.ts).
+ * Undo and redo replay those diffs through the persist* wrappers, so
+ * SpacetimeDB is rolled back along with the store.
+ *
+ * runUndoGroup() folds every command run with its group (e.g. "apply all
+ * pending") into a single undo step.
+ */
+
+import {
+  persistAddEdges,
+  persistAddNodes,
+  persistRemoveEdges,
+  persistRemoveNodes,
+  persistSetClusters,
+  persistUpdateEdge,
+  persistUpdateNodeArchive,
+  persistUpdateNodeData,
+  persistUpdateNodeNotes,
+  persistUpdateNodePositions,
+  persistUpdateNodeState,
+  persistUpdateNodeTags,
+} from "@/lib/db/graph-actions";
+import { restoreAnnotations } from "@/lib/db/annotation-actions";
+import { collectWrites, emptyWrites, type GraphWrites } from "@/lib/graph/undo-writes";
+import { useAnnotationStore } from "@/store/annotation-store";
+import { useGraphStore } from "@/store/graph-store";
+import { useHistoryStore, type HistorySource } from "@/store/history-store";
+import { useRabbitHoleStore } from "@/store/rabbit-hole-store";
+import type { Annotation, Cluster, GraphEdge, PaperNode } from "@/types";
+
+interface GraphCapture {
+  nodes: Map<string, PaperNode>;
+  edges: GraphEdge[];
+  clusters: Cluster[];
+  annotations: Annotation[];
+}
+
+interface GraphDiff {
+  addedNodes: PaperNode[];
+  removedNodes: PaperNode[];
+  changedNodes: { before: PaperNode; after: PaperNode }[];
+  addedEdges: GraphEdge[];
+  removedEdges: GraphEdge[];
+  changedEdges: { before: GraphEdge; after: GraphEdge }[];
+  /** Annotations moved or edited, e.g. onto the survivor of a duplicate merge */
+  changedAnnotations: { before: Annotation; after: Annotation }[];
+  /** Set only when the clusters changed */
+  clusters?: { before: Cluster[]; after: Cluster[] };
+}
+
+/** Runs a synchronous part of a command with its writes recorded for undo. */
+export type TrackWrites = <R>(apply: () => R) => R;
+
+/** Undo steps collected from the commands run with a runUndoGroup group. */
+export interface UndoGroup {
+  rabbitHoleId: string | null;
+  steps: GraphDiff[];
+}
+
+function currentHoleId(): string | null {
+  return useRabbitHoleStore.getState().currentRabbitHoleId;
+}
+
+function captureGraph(): GraphCapture {
+  const { nodes, edges, clusters } = useGraphStore.getState();
+  const holeId = currentHoleId();
+  const annotations = holeId ? useAnnotationStore.getState().byHole[holeId] ?? [] : [];
+  return { nodes, edges, clusters, annotations };
+}
+
+function sameList(a: string[] = [], b: string[] = []): boolean {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+/** Scores are derived and recomputed after every change, so they don't count. */
+function nodeChanged(a: PaperNode, b: PaperNode): boolean {
+  if (a === b) return false;
+  return (
+    a.state !== b.state ||
+    a.position.x !== b.position.x ||
+    a.position.y !== b.position.y ||
+    (a.userNotes ?? "") !== (b.userNotes ?? "") ||
+    !sameList(a.userTags, b.userTags) ||
+    a.archive !== b.archive ||
+    (a.data !== b.data && JSON.stringify(a.data) !== JSON.stringify(b.data))
+  );
+}
+
+function edgeChanged(a: GraphEdge, b: GraphEdge): boolean {
+  if (a === b) return false;
+  return (
+    a.type !== b.type ||
+    a.trust !== b.trust ||
+    a.weight !== b.weight ||
+    (a.evidence ?? "") !== (b.evidence ?? "") ||
+    JSON.stringify(a.metadata ?? {}) !== JSON.stringify(b.metadata ?? {})
+  );
+}
+
+/** Diff two captures on only the rows a tracked section wrote. */
+function diffWrites(before: GraphCapture, after: GraphCapture, writes: GraphWrites): GraphDiff {
+  const diff: GraphDiff = {
+    addedNodes: [],
+    removedNodes: [],
+    changedNodes: [],
+    addedEdges: [],
+    removedEdges: [],
+    changedEdges: [],
+    changedAnnotations: [],
+  };
+
+  for (const id of writes.nodeIds) {
+    const previous = before.nodes.get(id);
+    const node = after.nodes.get(id);
+    if (!previous && node) diff.addedNodes.push(node);
+    else if (previous && !node) diff.removedNodes.push(previous);
+    else if (previous && node && nodeChanged(previous, node)) diff.changedNodes.push({ before: previous, after: node });
+  }
+
+  if (writes.edgeIds.size > 0) {
+    const beforeById = new Map(before.edges.map((e) => [e.id, e]));
+    const afterById = new Map(after.edges.map((e) => [e.id, e]));
+    for (const id of writes.edgeIds) {
+      const previous = beforeById.get(id);
+      const edge = afterById.get(id);
+      if (!previous && edge) diff.addedEdges.push(edge);
+      else if (previous && !edge) diff.removedEdges.push(previous);
+      else if (previous && edge && edgeChanged(previous, edge)) diff.changedEdges.push({ before: previous, after: edge });
+    }
+  }
+
+  if (writes.annotationIds.size > 0) {
+    const beforeById = new Map(before.annotations.map((a) => [a.id, a]));
+    const afterById = new Map(after.annotations.map((a) => [a.id, a]));
+    for (const id of writes.annotationIds) {
+      const previous = beforeById.get(id);
+      const annotation = afterById.get(id);
+      if (previous && annotation && previous !== annotation) {
+        diff.changedAnnotations.push({ before: previous, after: annotation });
+      }
+    }
+  }
+
+  if (
+    writes.clusters &&
+    before.clusters !== after.clusters &&
+    JSON.stringify(before.clusters) !== JSON.stringify(after.clusters)
+  ) {
+    diff.clusters = { before: before.clusters, after: after.clusters };
+  }
+  return diff;
+}
+
+function isEmptyDiff(diff: GraphDiff): boolean {
+  return (
+    diff.addedNodes.length === 0 &&
+    diff.removedNodes.length === 0 &&
+    diff.changedNodes.length === 0 &&
+    diff.addedEdges.length === 0 &&
+    diff.removedEdges.length === 0 &&
+    diff.changedEdges.length === 0 &&
+    diff.changedAnnotations.length === 0 &&
+    !diff.clusters
+  );
+}
+
+/** Move the graph across a diff, forwards (redo) or backwards (undo). */
+function applyDiff(diff: GraphDiff, forward: boolean): void {
+  const nodesToRemove = forward ? diff.removedNodes : diff.addedNodes;
+  const nodesToAdd = forward ? diff.addedNodes : diff.removedNodes;
+  const edgesToRemove = forward ? diff.removedEdges : diff.addedEdges;
+  const edgesToAdd = forward ? diff.addedEdges : diff.removedEdges;
+
+  if (edgesToRemove.length > 0) persistRemoveEdges(edgesToRemove.map((e) => e.id));
+  if (nodesToRemove.length > 0) persistRemoveNodes(nodesToRemove.map((n) => n.id));
+  if (nodesToAdd.length > 0) persistAddNodes(nodesToAdd);
+  // An endpoint may have been purged from the archive since
+  const present = useGraphStore.getState().nodes;
+  const attachable = edgesToAdd.filter((e) => present.has(e.source) && present.has(e.target));
+  if (attachable.length > 0) persistAddEdges(attachable);
+
+  const edgeIds = new Set(useGraphStore.getState().edges.map((e) => e.id));
+  for (const change of diff.changedEdges) {
+    const to = forward ? change.after : change.before;
+    if (!edgeIds.has(to.id)) continue;
+    persistUpdateEdge(to.id, {
+      type: to.type,
+      trust: to.trust,
+      weight: to.weight,
+      evidence: to.evidence,
+      metadata: to.metadata,
+    });
+  }
+
+  const positions = new Map<string, { x: number; y: number }>();
+  for (const change of diff.changedNodes) {
+    const from = forward ? change.before : change.after;
+    const to = forward ? change.after : change.before;
+    const id = to.id;
+    if (!useGraphStore.getState().nodes.has(id)) continue;
+
+    if (from.data !== to.data && JSON.stringify(from.data) !== JSON.stringify(to.data)) {
+      const nodes = new Map(useGraphStore.getState().nodes);
+      const current = nodes.get(id);
+      if (current) nodes.set(id, { ...current, data: to.data });
+      useGraphStore.setState({ nodes });
+      persistUpdateNodeData(id);
+    }
+    if ((from.userNotes ?? "") !== (to.userNotes ?? "")) persistUpdateNodeNotes(id, to.userNotes ?? "");
+    if (!sameList(from.userTags, to.userTags)) persistUpdateNodeTags(id, to.userTags ?? []);
+    if (from.state !== to.state) persistUpdateNodeState(id, to.state);
+    if (from.archive !== to.archive) persistUpdateNodeArchive(id, to.archive);
+    if (from.position.x !== to.position.x || from.position.y !== to.position.y) {
+      positions.set(id, to.position);
+    }
+  }
+  if (positions.size > 0) persistUpdateNodePositions(positions);
+
+  if (diff.clusters) {
+    const clusters = forward ? diff.clusters.after : diff.clusters.before;
+    const clusterOf = new Map<string, string>();
+    for (const cluster of clusters) for (const id of cluster.nodeIds) clusterOf.set(id, cluster.id);
+    const nodes = new Map(useGraphStore.getState().nodes);
+    for (const [id, node] of nodes) {
+      const clusterId = clusterOf.get(id);
+      if (node.clusterId !== clusterId) nodes.set(id, { ...node, clusterId });
+    }
+    useGraphStore.setState({ nodes });
+    persistSetClusters(clusters);
+  }
+
+  if (diff.changedAnnotations.length > 0) {
+    restoreAnnotations(diff.changedAnnotations.map((change) => (forward ? change.after : change.before)));
+  }
+
+  useGraphStore.getState().recalculateScores();
+}
+
+/** Push one history entry that undoes `steps` newest first and redoes them in order. */
+function recordSteps(description: string, source: HistorySource, steps: GraphDiff[]): void {
+  useHistoryStore.getState().push({
+    description,
+    source,
+    undo: () => {
+      for (const step of [...steps].reverse()) applyDiff(step, false);
+    },
+    redo: () => {
+      for (const step of steps) applyDiff(step, true);
+    },
+  });
+}
+
+/**
+ * Run a graph change and record it as one undo step. `run` passes the
+ * synchronous parts that write to the graph through `track`; only those
+ * writes are recorded, so anything that lands while `run` awaits is left
+ * out. `describe` names the step from the result, or returns null when
+ * nothing should be recorded. With a group, the step is left for
+ * runUndoGroup to record.
+ */
+export async function recordUndoable<T>(
+  run: (track: TrackWrites) => Promise<T>,
+  describe: (result: T) => string | null,
+  source: HistorySource = "system",
+  group?: UndoGroup
+): Promise<T> {
+  const rabbitHoleId = currentHoleId();
+  const steps: GraphDiff[] = [];
+  const track: TrackWrites = (apply) => {
+    const writes = emptyWrites();
+    const before = captureGraph();
+    try {
+      return collectWrites(writes, apply);
+    } finally {
+      const diff = diffWrites(before, captureGraph(), writes);
+      if (!isEmptyDiff(diff)) steps.push(diff);
+    }
+  };
+
+  const result = await run(track);
+  const description = describe(result);
+  if (!description || steps.length === 0 || currentHoleId() !== rabbitHoleId) return result;
+  if (group) {
+    if (group.rabbitHoleId === rabbitHoleId) group.steps.push(...steps);
+  } else {
+    recordSteps(description, source, steps);
+  }
+  return result;
+}
+
+/**
+ * Run several graph changes as a single undo step. Commands join the step by
+ * being run with the group `run` receives.
+ */
+export async function runUndoGroup<T>(
+  description: string,
+  run: (group: UndoGroup) => Promise<T>,
+  source: HistorySource = "system"
+): Promise<T> {
+  const group: UndoGroup = { rabbitHoleId: currentHoleId(), steps: [] };
+  try {
+    return await run(group);
+  } finally {
+    if (group.steps.length > 0 && currentHoleId() === group.rabbitHoleId) {
+      recordSteps(description, source, group.steps);
+    }
+  }
+}
+
+/** Record a change the canvas already made (a drag) from its before/after positions. */
+export function recordPositionChange(
+  description: string,
+  before: Map<string, { x: number; y: number }>,
+  after: Map<string, { x: number; y: number }>
+): void {
+  const nodes = useGraphStore.getState().nodes;
+  const changedNodes: GraphDiff["changedNodes"] = [];
+  for (const [id, position] of after) {
+    const node = nodes.get(id);
+    const previous = before.get(id);
+    if (!node || !previous || (previous.x === position.x && previous.y === position.y)) continue;
+    changedNodes.push({ before: { ...node, position: previous }, after: { ...node, position } });
+  }
+  if (changedNodes.length === 0) return;
+  recordSteps(description, "canvas", [
+    {
+      addedNodes: [],
+      removedNodes: [],
+      changedNodes,
+      addedEdges: [],
+      removedEdges: [],
+      changedEdges: [],
+      changedAnnotations: [],
+    },
+  ]);
+}
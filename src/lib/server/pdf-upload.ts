@@ -0,0 +1,132 @@
+/**
+ * Server-side handling for locally uploaded PDFs: text and metadata
+ * extraction, plus on-disk storage so the reader can load the file again.
+ * Files live under UPLOADS_DIR (default ./.uploads) as <fileId>.pdf with the
+ * extracted text alongside as <fileId>.txt.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { nanoid } from "nanoid";
+import { extractText, getDocumentProxy, getMeta } from "unpdf";
+import type { Author } from "@/types";
+
+export const MAX_PDF_BYTES = 25 * 1024 * 1024;
+export const MAX_PDF_TEXT_CHARS = 40_000;
+
+const UPLOADS_DIR = process.env.UPLOADS_DIR ?? path.join(process.cwd(), ".uploads");
+const FILE_ID_RE = /^[A-Za-z0-9_-]{16}$/;
+const UPLOAD_PATH_RE = /^\/api\/uploads\/([A-Za-z0-9_-]{16})$/;
+
+const DOI_RE = /\b(10\.\d{4,9}\/[^\s"<>]+[^\s"<>.,;)\]])/i;
+const ARXIV_RE = /\barXiv:\s*(\d{4}\.\d{4,5})(?:v\d+)?/i;
+
+export interface ExtractedPdf {
+  text: string;
+  pages: number;
+  title?: string;
+  authors: Author[];
+  doi?: string;
+  arxivId?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+function filePath(fileId: string, ext: "pdf" | "txt"): string {
+  if (!FILE_ID_RE.test(fileId)) throw new Error("Invalid upload id");
+  return path.join(UPLOADS_DIR, `${fileId}.${ext}`);
+}
+
+/** Store an uploaded PDF and its extracted text; returns the new file id. */
+export async function saveUpload(bytes: Uint8Array, text: string): Promise<string> {
+  const fileId = nanoid(16);
+  await mkdir(UPLOADS_DIR, { recursive: true });
+  await Promise.all([
+    writeFile(filePath(fileId, "pdf"), bytes),
+    writeFile(filePath(fileId, "txt"), text, "utf8"),
+  ]);
+  return fileId;
+}
+
+/** Read a stored upload; null when the id is unknown or malformed. */
+export async function readUpload(fileId: string, ext: "pdf" | "txt"): Promise<Buffer | null> {
+  try {
+    return await readFile(filePath(fileId, ext));
+  } catch {
+    return null;
+  }
+}
+
+export function uploadUrl(origin: string, fileId: string): string {
+  return `${origin}/api/uploads/${fileId}`;
+}
+
+/** File id when `url` points at /api/uploads/<id>, otherwise null. */
+export function uploadIdFromUrl(url: string): string | null {
+  try {
+    return new URL(url).pathname.match(UPLOAD_PATH_RE)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+function parseAuthorField(raw: string): Author[] {
+  return raw
+    .split(/\s*(?:;|,|\band\b|&)\s*/i)
+    .map((name) => name.trim())
+    .filter((name) => name.length > 1 && !/^(unknown|user|admin)$/i.test(name))
+    .map((name) => ({ id: `pdf-${name.toLowerCase().replace(/\s+/g, "-")}`, name }));
+}
+
+/** Document-info titles are often junk left by the authoring tool. */
+function isUsableTitle(title: string | undefined): title is string {
+  if (!title) return false;
+  const t = title.trim();
+  return (
+    t.length >= 8 &&
+    !/\.(docx?|tex|dvi|pdf)$/i.test(t) &&
+    !/^(untitled|microsoft word|arxiv:|doi:)/i.test(t)
+  );
+}
+
+/** First substantial line of the first page, which is usually the title. */
+function titleFromText(firstPage: string): string | undefined {
+  const lines = firstPage
+    .split("\n")
+    .map((l) => l.trim())
+    .filter((l) => l.length >= 8 && l.length <= 250);
+  return lines.find(
+    (l) => !/^(arxiv|doi|preprint|journal|proceedings|vol\.|volume|https?:)/i.test(l) && /[a-z]/i.test(l)
+  );
+}
+
+/** Pull text plus title, authors, DOI and arXiv id out of a PDF. */
+export async function extractPdf(bytes: Uint8Array): Promise<ExtractedPdf> {
+  // pdf.js takes ownership of the buffer, so hand it a copy
+  const pdf = await getDocumentProxy(new Uint8Array(bytes));
+  const [{ info }, { totalPages, text: pageTexts }] = await Promise.all([
+    getMeta(pdf),
+    extractText(pdf, { mergePages: false }),
+  ]);
+
+  const text = pageTexts.join("\n\n").replace(/[ \t]+\n/g, "\n").trim();
+  const head = pageTexts.slice(0, 2).join("\n");
+  const docInfo = (info ?? {}) as Record<string, unknown>;
+  const infoTitle = typeof docInfo.Title === "string" ? docInfo.Title : undefined;
+  const infoAuthor = typeof docInfo.Author === "string" ? docInfo.Author : undefined;
+
+  return {
+    text,
+    pages: totalPages,
+    title: isUsableTitle(infoTitle) ? infoTitle.trim() : titleFromText(pageTexts[0] ?? ""),
+    authors: infoAuthor ? parseAuthorField(infoAuthor) : [],
+    doi: head.match(DOI_RE)?.[1],
+    arxivId: head.match(ARXIV_RE)?.[1],
+  };
+}
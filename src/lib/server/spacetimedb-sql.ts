@@ -0,0 +1,94 @@
+/**
+ * Server-side reads from SpacetimeDB over its HTTP SQL endpoint.
+ *
+ * API routes cannot share the browser's websocket connection, so they issue
+ * one-off SQL queries instead and get rows back keyed by column name.
+ */
+
+const SPACETIMEDB_URI = process.env.NEXT_PUBLIC_SPACETIMEDB_URI ?? "wss://maincloud.spacetimedb.com";
+const MODULE_NAME = process.env.NEXT_PUBLIC_SPACETIMEDB_DATABASE ?? "rabbit-hole-db";
+
+export type SqlRow = Record<string, unknown>;
+
+interface SqlStatementResult {
+  schema: {
+    elements: Array<{ name?: { some?: string } | string | null }>;
+  };
+  rows: unknown[][];
+}
+
+function httpBaseUrl(): string {
+  return SPACETIMEDB_URI.replace(/^ws(s?):\/\//, "http$1://").replace(/\/+$/, "");
+}
+
+/** Quote a value for use as a SQL string literal. */
+export function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function columnName(element: SqlStatementResult["schema"]["elements"][number], index: number): string {
+  const name = element.name;
+  if (typeof name === "string") return name;
+  if (name && typeof name.some === "string") return name.some;
+  return String(index);
+}
+
+/**
+ * Unwrap SATS-JSON option values. Depending on the server version these
+ * arrive as { some: v } / { none: [] } or as [tag, value] pairs.
+ */
+function decodeValue(value: unknown): unknown {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const keys = Object.keys(value);
+    if (keys.length === 1 && keys[0] === "some") return (value as { some: unknown }).some;
+    if (keys.length === 1 && keys[0] === "none") return undefined;
+  }
+  if (Array.isArray(value) && value.length === 2 && (value[0] === 0 || value[0] === 1)) {
+    const [tag, inner] = value;
+    if (tag === 1 && Array.isArray(inner) && inner.length === 0) return undefined;
+    if (tag === 0) return inner;
+  }
+  return value;
+}
+
+/** Run a single SELECT and return its rows as plain objects keyed by column name. */
+export async function querySpacetime(sql: string): Promise<SqlRow[]> {
+  const headers: Record<string, string> = { "Content-Type": "text/plain" };
+  const token = process.env.SPACETIMEDB_SERVER_TOKEN;
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  let res: Response;
+  try {
+    res = await fetch(`${httpBaseUrl()}/v1/database/${encodeURIComponent(MODULE_NAME)}/sql`, {
+      method: "POST",
+      headers,
+      body: sql,
+      cache: "no-store",
+      signal: AbortSignal.timeout(15_000),
+    });
+  } catch (err) {
+    // AbortSignal.timeout rejects with a TimeoutError, not an AbortError
+    if (err instanceof DOMException && (err.name === "TimeoutError" || err.name === "AbortError")) {
+      throw new Error("Request to SpacetimeDB timed out after 15s");
+    }
+    throw err;
+  }
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "Unknown error");
+    throw new Error(`SpacetimeDB SQL error (${res.status}): ${text}`);
+  }
+
+  const results = (await res.json()) as SqlStatementResult[];
+  const statement = results[0];
+  if (!statement) return [];
+
+  const columns = statement.schema.elements.map(columnName);
+  return statement.rows.map((row) => {
+    const out: SqlRow = {};
+    columns.forEach((col, i) => {
+      out[col] = decodeValue(row[i]);
+    });
+    return out;
+  });
+}
@@ -0,0 +1,23 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+import {
+  TypeBuilder as __TypeBuilder,
+  t as __t,
+  type AlgebraicTypeType as __AlgebraicTypeType,
+  type Infer as __Infer,
+} from "spacetimedb";
+
+export default __t.row({
+  id: __t.string().primaryKey(),
+  rabbitHoleId: __t.string().name("rabbit_hole_id"),
+  nodeId: __t.string().name("node_id"),
+  text: __t.string(),
+  note: __t.option(__t.string()),
+  tagsJson: __t.string().name("tags_json"),
+  annotationType: __t.option(__t.string()).name("annotation_type"),
+  createdAt: __t.u64().name("created_at"),
+  updatedAt: __t.u64().name("updated_at"),
+});
@@ -0,0 +1,21 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+import {
+  TypeBuilder as __TypeBuilder,
+  t as __t,
+  type AlgebraicTypeType as __AlgebraicTypeType,
+  type Infer as __Infer,
+} from "spacetimedb";
+
+export default {
+  rabbitHoleId: __t.string(),
+  eventId: __t.string(),
+  source: __t.string(),
+  actionType: __t.string(),
+  summary: __t.string(),
+  payloadJson: __t.option(__t.string()),
+  createdAt: __t.u64(),
+};
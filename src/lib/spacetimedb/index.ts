@@ -35,39 +35,92 @@ import {
 
 // Import all reducer arg schemas
 import AddEdgeReducer from "./add_edge_reducer";
+import AddEdgesBatchReducer from "./add_edges_batch_reducer";
 import AddNodeReducer from "./add_node_reducer";
+import AddNodesBatchReducer from "./add_nodes_batch_reducer";
+import AppendActionEventReducer from "./append_action_event_reducer";
+import AppendGraphOpReducer from "./append_graph_op_reducer";
 import ClearRabbitHoleReducer from "./clear_rabbit_hole_reducer";
 import CreateChatThreadReducer from "./create_chat_thread_reducer";
 import CreateRabbitHoleReducer from "./create_rabbit_hole_reducer";
+import DeleteAnnotationReducer from "./delete_annotation_reducer";
 import DeleteChatThreadReducer from "./delete_chat_thread_reducer";
 import DeleteRabbitHoleReducer from "./delete_rabbit_hole_reducer";
+import DeleteSavedSearchReducer from "./delete_saved_search_reducer";
+import DeleteTagReducer from "./delete_tag_reducer";
+import ForkRabbitHoleReducer from "./fork_rabbit_hole_reducer";
 import RemoveEdgeReducer from "./remove_edge_reducer";
 import RemoveNodeReducer from "./remove_node_reducer";
 import RenameChatThreadReducer from "./rename_chat_thread_reducer";
+import SetArchivePolicyReducer from "./set_archive_policy_reducer";
 import SetClustersReducer from "./set_clusters_reducer";
 import SetNodeContentReducer from "./set_node_content_reducer";
+import SetNodeContentsBatchReducer from "./set_node_contents_batch_reducer";
+import UpdateEdgeReducer from "./update_edge_reducer";
+import UpdateNodeArchiveReducer from "./update_node_archive_reducer";
 import UpdateNodeDataReducer from "./update_node_data_reducer";
 import UpdateNodeNotesReducer from "./update_node_notes_reducer";
 import UpdateNodePositionReducer from "./update_node_position_reducer";
 import UpdateNodeStateReducer from "./update_node_state_reducer";
+import UpdateNodeTagsReducer from "./update_node_tags_reducer";
 import UpdateRabbitHoleReducer from "./update_rabbit_hole_reducer";
+import UpsertAnnotationReducer from "./upsert_annotation_reducer";
 import UpsertChatMessageReducer from "./upsert_chat_message_reducer";
+import UpsertChatMessagesBatchReducer from "./upsert_chat_messages_batch_reducer";
+import UpsertSavedSearchReducer from "./upsert_saved_search_reducer";
+import UpsertTagReducer from "./upsert_tag_reducer";
 
 // Import all procedure arg schemas
 
 // Import all table schema definitions
+import ActionEventRow from "./action_event_table";
+import AnnotationRow from "./annotation_table";
 import ChatMessageRow from "./chat_message_table";
 import ChatThreadRow from "./chat_thread_table";
 import ClusterRow from "./cluster_table";
 import EdgeRow from "./edge_table";
+import GraphOpRow from "./graph_op_table";
 import NodeRow from "./node_table";
 import NodeContentRow from "./node_content_table";
 import RabbitHoleRow from "./rabbit_hole_table";
+import SavedSearchRow from "./saved_search_table";
+import TagRow from "./tag_table";
 
 /** Type-only namespace exports for generated type groups. */
 
 /** The schema information for all tables in this module. This is defined the same was as the tables would have been defined in the server. */
 const tablesSchema = __schema({
+  action_event: __table({
+    name: 'action_event',
+    indexes: [
+      { name: 'id', algorithm: 'btree', columns: [
+        'id',
+      ] },
+      { name: 'rabbit_hole_id', algorithm: 'btree', columns: [
+        'rabbitHoleId',
+      ] },
+    ],
+    constraints: [
+      { name: 'action_event_id_key', constraint: 'unique', columns: ['id'] },
+    ],
+  }, ActionEventRow),
+  annotation: __table({
+    name: 'annotation',
+    indexes: [
+      { name: 'id', algorithm: 'btree', columns: [
+        'id',
+      ] },
+      { name: 'node_id', algorithm: 'btree', columns: [
+        'nodeId',
+      ] },
+      { name: 'rabbit_hole_id', algorithm: 'btree', columns: [
+        'rabbitHoleId',
+      ] },
+    ],
+    constraints: [
+      { name: 'annotation_id_key', constraint: 'unique', columns: ['id'] },
+    ],
+  }, AnnotationRow),
   chat_message: __table({
     name: 'chat_message',
     indexes: [
@@ -136,6 +189,20 @@ const tablesSchema = __schema({
       { name: 'edge_id_key', constraint: 'unique', columns: ['id'] },
     ],
   }, EdgeRow),
+  graph_op: __table({
+    name: 'graph_op',
+    indexes: [
+      { name: 'id', algorithm: 'btree', columns: [
+        'id',
+      ] },
+      { name: 'rabbit_hole_id', algorithm: 'btree', columns: [
+        'rabbitHoleId',
+      ] },
+    ],
+    constraints: [
+      { name: 'graph_op_id_key', constraint: 'unique', columns: ['id'] },
+    ],
+  }, GraphOpRow),
   node: __table({
     name: 'node',
     indexes: [
@@ -178,28 +245,73 @@ const tablesSchema = __schema({
       { name: 'rabbit_hole_id_key', constraint: 'unique', columns: ['id'] },
     ],
   }, RabbitHoleRow),
+  saved_search: __table({
+    name: 'saved_search',
+    indexes: [
+      { name: 'id', algorithm: 'btree', columns: [
+        'id',
+      ] },
+      { name: 'rabbit_hole_id', algorithm: 'btree', columns: [
+        'rabbitHoleId',
+      ] },
+    ],
+    constraints: [
+      { name: 'saved_search_id_key', constraint: 'unique', columns: ['id'] },
+    ],
+  }, SavedSearchRow),
+  tag: __table({
+    name: 'tag',
+    indexes: [
+      { name: 'id', algorithm: 'btree', columns: [
+        'id',
+      ] },
+      { name: 'rabbit_hole_id', algorithm: 'btree', columns: [
+        'rabbitHoleId',
+      ] },
+    ],
+    constraints: [
+      { name: 'tag_id_key', constraint: 'unique', columns: ['id'] },
+    ],
+  }, TagRow),
 });
 
 /** The schema information for all reducers in this module. This is defined the same way as the reducers would have been defined in the server, except the body of the reducer is omitted in code generation. */
 const reducersSchema = __reducers(
   __reducerSchema("add_edge", AddEdgeReducer),
+  __reducerSchema("add_edges_batch", AddEdgesBatchReducer),
   __reducerSchema("add_node", AddNodeReducer),
+  __reducerSchema("add_nodes_batch", AddNodesBatchReducer),
+  __reducerSchema("append_action_event", AppendActionEventReducer),
+  __reducerSchema("append_graph_op", AppendGraphOpReducer),
   __reducerSchema("clear_rabbit_hole", ClearRabbitHoleReducer),
   __reducerSchema("create_chat_thread", CreateChatThreadReducer),
   __reducerSchema("create_rabbit_hole", CreateRabbitHoleReducer),
+  __reducerSchema("delete_annotation", DeleteAnnotationReducer),
   __reducerSchema("delete_chat_thread", DeleteChatThreadReducer),
   __reducerSchema("delete_rabbit_hole", DeleteRabbitHoleReducer),
+  __reducerSchema("delete_saved_search", DeleteSavedSearchReducer),
+  __reducerSchema("delete_tag", DeleteTagReducer),
+  __reducerSchema("fork_rabbit_hole", ForkRabbitHoleReducer),
   __reducerSchema("remove_edge", RemoveEdgeReducer),
   __reducerSchema("remove_node", RemoveNodeReducer),
   __reducerSchema("rename_chat_thread", RenameChatThreadReducer),
+  __reducerSchema("set_archive_policy", SetArchivePolicyReducer),
   __reducerSchema("set_clusters", SetClustersReducer),
   __reducerSchema("set_node_content", SetNodeContentReducer),
+  __reducerSchema("set_node_contents_batch", SetNodeContentsBatchReducer),
+  __reducerSchema("update_edge", UpdateEdgeReducer),
+  __reducerSchema("update_node_archive", UpdateNodeArchiveReducer),
   __reducerSchema("update_node_data", UpdateNodeDataReducer),
   __reducerSchema("update_node_notes", UpdateNodeNotesReducer),
   __reducerSchema("update_node_position", UpdateNodePositionReducer),
   __reducerSchema("update_node_state", UpdateNodeStateReducer),
+  __reducerSchema("update_node_tags", UpdateNodeTagsReducer),
   __reducerSchema("update_rabbit_hole", UpdateRabbitHoleReducer),
+  __reducerSchema("upsert_annotation", UpsertAnnotationReducer),
   __reducerSchema("upsert_chat_message", UpsertChatMessageReducer),
+  __reducerSchema("upsert_chat_messages_batch", UpsertChatMessagesBatchReducer),
+  __reducerSchema("upsert_saved_search", UpsertSavedSearchReducer),
+  __reducerSchema("upsert_tag", UpsertTagReducer),
 );
 
 /** The schema information for all procedures in this module. This is defined the same way as the procedures would have been defined in the server. */
@@ -22,4 +22,6 @@ export default __t.row({
   addedAt: __t.u64().name("added_at"),
   expandedAt: __t.option(__t.u64()).name("expanded_at"),
   userNotes: __t.option(__t.string()).name("user_notes"),
+  tagsJson: __t.option(__t.string()).name("tags_json"),
+  archiveJson: __t.option(__t.string()).name("archive_json"),
 });
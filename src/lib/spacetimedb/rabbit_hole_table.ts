@@ -14,6 +14,8 @@ export default __t.row({
   id: __t.string().primaryKey(),
   name: __t.string(),
   rootQuery: __t.option(__t.string()).name("root_query"),
+  parentId: __t.option(__t.string()).name("parent_id"),
+  archivePurgeDays: __t.option(__t.u32()).name("archive_purge_days"),
   createdAt: __t.u64().name("created_at"),
   updatedAt: __t.u64().name("updated_at"),
 });
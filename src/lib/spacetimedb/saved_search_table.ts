@@ -0,0 +1,27 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+import {
+  TypeBuilder as __TypeBuilder,
+  t as __t,
+  type AlgebraicTypeType as __AlgebraicTypeType,
+  type Infer as __Infer,
+} from "spacetimedb";
+
+export default __t.row({
+  id: __t.string().primaryKey(),
+  rabbitHoleId: __t.string().name("rabbit_hole_id"),
+  query: __t.string(),
+  mode: __t.string(),
+  domainsJson: __t.string().name("domains_json"),
+  filtersJson: __t.string().name("filters_json"),
+  providersJson: __t.option(__t.string()).name("providers_json"),
+  seenIdsJson: __t.string().name("seen_ids_json"),
+  newIdsJson: __t.string().name("new_ids_json"),
+  intervalHours: __t.option(__t.u32()).name("interval_hours"),
+  lastRunAt: __t.option(__t.u64()).name("last_run_at"),
+  createdAt: __t.u64().name("created_at"),
+  updatedAt: __t.u64().name("updated_at"),
+});
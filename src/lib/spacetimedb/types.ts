@@ -10,6 +10,30 @@ import {
   type Infer as __Infer,
 } from "spacetimedb";
 
+export const ActionEvent = __t.object("ActionEvent", {
+  id: __t.string(),
+  rabbitHoleId: __t.string(),
+  source: __t.string(),
+  actionType: __t.string(),
+  summary: __t.string(),
+  payloadJson: __t.option(__t.string()),
+  createdAt: __t.u64(),
+});
+export type ActionEvent = __Infer<typeof ActionEvent>;
+
+export const Annotation = __t.object("Annotation", {
+  id: __t.string(),
+  rabbitHoleId: __t.string(),
+  nodeId: __t.string(),
+  text: __t.string(),
+  note: __t.option(__t.string()),
+  tagsJson: __t.string(),
+  annotationType: __t.option(__t.string()),
+  createdAt: __t.u64(),
+  updatedAt: __t.u64(),
+});
+export type Annotation = __Infer<typeof Annotation>;
+
 export const ChatMessage = __t.object("ChatMessage", {
   id: __t.string(),
   rabbitHoleId: __t.string(),
@@ -56,6 +80,16 @@ export const Edge = __t.object("Edge", {
 });
 export type Edge = __Infer<typeof Edge>;
 
+export const GraphOp = __t.object("GraphOp", {
+  id: __t.string(),
+  rabbitHoleId: __t.string(),
+  seq: __t.u64(),
+  opType: __t.string(),
+  payloadJson: __t.string(),
+  createdAt: __t.u64(),
+});
+export type GraphOp = __Infer<typeof GraphOp>;
+
 export const Node = __t.object("Node", {
   id: __t.string(),
   rabbitHoleId: __t.string(),
@@ -68,6 +102,8 @@ export const Node = __t.object("Node", {
   addedAt: __t.u64(),
   expandedAt: __t.option(__t.u64()),
   userNotes: __t.option(__t.string()),
+  tagsJson: __t.option(__t.string()),
+  archiveJson: __t.option(__t.string()),
 });
 export type Node = __Infer<typeof Node>;
 
@@ -84,8 +120,35 @@ export const RabbitHole = __t.object("RabbitHole", {
   id: __t.string(),
   name: __t.string(),
   rootQuery: __t.option(__t.string()),
+  parentId: __t.option(__t.string()),
+  archivePurgeDays: __t.option(__t.u32()),
   createdAt: __t.u64(),
   updatedAt: __t.u64(),
 });
 export type RabbitHole = __Infer<typeof RabbitHole>;
 
+export const SavedSearch = __t.object("SavedSearch", {
+  id: __t.string(),
+  rabbitHoleId: __t.string(),
+  query: __t.string(),
+  mode: __t.string(),
+  domainsJson: __t.string(),
+  filtersJson: __t.string(),
+  providersJson: __t.option(__t.string()),
+  seenIdsJson: __t.string(),
+  newIdsJson: __t.string(),
+  intervalHours: __t.option(__t.u32()),
+  lastRunAt: __t.option(__t.u64()),
+  createdAt: __t.u64(),
+  updatedAt: __t.u64(),
+});
+export type SavedSearch = __Infer<typeof SavedSearch>;
+
+export const Tag = __t.object("Tag", {
+  id: __t.string(),
+  rabbitHoleId: __t.string(),
+  name: __t.string(),
+  color: __t.option(__t.string()),
+  createdAt: __t.u64(),
+});
+export type Tag = __Infer<typeof Tag>;
@@ -7,40 +7,74 @@ import { type Infer as __Infer } from "spacetimedb";
 
 // Import all reducer arg schemas
 import AddEdgeReducer from "../add_edge_reducer";
+import AddEdgesBatchReducer from "../add_edges_batch_reducer";
 import AddNodeReducer from "../add_node_reducer";
+import AddNodesBatchReducer from "../add_nodes_batch_reducer";
+import AppendActionEventReducer from "../append_action_event_reducer";
+import AppendGraphOpReducer from "../append_graph_op_reducer";
 import ClearRabbitHoleReducer from "../clear_rabbit_hole_reducer";
 import CreateChatThreadReducer from "../create_chat_thread_reducer";
 import CreateRabbitHoleReducer from "../create_rabbit_hole_reducer";
+import DeleteAnnotationReducer from "../delete_annotation_reducer";
 import DeleteChatThreadReducer from "../delete_chat_thread_reducer";
 import DeleteRabbitHoleReducer from "../delete_rabbit_hole_reducer";
+import DeleteSavedSearchReducer from "../delete_saved_search_reducer";
+import DeleteTagReducer from "../delete_tag_reducer";
+import ForkRabbitHoleReducer from "../fork_rabbit_hole_reducer";
 import RemoveEdgeReducer from "../remove_edge_reducer";
 import RemoveNodeReducer from "../remove_node_reducer";
 import RenameChatThreadReducer from "../rename_chat_thread_reducer";
+import SetArchivePolicyReducer from "../set_archive_policy_reducer";
 import SetClustersReducer from "../set_clusters_reducer";
 import SetNodeContentReducer from "../set_node_content_reducer";
+import SetNodeContentsBatchReducer from "../set_node_contents_batch_reducer";
+import UpdateEdgeReducer from "../update_edge_reducer";
+import UpdateNodeArchiveReducer from "../update_node_archive_reducer";
 import UpdateNodeDataReducer from "../update_node_data_reducer";
 import UpdateNodeNotesReducer from "../update_node_notes_reducer";
 import UpdateNodePositionReducer from "../update_node_position_reducer";
 import UpdateNodeStateReducer from "../update_node_state_reducer";
+import UpdateNodeTagsReducer from "../update_node_tags_reducer";
 import UpdateRabbitHoleReducer from "../update_rabbit_hole_reducer";
+import UpsertAnnotationReducer from "../upsert_annotation_reducer";
 import UpsertChatMessageReducer from "../upsert_chat_message_reducer";
+import UpsertChatMessagesBatchReducer from "../upsert_chat_messages_batch_reducer";
+import UpsertSavedSearchReducer from "../upsert_saved_search_reducer";
+import UpsertTagReducer from "../upsert_tag_reducer";
 
 export type AddEdgeParams = __Infer<typeof AddEdgeReducer>;
+export type AddEdgesBatchParams = __Infer<typeof AddEdgesBatchReducer>;
 export type AddNodeParams = __Infer<typeof AddNodeReducer>;
+export type AddNodesBatchParams = __Infer<typeof AddNodesBatchReducer>;
+export type AppendActionEventParams = __Infer<typeof AppendActionEventReducer>;
+export type AppendGraphOpParams = __Infer<typeof AppendGraphOpReducer>;
 export type ClearRabbitHoleParams = __Infer<typeof ClearRabbitHoleReducer>;
 export type CreateChatThreadParams = __Infer<typeof CreateChatThreadReducer>;
 export type CreateRabbitHoleParams = __Infer<typeof CreateRabbitHoleReducer>;
+export type DeleteAnnotationParams = __Infer<typeof DeleteAnnotationReducer>;
 export type DeleteChatThreadParams = __Infer<typeof DeleteChatThreadReducer>;
 export type DeleteRabbitHoleParams = __Infer<typeof DeleteRabbitHoleReducer>;
+export type DeleteSavedSearchParams = __Infer<typeof DeleteSavedSearchReducer>;
+export type DeleteTagParams = __Infer<typeof DeleteTagReducer>;
+export type ForkRabbitHoleParams = __Infer<typeof ForkRabbitHoleReducer>;
 export type RemoveEdgeParams = __Infer<typeof RemoveEdgeReducer>;
 export type RemoveNodeParams = __Infer<typeof RemoveNodeReducer>;
 export type RenameChatThreadParams = __Infer<typeof RenameChatThreadReducer>;
+export type SetArchivePolicyParams = __Infer<typeof SetArchivePolicyReducer>;
 export type SetClustersParams = __Infer<typeof SetClustersReducer>;
 export type SetNodeContentParams = __Infer<typeof SetNodeContentReducer>;
+export type SetNodeContentsBatchParams = __Infer<typeof SetNodeContentsBatchReducer>;
+export type UpdateEdgeParams = __Infer<typeof UpdateEdgeReducer>;
+export type UpdateNodeArchiveParams = __Infer<typeof UpdateNodeArchiveReducer>;
 export type UpdateNodeDataParams = __Infer<typeof UpdateNodeDataReducer>;
 export type UpdateNodeNotesParams = __Infer<typeof UpdateNodeNotesReducer>;
 export type UpdateNodePositionParams = __Infer<typeof UpdateNodePositionReducer>;
 export type UpdateNodeStateParams = __Infer<typeof UpdateNodeStateReducer>;
+export type UpdateNodeTagsParams = __Infer<typeof UpdateNodeTagsReducer>;
 export type UpdateRabbitHoleParams = __Infer<typeof UpdateRabbitHoleReducer>;
+export type UpsertAnnotationParams = __Infer<typeof UpsertAnnotationReducer>;
 export type UpsertChatMessageParams = __Infer<typeof UpsertChatMessageReducer>;
+export type UpsertChatMessagesBatchParams = __Infer<typeof UpsertChatMessagesBatchReducer>;
+export type UpsertSavedSearchParams = __Infer<typeof UpsertSavedSearchReducer>;
+export type UpsertTagParams = __Infer<typeof UpsertTagReducer>;
 
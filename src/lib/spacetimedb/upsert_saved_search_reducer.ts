@@ -0,0 +1,25 @@
+// THIS FILE IS AUTOMATICALLY GENERATED BY SPACETIMEDB. EDITS TO THIS FILE
+// WILL NOT BE SAVED. MODIFY TABLES IN YOUR MODULE SOURCE CODE INSTEAD.
+
+/* eslint-disable */
+/* tslint:disable */
+import {
+  TypeBuilder as __TypeBuilder,
+  t as __t,
+  type AlgebraicTypeType as __AlgebraicTypeType,
+  type Infer as __Infer,
+} from "spacetimedb";
+
+export default {
+  rabbitHoleId: __t.string(),
+  savedSearchId: __t.string(),
+  query: __t.string(),
+  mode: __t.string(),
+  domainsJson: __t.string(),
+  filtersJson: __t.string(),
+  providersJson: __t.option(__t.string()),
+  seenIdsJson: __t.string(),
+  newIdsJson: __t.string(),
+  intervalHours: __t.option(__t.u32()),
+  lastRunAt: __t.option(__t.u64()),
+};
@@ -1,10 +1,22 @@
 import { parsePersistedNotes } from "@/lib/db/graph-actions";
-import type { PaperMetadata, PaperNode, Cluster, GraphEdge } from "@/types";
+import { ANNOTATION_TYPE_LABELS } from "@/types";
+import type {
+  Annotation,
+  Author,
+  CitationStyle,
+  PaperMetadata,
+  PaperNode,
+  NodeScores,
+  Cluster,
+  GraphEdge,
+} from "@/types";
 
 /**
  * Generate a BibTeX citation key from author last name and year.
+ * Papers imported from a bibliography keep their original key.
  */
-function makeCiteKey(paper: PaperMetadata): string {
+export function makeCiteKey(paper: PaperMetadata): string {
+  if (paper.citeKey) return paper.citeKey;
   const firstAuthor = paper.authors[0]?.name ?? "unknown";
   const lastName = firstAuthor.split(/\s+/).pop()?.toLowerCase() ?? "unknown";
   const year = paper.year ?? "nd";
@@ -17,6 +29,27 @@ function makeCiteKey(paper: PaperMetadata): string {
   return `${lastName}${year}${titleWord}`;
 }
 
+/**
+ * Assign a cite key to every paper (keyed by paper id). Keys are makeCiteKey
+ * output; when two papers would share a key, later ones get an a/b/c suffix so
+ * the .bib stays valid and \cite commands resolve to the right entry.
+ */
+export function makeCiteKeys(papers: PaperMetadata[]): Map<string, string> {
+  const keys = new Map<string, string>();
+  const used = new Set<string>();
+  for (const paper of papers) {
+    if (keys.has(paper.id)) continue;
+    const base = makeCiteKey(paper);
+    let key = base;
+    for (let i = 0; used.has(key); i++) {
+      key = `${base}${String.fromCharCode(97 + (i % 26))}${i >= 26 ? Math.floor(i / 26) : ""}`;
+    }
+    used.add(key);
+    keys.set(paper.id, key);
+  }
+  return keys;
+}
+
 /**
  * Escape special BibTeX characters.
  */
@@ -28,13 +61,30 @@ function bibtexEscape(text: string): string {
     .replace(/_/g, "\\_");
 }
 
+/** Split a page range ("101-117", "101–117") into first and last page. */
+function splitPages(pages: string): { first: string; last?: string } {
+  const [first, last] = pages.split(/\s*[-–—]+\s*/);
+  return { first, last: last || undefined };
+}
+
+/** Drop repeated papers (same id), keeping the first occurrence. */
+function uniquePapers(papers: PaperMetadata[]): PaperMetadata[] {
+  const seen = new Set<string>();
+  return papers.filter((paper) => {
+    if (seen.has(paper.id)) return false;
+    seen.add(paper.id);
+    return true;
+  });
+}
+
 /**
  * Generate BibTeX entries for a list of papers.
  */
 export function generateBibTeX(papers: PaperMetadata[]): string {
-  return papers
+  const keys = makeCiteKeys(papers);
+  return uniquePapers(papers)
     .map((paper) => {
-      const key = makeCiteKey(paper);
+      const key = keys.get(paper.id) ?? makeCiteKey(paper);
       const authors = paper.authors.map((a) => a.name).join(" and ");
       const fields: string[] = [];
 
@@ -42,6 +92,13 @@ export function generateBibTeX(papers: PaperMetadata[]): string {
       if (authors) fields.push(`  author = {${bibtexEscape(authors)}}`);
       if (paper.year) fields.push(`  year = {${paper.year}}`);
       if (paper.venue) fields.push(`  journal = {${bibtexEscape(paper.venue)}}`);
+      if (paper.volume) fields.push(`  volume = {${bibtexEscape(paper.volume)}}`);
+      if (paper.issue) fields.push(`  number = {${bibtexEscape(paper.issue)}}`);
+      if (paper.pages) {
+        const { first, last } = splitPages(paper.pages);
+        fields.push(`  pages = {${last ? `${first}--${last}` : first}}`);
+      }
+      if (paper.publisher) fields.push(`  publisher = {${bibtexEscape(paper.publisher)}}`);
       if (paper.externalIds.doi)
         fields.push(`  doi = {${paper.externalIds.doi}}`);
       if (paper.url) fields.push(`  url = {${paper.url}}`);
@@ -59,16 +116,26 @@ export function generateBibTeX(papers: PaperMetadata[]): string {
  * Generate RIS format entries for a list of papers.
  */
 export function generateRIS(papers: PaperMetadata[]): string {
-  return papers
+  const keys = makeCiteKeys(papers);
+  return uniquePapers(papers)
     .map((paper) => {
       const lines: string[] = [];
       lines.push("TY  - JOUR");
+      lines.push(`ID  - ${keys.get(paper.id) ?? makeCiteKey(paper)}`);
       lines.push(`TI  - ${paper.title}`);
       for (const author of paper.authors) {
         lines.push(`AU  - ${author.name}`);
       }
       if (paper.year) lines.push(`PY  - ${paper.year}`);
       if (paper.venue) lines.push(`JO  - ${paper.venue}`);
+      if (paper.volume) lines.push(`VL  - ${paper.volume}`);
+      if (paper.issue) lines.push(`IS  - ${paper.issue}`);
+      if (paper.pages) {
+        const { first, last } = splitPages(paper.pages);
+        lines.push(`SP  - ${first}`);
+        if (last) lines.push(`EP  - ${last}`);
+      }
+      if (paper.publisher) lines.push(`PB  - ${paper.publisher}`);
       if (paper.abstract) lines.push(`AB  - ${paper.abstract}`);
       if (paper.externalIds.doi) lines.push(`DO  - ${paper.externalIds.doi}`);
       if (paper.url) lines.push(`UR  - ${paper.url}`);
@@ -78,14 +145,296 @@ export function generateRIS(papers: PaperMetadata[]): string {
     .join("\n\n");
 }
 
+const CSL_TYPES: Record<string, string> = {
+  JournalArticle: "article-journal",
+  Conference: "paper-conference",
+  Book: "book",
+  BookSection: "chapter",
+  Thesis: "thesis",
+  Report: "report",
+};
+
+/**
+ * Split a display name into CSL family/given parts ("Ada M. Lovelace" ->
+ * family "Lovelace", given "Ada M."). Single-token names become literals.
+ */
+function cslName(name: string): { family?: string; given?: string; literal?: string } {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length < 2) return { literal: name.trim() };
+  return { family: parts[parts.length - 1], given: parts.slice(0, -1).join(" ") };
+}
+
+/**
+ * Generate CSL-JSON items (Zotero, Pandoc, citeproc) for a list of papers.
+ */
+export function generateCSLJSON(papers: PaperMetadata[]): string {
+  const keys = makeCiteKeys(papers);
+  const items = uniquePapers(papers).map((paper) => {
+    const type =
+      paper.publicationTypes
+        ?.map((t) => CSL_TYPES[t])
+        .find((t): t is string => Boolean(t)) ??
+      (paper.isUrlSource ? "webpage" : "article-journal");
+
+    const item: Record<string, unknown> = {
+      id: keys.get(paper.id) ?? makeCiteKey(paper),
+      type,
+      title: paper.title,
+    };
+    if (paper.authors.length > 0) item.author = paper.authors.map((a) => cslName(a.name));
+    if (paper.year) item.issued = { "date-parts": [[paper.year]] };
+    if (paper.venue) item["container-title"] = paper.venue;
+    if (paper.volume) item.volume = paper.volume;
+    if (paper.issue) item.issue = paper.issue;
+    if (paper.pages) item.page = paper.pages;
+    if (paper.publisher) item.publisher = paper.publisher;
+    if (paper.abstract) item.abstract = paper.abstract;
+    if (paper.externalIds.doi) item.DOI = paper.externalIds.doi;
+    if (paper.externalIds.pubmedId) item.PMID = paper.externalIds.pubmedId;
+    if (paper.url) item.URL = paper.url;
+    if (paper.fieldsOfStudy?.length) item.keyword = paper.fieldsOfStudy.join(", ");
+    return item;
+  });
+
+  return JSON.stringify(items, null, 2);
+}
+
+// --- Formatted bibliographies ---
+
+interface CitationStyleDefinition {
+  label: string;
+  /** Author lists with at least this many names are truncated */
+  etAlMin: number;
+  /** Number of names kept before the truncation marker */
+  etAlUseFirst: number;
+  /** APA keeps the final author after an ellipsis instead of writing "et al." */
+  truncation: "et-al" | "ellipsis-last";
+  nameOrder: "family-initials" | "first-inverted" | "initials-family";
+  numbered: boolean;
+  sortByAuthor: boolean;
+}
+
+/**
+ * Locally bundled style rules, following the name and et-al settings of the
+ * official CSL definitions for each style.
+ */
+export const CITATION_STYLES: Record<CitationStyle, CitationStyleDefinition> = {
+  apa: {
+    label: "APA 7",
+    etAlMin: 21,
+    etAlUseFirst: 19,
+    truncation: "ellipsis-last",
+    nameOrder: "family-initials",
+    numbered: false,
+    sortByAuthor: true,
+  },
+  mla: {
+    label: "MLA 9",
+    etAlMin: 3,
+    etAlUseFirst: 1,
+    truncation: "et-al",
+    nameOrder: "first-inverted",
+    numbered: false,
+    sortByAuthor: true,
+  },
+  chicago: {
+    label: "Chicago 17",
+    etAlMin: 11,
+    etAlUseFirst: 7,
+    truncation: "et-al",
+    nameOrder: "first-inverted",
+    numbered: false,
+    sortByAuthor: true,
+  },
+  ieee: {
+    label: "IEEE",
+    etAlMin: 7,
+    etAlUseFirst: 1,
+    truncation: "et-al",
+    nameOrder: "initials-family",
+    numbered: true,
+    sortByAuthor: false,
+  },
+};
+
+/** "Jean-Paul Ada" -> "J.-P. A." */
+function initials(given: string): string {
+  return given
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) =>
+      part
+        .split("-")
+        .map((p) => `${p.replace(/\.$/, "").charAt(0).toUpperCase()}.`)
+        .join("-")
+    )
+    .join(" ");
+}
+
+function formatAuthorName(
+  author: Author,
+  order: CitationStyleDefinition["nameOrder"],
+  position: number
+): string {
+  const { family, given, literal } = cslName(author.name);
+  if (literal || !family || !given) return literal ?? author.name;
+  switch (order) {
+    case "family-initials":
+      return `${family}, ${initials(given)}`;
+    case "initials-family":
+      return `${initials(given)} ${family}`;
+    case "first-inverted":
+      return position === 0 ? `${family}, ${given}` : `${given} ${family}`;
+  }
+}
+
+/**
+ * Render the author list for one reference, applying the style's et-al rule.
+ */
+function formatAuthorList(authors: Author[], style: CitationStyle): string {
+  const def = CITATION_STYLES[style];
+  if (authors.length === 0) return "";
+  const names = authors.map((a, i) => formatAuthorName(a, def.nameOrder, i));
+
+  if (names.length >= def.etAlMin) {
+    const kept = names.slice(0, def.etAlUseFirst);
+    if (def.truncation === "ellipsis-last") {
+      return `${kept.join(", ")}, . . . ${names[names.length - 1]}`;
+    }
+    // IEEE omits the comma before "et al."; MLA and Chicago keep it
+    return style === "ieee" ? `${kept.join(", ")} et al.` : `${kept.join(", ")}, et al.`;
+  }
+
+  if (names.length === 1) return names[0];
+  const conjunction = style === "apa" ? "&" : "and";
+  if (names.length === 2) {
+    // APA and the inverted first-author styles separate two names with a comma
+    return style === "ieee"
+      ? `${names[0]} ${conjunction} ${names[1]}`
+      : `${names[0]}, ${conjunction} ${names[1]}`;
+  }
+  return `${names.slice(0, -1).join(", ")}, ${conjunction} ${names[names.length - 1]}`;
+}
+
+/** End a sentence with a period unless it already has terminal punctuation. */
+function terminate(text: string): string {
+  return /[.?!]$/.test(text.trim()) ? text.trim() : `${text.trim()}.`;
+}
+
+function paperLink(paper: PaperMetadata): string | undefined {
+  if (paper.externalIds.doi) return `https://doi.org/${paper.externalIds.doi}`;
+  return paper.url;
+}
+
+/**
+ * Format a single reference in the given style. `index` is the 0-based
+ * position used for numbered styles.
+ */
+export function formatCitation(
+  paper: PaperMetadata,
+  style: CitationStyle,
+  index = 0
+): string {
+  const authors = formatAuthorList(paper.authors, style);
+  const title = paper.title.trim();
+  const link = paperLink(paper);
+  const parts: string[] = [];
+
+  switch (style) {
+    case "apa": {
+      const year = `(${paper.year ?? "n.d."}).`;
+      if (authors) parts.push(terminate(authors), year, terminate(title));
+      else parts.push(terminate(title), year);
+      if (paper.venue) parts.push(terminate(paper.venue));
+      if (link) parts.push(link);
+      break;
+    }
+    case "mla": {
+      if (authors) parts.push(terminate(authors));
+      parts.push(`"${terminate(title)}"`);
+      const container = [paper.venue, paper.year?.toString()].filter(Boolean).join(", ");
+      if (container) parts.push(terminate(container));
+      if (link) parts.push(terminate(link));
+      break;
+    }
+    case "chicago": {
+      if (authors) parts.push(terminate(authors));
+      parts.push(`"${terminate(title)}"`);
+      if (paper.venue) parts.push(paper.year ? `${paper.venue} (${paper.year}).` : terminate(paper.venue));
+      else if (paper.year) parts.push(`${paper.year}.`);
+      if (link) parts.push(terminate(link));
+      break;
+    }
+    case "ieee": {
+      const quoted = /[?!]$/.test(title) ? `"${title}"` : `"${title},"`;
+      const head = authors ? `${authors}, ${quoted}` : quoted;
+      const tail = [
+        paper.venue,
+        paper.year?.toString(),
+        paper.externalIds.doi ? `doi: ${paper.externalIds.doi}` : undefined,
+      ].filter(Boolean);
+      let body = tail.length > 0 ? `${head} ${tail.join(", ")}.` : `${head.replace(/,"$/, '."')}`;
+      if (!paper.externalIds.doi && paper.url) body += ` [Online]. Available: ${paper.url}`;
+      parts.push(`[${index + 1}]`, body);
+      break;
+    }
+  }
+
+  return parts.join(" ");
+}
+
+/**
+ * Render a formatted reference list. Author-date styles are sorted by first
+ * author surname, numbered styles keep the given order.
+ */
+export function formatBibliography(papers: PaperMetadata[], style: CitationStyle): string {
+  const def = CITATION_STYLES[style];
+  const ordered = def.sortByAuthor
+    ? [...papers].sort((a, b) => {
+        const keyA = cslName(a.authors[0]?.name ?? a.title);
+        const keyB = cslName(b.authors[0]?.name ?? b.title);
+        const nameA = (keyA.family ?? keyA.literal ?? "").toLowerCase();
+        const nameB = (keyB.family ?? keyB.literal ?? "").toLowerCase();
+        return nameA.localeCompare(nameB) || (a.year ?? 0) - (b.year ?? 0);
+      })
+    : papers;
+
+  return ordered.map((paper, i) => formatCitation(paper, style, i)).join("\n\n");
+}
+
+function groupAnnotations(annotations: Annotation[] | undefined): Map<string, Annotation[]> {
+  const byPaper = new Map<string, Annotation[]>();
+  for (const a of annotations ?? []) {
+    const list = byPaper.get(a.paperId);
+    if (list) list.push(a);
+    else byPaper.set(a.paperId, [a]);
+  }
+  return byPaper;
+}
+
+/** Highlighted passages as markdown blockquotes, one per annotation. */
+function markdownAnnotationLines(annotations: Annotation[]): string[] {
+  const lines: string[] = [];
+  for (const a of annotations) {
+    const label = a.type ? `**${ANNOTATION_TYPE_LABELS[a.type]}:** ` : "";
+    lines.push(`> ${label}${a.text.replace(/\s*\n\s*/g, " ")}`);
+    if (a.note) lines.push(">", `> *${a.note}*`);
+    lines.push("");
+  }
+  return lines;
+}
+
 /**
  * Generate a markdown literature review grouped by clusters.
+ * Annotations, when given, are quoted under the paper they were taken from.
  */
 export function generateMarkdownReview(
   papers: PaperMetadata[],
-  clusters?: Cluster[]
+  clusters?: Cluster[],
+  annotations?: Annotation[]
 ): string {
   const lines: string[] = [];
+  const annotationsByPaper = groupAnnotations(annotations);
   lines.push("# Literature Review\n");
 
   if (clusters && clusters.length > 0) {
@@ -121,6 +470,7 @@ export function generateMarkdownReview(
         } else {
           lines.push("");
         }
+        lines.push(...markdownAnnotationLines(annotationsByPaper.get(paper.id) ?? []));
       }
     }
   } else {
@@ -140,6 +490,11 @@ export function generateMarkdownReview(
       lines.push(
         `- **${paper.title}** (${authors}, ${paper.year ?? "n.d."}) - ${paper.citationCount} citations`
       );
+      const paperAnnotations = annotationsByPaper.get(paper.id) ?? [];
+      if (paperAnnotations.length > 0) {
+        lines.push("");
+        lines.push(...markdownAnnotationLines(paperAnnotations).map((l) => (l ? `  ${l}` : l)));
+      }
     }
   }
 
@@ -169,9 +524,11 @@ function obsidianFilename(title: string): string {
 export function generateObsidianExport(
   nodes: Map<string, PaperNode>,
   edges: GraphEdge[],
-  clusters?: Cluster[]
+  clusters?: Cluster[],
+  annotations?: Annotation[]
 ): string {
   const sections: string[] = [];
+  const annotationsByPaper = groupAnnotations(annotations);
   const titleById = new Map<string, string>();
 
   // Build a title lookup
@@ -279,6 +636,21 @@ export function generateObsidianExport(
       lines.push("");
     }
 
+    // Highlights as Obsidian callouts, titled by annotation type
+    const highlights = annotationsByPaper.get(node.id) ?? [];
+    if (highlights.length > 0) {
+      lines.push("## Highlights");
+      for (const a of highlights) {
+        lines.push(`> [!quote] ${a.type ? ANNOTATION_TYPE_LABELS[a.type] : "Highlight"}`);
+        for (const textLine of a.text.split("\n")) lines.push(`> ${textLine}`);
+        if (a.note) {
+          lines.push(">");
+          lines.push(`> *${a.note}*`);
+        }
+        lines.push("");
+      }
+    }
+
     // Related section with wikilinks
     const similar = similarMap.get(node.id) ?? [];
     if (cites.length > 0 || citedBy.length > 0 || similar.length > 0) {
@@ -310,15 +682,366 @@ export function generateObsidianExport(
   return header + sections.join("\n---\n\n");
 }
 
+// --- LaTeX review ---
+
+/** Escape LaTeX special characters in running text. */
+export function latexEscape(text: string): string {
+  return text
+    .replace(/\\/g, "\\textbackslash{}")
+    .replace(/([&%$#_{}])/g, "\\$1")
+    .replace(/~/g, "\\textasciitilde{}")
+    .replace(/\^/g, "\\textasciicircum{}");
+}
+
+/**
+ * Wrap review sections in a compilable article that pulls references from the
+ * companion `bibFileName`.bib via natbib.
+ */
+export function wrapLatexDocument(body: string, title = "Literature Review", bibFileName = "references"): string {
+  return [
+    "\\documentclass[11pt]{article}",
+    "\\usepackage[utf8]{inputenc}",
+    "\\usepackage[T1]{fontenc}",
+    "\\usepackage[round]{natbib}",
+    "\\usepackage{hyperref}",
+    "",
+    `\\title{${latexEscape(title)}}`,
+    "\\date{\\today}",
+    "",
+    "\\begin{document}",
+    "\\maketitle",
+    "",
+    body.trim(),
+    "",
+    "\\bibliographystyle{plainnat}",
+    `\\bibliography{${bibFileName}}`,
+    "",
+    "\\end{document}",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Remove citation keys that aren't in `allowed` from every \cite-family command.
+ * Commands left without keys are dropped entirely.
+ */
+export function sanitizeLatexCitations(
+  tex: string,
+  allowed: Set<string>
+): { tex: string; dropped: string[] } {
+  const dropped = new Set<string>();
+  const cleaned = tex.replace(
+    /\\(cite[a-zA-Z]*\*?)((?:\[[^\]]*\]){0,2})\{([^}]*)\}/g,
+    (_match, command: string, optional: string, keyList: string) => {
+      const keys = keyList.split(",").map((k) => k.trim()).filter(Boolean);
+      const kept = keys.filter((k) => {
+        if (allowed.has(k)) return true;
+        dropped.add(k);
+        return false;
+      });
+      if (kept.length === 0) return "";
+      return `\\${command}${optional}{${kept.join(",")}}`;
+    }
+  );
+  return {
+    // Tidy the gap a removed command leaves before punctuation
+    tex: dropped.size > 0 ? cleaned.replace(/ +([.,;])/g, "$1") : cleaned,
+    dropped: Array.from(dropped),
+  };
+}
+
+function latexPaperParagraph(paper: PaperMetadata, key: string): string {
+  const abstract = paper.abstract?.trim();
+  const summary =
+    paper.tldr ?? (abstract && abstract.length > 300 ? `${abstract.slice(0, 300).trim()}...` : abstract);
+  const lead = `\\citet{${key}} present \\emph{${latexEscape(paper.title)}}`;
+  return summary ? `${lead}. ${latexEscape(summary)}` : `${lead}.`;
+}
+
+/**
+ * Generate a template LaTeX review body: one \section per cluster, plus a
+ * section for papers outside any cluster. Every paper is cited with its key
+ * from makeCiteKeys, so the matching generateBibTeX output compiles as-is.
+ */
+export function generateLatexReviewBody(
+  papers: PaperMetadata[],
+  clusters: Cluster[] = []
+): string {
+  const keys = makeCiteKeys(papers);
+  const paperMap = new Map(papers.map((p) => [p.id, p]));
+  const placed = new Set<string>();
+  const sections: string[] = [];
+  const byYear = (a: PaperMetadata, b: PaperMetadata) => (a.year ?? 0) - (b.year ?? 0);
+
+  for (const cluster of clusters) {
+    const clusterPapers = cluster.nodeIds
+      .map((id) => paperMap.get(id))
+      .filter((p): p is PaperMetadata => p !== undefined && !placed.has(p.id))
+      .sort(byYear);
+    if (clusterPapers.length === 0) continue;
+
+    const lines = [`\\section{${latexEscape(cluster.label)}}`, ""];
+    if (cluster.description) lines.push(latexEscape(cluster.description), "");
+    for (const paper of clusterPapers) {
+      placed.add(paper.id);
+      lines.push(latexPaperParagraph(paper, keys.get(paper.id)!), "");
+    }
+    sections.push(lines.join("\n"));
+  }
+
+  const remaining = papers.filter((p) => !placed.has(p.id)).sort(byYear);
+  if (remaining.length > 0) {
+    const lines = [`\\section{${clusters.length > 0 ? "Other Work" : "Related Work"}}`, ""];
+    for (const paper of remaining) {
+      placed.add(paper.id);
+      lines.push(latexPaperParagraph(paper, keys.get(paper.id)!), "");
+    }
+    sections.push(lines.join("\n"));
+  }
+
+  return sections.join("\n");
+}
+
+/**
+ * Generate a compilable .tex review and its companion .bib.
+ */
+export function generateLatexReview(
+  papers: PaperMetadata[],
+  clusters: Cluster[] = [],
+  title?: string
+): { tex: string; bib: string } {
+  return {
+    tex: wrapLatexDocument(generateLatexReviewBody(papers, clusters), title),
+    bib: generateBibTeX(papers),
+  };
+}
+
+// --- Network formats (GraphML / GEXF) ---
+
+const SCORE_KEYS: (keyof NodeScores)[] = [
+  "relevance",
+  "influence",
+  "recency",
+  "semanticSimilarity",
+  "localCentrality",
+  "velocity",
+];
+
+const UNCLUSTERED_COLOR = "#a8a29e";
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Collect the non-archived nodes, the edges between them and each node's
+ * cluster (by clusterId, falling back to cluster membership lists).
+ */
+function collectNetwork(
+  nodes: Map<string, PaperNode>,
+  edges: GraphEdge[],
+  clusters: Cluster[]
+) {
+  const included = Array.from(nodes.values()).filter((n) => n.state !== "archived");
+  const ids = new Set(included.map((n) => n.id));
+  const clusterById = new Map(clusters.map((c) => [c.id, c]));
+  const clusterOf = (node: PaperNode): Cluster | undefined =>
+    (node.clusterId ? clusterById.get(node.clusterId) : undefined) ??
+    clusters.find((c) => c.nodeIds.includes(node.id));
+
+  return {
+    nodes: included,
+    edges: edges.filter((e) => ids.has(e.source) && ids.has(e.target)),
+    clusterOf,
+  };
+}
+
+type AttrType = "string" | "int" | "double";
+
+const NODE_ATTRS: { name: string; type: AttrType }[] = [
+  { name: "title", type: "string" },
+  { name: "year", type: "int" },
+  { name: "venue", type: "string" },
+  { name: "citationCount", type: "int" },
+  { name: "cluster", type: "string" },
+  { name: "clusterColor", type: "string" },
+  { name: "state", type: "string" },
+  ...SCORE_KEYS.map((name) => ({ name, type: "double" as const })),
+];
+
+const EDGE_ATTRS: { name: string; type: AttrType }[] = [
+  { name: "type", type: "string" },
+  { name: "trust", type: "string" },
+  { name: "weight", type: "double" },
+  { name: "evidence", type: "string" },
+];
+
+function nodeAttrValues(
+  node: PaperNode,
+  cluster: Cluster | undefined
+): Record<string, string | number | undefined> {
+  const values: Record<string, string | number | undefined> = {
+    title: node.data.title,
+    year: node.data.year,
+    venue: node.data.venue,
+    citationCount: node.data.citationCount,
+    cluster: cluster?.label,
+    clusterColor: cluster?.color,
+    state: node.state,
+  };
+  for (const key of SCORE_KEYS) values[key] = node.scores[key];
+  return values;
+}
+
+function edgeAttrValues(edge: GraphEdge): Record<string, string | number | undefined> {
+  return {
+    type: edge.type,
+    trust: edge.trust,
+    weight: edge.weight,
+    evidence: edge.evidence,
+  };
+}
+
+/**
+ * Generate a GraphML document (NetworkX, yEd, Gephi) with typed node and
+ * edge attribute keys.
+ */
+export function generateGraphML(
+  nodes: Map<string, PaperNode>,
+  edges: GraphEdge[],
+  clusters: Cluster[] = []
+): string {
+  const network = collectNetwork(nodes, edges, clusters);
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '         xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+  ];
+
+  for (const attr of NODE_ATTRS) {
+    lines.push(`  <key id="n_${attr.name}" for="node" attr.name="${attr.name}" attr.type="${attr.type}"/>`);
+  }
+  for (const attr of EDGE_ATTRS) {
+    lines.push(`  <key id="e_${attr.name}" for="edge" attr.name="${attr.name}" attr.type="${attr.type}"/>`);
+  }
+  lines.push('  <graph id="research-rodeo" edgedefault="directed">');
+
+  for (const node of network.nodes) {
+    lines.push(`    <node id="${xmlEscape(node.id)}">`);
+    for (const [name, value] of Object.entries(nodeAttrValues(node, network.clusterOf(node)))) {
+      if (value === undefined) continue;
+      lines.push(`      <data key="n_${name}">${xmlEscape(String(value))}</data>`);
+    }
+    lines.push("    </node>");
+  }
+
+  for (const edge of network.edges) {
+    lines.push(
+      `    <edge id="${xmlEscape(edge.id)}" source="${xmlEscape(edge.source)}" target="${xmlEscape(edge.target)}">`
+    );
+    for (const [name, value] of Object.entries(edgeAttrValues(edge))) {
+      if (value === undefined) continue;
+      lines.push(`      <data key="e_${name}">${xmlEscape(String(value))}</data>`);
+    }
+    lines.push("    </edge>");
+  }
+
+  lines.push("  </graph>", "</graphml>");
+  return lines.join("\n");
+}
+
+function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  let value = hex.replace(/^#/, "");
+  if (value.length === 3) value = value.split("").map((c) => c + c).join("");
+  const n = parseInt(value.slice(0, 6), 16);
+  if (Number.isNaN(n)) return hexToRgb(UNCLUSTERED_COLOR);
+  return { r: (n >> 16) & 255, g: (n >> 8) & 255, b: n & 255 };
+}
+
+const GEXF_TYPES: Record<AttrType, string> = { string: "string", int: "integer", double: "double" };
+
+/**
+ * Generate a GEXF 1.3 document for Gephi. Cluster colors become viz:color,
+ * canvas positions become viz:position and relevance drives viz:size.
+ */
+export function generateGEXF(
+  nodes: Map<string, PaperNode>,
+  edges: GraphEdge[],
+  clusters: Cluster[] = []
+): string {
+  const network = collectNetwork(nodes, edges, clusters);
+  // weight is a built-in GEXF edge attribute, so it isn't declared again
+  const edgeAttrs = EDGE_ATTRS.filter((a) => a.name !== "weight");
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    "    <creator>Research Rodeo</creator>",
+    "  </meta>",
+    '  <graph mode="static" defaultedgetype="directed">',
+    '    <attributes class="node">',
+    ...NODE_ATTRS.map(
+      (a) => `      <attribute id="${a.name}" title="${a.name}" type="${GEXF_TYPES[a.type]}"/>`
+    ),
+    "    </attributes>",
+    '    <attributes class="edge">',
+    ...edgeAttrs.map(
+      (a) => `      <attribute id="${a.name}" title="${a.name}" type="${GEXF_TYPES[a.type]}"/>`
+    ),
+    "    </attributes>",
+    "    <nodes>",
+  ];
+
+  for (const node of network.nodes) {
+    const cluster = network.clusterOf(node);
+    const { r, g, b } = hexToRgb(cluster?.color ?? UNCLUSTERED_COLOR);
+    lines.push(`      <node id="${xmlEscape(node.id)}" label="${xmlEscape(node.data.title)}">`);
+    lines.push("        <attvalues>");
+    for (const [name, value] of Object.entries(nodeAttrValues(node, cluster))) {
+      if (value === undefined) continue;
+      lines.push(`          <attvalue for="${name}" value="${xmlEscape(String(value))}"/>`);
+    }
+    lines.push("        </attvalues>");
+    lines.push(`        <viz:color r="${r}" g="${g}" b="${b}"/>`);
+    // Gephi's y axis points up, React Flow's points down
+    lines.push(`        <viz:position x="${node.position.x}" y="${-node.position.y}" z="0"/>`);
+    lines.push(`        <viz:size value="${(10 + node.scores.relevance * 20).toFixed(2)}"/>`);
+    lines.push("      </node>");
+  }
+  lines.push("    </nodes>", "    <edges>");
+
+  for (const edge of network.edges) {
+    lines.push(
+      `      <edge id="${xmlEscape(edge.id)}" source="${xmlEscape(edge.source)}" target="${xmlEscape(edge.target)}" weight="${edge.weight}" label="${xmlEscape(edge.type)}">`
+    );
+    lines.push("        <attvalues>");
+    for (const [name, value] of Object.entries(edgeAttrValues(edge))) {
+      if (value === undefined || name === "weight") continue;
+      lines.push(`          <attvalue for="${name}" value="${xmlEscape(String(value))}"/>`);
+    }
+    lines.push("        </attvalues>");
+    lines.push("      </edge>");
+  }
+
+  lines.push("    </edges>", "  </graph>", "</gexf>");
+  return lines.join("\n");
+}
+
 /**
  * Trigger a file download in the browser.
  */
 export function downloadFile(
-  content: string,
+  content: string | Blob,
   filename: string,
   mimeType: string
 ): void {
-  const blob = new Blob([content], { type: mimeType });
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement("a");
   link.href = url;
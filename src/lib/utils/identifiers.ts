@@ -0,0 +1,98 @@
+import type { ParsedIdentifier } from "@/types";
+import { extractArxivId } from "@/lib/utils/arxiv-urls";
+
+const DOI_RE = /^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:)?(10\.\d{4,9}\/\S+)$/i;
+const ARXIV_NEW_RE = /^(?:arxiv:)?(\d{4}\.\d{4,5})(?:v\d+)?$/i;
+const ARXIV_OLD_RE = /^(?:arxiv:)?([a-z-]+(?:\.[a-z]{2})?\/\d{7})(?:v\d+)?$/i;
+// Bare numbers are too ambiguous to treat as PMIDs; require the prefix or a URL
+const PMID_RE = /^pmid:?(\d{1,9})$/i;
+const PUBMED_URL_RE = /pubmed\.ncbi\.nlm\.nih\.gov\/(\d+)/i;
+
+/** Trailing punctuation picked up from prose or list formatting. */
+function trimToken(token: string): string {
+  let out = token.trim().replace(/^[<([{"']+/, "").replace(/[>}"'.,;]+$/, "");
+  // DOIs such as 10.1016/S0140-6736(20)30183-5 contain balanced parentheses
+  while (/[)\]]$/.test(out)) {
+    const open = out.endsWith(")") ? "(" : "[";
+    const close = out.endsWith(")") ? ")" : "]";
+    if (out.split(open).length >= out.split(close).length) break;
+    out = out.slice(0, -1).replace(/[.,;]+$/, "");
+  }
+  return out;
+}
+
+/** Classify one pasted token as a DOI, arXiv id, PMID or URL. */
+export function classifyIdentifier(raw: string): ParsedIdentifier {
+  const input = raw.trim();
+  const token = trimToken(input);
+
+  const doi = token.match(DOI_RE);
+  if (doi) return { input, kind: "doi", value: doi[1].toLowerCase() };
+
+  const arxiv =
+    (/^https?:\/\//i.test(token) ? extractArxivId(token) : null) ??
+    token.match(ARXIV_NEW_RE)?.[1] ??
+    token.match(ARXIV_OLD_RE)?.[1];
+  if (arxiv) return { input, kind: "arxiv", value: arxiv };
+
+  const pmid = token.match(PMID_RE)?.[1] ?? token.match(PUBMED_URL_RE)?.[1];
+  if (pmid) return { input, kind: "pmid", value: pmid };
+
+  if (/^https?:\/\/\S+\.\S+/i.test(token)) return { input, kind: "url", value: token };
+
+  return { input, kind: null, value: token };
+}
+
+/**
+ * Split a pasted list (one per line, or separated by commas, semicolons or
+ * spaces) into classified identifiers, dropping exact repeats.
+ */
+export function parseIdentifierList(text: string): ParsedIdentifier[] {
+  const tokens = text
+    // Keep "PMID: 123", "PMID 123", "doi: 10.x/y" and "arXiv: 2301.00001" together
+    .replace(/\bpmid\s*:?\s*(?=\d)/gi, "pmid:")
+    .replace(/\b(doi|arxiv)\s*:\s*/gi, "$1:")
+    .split(/[\s,;]+/)
+    .filter(Boolean);
+
+  const seen = new Set<string>();
+  const out: ParsedIdentifier[] = [];
+  for (const token of tokens) {
+    const parsed = classifyIdentifier(token);
+    const key = `${parsed.kind ?? "?"}:${parsed.value.toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(parsed);
+  }
+  return out;
+}
+
+/** Semantic Scholar paper id for an identifier (DOI:, ARXIV:, PMID:, URL:). */
+export function identifierToS2Query(id: ParsedIdentifier): string | null {
+  switch (id.kind) {
+    case "doi":
+      return `DOI:${id.value}`;
+    case "arxiv":
+      return `ARXIV:${id.value}`;
+    case "pmid":
+      return `PMID:${id.value}`;
+    case "url":
+      return `URL:${id.value}`;
+    default:
+      return null;
+  }
+}
+
+/** OpenAlex work id for an identifier; arXiv papers resolve through their DataCite DOI. */
+export function identifierToOpenAlexId(id: ParsedIdentifier): string | null {
+  switch (id.kind) {
+    case "doi":
+      return `doi:${id.value}`;
+    case "arxiv":
+      return `doi:10.48550/arXiv.${id.value}`;
+    case "pmid":
+      return `pmid:${id.value}`;
+    default:
+      return null;
+  }
+}
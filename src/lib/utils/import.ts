@@ -0,0 +1,508 @@
+import type { Author, ExternalIds, ImportFormat, PaperMetadata } from "@/types";
+import { extractArxivId } from "@/lib/utils/arxiv-urls";
+
+export interface BibTeXEntry {
+  type: string; // lowercased entry type, e.g. "article"
+  citeKey: string;
+  fields: Record<string, string>; // lowercased field names, raw (unescaped) values
+}
+
+const MONTH_MACROS: Record<string, string> = {
+  jan: "January",
+  feb: "February",
+  mar: "March",
+  apr: "April",
+  may: "May",
+  jun: "June",
+  jul: "July",
+  aug: "August",
+  sep: "September",
+  oct: "October",
+  nov: "November",
+  dec: "December",
+};
+
+const DOI_RE = /\b(10\.\d{4,9}\/[^\s"<>{}]+)/i;
+
+/**
+ * Read a balanced {...} or "..." value starting at `start`.
+ * Returns the inner text and the index just past the closing delimiter.
+ */
+function readDelimited(input: string, start: number): { value: string; end: number } {
+  const open = input[start];
+  if (open === '"') {
+    let depth = 0;
+    for (let i = start + 1; i < input.length; i++) {
+      const ch = input[i];
+      if (ch === "\\") {
+        i++;
+        continue;
+      }
+      if (ch === "{") depth++;
+      else if (ch === "}") depth--;
+      else if (ch === '"' && depth === 0) {
+        return { value: input.slice(start + 1, i), end: i + 1 };
+      }
+    }
+    return { value: input.slice(start + 1), end: input.length };
+  }
+
+  let depth = 0;
+  for (let i = start; i < input.length; i++) {
+    const ch = input[i];
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (ch === "{") depth++;
+    else if (ch === "}") {
+      depth--;
+      if (depth === 0) return { value: input.slice(start + 1, i), end: i + 1 };
+    }
+  }
+  return { value: input.slice(start + 1), end: input.length };
+}
+
+/**
+ * Parse a field value: one or more `#`-concatenated pieces, each a braced
+ * string, quoted string, number or @string macro name.
+ */
+function readFieldValue(
+  body: string,
+  start: number,
+  macros: Record<string, string>
+): { value: string; end: number } {
+  const parts: string[] = [];
+  let i = start;
+  for (;;) {
+    while (i < body.length && /\s/.test(body[i])) i++;
+    const ch = body[i];
+    if (ch === "{" || ch === '"') {
+      const { value, end } = readDelimited(body, i);
+      parts.push(value);
+      i = end;
+    } else {
+      const match = body.slice(i).match(/^[^\s,#}]+/);
+      const token = match?.[0] ?? "";
+      const key = token.toLowerCase();
+      parts.push(macros[key] ?? MONTH_MACROS[key] ?? token);
+      i += token.length;
+    }
+    while (i < body.length && /\s/.test(body[i])) i++;
+    if (body[i] !== "#") break;
+    i++;
+  }
+  return { value: parts.join(""), end: i };
+}
+
+function parseFields(
+  body: string,
+  macros: Record<string, string>
+): Record<string, string> {
+  const fields: Record<string, string> = {};
+  let i = 0;
+  while (i < body.length) {
+    const nameMatch = body.slice(i).match(/^[\s,]*([A-Za-z][\w:.+-]*)\s*=\s*/);
+    if (!nameMatch) break;
+    i += nameMatch[0].length;
+    const { value, end } = readFieldValue(body, i, macros);
+    fields[nameMatch[1].toLowerCase()] = value;
+    i = end;
+  }
+  return fields;
+}
+
+/**
+ * Parse a .bib file into raw entries. @string macros are expanded,
+ * @comment and @preamble blocks are skipped, and malformed entries are
+ * dropped rather than failing the whole file.
+ */
+export function parseBibTeX(input: string): BibTeXEntry[] {
+  const entries: BibTeXEntry[] = [];
+  const macros: Record<string, string> = {};
+  const entryStart = /@([A-Za-z]+)\s*([{(])/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = entryStart.exec(input)) !== null) {
+    const type = match[1].toLowerCase();
+    const openIdx = match.index + match[0].length - 1;
+
+    let body: string;
+    let end: number;
+    if (match[2] === "(") {
+      const close = input.indexOf(")", openIdx);
+      end = close === -1 ? input.length : close + 1;
+      body = input.slice(openIdx + 1, close === -1 ? undefined : close);
+    } else {
+      const delimited = readDelimited(input, openIdx);
+      body = delimited.value;
+      end = delimited.end;
+    }
+    entryStart.lastIndex = end;
+
+    if (type === "comment" || type === "preamble") continue;
+
+    if (type === "string") {
+      const fields = parseFields(body, macros);
+      for (const [name, value] of Object.entries(fields)) {
+        macros[name] = value;
+      }
+      continue;
+    }
+
+    const comma = body.indexOf(",");
+    if (comma === -1) continue;
+    const citeKey = body.slice(0, comma).trim();
+    if (!citeKey) continue;
+
+    entries.push({
+      type,
+      citeKey,
+      fields: parseFields(body.slice(comma + 1), macros),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Turn a raw BibTeX value into plain text: drop protective braces,
+ * resolve the common escapes and collapse whitespace.
+ */
+export function cleanBibTeXValue(value: string): string {
+  return value
+    .replace(/\\textemdash\b|---/g, "—")
+    .replace(/\\textendash\b|--/g, "–")
+    .replace(/\\([&%#_$])/g, "$1")
+    .replace(/\\[`'^"~=.uvHc]\{?([A-Za-z])\}?/g, "$1")
+    .replace(/\\[a-zA-Z]+\s*\{([^{}]*)\}/g, "$1")
+    .replace(/[{}]/g, "")
+    .replace(/~/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** "Last, First" -> "First Last"; "First Last" is left as-is. */
+function normalizeAuthorName(raw: string): string {
+  const parts = raw.split(",").map((p) => p.trim()).filter(Boolean);
+  if (parts.length === 2) return `${parts[1]} ${parts[0]}`;
+  if (parts.length === 3) return `${parts[2]} ${parts[0]}, ${parts[1]}`;
+  return raw.trim();
+}
+
+function toAuthors(names: string[], idPrefix: string): Author[] {
+  return names
+    .filter((name) => name && name.toLowerCase() !== "others")
+    .map((name, i) => ({
+      id: `${idPrefix}-author-${name.toLowerCase().replace(/\s+/g, "-")}-${i}`,
+      name,
+    }));
+}
+
+function parseBibAuthors(raw: string | undefined): Author[] {
+  if (!raw) return [];
+  return toAuthors(
+    raw.split(/\s+and\s+/i).map((name) => cleanBibTeXValue(normalizeAuthorName(name))),
+    "bib"
+  );
+}
+
+function extractDoi(text: string | undefined): string | undefined {
+  const doi = text?.match(DOI_RE)?.[1];
+  return doi ? doi.replace(/[.,;]+$/, "") : undefined;
+}
+
+function fallbackUrl(ids: ExternalIds): string | undefined {
+  if (ids.doi) return `https://doi.org/${ids.doi}`;
+  if (ids.arxivId) return `https://arxiv.org/abs/${ids.arxivId}`;
+  return undefined;
+}
+
+function bibExternalIds(fields: Record<string, string>): ExternalIds {
+  const ids: ExternalIds = {};
+
+  const doi = extractDoi(fields.doi ?? fields.url);
+  if (doi) ids.doi = doi;
+
+  const archive = (fields.archiveprefix ?? fields.eprinttype ?? "").toLowerCase();
+  if (fields.eprint && (archive === "arxiv" || /^\d{4}\.\d{4,5}/.test(fields.eprint))) {
+    ids.arxivId = fields.eprint.replace(/v\d+$/, "").trim();
+  } else if (fields.url) {
+    const arxivId = extractArxivId(fields.url);
+    if (arxivId) ids.arxivId = arxivId;
+  }
+
+  if (fields.pmid) ids.pubmedId = fields.pmid.trim();
+
+  return ids;
+}
+
+const BIB_PUBLICATION_TYPES: Record<string, string> = {
+  article: "JournalArticle",
+  inproceedings: "Conference",
+  conference: "Conference",
+  book: "Book",
+  incollection: "BookSection",
+  inbook: "BookSection",
+  phdthesis: "Thesis",
+  mastersthesis: "Thesis",
+  techreport: "Report",
+};
+
+/**
+ * Build a PaperMetadata record from a BibTeX entry alone. The id is left
+ * empty so paper-resolver can assign a canonical one.
+ */
+export function bibEntryToPaper(entry: BibTeXEntry): PaperMetadata {
+  const { fields } = entry;
+  const externalIds = bibExternalIds(fields);
+  const yearMatch = (fields.year ?? fields.date ?? "").match(/\d{4}/);
+  const venue = fields.journal ?? fields.journaltitle ?? fields.booktitle ?? fields.publisher;
+  const keywords = fields.keywords
+    ?.split(/[,;]/)
+    .map((k) => cleanBibTeXValue(k))
+    .filter(Boolean);
+  const publicationType = BIB_PUBLICATION_TYPES[entry.type];
+
+  return {
+    id: "",
+    externalIds,
+    title: cleanBibTeXValue(fields.title ?? "") || entry.citeKey,
+    authors: parseBibAuthors(fields.author ?? fields.editor),
+    year: yearMatch ? parseInt(yearMatch[0], 10) : undefined,
+    abstract: fields.abstract ? cleanBibTeXValue(fields.abstract) : undefined,
+    venue: venue ? cleanBibTeXValue(venue) : undefined,
+    citationCount: 0,
+    referenceCount: 0,
+    fieldsOfStudy: keywords && keywords.length > 0 ? keywords : undefined,
+    publicationTypes: publicationType ? [publicationType] : undefined,
+    url: fields.url?.trim() || fallbackUrl(externalIds),
+    citeKey: entry.citeKey,
+  };
+}
+
+// --- RIS ---
+
+export interface RISRecord {
+  type: string; // TY value, e.g. "JOUR"
+  tags: Record<string, string[]>; // every tag keeps all of its values in order
+}
+
+/**
+ * Parse an RIS export (Zotero, Mendeley, EndNote) into tagged records.
+ * Continuation lines without a tag are appended to the previous value.
+ */
+export function parseRIS(input: string): RISRecord[] {
+  const records: RISRecord[] = [];
+  let current: RISRecord | null = null;
+  let lastTag: string | null = null;
+
+  for (const rawLine of input.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const match = rawLine.match(/^([A-Z][A-Z0-9])  -(?: (.*))?$/);
+    if (!match) {
+      const continuation = rawLine.trim();
+      if (current && lastTag && continuation) {
+        const values = current.tags[lastTag];
+        values[values.length - 1] = `${values[values.length - 1]} ${continuation}`;
+      }
+      continue;
+    }
+
+    const tag = match[1];
+    const value = (match[2] ?? "").trim();
+
+    if (tag === "TY") {
+      current = { type: value.toUpperCase(), tags: {} };
+      lastTag = null;
+      continue;
+    }
+    if (!current) continue;
+    if (tag === "ER") {
+      records.push(current);
+      current = null;
+      lastTag = null;
+      continue;
+    }
+
+    (current.tags[tag] ??= []).push(value);
+    lastTag = tag;
+  }
+
+  // Tolerate a missing trailing ER
+  if (current) records.push(current);
+  return records;
+}
+
+const RIS_PUBLICATION_TYPES: Record<string, string> = {
+  JOUR: "JournalArticle",
+  JFULL: "JournalArticle",
+  EJOUR: "JournalArticle",
+  CONF: "Conference",
+  CPAPER: "Conference",
+  BOOK: "Book",
+  CHAP: "BookSection",
+  THES: "Thesis",
+  RPRT: "Report",
+};
+
+function firstTag(record: RISRecord, ...tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const value = record.tags[tag]?.find((v) => v.trim());
+    if (value) return value.trim();
+  }
+  return undefined;
+}
+
+/** Build a PaperMetadata record from one RIS record. */
+export function risRecordToPaper(record: RISRecord): PaperMetadata {
+  const authorNames = [
+    ...(record.tags.AU ?? []),
+    ...(record.tags.A1 ?? []),
+  ].map(normalizeAuthorName);
+
+  const url = firstTag(record, "UR", "L2");
+  const externalIds: ExternalIds = {};
+  const doi = extractDoi(firstTag(record, "DO", "M3") ?? url);
+  if (doi) externalIds.doi = doi;
+  const arxivId = url ? extractArxivId(url) : null;
+  if (arxivId) externalIds.arxivId = arxivId;
+  const pmid = record.tags.AN?.find((v) => /^\d+$/.test(v.trim()));
+  if (pmid) externalIds.pubmedId = pmid.trim();
+
+  const yearMatch = firstTag(record, "PY", "Y1", "DA")?.match(/\d{4}/);
+  const keywords = record.tags.KW?.map((k) => k.trim()).filter(Boolean);
+  const publicationType = RIS_PUBLICATION_TYPES[record.type];
+
+  return {
+    id: "",
+    externalIds,
+    title: firstTag(record, "TI", "T1", "CT", "BT") ?? "Untitled",
+    authors: toAuthors(authorNames, "ris"),
+    year: yearMatch ? parseInt(yearMatch[0], 10) : undefined,
+    abstract: firstTag(record, "AB", "N2"),
+    venue: firstTag(record, "T2", "JO", "JF", "JA", "J2"),
+    citationCount: 0,
+    referenceCount: 0,
+    fieldsOfStudy: keywords && keywords.length > 0 ? keywords : undefined,
+    publicationTypes: publicationType ? [publicationType] : undefined,
+    url: url || fallbackUrl(externalIds),
+    citeKey: firstTag(record, "ID"),
+  };
+}
+
+// --- CSL-JSON ---
+
+export interface CSLName {
+  family?: string;
+  given?: string;
+  literal?: string;
+}
+
+export interface CSLItem {
+  id?: string | number;
+  type?: string;
+  title?: string;
+  author?: CSLName[];
+  issued?: { "date-parts"?: Array<Array<number | string>>; raw?: string; literal?: string };
+  "container-title"?: string;
+  abstract?: string;
+  DOI?: string;
+  URL?: string;
+  PMID?: string;
+  keyword?: string;
+  "citation-key"?: string;
+  [key: string]: unknown;
+}
+
+const CSL_PUBLICATION_TYPES: Record<string, string> = {
+  "article-journal": "JournalArticle",
+  article: "JournalArticle",
+  "paper-conference": "Conference",
+  book: "Book",
+  chapter: "BookSection",
+  thesis: "Thesis",
+  report: "Report",
+};
+
+/** Parse a CSL-JSON document (an array of items, or a single item). */
+export function parseCSLJSON(input: string): CSLItem[] {
+  const parsed = JSON.parse(input) as unknown;
+  const items = Array.isArray(parsed) ? parsed : [parsed];
+  return items.filter(
+    (item): item is CSLItem => typeof item === "object" && item !== null
+  );
+}
+
+function cslYear(issued: CSLItem["issued"]): number | undefined {
+  const fromParts = issued?.["date-parts"]?.[0]?.[0];
+  if (fromParts !== undefined) {
+    const year = parseInt(String(fromParts), 10);
+    if (!Number.isNaN(year)) return year;
+  }
+  const match = (issued?.raw ?? issued?.literal)?.match(/\d{4}/);
+  return match ? parseInt(match[0], 10) : undefined;
+}
+
+/** Build a PaperMetadata record from one CSL-JSON item. */
+export function cslItemToPaper(item: CSLItem): PaperMetadata {
+  const authorNames = (item.author ?? []).map((name) =>
+    name.literal ?? [name.given, name.family].filter(Boolean).join(" ")
+  );
+
+  const externalIds: ExternalIds = {};
+  const doi = extractDoi(item.DOI ?? item.URL);
+  if (doi) externalIds.doi = doi;
+  const arxivId = item.URL ? extractArxivId(item.URL) : null;
+  if (arxivId) externalIds.arxivId = arxivId;
+  if (item.PMID) externalIds.pubmedId = String(item.PMID);
+
+  const keywords = item.keyword
+    ?.split(/[,;]/)
+    .map((k) => k.trim())
+    .filter(Boolean);
+  const publicationType = item.type ? CSL_PUBLICATION_TYPES[item.type] : undefined;
+  const citeKey = item["citation-key"] ?? (item.id !== undefined ? String(item.id) : undefined);
+
+  return {
+    id: "",
+    externalIds,
+    title: item.title?.trim() || citeKey || "Untitled",
+    authors: toAuthors(authorNames, "csl"),
+    year: cslYear(item.issued),
+    abstract: item.abstract,
+    venue: item["container-title"],
+    citationCount: 0,
+    referenceCount: 0,
+    fieldsOfStudy: keywords && keywords.length > 0 ? keywords : undefined,
+    publicationTypes: publicationType ? [publicationType] : undefined,
+    url: item.URL || fallbackUrl(externalIds),
+    citeKey,
+  };
+}
+
+// --- Dispatch ---
+
+/** Guess the format of an uploaded bibliography from its name and content. */
+export function detectImportFormat(content: string, fileName?: string): ImportFormat {
+  const ext = fileName?.split(".").pop()?.toLowerCase();
+  if (ext === "bib" || ext === "bibtex") return "bibtex";
+  if (ext === "ris") return "ris";
+  if (ext === "json") return "csl-json";
+
+  const head = content.trimStart();
+  if (head.startsWith("[") || head.startsWith("{")) return "csl-json";
+  if (/^TY {2}-/m.test(head)) return "ris";
+  return "bibtex";
+}
+
+/** Parse a bibliography file of any supported format into PaperMetadata records. */
+export function parseImportFile(format: ImportFormat, content: string): PaperMetadata[] {
+  switch (format) {
+    case "bibtex":
+      return parseBibTeX(content).map(bibEntryToPaper);
+    case "ris":
+      return parseRIS(content).map(risRecordToPaper);
+    case "csl-json":
+      return parseCSLJSON(content).map(cslItemToPaper);
+  }
+}
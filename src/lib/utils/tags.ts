@@ -0,0 +1,91 @@
+import { CLUSTER_COLORS } from "@/lib/design-tokens";
+import type { PaperNode, TagDefinition } from "@/types";
+
+export interface TagUsage {
+  name: string;
+  color: string;
+  count: number;
+  definition?: TagDefinition;
+}
+
+/** Trim and collapse whitespace; tags compare case-insensitively. */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, " ");
+}
+
+export function sameTag(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Add tags to a list, skipping case-insensitive duplicates. */
+export function mergeTagLists(existing: string[], added: string[]): string[] {
+  const result = [...existing];
+  for (const raw of added) {
+    const tag = normalizeTag(raw);
+    if (tag && !result.some((t) => sameTag(t, tag))) result.push(tag);
+  }
+  return result;
+}
+
+/** Deterministic fallback color for tags without a stored color. */
+export function defaultTagColor(name: string): string {
+  const key = name.toLowerCase();
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return CLUSTER_COLORS[Math.abs(hash) % CLUSTER_COLORS.length];
+}
+
+export function findTagDefinition(
+  definitions: TagDefinition[],
+  name: string
+): TagDefinition | undefined {
+  return definitions.find((d) => sameTag(d.name, name));
+}
+
+export function tagColor(definitions: TagDefinition[], name: string): string {
+  return findTagDefinition(definitions, name)?.color ?? defaultTagColor(name);
+}
+
+/**
+ * Every tag in the hole with its color and how many non-archived nodes carry
+ * it. Defined tags that no node uses yet are included with a count of 0.
+ */
+export function collectTagUsage(
+  nodes: Iterable<PaperNode>,
+  definitions: TagDefinition[]
+): TagUsage[] {
+  const usage = new Map<string, TagUsage>();
+  const entryFor = (name: string) => {
+    const key = name.toLowerCase();
+    let entry = usage.get(key);
+    if (!entry) {
+      const definition = findTagDefinition(definitions, name);
+      entry = {
+        name: definition?.name ?? name,
+        color: definition?.color ?? defaultTagColor(name),
+        count: 0,
+        definition,
+      };
+      usage.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const def of definitions) entryFor(def.name);
+  for (const node of nodes) {
+    if (node.state === "archived") continue;
+    for (const tag of node.userTags ?? []) entryFor(tag).count += 1;
+  }
+
+  return Array.from(usage.values()).sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+  );
+}
+
+/** True when the node carries any of the filter tags (or no filter is set). */
+export function matchesTagFilter(node: PaperNode, filter: string[]): boolean {
+  if (filter.length === 0) return true;
+  return (node.userTags ?? []).some((t) => filter.some((f) => sameTag(f, t)));
+}
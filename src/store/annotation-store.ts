@@ -0,0 +1,60 @@
+"use client";
+
+import { create } from "zustand";
+import type { Annotation } from "@/types";
+
+interface AnnotationStoreState {
+  /** Annotations per rabbit hole, oldest first. */
+  byHole: Record<string, Annotation[]>;
+
+  hydrateHole: (rabbitHoleId: string, annotations: Annotation[]) => void;
+  upsertAnnotation: (rabbitHoleId: string, annotation: Annotation) => void;
+  removeAnnotation: (rabbitHoleId: string, annotationId: string) => void;
+  clearHole: (rabbitHoleId: string) => void;
+}
+
+function sortAnnotations(annotations: Annotation[]): Annotation[] {
+  return [...annotations].sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export const useAnnotationStore = create<AnnotationStoreState>()((set) => ({
+  byHole: {},
+
+  hydrateHole: (rabbitHoleId, annotations) =>
+    set((state) => ({
+      byHole: { ...state.byHole, [rabbitHoleId]: sortAnnotations(annotations) },
+    })),
+
+  upsertAnnotation: (rabbitHoleId, annotation) =>
+    set((state) => {
+      const existing = state.byHole[rabbitHoleId] ?? [];
+      return {
+        byHole: {
+          ...state.byHole,
+          [rabbitHoleId]: sortAnnotations([
+            ...existing.filter((a) => a.id !== annotation.id),
+            annotation,
+          ]),
+        },
+      };
+    }),
+
+  removeAnnotation: (rabbitHoleId, annotationId) =>
+    set((state) => {
+      const existing = state.byHole[rabbitHoleId];
+      if (!existing) return state;
+      return {
+        byHole: {
+          ...state.byHole,
+          [rabbitHoleId]: existing.filter((a) => a.id !== annotationId),
+        },
+      };
+    }),
+
+  clearHole: (rabbitHoleId) =>
+    set((state) => {
+      const next = { ...state.byHole };
+      delete next[rabbitHoleId];
+      return { byHole: next };
+    }),
+}));
@@ -3,9 +3,11 @@ import type {
   PaperNode,
   GraphEdge,
   Cluster,
+  TagDefinition,
   WeightConfig,
   NodeState,
   NodeScores,
+  NodeArchive,
 } from "@/types";
 import { DEFAULT_WEIGHTS } from "@/types";
 import {
@@ -22,6 +24,8 @@ interface GraphState {
   nodes: Map<string, PaperNode>;
   edges: GraphEdge[];
   clusters: Cluster[];
+  /** Tag colors etc. for the current hole; node tags live on PaperNode.userTags */
+  tagDefinitions: TagDefinition[];
   weights: WeightConfig;
   selectedNodeId: string | null;
   selectedNodeIds: Set<string>;
@@ -38,6 +42,7 @@ interface GraphState {
   removeNodes: (nodeIds: string[]) => void;
   addEdges: (edges: GraphEdge[]) => void;
   removeEdges: (edgeIds: string[]) => void;
+  updateEdge: (edgeId: string, patch: Partial<Omit<GraphEdge, "id" | "source" | "target">>) => void;
   updateNodeState: (nodeId: string, state: NodeState) => void;
   updateNodeScores: (nodeId: string, scores: Partial<NodeScores>) => void;
   setWeights: (weights: WeightConfig) => void;
@@ -55,6 +60,11 @@ interface GraphState {
   setLoading: (loading: boolean) => void;
   clearGraph: () => void;
   setClusters: (clusters: Cluster[]) => void;
+  setTagDefinitions: (definitions: TagDefinition[]) => void;
+  upsertTagDefinition: (definition: TagDefinition) => void;
+  removeTagDefinition: (tagId: string) => void;
+  setNodeTags: (nodeId: string, tags: string[]) => void;
+  setNodeArchive: (nodeId: string, archive: NodeArchive | undefined) => void;
   recalculateScores: () => void;
   recalculateClusters: () => void;
   updateNodePositions: (positions: Map<string, { x: number; y: number }>) => void;
@@ -76,6 +86,7 @@ export const useGraphStore = create<GraphState>()((set, get) => ({
   nodes: new Map(),
   edges: [],
   clusters: [],
+  tagDefinitions: [],
   weights: DEFAULT_WEIGHTS,
   selectedNodeId: null,
   selectedNodeIds: new Set(),
@@ -142,6 +153,11 @@ export const useGraphStore = create<GraphState>()((set, get) => ({
       return { edges: state.edges.filter((e) => !removeSet.has(e.id)) };
     }),
 
+  updateEdge: (edgeId, patch) =>
+    set((state) => ({
+      edges: state.edges.map((e) => (e.id === edgeId ? { ...e, ...patch } : e)),
+    })),
+
   updateNodeState: (nodeId, newState) =>
     set((state) => {
       const node = state.nodes.get(nodeId);
@@ -301,6 +317,39 @@ export const useGraphStore = create<GraphState>()((set, get) => ({
 
   setClusters: (clusters) => set({ clusters }),
 
+  setTagDefinitions: (tagDefinitions) => set({ tagDefinitions }),
+
+  upsertTagDefinition: (definition) =>
+    set((state) => ({
+      tagDefinitions: [
+        ...state.tagDefinitions.filter((d) => d.id !== definition.id),
+        definition,
+      ],
+    })),
+
+  removeTagDefinition: (tagId) =>
+    set((state) => ({
+      tagDefinitions: state.tagDefinitions.filter((d) => d.id !== tagId),
+    })),
+
+  setNodeTags: (nodeId, tags) =>
+    set((state) => {
+      const node = state.nodes.get(nodeId);
+      if (!node) return state;
+      const nodes = new Map(state.nodes);
+      nodes.set(nodeId, { ...node, userTags: tags.length > 0 ? tags : undefined });
+      return { nodes };
+    }),
+
+  setNodeArchive: (nodeId, archive) =>
+    set((state) => {
+      const node = state.nodes.get(nodeId);
+      if (!node) return state;
+      const nodes = new Map(state.nodes);
+      nodes.set(nodeId, { ...node, archive });
+      return { nodes };
+    }),
+
   recalculateScores: () =>
     set((state) => {
       const nodes = new Map(state.nodes);
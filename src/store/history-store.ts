@@ -2,8 +2,12 @@ import { create } from "zustand";
 
 const MAX_HISTORY = 50;
 
+export type HistorySource = "chat" | "canvas" | "system";
+
 export interface HistoryEntry {
   description: string;
+  source: HistorySource;
+  createdAt: number;
   undo: () => void;
   redo: () => void;
 }
@@ -11,7 +15,7 @@ export interface HistoryEntry {
 interface HistoryState {
   past: HistoryEntry[];
   future: HistoryEntry[];
-  push: (entry: HistoryEntry) => void;
+  push: (entry: Omit<HistoryEntry, "createdAt">) => void;
   undo: () => void;
   redo: () => void;
   canUndo: () => boolean;
@@ -25,7 +29,7 @@ export const useHistoryStore = create<HistoryState>()((set, get) => ({
 
   push: (entry) =>
     set((state) => ({
-      past: [...state.past.slice(-MAX_HISTORY + 1), entry],
+      past: [...state.past.slice(-MAX_HISTORY + 1), { ...entry, createdAt: Date.now() }],
       future: [],
     })),
 
@@ -8,6 +8,10 @@ export interface RabbitHole {
   id: string;
   name: string;
   rootQuery?: string;
+  /** The hole this one was forked from */
+  parentId?: string;
+  /** Archived nodes older than this many days are deleted on load; unset = keep */
+  archivePurgeDays?: number;
   createdAt: number; // ms
   updatedAt: number; // ms
 }
@@ -0,0 +1,54 @@
+"use client";
+
+import { create } from "zustand";
+import type { SavedSearch } from "@/types";
+
+interface SavedSearchStoreState {
+  /** Saved searches per rabbit hole, oldest first. */
+  byHole: Record<string, SavedSearch[]>;
+
+  hydrateHole: (rabbitHoleId: string, searches: SavedSearch[]) => void;
+  upsertSavedSearch: (rabbitHoleId: string, search: SavedSearch) => void;
+  removeSavedSearch: (rabbitHoleId: string, searchId: string) => void;
+}
+
+function sortSearches(searches: SavedSearch[]): SavedSearch[] {
+  return [...searches].sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export const useSavedSearchStore = create<SavedSearchStoreState>()((set) => ({
+  byHole: {},
+
+  hydrateHole: (rabbitHoleId, searches) =>
+    set((state) => ({
+      byHole: { ...state.byHole, [rabbitHoleId]: sortSearches(searches) },
+    })),
+
+  upsertSavedSearch: (rabbitHoleId, search) =>
+    set((state) => {
+      const existing = state.byHole[rabbitHoleId] ?? [];
+      return {
+        byHole: {
+          ...state.byHole,
+          [rabbitHoleId]: sortSearches([...existing.filter((s) => s.id !== search.id), search]),
+        },
+      };
+    }),
+
+  removeSavedSearch: (rabbitHoleId, searchId) =>
+    set((state) => {
+      const existing = state.byHole[rabbitHoleId];
+      if (!existing) return state;
+      return {
+        byHole: {
+          ...state.byHole,
+          [rabbitHoleId]: existing.filter((s) => s.id !== searchId),
+        },
+      };
+    }),
+}));
+
+/** Unreviewed results across a hole's saved searches, for the TopBar badge. */
+export function countNewResults(searches: SavedSearch[] | undefined): number {
+  return (searches ?? []).reduce((sum, s) => sum + s.newIds.length, 0);
+}
@@ -0,0 +1,49 @@
+import { create } from "zustand";
+import type { ReplayStep } from "@/lib/graph/replay";
+
+type TimeTravelStatus = "idle" | "loading" | "ready" | "error";
+
+interface TimeTravelState {
+  status: TimeTravelStatus;
+  rabbitHoleId: string | null;
+  steps: ReplayStep[];
+  /** Last replayed step; -1 shows the empty graph */
+  stepIndex: number;
+  playing: boolean;
+  error: string | null;
+
+  start: (rabbitHoleId: string) => void;
+  load: (steps: ReplayStep[]) => void;
+  fail: (error: string) => void;
+  setStepIndex: (index: number) => void;
+  setPlaying: (playing: boolean) => void;
+  exit: () => void;
+}
+
+const INITIAL = {
+  status: "idle" as TimeTravelStatus,
+  rabbitHoleId: null,
+  steps: [],
+  stepIndex: -1,
+  playing: false,
+  error: null,
+};
+
+export const useTimeTravelStore = create<TimeTravelState>()((set) => ({
+  ...INITIAL,
+
+  start: (rabbitHoleId) => set({ ...INITIAL, status: "loading", rabbitHoleId }),
+
+  load: (steps) => set({ status: "ready", steps, stepIndex: steps.length - 1 }),
+
+  fail: (error) => set({ status: "error", error }),
+
+  setStepIndex: (index) =>
+    set((state) => ({
+      stepIndex: Math.max(-1, Math.min(index, state.steps.length - 1)),
+    })),
+
+  setPlaying: (playing) => set({ playing }),
+
+  exit: () => set(INITIAL),
+}));
@@ -1,6 +1,6 @@
 import { create } from "zustand";
 
-type RightPanel = "reader" | "export" | "frontier" | "timeline" | null;
+type RightPanel = "reader" | "export" | "frontier" | "timeline" | "archive" | null;
 type CurrentView = "graph" | "list" | "timeline";
 
 interface UIState {
@@ -12,6 +12,13 @@ interface UIState {
   weightsPanelOpen: boolean;
   addSourceOpen: boolean;
   addSourceInitialUrl: string | null;
+  importOpen: boolean;
+  canvasExportOpen: boolean;
+  tagManagerOpen: boolean;
+  mergeHolesOpen: boolean;
+  duplicatesOpen: boolean;
+  /** Tags shown in the paper list and highlighted on the canvas; empty = no filter */
+  tagFilter: string[];
   currentView: CurrentView;
   contextMenuPosition: { x: number; y: number } | null;
 
@@ -26,6 +33,18 @@ interface UIState {
   toggleWeights: () => void;
   openAddSource: (initialUrl?: string) => void;
   closeAddSource: () => void;
+  openImport: () => void;
+  closeImport: () => void;
+  openCanvasExport: () => void;
+  closeCanvasExport: () => void;
+  openTagManager: () => void;
+  closeTagManager: () => void;
+  openMergeHoles: () => void;
+  closeMergeHoles: () => void;
+  openDuplicates: () => void;
+  closeDuplicates: () => void;
+  setTagFilter: (tags: string[]) => void;
+  toggleTagFilter: (tag: string) => void;
   setCurrentView: (view: CurrentView) => void;
   setContextMenuPosition: (pos: { x: number; y: number } | null) => void;
 }
@@ -39,6 +58,12 @@ export const useUIStore = create<UIState>()((set) => ({
   weightsPanelOpen: false,
   addSourceOpen: false,
   addSourceInitialUrl: null,
+  importOpen: false,
+  canvasExportOpen: false,
+  tagManagerOpen: false,
+  mergeHolesOpen: false,
+  duplicatesOpen: false,
+  tagFilter: [],
   currentView: "graph",
   contextMenuPosition: null,
 
@@ -71,6 +96,33 @@ export const useUIStore = create<UIState>()((set) => ({
   closeAddSource: () =>
     set({ addSourceOpen: false, addSourceInitialUrl: null }),
 
+  openImport: () => set({ importOpen: true }),
+  closeImport: () => set({ importOpen: false }),
+
+  openCanvasExport: () => set({ canvasExportOpen: true }),
+  closeCanvasExport: () => set({ canvasExportOpen: false }),
+
+  openTagManager: () => set({ tagManagerOpen: true }),
+  closeTagManager: () => set({ tagManagerOpen: false }),
+
+  openMergeHoles: () => set({ mergeHolesOpen: true }),
+  closeMergeHoles: () => set({ mergeHolesOpen: false }),
+
+  openDuplicates: () => set({ duplicatesOpen: true }),
+  closeDuplicates: () => set({ duplicatesOpen: false }),
+
+  setTagFilter: (tags) => set({ tagFilter: tags }),
+  toggleTagFilter: (tag) =>
+    set((state) => {
+      const key = tag.toLowerCase();
+      const active = state.tagFilter.some((t) => t.toLowerCase() === key);
+      return {
+        tagFilter: active
+          ? state.tagFilter.filter((t) => t.toLowerCase() !== key)
+          : [...state.tagFilter, tag],
+      };
+    }),
+
   setCurrentView: (view) => set({ currentView: view }),
 
   setContextMenuPosition: (pos) => set({ contextMenuPosition: pos }),
@@ -56,10 +56,14 @@ interface WorkflowState {
   removePendingAction: (actionId: string) => void;
   clearPendingActions: () => void;
   addAppliedChange: (event: AppliedChangeEvent) => void;
+  mergeAppliedChanges: (rabbitHoleId: string, events: AppliedChangeEvent[]) => void;
   resetCurrentWorkflow: () => void;
+  importSnapshot: (rabbitHoleId: string, snapshot: Partial<RabbitHoleWorkflowSnapshot>) => void;
   getCurrentWorkflow: () => RabbitHoleWorkflowSnapshot;
 }
 
+const MAX_APPLIED_CHANGES = 200;
+
 const DEFAULT_LAYERS: Record<RabbitHoleLayer, LayerStatus> = {
   0: "pending",
   1: "pending",
@@ -234,10 +238,26 @@ export const useWorkflowStore = create<WorkflowState>()(
         set((state) => ({
           byHole: withCurrent(state, (current) => ({
             ...current,
-            appliedChanges: [event, ...current.appliedChanges].slice(0, 200),
+            appliedChanges: [event, ...current.appliedChanges].slice(0, MAX_APPLIED_CHANGES),
           })),
         })),
 
+      mergeAppliedChanges: (rabbitHoleId, events) =>
+        set((state) => {
+          const current = state.byHole[rabbitHoleId] ?? newSnapshot();
+          const byId = new Map(current.appliedChanges.map((e) => [e.id, e]));
+          for (const event of events) byId.set(event.id, event);
+          const appliedChanges = Array.from(byId.values())
+            .sort((a, b) => b.createdAt - a.createdAt)
+            .slice(0, MAX_APPLIED_CHANGES);
+          return {
+            byHole: {
+              ...state.byHole,
+              [rabbitHoleId]: { ...current, appliedChanges },
+            },
+          };
+        }),
+
       resetCurrentWorkflow: () =>
         set((state) => {
           const holeId = state.activeRabbitHoleId;
@@ -250,6 +270,18 @@ export const useWorkflowStore = create<WorkflowState>()(
           };
         }),
 
+      importSnapshot: (rabbitHoleId, snapshot) =>
+        set((state) => ({
+          byHole: {
+            ...state.byHole,
+            [rabbitHoleId]: {
+              ...newSnapshot(),
+              ...snapshot,
+              pendingActions: [],
+            },
+          },
+        })),
+
       getCurrentWorkflow: () => {
         const state = get();
         if (!state.activeRabbitHoleId) return EMPTY_WORKFLOW_SNAPSHOT;
@@ -20,6 +20,13 @@ export interface Author {
   url?: string;
 }
 
+export interface PaperFunder {
+  name: string;
+  /** Crossref Funder Registry DOI */
+  doi?: string;
+  awards?: string[];
+}
+
 export interface PaperMetadata {
   id: string; // Internal canonical ID
   externalIds: ExternalIds;
@@ -29,6 +36,13 @@ export interface PaperMetadata {
   abstract?: string;
   tldr?: string;
   venue?: string;
+  // Bibliographic detail, authoritative from Crossref when the paper has a DOI
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  publisher?: string;
+  license?: string; // license URL
+  funders?: PaperFunder[];
   citationCount: number;
   referenceCount: number;
   influentialCitationCount?: number;
@@ -46,6 +60,10 @@ export interface PaperMetadata {
   // Pre-fetched content (filled in by the add-source pipeline)
   fetchedContent?: string;
   contentTruncated?: boolean;
+  // Cite key carried over from an imported bibliography so exports keep it
+  citeKey?: string;
+  // Ids of duplicate nodes merged into this one; inserts under them resolve here
+  aliasIds?: string[];
 }
 
 export type NodeState = "discovered" | "enriched" | "materialized" | "archived";
@@ -61,6 +79,26 @@ export interface PaperNode {
   expandedAt?: number;
   userNotes?: string;
   userTags?: string[];
+  /** Set while the node sits in the archive */
+  archive?: NodeArchive;
+}
+
+/** How a node came to be archived, kept so it can be restored. */
+export interface NodeArchive {
+  archivedAt: number;
+  /** State to return to on restore */
+  previousState: NodeState;
+  source: "chat" | "canvas" | "system";
+  /** Edges detached on archive; reattached on restore */
+  edges: GraphEdge[];
+}
+
+/** Hole-level tag metadata; nodes reference tags by name. */
+export interface TagDefinition {
+  id: string;
+  name: string;
+  color?: string;
+  createdAt: number;
 }
 
 export interface NodeScores {
@@ -172,33 +210,100 @@ export interface FrontierResult {
 
 // --- Search Types ---
 
+export interface SearchFilters {
+  yearMin?: number;
+  yearMax?: number;
+  fieldsOfStudy?: string[];
+  minCitations?: number;
+  openAccessOnly?: boolean;
+}
+
+export type SearchFilterKey = keyof SearchFilters;
+
 export interface SearchQuery {
   text: string;
-  filters?: {
-    yearMin?: number;
-    yearMax?: number;
-    fieldsOfStudy?: string[];
-    minCitations?: number;
-    openAccessOnly?: boolean;
-  };
+  filters?: SearchFilters;
 }
 
+export type SearchMode = "auto" | "instant" | "deep" | "federated";
+
+export type SearchProvider = "exa" | "semantic-scholar" | "openalex" | "arxiv" | "pubmed";
+
+export const SEARCH_PROVIDER_LABELS: Record<SearchProvider, string> = {
+  exa: "Exa",
+  "semantic-scholar": "Semantic Scholar",
+  openalex: "OpenAlex",
+  arxiv: "arXiv",
+  pubmed: "PubMed",
+};
+
+/** Federated search queries these unless told otherwise; PubMed is opt-in. */
+export const DEFAULT_SEARCH_PROVIDERS: SearchProvider[] = ["exa", "semantic-scholar", "openalex", "arxiv"];
+
 export interface SearchResult {
   papers: PaperMetadata[];
   query: string;
-  source: "exa" | "semantic-scholar" | "openalex";
+  source: SearchProvider | "federated";
+  /** Federated search: the providers that returned each paper, by paper id */
+  providers?: Record<string, SearchProvider[]>;
+  /** Federated search: providers that failed, with their error message */
+  failedProviders?: Partial<Record<SearchProvider, string>>;
+  /** How each queried provider honoured the active filters */
+  appliedFilters?: Partial<Record<SearchProvider, AppliedFilters>>;
+}
+
+/**
+ * Filters a provider applied in its own query (`native`) versus ones the
+ * route enforced on its results afterwards (`postFiltered`), and ones it
+ * couldn't enforce because the provider doesn't report the field (`unenforced`).
+ */
+export interface AppliedFilters {
+  native: SearchFilterKey[];
+  postFiltered: SearchFilterKey[];
+  unenforced: SearchFilterKey[];
+}
+
+/** A web search kept on a rabbit hole's watch list and re-run to find new papers. */
+export interface SavedSearch {
+  id: string;
+  query: string;
+  mode: SearchMode;
+  domains: string[];
+  filters: SearchFilters;
+  /** Federated mode: providers to query */
+  providers?: SearchProvider[];
+  /** Paper ids of every result someone has already looked at */
+  seenIds: string[];
+  /** Paper ids found by scheduled runs that nobody has looked at yet */
+  newIds: string[];
+  /** Re-run this often while the app is open; unset = manual only */
+  intervalHours?: number;
+  lastRunAt?: number;
+  createdAt: number;
+  updatedAt: number;
 }
 
 // --- Annotation Types ---
 
+export type AnnotationType = "method" | "assumption" | "result" | "limitation" | "key-claim";
+
+export const ANNOTATION_TYPE_LABELS: Record<AnnotationType, string> = {
+  method: "Method",
+  assumption: "Assumption",
+  result: "Result",
+  limitation: "Limitation",
+  "key-claim": "Key claim",
+};
+
 export interface Annotation {
   id: string;
-  paperId: string;
+  paperId: string; // node id the highlight was taken from
   text: string; // highlighted text
   note?: string;
   tags: string[];
-  type?: "method" | "assumption" | "result" | "limitation" | "key-claim";
+  type?: AnnotationType;
   createdAt: number;
+  updatedAt?: number;
 }
 
 // --- Rabbit Hole Workflow Types ---
@@ -262,6 +367,29 @@ export interface AppliedChangeEvent {
   createdAt: number;
 }
 
+// --- Graph History Types ---
+
+/** One persisted graph mutation; replaying a hole's ops in order rebuilds its graph. */
+export type GraphOpPayload =
+  | { type: "add-nodes"; nodes: PaperNode[] }
+  | { type: "remove-nodes"; nodeIds: string[] }
+  | { type: "add-edges"; edges: GraphEdge[] }
+  | { type: "remove-edges"; edgeIds: string[] }
+  | { type: "edge-update"; edge: GraphEdge }
+  | { type: "node-state"; nodeId: string; state: NodeState }
+  | { type: "node-positions"; positions: Record<string, { x: number; y: number }> }
+  | { type: "node-data"; nodeId: string; data: PaperMetadata }
+  | { type: "node-tags"; nodeId: string; tags: string[] }
+  | { type: "clusters"; clusters: Cluster[] }
+  | { type: "clear" };
+
+export type GraphOp = GraphOpPayload & {
+  id: string;
+  rabbitHoleId: string;
+  seq: number;
+  createdAt: number;
+};
+
 // --- Chat Threading Types ---
 
 export interface ChatThread {
@@ -298,6 +426,12 @@ export type GraphCommandIntent =
       source?: "chat" | "canvas" | "system";
       evidenceCardId?: string;
     }
+  | {
+      type: "add-nodes";
+      papers: PaperMetadata[];
+      materialize?: boolean;
+      source?: "chat" | "canvas" | "system";
+    }
   | {
       type: "connect-nodes";
       sourceId: string;
@@ -308,6 +442,17 @@ export type GraphCommandIntent =
       evidence?: string;
       source?: "chat" | "canvas" | "system";
     }
+  | {
+      type: "update-edge";
+      edgeId: string;
+      edgeType?: EdgeType;
+      trust?: EdgeTrust;
+      weight?: number;
+      evidence?: string;
+      /** Required when promoting an inferred edge to source-backed */
+      citationUrl?: string;
+      source?: "chat" | "canvas" | "system";
+    }
   | {
       type: "expand-node";
       nodeId: string;
@@ -326,6 +471,16 @@ export type GraphCommandIntent =
       nodeId: string;
       source?: "chat" | "canvas" | "system";
     }
+  | {
+      type: "merge-duplicates";
+      groups: { primaryId: string; duplicateIds: string[] }[];
+      source?: "chat" | "canvas" | "system";
+    }
+  | {
+      type: "restore-nodes";
+      nodeIds: string[];
+      source?: "chat" | "canvas" | "system";
+    }
   | {
       type: "relayout";
       source?: "chat" | "canvas" | "system";
@@ -344,6 +499,13 @@ export type GraphCommandIntent =
       type: "save-for-later";
       evidenceCardId: string;
       source?: "chat" | "canvas" | "system";
+    }
+  | {
+      type: "tag-nodes";
+      nodeIds: string[];
+      addTags?: string[];
+      removeTags?: string[];
+      source?: "chat" | "canvas" | "system";
     };
 
 export interface GraphCommandResult {
@@ -396,7 +558,20 @@ export interface Project {
 
 // --- Export Types ---
 
-export type ExportFormat = "bibtex" | "ris" | "json" | "markdown" | "obsidian";
+export type ExportFormat =
+  | "bibtex"
+  | "ris"
+  | "csl-json"
+  | "citation"
+  | "json"
+  | "markdown"
+  | "obsidian"
+  | "graphml"
+  | "gexf"
+  | "latex"
+  | "rodeo";
+
+export type CitationStyle = "apa" | "mla" | "chicago" | "ieee";
 
 export interface ExportRequest {
   format: ExportFormat;
@@ -405,6 +580,50 @@ export interface ExportRequest {
   clusterId?: string;
 }
 
+// --- Import Types ---
+
+export type ImportFormat = "bibtex" | "ris" | "csl-json";
+
+export interface UnresolvedImportEntry {
+  citeKey?: string;
+  title: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  format: ImportFormat;
+  papers: PaperMetadata[]; // resolved + fallback papers, in file order
+  unresolved: UnresolvedImportEntry[];
+  total: number;
+}
+
+// --- Bulk Identifier Types ---
+
+export type IdentifierKind = "doi" | "arxiv" | "pmid" | "url";
+
+export interface ParsedIdentifier {
+  input: string; // token as pasted
+  kind: IdentifierKind | null; // null when unrecognised
+  value: string; // normalised id (bare DOI, arXiv id, PMID or URL)
+}
+
+export interface BulkIdentifierRow extends ParsedIdentifier {
+  status: "resolved" | "not-found" | "invalid";
+  source?: "semantic-scholar" | "openalex";
+  paper?: PaperMetadata;
+}
+
+// --- PDF Upload Types ---
+
+export interface PdfUploadResult {
+  nodeId: string;
+  paper: PaperMetadata; // openAccessPdf points at the stored upload
+  resolved: boolean; // matched in Semantic Scholar or OpenAlex
+  content: string; // extracted text, capped for node_content
+  contentTruncated: boolean;
+  pages: number;
+}
+
 // --- API Response Types ---
 
 export interface ApiResponse<T> {
@@ -420,6 +639,9 @@ export type GraphNodeData = {
   state: NodeState;
   scores: NodeScores;
   clusterId?: string;
+  tags?: { name: string; color: string }[];
+  /** Faded out because it does not match the active tag filter */
+  isDimmed?: boolean;
   isSelected?: boolean;
   isMultiSelected?: boolean;
   isExpanding?: boolean;